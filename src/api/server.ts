@@ -0,0 +1,546 @@
+/**
+ * REST API Server
+ *
+ * Small HTTP server exposing prices, futures curves, price history and
+ * forecasts as JSON for dashboards and other consumers. Wraps
+ * YahooFinanceService and AnalysisService (PriceDataService and
+ * ForecastService); responses use the existing CommodityData,
+ * FuturesCurve, HistoricalData and CommodityAnalysis shapes.
+ *
+ * Endpoints:
+ *   GET  /health
+ *   GET  /commodities
+ *   GET  /prices/:symbol
+ *   GET  /curves/:symbol?contracts=8
+ *   GET  /history/:symbol?range=1y&interval=1d
+ *   POST /forecasts  { symbol, horizons?, method?, model?, interpolation?, useStructuredOutput?, includeTechnicalIndicators? }
+ *
+ * Usage:
+ *   npm run server   (PORT, default 3000; HOST, default 127.0.0.1; CORS_ORIGIN, default none)
+ *
+ * @author REST API Server Module
+ * @version 1.0.0
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { config } from 'dotenv';
+import { FORECAST_HORIZONS, ForecastData } from '../types/commodity';
+import {
+  COMMODITY_SYMBOLS,
+  CommoditySymbolKey,
+  TIME_CONFIG,
+  TimeInterval,
+  TimeRange,
+  resolveCommodityKey
+} from '../config/yahoo-finance';
+import {
+  AnalysisService,
+  AnalysisServiceError,
+  AnalysisServiceException,
+  createAnalysisService
+} from '../services/analysis-service';
+import {
+  YahooFinanceService,
+  YahooFinanceServiceError,
+  YahooFinanceServiceException,
+  getYahooFinanceService
+} from '../services/yahoo-finance-service';
+import { ForecastMethod } from '../services/forecast-service';
+import { FuturesMapper } from '../utils/futures-mapper';
+import { STATISTICAL_MODELS, StatisticalModel } from '../utils/statistical-forecasters';
+import { CURVE_INTERPOLATION_METHODS, CurveInterpolationMethod } from '../utils/curve-interpolation';
+import { createForecastArchive } from '../utils/forecast-archive';
+import { Logger, consoleLogger, silentLogger } from '../utils/logger';
+
+/**
+ * API server defaults
+ */
+const API_SERVER_DEFAULTS = {
+  PORT: 3000,
+  HOST: '127.0.0.1',
+  MAX_BODY_BYTES: 1024 * 1024,
+  CURVE_CONTRACTS: 8,
+  HISTORY_RANGE: '1y',
+  HISTORY_INTERVAL: '1d'
+} as const;
+
+/**
+ * Forecast method names accepted by POST /forecasts
+ */
+const METHOD_ALIASES: Record<string, ForecastMethod> = {
+  consensus: 'hybrid',
+  hybrid: 'hybrid',
+  websearch: 'web-search',
+  'web-search': 'web-search',
+  statistical: 'statistical',
+  ensemble: 'ensemble'
+};
+
+/**
+ * API server options
+ */
+export interface ApiServerOptions {
+  /** Analysis service for prices and forecasts (default: from OPENAI_API_KEY, archiving forecasts) */
+  analysisService?: AnalysisService;
+  /** Yahoo Finance service for curves and history (default: singleton) */
+  yahooFinanceService?: YahooFinanceService;
+  /** Logger for request logging (default: silent) */
+  logger?: Logger;
+  /** Origin allowed to call the API from a browser, or '*' (default: no CORS headers) */
+  corsOrigin?: string;
+}
+
+/**
+ * POST /forecasts request body
+ */
+export interface ForecastRequestBody {
+  /** Commodity key, Yahoo symbol or name */
+  symbol: string;
+  /** Horizons as keys ('3-month') or months (3) (default: all) */
+  horizons?: Array<ForecastData['horizon'] | number>;
+  /** 'consensus' / 'hybrid', 'websearch' / 'web-search', 'statistical' or 'ensemble' (default: consensus) */
+  method?: string;
+  /** Statistical model for method 'statistical' (default: FORECASTING_CONFIG.STATISTICAL.DEFAULT_MODEL) */
+  model?: string;
+  /** Curve interpolation for consensus prices: 'linear', 'cubic-spline', 'nelson-siegel' or 'none' (default: linear) */
+  interpolation?: string;
+  /** Request typed JSON forecasts from the model */
+  useStructuredOutput?: boolean;
+  /** Add a technical indicator snapshot to the analysis */
+  includeTechnicalIndicators?: boolean;
+}
+
+/**
+ * HTTP error with status code
+ */
+export class ApiError extends Error {
+  public readonly statusCode: number;
+  public readonly errorType: string;
+
+  constructor(statusCode: number, errorType: string, message: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.statusCode = statusCode;
+    this.errorType = errorType;
+  }
+}
+
+/**
+ * Route handler
+ */
+type RouteHandler = (params: string[], query: URLSearchParams, req: IncomingMessage) => Promise<unknown>;
+
+/**
+ * Route definition
+ */
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  handler: RouteHandler;
+}
+
+/**
+ * REST API Server for prices, curves and forecasts
+ */
+export class ApiServer {
+  private analysisService: AnalysisService;
+  private yahooFinanceService: YahooFinanceService;
+  private logger: Logger;
+  private corsOrigin: string | undefined;
+  private routes: Route[];
+  private server: Server;
+
+  constructor(options: ApiServerOptions = {}) {
+    this.logger = options.logger || silentLogger;
+    this.corsOrigin = options.corsOrigin;
+    this.analysisService = options.analysisService || createAnalysisService({
+      logger: this.logger,
+      forecastArchive: createForecastArchive()
+    });
+    this.yahooFinanceService = options.yahooFinanceService || getYahooFinanceService();
+
+    this.routes = [
+      { method: 'GET', pattern: /^\/health$/, handler: () => this.getHealth() },
+      { method: 'GET', pattern: /^\/commodities$/, handler: async () => this.getCommodities() },
+      { method: 'GET', pattern: /^\/prices\/([^/]+)$/, handler: params => this.getPrice(params[0]!) },
+      { method: 'GET', pattern: /^\/curves\/([^/]+)$/, handler: (params, query) => this.getCurve(params[0]!, query) },
+      { method: 'GET', pattern: /^\/history\/([^/]+)$/, handler: (params, query) => this.getHistory(params[0]!, query) },
+      { method: 'POST', pattern: /^\/forecasts$/, handler: (_params, _query, req) => this.createForecast(req) }
+    ];
+
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        this.logger.error(`❌ ${req.method} ${req.url} failed:`, error instanceof Error ? error.message : error);
+        if (!res.headersSent) {
+          res.writeHead(500);
+        }
+        res.end();
+      });
+    });
+  }
+
+  /**
+   * Start listening
+   *
+   * @param port - Port to listen on (0 for a random port)
+   * @param host - Host to bind
+   * @returns Promise resolving to the bound address
+   */
+  listen(port: number = API_SERVER_DEFAULTS.PORT, host: string = API_SERVER_DEFAULTS.HOST): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        const address = this.server.address() as AddressInfo;
+        this.logger.log(`✅ API server listening on http://${address.address}:${address.port}`);
+        resolve(address);
+      });
+    });
+  }
+
+  /**
+   * Stop the server
+   *
+   * @returns Promise resolving when all connections are closed
+   */
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.close(error => (error ? reject(error) : resolve()));
+    });
+  }
+
+  /**
+   * Get the underlying Node HTTP server
+   *
+   * @returns HTTP server instance
+   */
+  getServer(): Server {
+    return this.server;
+  }
+
+  /**
+   * Dispatch a request to its route and write the JSON response
+   *
+   * @param req - Incoming request
+   * @param res - Server response
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const startTime = Date.now();
+    const target = req.url || '/';
+    const method = req.method || 'GET';
+
+    if (this.corsOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', this.corsOrigin);
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+
+    let statusCode = 200;
+    let body: unknown;
+
+    try {
+      const url = this.parseUrl(target);
+
+      if (method === 'OPTIONS') {
+        statusCode = 204;
+      } else {
+        const path = url.pathname.replace(/\/+$/, '') || '/';
+        const matches = this.routes
+          .map(route => ({ route, match: route.pattern.exec(path) }))
+          .filter(({ match }) => match !== null);
+
+        if (matches.length === 0) {
+          throw new ApiError(404, 'NOT_FOUND', `No route for ${path}`);
+        }
+
+        const matched = matches.find(({ route }) => route.method === method);
+        if (!matched) {
+          res.setHeader('Allow', matches.map(({ route }) => route.method).join(', '));
+          throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${method} not allowed for ${path}`);
+        }
+
+        const params = matched.match!.slice(1).map(param => this.decodePathParam(param));
+        body = await matched.route.handler(params, url.searchParams, req);
+
+        if (method === 'POST') {
+          statusCode = 201;
+        }
+      }
+    } catch (error) {
+      const apiError = this.toApiError(error);
+      statusCode = apiError.statusCode;
+      body = { error: { type: apiError.errorType, message: apiError.message } };
+
+      if (statusCode >= 500) {
+        this.logger.error(`❌ ${method} ${target} failed:`, apiError.message);
+      }
+    }
+
+    if (body === undefined) {
+      res.writeHead(statusCode);
+      res.end();
+    } else {
+      res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8' });
+      res.end(JSON.stringify(body, null, 2));
+    }
+
+    this.logger.log(`${method} ${target} ${statusCode} ${Date.now() - startTime}ms`);
+  }
+
+  /**
+   * Parse a request target
+   *
+   * @param target - Request target from the request line
+   * @returns Parsed URL
+   * @throws ApiError (400) for malformed targets
+   */
+  private parseUrl(target: string): URL {
+    try {
+      return new URL(target, 'http://localhost');
+    } catch {
+      throw new ApiError(400, 'INVALID_URL', `Invalid request URL: ${target}`);
+    }
+  }
+
+  /**
+   * Decode a percent-encoded path parameter
+   *
+   * @param param - Raw path segment
+   * @returns Decoded parameter
+   * @throws ApiError (400) for malformed percent-encoding
+   */
+  private decodePathParam(param: string): string {
+    try {
+      return decodeURIComponent(param);
+    } catch {
+      throw new ApiError(400, 'INVALID_PARAMETER', `Invalid percent-encoding in path: ${param}`);
+    }
+  }
+
+  /**
+   * Map service errors to HTTP errors
+   *
+   * @param error - Caught error
+   * @returns ApiError with status code
+   */
+  private toApiError(error: unknown): ApiError {
+    if (error instanceof ApiError) {
+      return error;
+    }
+
+    if (error instanceof AnalysisServiceException) {
+      const statusCodes: Record<AnalysisServiceError, number> = {
+        [AnalysisServiceError.CONFIGURATION_ERROR]: 503,
+        [AnalysisServiceError.CONNECTIVITY_FAILED]: 503,
+        [AnalysisServiceError.PRICE_UNAVAILABLE]: 502,
+        [AnalysisServiceError.DATA_VALIDATION_FAILED]: 502,
+        [AnalysisServiceError.FORECAST_FAILED]: 502
+      };
+      return new ApiError(statusCodes[error.errorType], error.errorType, error.message);
+    }
+
+    if (error instanceof YahooFinanceServiceException) {
+      const statusCode = error.errorType === YahooFinanceServiceError.INVALID_SYMBOL ? 400
+        : error.errorType === YahooFinanceServiceError.NO_DATA_AVAILABLE ? 404
+        : 502;
+      return new ApiError(statusCode, error.errorType, error.message);
+    }
+
+    return new ApiError(500, 'INTERNAL_ERROR', error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Resolve a commodity path parameter or body field
+   *
+   * @param input - Commodity key, Yahoo symbol or name
+   * @returns Commodity key
+   * @throws ApiError (404) for unknown commodities
+   */
+  private resolveCommodity(input: string): CommoditySymbolKey {
+    const commodity = resolveCommodityKey(input);
+    if (!commodity) {
+      throw new ApiError(404, 'UNKNOWN_COMMODITY', `Unknown commodity: ${input}`);
+    }
+    return commodity;
+  }
+
+  /**
+   * Read and parse a JSON request body
+   *
+   * @param req - Incoming request
+   * @returns Parsed body
+   * @throws ApiError (400/413) for invalid or oversized bodies
+   */
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length;
+      if (size > API_SERVER_DEFAULTS.MAX_BODY_BYTES) {
+        throw new ApiError(413, 'PAYLOAD_TOO_LARGE', `Request body exceeds ${API_SERVER_DEFAULTS.MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk as Buffer);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+    } catch {
+      throw new ApiError(400, 'INVALID_JSON', 'Request body is not valid JSON');
+    }
+  }
+
+  /**
+   * GET /health
+   */
+  private async getHealth() {
+    let openai: 'ok' | 'failed' | 'not configured' = 'not configured';
+
+    if (this.analysisService.hasWebSearch()) {
+      try {
+        await this.analysisService.testConnectivity();
+        openai = 'ok';
+      } catch (error) {
+        openai = 'failed';
+      }
+    }
+
+    return {
+      status: openai === 'ok' ? 'ok' : 'degraded',
+      services: {
+        openai,
+        yahooFinance: 'available'
+      },
+      cache: await this.yahooFinanceService.getCacheStats(),
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  /**
+   * GET /commodities
+   */
+  private getCommodities() {
+    return (Object.keys(COMMODITY_SYMBOLS) as CommoditySymbolKey[]).map(key => {
+      const { symbol, name, unit, category } = COMMODITY_SYMBOLS[key];
+      return { key, symbol, name, unit, category };
+    });
+  }
+
+  /**
+   * GET /prices/:symbol
+   */
+  private getPrice(symbol: string) {
+    return this.analysisService.getCurrentPrice(this.resolveCommodity(symbol));
+  }
+
+  /**
+   * GET /curves/:symbol?contracts=
+   */
+  private getCurve(symbol: string, query: URLSearchParams) {
+    const { symbol: baseSymbol } = COMMODITY_SYMBOLS[this.resolveCommodity(symbol)];
+    const contracts = parseInt(query.get('contracts') || String(API_SERVER_DEFAULTS.CURVE_CONTRACTS), 10);
+
+    if (isNaN(contracts) || contracts < 1) {
+      throw new ApiError(400, 'INVALID_PARAMETER', 'contracts must be a positive number');
+    }
+
+    return this.yahooFinanceService.getFuturesCurve(baseSymbol, {
+      contractMonths: FuturesMapper.getContractMonths(baseSymbol),
+      maxContracts: contracts
+    });
+  }
+
+  /**
+   * GET /history/:symbol?range=&interval=
+   */
+  private getHistory(symbol: string, query: URLSearchParams) {
+    const { symbol: baseSymbol } = COMMODITY_SYMBOLS[this.resolveCommodity(symbol)];
+    const range = query.get('range') || API_SERVER_DEFAULTS.HISTORY_RANGE;
+    const interval = query.get('interval') || API_SERVER_DEFAULTS.HISTORY_INTERVAL;
+
+    if (!(range in TIME_CONFIG.RANGES)) {
+      throw new ApiError(400, 'INVALID_PARAMETER', `Invalid range: ${range}. Available: ${Object.keys(TIME_CONFIG.RANGES).join(', ')}`);
+    }
+    if (!(interval in TIME_CONFIG.INTERVALS)) {
+      throw new ApiError(400, 'INVALID_PARAMETER', `Invalid interval: ${interval}. Available: ${Object.keys(TIME_CONFIG.INTERVALS).join(', ')}`);
+    }
+
+    return this.yahooFinanceService.getChartData(baseSymbol, {
+      range: range as TimeRange,
+      interval: interval as TimeInterval,
+      maxDataPoints: Number.MAX_SAFE_INTEGER
+    });
+  }
+
+  /**
+   * POST /forecasts
+   */
+  private async createForecast(req: IncomingMessage) {
+    const body = await this.readJsonBody(req) as Partial<ForecastRequestBody>;
+
+    if (!body || typeof body.symbol !== 'string') {
+      throw new ApiError(400, 'INVALID_PARAMETER', 'symbol is required');
+    }
+
+    const commodity = this.resolveCommodity(body.symbol);
+    const method = METHOD_ALIASES[body.method || 'consensus'];
+    if (!method) {
+      throw new ApiError(400, 'INVALID_PARAMETER', `Invalid method: ${body.method}. Use consensus, websearch, statistical or ensemble`);
+    }
+
+    if (body.model !== undefined && !STATISTICAL_MODELS.includes(body.model as StatisticalModel)) {
+      throw new ApiError(400, 'INVALID_PARAMETER', `Invalid model: ${body.model}. Use ${STATISTICAL_MODELS.join(', ')}`);
+    }
+
+    if (body.interpolation !== undefined && body.interpolation !== 'none' &&
+      !CURVE_INTERPOLATION_METHODS.includes(body.interpolation as CurveInterpolationMethod)) {
+      throw new ApiError(400, 'INVALID_PARAMETER', `Invalid interpolation: ${body.interpolation}. Use ${CURVE_INTERPOLATION_METHODS.join(', ')} or none`);
+    }
+
+    let horizons: ForecastData['horizon'][] | undefined;
+    if (body.horizons !== undefined) {
+      if (!Array.isArray(body.horizons)) {
+        throw new ApiError(400, 'INVALID_PARAMETER', 'horizons must be an array');
+      }
+      horizons = body.horizons.map(value => {
+        const horizon = FORECAST_HORIZONS.find(h => h.key === value || h.months === value);
+        if (!horizon) {
+          throw new ApiError(400, 'INVALID_PARAMETER', `Invalid horizon: ${value}`);
+        }
+        return horizon.key;
+      });
+    }
+
+    return this.analysisService.analyze(commodity, {
+      forecastMethod: method,
+      useStructuredOutput: body.useStructuredOutput === true,
+      includeTechnicalIndicators: body.includeTechnicalIndicators === true,
+      ...(body.model !== undefined && { statisticalModel: body.model as StatisticalModel }),
+      ...(body.interpolation !== undefined && { curveInterpolation: body.interpolation as CurveInterpolationMethod | 'none' }),
+      ...(horizons && { horizons })
+    });
+  }
+}
+
+/**
+ * Create a new ApiServer instance
+ *
+ * @param options - Services and logger
+ * @returns ApiServer instance
+ */
+export function createApiServer(options: ApiServerOptions = {}): ApiServer {
+  return new ApiServer(options);
+}
+
+// Start the server if this file is executed directly
+if (require.main === module) {
+  config();
+  const port = parseInt(process.env['PORT'] || String(API_SERVER_DEFAULTS.PORT), 10);
+  const host = process.env['HOST'] || API_SERVER_DEFAULTS.HOST;
+  const corsOrigin = process.env['CORS_ORIGIN'] || undefined;
+  createApiServer({ logger: consoleLogger, ...(corsOrigin && { corsOrigin }) }).listen(port, host).catch(error => {
+    console.error('❌ Failed to start API server:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  });
+}
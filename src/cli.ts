@@ -0,0 +1,800 @@
+/**
+ * Commodity Forecast CLI
+ *
+ * Command-line interface for the commodity forecast pipeline. Provides
+ * subcommands for current prices, futures curves, forecasts, price history,
+ * market status, realized forecast accuracy, backtests and Monte Carlo simulations, with flags for output format, output directory,
+ * skipping connectivity tests and JSON-only stdout for use in pipes.
+ *
+ * Usage:
+ *   npm run cli -- price <symbol>
+ *   npm run cli -- curve <symbol> [--contracts 8] [--snapshot] [--interpolation linear|cubic-spline|nelson-siegel]
+ *   npm run cli -- forecast <symbol> [--horizons 3,6,12] [--method consensus|websearch|statistical|ensemble] [--model arima] [--interpolation linear] [--structured] [--indicators]
+ *   npm run cli -- history <symbol> [--range 1y] [--interval 1d]
+ *   npm run cli -- status [symbol]
+ *   npm run cli -- accuracy [symbol]
+ *   npm run cli -- backtest <symbol> [--horizons 3,6] [--source history|snapshots] [--from 2020-01-01] [--to 2024-12-31] [--step 5] [--sync]
+ *   npm run cli -- simulate <symbol> [--horizons 3,6] [--paths 10000] [--seed 42] [--shocks normal|student-t] [--dof 5] [--thresholds 60,90]
+ *
+ * @author Commodity Forecast CLI
+ * @version 1.0.0
+ */
+
+import { config } from 'dotenv';
+import { FORECAST_HORIZONS, ForecastData } from './types/commodity';
+import {
+  COMMODITY_SYMBOLS,
+  CommoditySymbolKey,
+  FORECASTING_CONFIG,
+  TIME_CONFIG,
+  TimeRange,
+  TimeInterval,
+  resolveCommodityKey
+} from './config/yahoo-finance';
+import { DEFAULT_COMMODITY } from './services/price-data-service';
+import { createAnalysisService } from './services/analysis-service';
+import { getYahooFinanceService } from './services/yahoo-finance-service';
+import { ForecastMethod } from './services/forecast-service';
+import { ForecastAccuracyMetrics, createForecastEvaluationService } from './services/forecast-evaluation-service';
+import { BacktestCurveSource, createBacktestService } from './services/backtest-service';
+import { CommodityForecastApp } from './commodity-forecast-test';
+import { FuturesMapper } from './utils/futures-mapper';
+import { STATISTICAL_MODELS, StatisticalModel } from './utils/statistical-forecasters';
+import { createCurveSnapshotStore } from './utils/curve-snapshot-store';
+import { ShockDistribution, SimulationHorizon, estimateAnnualVolatility, simulatePricePaths } from './utils/monte-carlo';
+import { CURVE_INTERPOLATION_METHODS, CurveInterpolationMethod, interpolateCurve } from './utils/curve-interpolation';
+import {
+  formatCommodityDataAsTable,
+  formatAnalysisAsJSON,
+  formatAnalysisAsTable,
+  formatBacktestReportAsTable,
+  formatSimulationAsTable,
+  writeJSONToFile,
+  writeTableToFile,
+  generateFileTimestamp,
+  OutputFormat
+} from './utils/formatter';
+import { toFileSlug } from './utils/commodity-text';
+import { consoleLogger, stderrLogger } from './utils/logger';
+
+/**
+ * Available subcommands
+ */
+const COMMANDS = ['price', 'curve', 'forecast', 'history', 'status', 'accuracy', 'backtest', 'simulate'] as const;
+
+/**
+ * CLI subcommand
+ */
+export type CliCommand = typeof COMMANDS[number];
+
+/**
+ * CLI method names mapped to forecasting methods
+ */
+const METHOD_ALIASES: Record<string, ForecastMethod> = {
+  consensus: 'hybrid',
+  hybrid: 'hybrid',
+  websearch: 'web-search',
+  'web-search': 'web-search',
+  statistical: 'statistical',
+  ensemble: 'ensemble'
+};
+
+/**
+ * Parsed command-line arguments
+ */
+export interface ParsedArgs {
+  /** Subcommand (first positional argument) */
+  command: string | undefined;
+  /** Remaining positional arguments */
+  positionals: string[];
+  /** Flags (--name value, --name=value or boolean --name) */
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Options shared by all subcommands
+ */
+export interface CliOptions {
+  /** Output format for stdout and files */
+  format: OutputFormat;
+  /** Directory to write result files to */
+  outputDir?: string;
+  /** Skip OpenAI connectivity and functionality tests */
+  skipTests: boolean;
+  /** Write only JSON to stdout; logs go to stderr */
+  json: boolean;
+}
+
+/**
+ * Command result rendered to stdout and optionally written to files
+ */
+interface CommandResult {
+  /** Base name for result files */
+  name: string;
+  /** JSON-serializable result data */
+  data: unknown;
+  /** Human-readable rendering */
+  table: string;
+}
+
+/**
+ * Usage error (exit code 2)
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Boolean flags that never take a value
+ */
+const BOOLEAN_FLAGS = ['json', 'skip-tests', 'structured', 'indicators', 'snapshot', 'sync', 'help'];
+
+/**
+ * Help text
+ */
+const USAGE = `Usage: commodity-forecast <command> [symbol] [options]
+
+Commands:
+  price <symbol>      Current price (Yahoo Finance, web search fallback)
+  curve <symbol>      Futures curve
+  forecast <symbol>   Multi-horizon forecast analysis
+  history <symbol>    Historical prices
+  status [symbol]     Market status and service health
+  accuracy [symbol]   Realized accuracy of archived forecasts
+  backtest <symbol>   Backtest futures consensus against random-walk and drift baselines
+  simulate <symbol>   Monte Carlo price paths anchored on futures prices
+
+Symbols may be a commodity key (GOLD), Yahoo symbol (GC=F) or name (gold, natural-gas).
+
+Options:
+  --format <json|table|both>     Output format (default: table)
+  --output-dir <dir>             Write results to files in this directory
+  --skip-tests                   Skip OpenAI connectivity tests
+  --json                         JSON-only stdout (logs go to stderr)
+  --horizons <3,6,12,24>         Forecast horizons in months (forecast, backtest, simulate)
+  --method <consensus|websearch|statistical|ensemble>
+                                 Forecast method (forecast, default: consensus)
+  --model <${STATISTICAL_MODELS.join('|')}>
+                                 Statistical model (forecast --method statistical, default: arima)
+  --interpolation <${CURVE_INTERPOLATION_METHODS.join('|')}|none>
+                                 Price horizon dates off the curve (forecast, default: linear;
+                                 curve, default: none)
+  --structured                   Request structured JSON forecasts (forecast)
+  --indicators                   Add a technical indicator snapshot (forecast)
+  --contracts <n>                Number of contracts (curve, default: 8)
+  --snapshot                     Store the curve for backtesting (curve)
+  --source <history|snapshots>   Historical futures prices (backtest, default: history)
+  --from <YYYY-MM-DD>            First issue date (backtest)
+  --to <YYYY-MM-DD>              Last issue date (backtest)
+  --step <n>                     Trading days between issue dates (backtest, default: 1)
+  --sync                         Sync spot and contract history first (backtest)
+  --paths <n>                    Simulated paths (simulate, default: 10000)
+  --seed <n>                     Random seed (simulate, default: 42)
+  --shocks <normal|student-t>    Shock distribution (simulate, default: normal)
+  --dof <n>                      Student-t degrees of freedom (simulate, default: 5)
+  --thresholds <60,90>           Prices to report crossing probabilities for (simulate)
+  --range <${Object.keys(TIME_CONFIG.RANGES).join('|')}>
+                                 History range (history, default: 1y)
+  --interval <1d|1wk|1mo>        History interval (history, default: 1d)
+  --help                         Show this help`;
+
+/**
+ * Parse command-line arguments
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @returns Parsed arguments
+ */
+export function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+
+    if (!arg.startsWith('--')) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const [name, inlineValue] = arg.slice(2).split(/=(.*)/s) as [string, string | undefined];
+
+    if (inlineValue !== undefined) {
+      flags[name] = inlineValue;
+    } else if (BOOLEAN_FLAGS.includes(name) || argv[i + 1] === undefined || argv[i + 1]!.startsWith('--')) {
+      flags[name] = true;
+    } else {
+      flags[name] = argv[++i]!;
+    }
+  }
+
+  return {
+    command: positionals.shift(),
+    positionals,
+    flags
+  };
+}
+
+/**
+ * Resolve a commodity key from a key, Yahoo symbol or name
+ *
+ * @param input - Commodity key ('GOLD'), symbol ('GC=F') or name ('gold', 'natural-gas')
+ * @returns Commodity key
+ */
+export function resolveCommodity(input: string): CommoditySymbolKey {
+  const match = resolveCommodityKey(input);
+
+  if (!match) {
+    throw new UsageError(`Unknown commodity: ${input}. Available: ${Object.keys(COMMODITY_SYMBOLS).join(', ')}`);
+  }
+
+  return match;
+}
+
+/**
+ * Parse --horizons into forecast horizon keys
+ *
+ * @param value - Comma-separated months (e.g., '3,6,12')
+ * @returns Forecast horizon keys
+ */
+function parseHorizons(value: string): ForecastData['horizon'][] {
+  return value.split(',').map(part => {
+    const horizon = FORECAST_HORIZONS.find(h => h.months === parseInt(part.trim(), 10));
+    if (!horizon) {
+      throw new UsageError(`Invalid horizon: ${part}. Available: ${FORECAST_HORIZONS.map(h => h.months).join(', ')}`);
+    }
+    return horizon.key;
+  });
+}
+
+/**
+ * Parse --interpolation into a curve interpolation method
+ *
+ * @param args - Parsed arguments
+ * @returns Interpolation method, 'none' or undefined when the flag is absent
+ */
+function parseInterpolation(args: ParsedArgs): CurveInterpolationMethod | 'none' | undefined {
+  const value = getStringFlag(args.flags, 'interpolation');
+  if (value !== undefined && value !== 'none' && !CURVE_INTERPOLATION_METHODS.includes(value as CurveInterpolationMethod)) {
+    throw new UsageError(`Invalid interpolation: ${value}. Use ${CURVE_INTERPOLATION_METHODS.join(', ')} or none`);
+  }
+  return value as CurveInterpolationMethod | 'none' | undefined;
+}
+
+/**
+ * Get a string flag value
+ */
+function getStringFlag(flags: ParsedArgs['flags'], name: string): string | undefined {
+  const value = flags[name];
+  if (value === true) {
+    throw new UsageError(`Flag --${name} requires a value`);
+  }
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Get the required symbol positional argument
+ */
+function requireCommodity(args: ParsedArgs): CommoditySymbolKey {
+  const symbol = args.positionals[0];
+  if (!symbol) {
+    throw new UsageError(`Command "${args.command}" requires a symbol`);
+  }
+  return resolveCommodity(symbol);
+}
+
+/**
+ * price <symbol>
+ */
+async function runPrice(args: ParsedArgs): Promise<CommandResult> {
+  const commodity = requireCommodity(args);
+  const commodityData = await createAnalysisService().getCurrentPrice(commodity);
+
+  return {
+    name: `${toFileSlug(commodityData.name)}-price`,
+    data: commodityData,
+    table: formatCommodityDataAsTable(commodityData)
+  };
+}
+
+/**
+ * curve <symbol>
+ */
+async function runCurve(args: ParsedArgs): Promise<CommandResult> {
+  const commodity = requireCommodity(args);
+  const { symbol, name } = COMMODITY_SYMBOLS[commodity];
+  const contracts = parseInt(getStringFlag(args.flags, 'contracts') || '8', 10);
+
+  if (isNaN(contracts) || contracts < 1) {
+    throw new UsageError('--contracts must be a positive number');
+  }
+
+  const interpolation = parseInterpolation(args);
+
+  const curve = await getYahooFinanceService().getFuturesCurve(symbol, {
+    contractMonths: FuturesMapper.getContractMonths(symbol),
+    maxContracts: contracts
+  });
+
+  if (args.flags['snapshot'] === true) {
+    await createCurveSnapshotStore().save(curve);
+  }
+
+  const lines = [
+    `${name} (${symbol}) futures curve - ${new Date(curve.curveDate).toLocaleString()}`,
+    '',
+    `${'Contract'.padEnd(10)} ${'Maturity'.padEnd(12)} ${'Days'.padStart(6)} ${'Price'.padStart(12)}`,
+    ...curve.contracts.map(c =>
+      `${c.symbol.padEnd(10)} ${c.maturity.split('T')[0]!.padEnd(12)} ${String(c.daysToExpiration).padStart(6)} ${c.price.toFixed(2).padStart(12)}`
+    ),
+    '',
+    `Structure: ${curve.curveMetrics.contango ? 'contango' : curve.curveMetrics.backwardation ? 'backwardation' : 'flat'}` +
+      ` | Avg spread: ${curve.curveMetrics.averageSpread.toFixed(2)} | Steepness: ${curve.curveMetrics.steepness.toFixed(4)}/month`
+  ];
+
+  if (!interpolation || interpolation === 'none') {
+    return {
+      name: `${toFileSlug(name)}-curve`,
+      data: curve,
+      table: lines.join('\n')
+    };
+  }
+
+  // Constant-maturity prices at the standard horizon dates the curve reaches
+  const horizonPrices = FuturesMapper.getStandardMappings(symbol).flatMap(mapping => {
+    try {
+      return [{ horizon: mapping.horizon, ...interpolateCurve(curve, mapping.targetDate, interpolation) }];
+    } catch {
+      return [];
+    }
+  });
+
+  lines.push(
+    '',
+    `Constant-maturity prices (${interpolation})`,
+    `${'Horizon'.padEnd(10)} ${'Date'.padEnd(12)} ${'Price'.padStart(12)}  Bracketing contracts`,
+    ...horizonPrices.map(p =>
+      `${p.horizon.padEnd(10)} ${p.targetDate.split('T')[0]!.padEnd(12)} ${p.price.toFixed(2).padStart(12)}  ${p.bracketingContracts.map(c => c.symbol).join(' / ')}`
+    )
+  );
+  if (horizonPrices.length === 0) {
+    lines.push('No horizon date falls within the curve; use --contracts to fetch more contracts');
+  }
+
+  return {
+    name: `${toFileSlug(name)}-curve`,
+    data: { ...curve, horizonPrices },
+    table: lines.join('\n')
+  };
+}
+
+/**
+ * forecast <symbol>
+ */
+async function runForecast(args: ParsedArgs, options: CliOptions): Promise<CommandResult> {
+  const commodity = requireCommodity(args);
+  const methodFlag = getStringFlag(args.flags, 'method') || 'consensus';
+  const method = METHOD_ALIASES[methodFlag];
+
+  if (!method) {
+    throw new UsageError(`Invalid method: ${methodFlag}. Use consensus, websearch, statistical or ensemble`);
+  }
+
+  const model = getStringFlag(args.flags, 'model');
+  if (model !== undefined && !STATISTICAL_MODELS.includes(model as StatisticalModel)) {
+    throw new UsageError(`Invalid model: ${model}. Use ${STATISTICAL_MODELS.join(', ')}`);
+  }
+
+  const curveInterpolation = parseInterpolation(args);
+  const horizonsFlag = getStringFlag(args.flags, 'horizons');
+  const horizons = horizonsFlag ? parseHorizons(horizonsFlag) : undefined;
+
+  const app = new CommodityForecastApp(options.json ? stderrLogger : consoleLogger);
+  const analysis = await app.run({
+    commodity,
+    forecastMethod: method,
+    ...(model && { statisticalModel: model as StatisticalModel }),
+    ...(curveInterpolation && { curveInterpolation }),
+    testConnectivity: !options.skipTests,
+    testWebSearch: !options.skipTests,
+    useStructuredOutput: args.flags['structured'] === true,
+    includeTechnicalIndicators: args.flags['indicators'] === true,
+    outputResults: !!options.outputDir,
+    outputFormat: options.format,
+    ...(horizons && { horizons }),
+    ...(options.outputDir && { outputDir: options.outputDir })
+  });
+
+  if (!analysis) {
+    throw new Error('Forecast generation produced no analysis');
+  }
+
+  return {
+    name: `${toFileSlug(analysis.commodity.name)}-forecast`,
+    data: JSON.parse(formatAnalysisAsJSON(analysis)),
+    table: formatAnalysisAsTable(analysis)
+  };
+}
+
+/**
+ * history <symbol>
+ */
+async function runHistory(args: ParsedArgs): Promise<CommandResult> {
+  const commodity = requireCommodity(args);
+  const { symbol, name, unit } = COMMODITY_SYMBOLS[commodity];
+  const range = getStringFlag(args.flags, 'range') || '1y';
+  const interval = getStringFlag(args.flags, 'interval') || TIME_CONFIG.DEFAULTS.DAILY_INTERVAL;
+
+  if (!(range in TIME_CONFIG.RANGES)) {
+    throw new UsageError(`Invalid range: ${range}. Available: ${Object.keys(TIME_CONFIG.RANGES).join(', ')}`);
+  }
+  if (!(interval in TIME_CONFIG.INTERVALS)) {
+    throw new UsageError(`Invalid interval: ${interval}. Available: ${Object.keys(TIME_CONFIG.INTERVALS).join(', ')}`);
+  }
+
+  const history = await getYahooFinanceService().getChartData(symbol, {
+    range: range as TimeRange,
+    interval: interval as TimeInterval,
+    maxDataPoints: Number.MAX_SAFE_INTEGER
+  });
+
+  const closes = history.prices.filter(p => p.close !== null);
+  const first = closes[0]?.close;
+  const last = closes[closes.length - 1]?.close;
+
+  const lines = [
+    `${name} (${symbol}) - ${TIME_CONFIG.RANGES[range as TimeRange].label}, ${interval} interval (${unit})`,
+    '',
+    `${'Date'.padEnd(12)} ${'Open'.padStart(10)} ${'High'.padStart(10)} ${'Low'.padStart(10)} ${'Close'.padStart(10)} ${'Volume'.padStart(12)}`,
+    ...history.prices.map(p =>
+      `${p.date.split('T')[0]!.padEnd(12)} ${(p.open?.toFixed(2) || '-').padStart(10)} ${(p.high?.toFixed(2) || '-').padStart(10)} ` +
+      `${(p.low?.toFixed(2) || '-').padStart(10)} ${(p.close?.toFixed(2) || '-').padStart(10)} ${(p.volume?.toLocaleString() || '-').padStart(12)}`
+    ),
+    '',
+    first && last
+      ? `${closes.length} closes, change ${(last - first).toFixed(2)} (${(((last - first) / first) * 100).toFixed(2)}%)`
+      : `${closes.length} closes`
+  ];
+
+  return {
+    name: `${toFileSlug(name)}-history-${range}`,
+    data: history,
+    table: lines.join('\n')
+  };
+}
+
+/**
+ * status [symbol]
+ */
+async function runStatus(args: ParsedArgs): Promise<CommandResult> {
+  const commodity = args.positionals[0] ? resolveCommodity(args.positionals[0]) : DEFAULT_COMMODITY;
+  const { symbol, name } = COMMODITY_SYMBOLS[commodity];
+  const yahooFinanceService = getYahooFinanceService();
+
+  const marketStatus = await yahooFinanceService.getMarketStatus(symbol);
+  const cacheStats = await yahooFinanceService.getCacheStats();
+  const openaiConfigured = !!process.env['OPENAI_API_KEY'];
+
+  const status = {
+    commodity: { key: commodity, symbol, name },
+    market: marketStatus,
+    services: {
+      yahooFinance: 'available',
+      openai: openaiConfigured ? 'configured' : 'not configured'
+    },
+    cache: cacheStats,
+    timestamp: new Date().toISOString()
+  };
+
+  // Session times in the exchange timezone
+  const exchangeTime = (iso: string | undefined): string => iso
+    ? new Date(iso).toLocaleString('en-US', {
+      timeZone: marketStatus.timezone,
+      weekday: 'short',
+      month: 'numeric',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    })
+    : 'N/A';
+
+  const lines = [
+    `${name} (${symbol})`,
+    `Market:   ${marketStatus.market} ${marketStatus.status} (${marketStatus.timezone})${marketStatus.holiday ? ` - ${marketStatus.holiday}` : ''}`,
+    `Regular:  next open ${exchangeTime(marketStatus.nextOpen)}, next close ${exchangeTime(marketStatus.nextClose)}`,
+    ...(marketStatus.extendedHours && marketStatus.extendedSession
+      ? [`Extended: ${exchangeTime(marketStatus.extendedSession.open)} to ${exchangeTime(marketStatus.extendedSession.close)}`]
+      : []),
+    `OpenAI:   ${status.services.openai}`,
+    `Cache:    ${cacheStats.backend}, ${cacheStats.size} entries, ${(cacheStats.sizeBytes / 1024).toFixed(1)} KB`
+  ];
+
+  return {
+    name: `${toFileSlug(name)}-status`,
+    data: status,
+    table: lines.join('\n')
+  };
+}
+
+/**
+ * accuracy [symbol]
+ */
+async function runAccuracy(args: ParsedArgs): Promise<CommandResult> {
+  const commodity = args.positionals[0] ? resolveCommodity(args.positionals[0]) : undefined;
+  const symbol = commodity ? COMMODITY_SYMBOLS[commodity].symbol : undefined;
+
+  const report = await createForecastEvaluationService().evaluate(symbol ? { symbol } : {});
+
+  const percent = (value: number | null) => (value === null ? '-' : `${(value * 100).toFixed(1)}%`);
+  const row = (label: string, metrics: ForecastAccuracyMetrics) =>
+    `${label.padEnd(14)} ${String(metrics.count).padStart(5)} ${(metrics.mae?.toFixed(2) || '-').padStart(10)} ` +
+    `${percent(metrics.mape).padStart(8)} ${percent(metrics.directionalHitRate).padStart(9)} ` +
+    `${percent(metrics.intervalCoverage).padStart(9)} ${percent(metrics.accuracy).padStart(9)}` +
+    (metrics.meetsAccuracyTarget === null ? '' : metrics.meetsAccuracyTarget ? '  ✅' : '  ❌');
+
+  const lines = [
+    `Forecast accuracy - ${commodity ? `${COMMODITY_SYMBOLS[commodity].name} (${symbol})` : 'all commodities'}`,
+    `${report.overall.count} resolved, ${report.pending} pending, accuracy target ${percent(report.accuracyTarget)}`,
+    '',
+    `${'Group'.padEnd(14)} ${'N'.padStart(5)} ${'MAE'.padStart(10)} ${'MAPE'.padStart(8)} ${'Hit rate'.padStart(9)} ${'Coverage'.padStart(9)} ${'Accuracy'.padStart(9)}`,
+    row('overall', report.overall),
+    ...Object.entries(report.byHorizon).map(([horizon, metrics]) => row(horizon, metrics)),
+    ...Object.entries(report.byMethod).map(([method, metrics]) => row(method, metrics))
+  ];
+
+  return {
+    name: `${commodity ? toFileSlug(COMMODITY_SYMBOLS[commodity].name) : 'all'}-accuracy`,
+    data: report,
+    table: lines.join('\n')
+  };
+}
+
+/**
+ * backtest <symbol>
+ */
+async function runBacktest(args: ParsedArgs, options: CliOptions): Promise<CommandResult> {
+  const commodity = requireCommodity(args);
+  const { symbol, name } = COMMODITY_SYMBOLS[commodity];
+  const source = getStringFlag(args.flags, 'source') || 'history';
+  const step = parseInt(getStringFlag(args.flags, 'step') || '1', 10);
+  const from = getStringFlag(args.flags, 'from');
+  const to = getStringFlag(args.flags, 'to');
+  const horizonsFlag = getStringFlag(args.flags, 'horizons');
+
+  if (source !== 'history' && source !== 'snapshots') {
+    throw new UsageError(`Invalid source: ${source}. Use history or snapshots`);
+  }
+  if (isNaN(step) || step < 1) {
+    throw new UsageError('--step must be a positive number');
+  }
+  [from, to].forEach(date => {
+    if (date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new UsageError(`Invalid date: ${date}. Use YYYY-MM-DD`);
+    }
+  });
+
+  const backtestService = createBacktestService(undefined, undefined, undefined, options.json ? stderrLogger : consoleLogger);
+  if (args.flags['sync'] === true) {
+    await backtestService.syncHistory(symbol);
+  }
+
+  const report = await backtestService.run(symbol, {
+    curveSource: source as BacktestCurveSource,
+    stepDays: step,
+    ...(from && { from }),
+    ...(to && { to }),
+    ...(horizonsFlag && { horizons: parseHorizons(horizonsFlag) })
+  });
+
+  return {
+    name: `${toFileSlug(name)}-backtest`,
+    data: report,
+    table: formatBacktestReportAsTable(report)
+  };
+}
+
+/**
+ * simulate <symbol>
+ */
+async function runSimulate(args: ParsedArgs, options: CliOptions): Promise<CommandResult> {
+  const commodity = requireCommodity(args);
+  const logger = options.json ? stderrLogger : consoleLogger;
+  const { symbol, name } = COMMODITY_SYMBOLS[commodity];
+  const simulationConfig = FORECASTING_CONFIG.SIMULATION;
+  const paths = parseInt(getStringFlag(args.flags, 'paths') || String(simulationConfig.PATHS), 10);
+  const seed = parseInt(getStringFlag(args.flags, 'seed') || String(simulationConfig.SEED), 10);
+  const shocks = getStringFlag(args.flags, 'shocks') || 'normal';
+  const degreesOfFreedom = parseFloat(getStringFlag(args.flags, 'dof') || String(simulationConfig.DEGREES_OF_FREEDOM));
+  const thresholdsFlag = getStringFlag(args.flags, 'thresholds');
+  const thresholds = thresholdsFlag ? thresholdsFlag.split(',').map(part => parseFloat(part.trim())) : [];
+  const horizonsFlag = getStringFlag(args.flags, 'horizons');
+  const horizons = horizonsFlag ? parseHorizons(horizonsFlag) : FORECAST_HORIZONS.map(h => h.key);
+
+  if (isNaN(paths) || paths < 1 || paths > simulationConfig.MAX_PATHS) {
+    throw new UsageError(`--paths must be between 1 and ${simulationConfig.MAX_PATHS}`);
+  }
+  if (isNaN(seed)) {
+    throw new UsageError('--seed must be a number');
+  }
+  if (shocks !== 'normal' && shocks !== 'student-t') {
+    throw new UsageError(`Invalid shocks: ${shocks}. Use normal or student-t`);
+  }
+  if (isNaN(degreesOfFreedom) || degreesOfFreedom <= 2) {
+    throw new UsageError('--dof must be greater than 2');
+  }
+  if (thresholds.some(threshold => isNaN(threshold) || threshold <= 0)) {
+    throw new UsageError(`Invalid thresholds: ${thresholdsFlag}. Use positive prices, e.g. 60,90`);
+  }
+
+  const yahooFinanceService = getYahooFinanceService();
+  const spotPrice = await yahooFinanceService.getCurrentPrice(symbol);
+  const mappings = FuturesMapper.getStandardMappings(symbol);
+
+  // Anchor each horizon on its mapped contract; horizons without a price are skipped
+  const simulationHorizons: SimulationHorizon[] = [];
+  let impliedVolatility: number | undefined;
+  for (const horizon of FORECAST_HORIZONS.filter(h => horizons.includes(h.key))) {
+    const mapping = mappings.find(m => m.horizon === horizon.key);
+    if (!mapping) {
+      continue;
+    }
+    try {
+      const contract = await yahooFinanceService.getFuturesContract(mapping.contractSymbol);
+      simulationHorizons.push({ key: horizon.key, months: horizon.months, forwardPrice: contract.currentPrice });
+      impliedVolatility ??= contract.priceMetrics.impliedVolatility;
+    } catch (error) {
+      logger.warn(`⚠️ No price for ${mapping.contractSymbol}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (simulationHorizons.length === 0) {
+    throw new Error(`No futures prices available for ${symbol}`);
+  }
+
+  let volatilitySource: 'implied' | 'historical' | 'configured' = 'implied';
+  let annualVolatility = impliedVolatility && impliedVolatility > 0 ? impliedVolatility : null;
+  if (annualVolatility === null) {
+    const history = await yahooFinanceService.getChartData(symbol, {
+      interval: TIME_CONFIG.DEFAULTS.DAILY_INTERVAL,
+      range: simulationConfig.VOLATILITY_RANGE,
+      maxDataPoints: Number.MAX_SAFE_INTEGER
+    });
+    annualVolatility = estimateAnnualVolatility(history);
+    volatilitySource = 'historical';
+  }
+  if (annualVolatility === null) {
+    annualVolatility = FORECASTING_CONFIG.MARKET_CONSENSUS.DEFAULT_ANNUAL_VOLATILITY;
+    volatilitySource = 'configured';
+  }
+
+  const result = simulatePricePaths({
+    spotPrice,
+    horizons: simulationHorizons,
+    annualVolatility,
+    paths,
+    seed,
+    shocks: shocks as ShockDistribution,
+    degreesOfFreedom,
+    thresholds
+  });
+
+  return {
+    name: `${toFileSlug(name)}-simulation`,
+    data: { symbol, volatilitySource, ...result },
+    table: formatSimulationAsTable(result, symbol, volatilitySource)
+  };
+}
+
+/**
+ * Write a command result to stdout and optionally to files
+ */
+async function emitResult(result: CommandResult, options: CliOptions, command: CliCommand): Promise<void> {
+  const json = JSON.stringify(result.data, null, 2);
+
+  if (options.json || options.format === 'json') {
+    process.stdout.write(json + '\n');
+  } else {
+    process.stdout.write(result.table + '\n');
+    if (options.format === 'both') {
+      process.stdout.write('\n' + json + '\n');
+    }
+  }
+
+  // The forecast command writes its own files through the application
+  if (options.outputDir && command !== 'forecast') {
+    const filename = `${result.name}-${generateFileTimestamp()}`;
+    if (options.format === 'json' || options.format === 'both') {
+      await writeJSONToFile(json, `${filename}.json`, options.outputDir);
+    }
+    if (options.format === 'table' || options.format === 'both') {
+      await writeTableToFile(result.table, `${filename}.txt`, options.outputDir);
+    }
+  }
+}
+
+/**
+ * Route console output to stderr so stdout only carries the JSON result
+ * (the application's console display functions write to console directly)
+ */
+function redirectLogsToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+  console.warn = console.error;
+}
+
+/**
+ * Run the CLI
+ *
+ * @param argv - Arguments without the node executable and script path
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[]): Promise<number> {
+  config();
+
+  let args: ParsedArgs;
+  let options: CliOptions;
+
+  try {
+    args = parseArgs(argv);
+
+    if (args.flags['help'] || !args.command) {
+      process.stdout.write(USAGE + '\n');
+      return args.command || args.flags['help'] ? 0 : 2;
+    }
+
+    if (!COMMANDS.includes(args.command as CliCommand)) {
+      throw new UsageError(`Unknown command: ${args.command}`);
+    }
+
+    const format = getStringFlag(args.flags, 'format') || 'table';
+    if (!['json', 'table', 'both'].includes(format)) {
+      throw new UsageError(`Invalid format: ${format}. Use json, table or both`);
+    }
+
+    const outputDir = getStringFlag(args.flags, 'output-dir');
+    options = {
+      format: format as OutputFormat,
+      skipTests: args.flags['skip-tests'] === true,
+      json: args.flags['json'] === true,
+      ...(outputDir && { outputDir })
+    };
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}\n`);
+    console.error(USAGE);
+    return 2;
+  }
+
+  if (options.json) {
+    redirectLogsToStderr();
+  }
+
+  const command = args.command as CliCommand;
+
+  try {
+    const result = command === 'price' ? await runPrice(args)
+      : command === 'curve' ? await runCurve(args)
+      : command === 'forecast' ? await runForecast(args, options)
+      : command === 'history' ? await runHistory(args)
+      : command === 'accuracy' ? await runAccuracy(args)
+      : command === 'backtest' ? await runBacktest(args, options)
+      : command === 'simulate' ? await runSimulate(args, options)
+      : await runStatus(args);
+
+    await emitResult(result, options, command);
+    return 0;
+
+  } catch (error) {
+    console.error(`❌ ${command} failed: ${error instanceof Error ? error.message : error}`);
+    return error instanceof UsageError ? 2 : 1;
+  }
+}
+
+// Run the CLI if this file is executed directly
+if (require.main === module) {
+  runCli(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
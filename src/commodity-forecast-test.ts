@@ -10,22 +10,34 @@
  */
 
 import { config } from 'dotenv';
-import OpenAI from 'openai';
-import { CommodityData } from './types/commodity';
+import { CommodityAnalysis, CommodityData, ForecastData } from './types/commodity';
 import { 
   outputComprehensiveAnalysis,
   displayCommodityDataInConsole,
   displayForecastSummaryInConsole,
-  trackDataRetrieval
+  trackDataRetrieval,
+  OutputFormat
 } from './utils/formatter';
-import { createWebSearchService } from './services/web-search-service';
-import { createPriceDataService } from './services/price-data-service';
-import { createForecastService } from './services/forecast-service';
+import { DEFAULT_COMMODITY } from './services/price-data-service';
+import { ForecastMethod, methodUsesWebSearch } from './services/forecast-service';
+import {
+  AnalysisService,
+  AnalysisServiceError,
+  AnalysisServiceException,
+  createAnalysisService
+} from './services/analysis-service';
+import { CommoditySymbolKey } from './config/yahoo-finance';
+import { Logger, consoleLogger } from './utils/logger';
+import { createForecastArchive } from './utils/forecast-archive';
+import { StatisticalModel } from './utils/statistical-forecasters';
+import { CurveInterpolationMethod } from './utils/curve-interpolation';
 
 /**
  * Application configuration
  */
 interface AppConfig {
+  /** Commodity to analyze (default: CRUDE_OIL_WTI) */
+  commodity?: CommoditySymbolKey;
   /** Enable API connectivity testing */
   testConnectivity?: boolean;
   /** Enable web search functionality testing */
@@ -34,107 +46,81 @@ interface AppConfig {
   useYahooFinance?: boolean;
   /** Enable forecast generation */
   generateForecasts?: boolean;
+  /** Forecasting method: futures consensus ('hybrid'), per-horizon web search, a statistical model or an ensemble of them */
+  forecastMethod?: ForecastMethod;
+  /** Model for the 'statistical' method */
+  statisticalModel?: StatisticalModel;
+  /** Horizons to forecast (default: all) */
+  horizons?: ForecastData['horizon'][];
+  /** Request typed JSON forecasts from the model */
+  useStructuredOutput?: boolean;
+  /** Add a technical indicator snapshot to the analysis */
+  includeTechnicalIndicators?: boolean;
+  /** Curve interpolation for consensus prices, or 'none' for the mapped contract */
+  curveInterpolation?: CurveInterpolationMethod | 'none';
   /** Enable comprehensive output */
   outputResults?: boolean;
+  /** Output directory for result files (default: ./output) */
+  outputDir?: string;
+  /** Output file format (default: 'both') */
+  outputFormat?: OutputFormat;
 }
 
 /**
  * Main Application Class
  */
 class CommodityForecastApp {
-  private client: OpenAI;
-  private webSearchService: ReturnType<typeof createWebSearchService>;
-  private priceDataService: ReturnType<typeof createPriceDataService>;
-  private forecastService: ReturnType<typeof createForecastService>;
+  private analysisService: AnalysisService;
+  private logger: Logger;
 
-  constructor() {
+  /**
+   * @param logger - Logger for progress output (default: console)
+   */
+  constructor(logger: Logger = consoleLogger) {
     // Load environment variables
     config();
-    
-    // Validate that the API key is present
-    if (!process.env['OPENAI_API_KEY']) {
-      console.error('Error: OPENAI_API_KEY environment variable is not set');
-      process.exit(1);
-    }
+    this.logger = logger;
 
-    // Initialize OpenAI client
-    this.client = new OpenAI({
+    // Initialize services (without OPENAI_API_KEY only the statistical method runs)
+    this.analysisService = createAnalysisService({
       apiKey: process.env['OPENAI_API_KEY'],
+      logger,
+      forecastArchive: createForecastArchive()
     });
 
-    console.log('OpenAI client initialized successfully');
-
-    // Initialize services
-    this.webSearchService = createWebSearchService(this.client);
-    this.priceDataService = createPriceDataService(this.webSearchService);
-    this.forecastService = createForecastService(this.webSearchService);
-  }
-
-  /**
-   * Run connectivity and functionality tests
-   * 
-   * @returns Promise resolving to test results
-   */
-  private async runTests(): Promise<{ connectivity: boolean; functionality: boolean }> {
-    console.log('🚀 Starting commodity forecast test...');
-    
-    // Test API connectivity
-    const connectivityTest = await this.webSearchService.testConnectivity();
-    
-    if (!connectivityTest) {
-      console.error('❌ API connectivity test failed. Exiting...');
-      return { connectivity: false, functionality: false };
-    }
-    
-    // Test web search functionality
-    const functionalityTest = await this.webSearchService.testFunctionality();
-    
-    if (!functionalityTest) {
-      console.error('❌ Web search functionality test failed. Exiting...');
-      return { connectivity: connectivityTest, functionality: false };
+    if (this.analysisService.hasWebSearch()) {
+      this.logger.log('OpenAI client initialized successfully');
     }
-    
-    console.log('\n✅ All tests passed! OpenAI API integration is working correctly.');
-    return { connectivity: connectivityTest, functionality: functionalityTest };
   }
 
   /**
    * Fetch and validate current commodity data
    * 
-   * @returns Promise resolving to CommodityData or null
+   * @param commodity - Commodity to fetch
+   * @returns Promise resolving to CommodityData
+   * @throws AnalysisServiceException when the price cannot be fetched or validated
    */
-  private async fetchAndValidateCommodityData(): Promise<CommodityData | null> {
-    // Fetch current crude oil price
-    const searchResult = await this.priceDataService.fetchCurrentCrudeOilPrice({
-      useYahooFinance: true,
-      useWebSearchFallback: true,
-      validatePrice: true,
-      useCache: true
-    });
-    
-    if (!searchResult.success) {
-      console.error('❌ Failed to fetch crude oil price data');
-      return null;
+  private async fetchAndValidateCommodityData(commodity: CommoditySymbolKey): Promise<CommodityData> {
+    let commodityData: CommodityData;
+
+    try {
+      commodityData = await this.analysisService.getCurrentPrice(commodity);
+    } catch (error) {
+      if (error instanceof AnalysisServiceException && error.errorType === AnalysisServiceError.DATA_VALIDATION_FAILED) {
+        trackDataRetrieval('Commodity Data Extraction', false, 'Failed to extract or validate data', this.logger);
+      }
+      throw error;
     }
     
-    console.log('\n✅ Crude oil price data fetched successfully');
-    
-    // Extract and validate commodity data
-    const commodityData = await this.priceDataService.extractCommodityDataFromSearch(searchResult);
-    
-    if (!commodityData) {
-      trackDataRetrieval('Commodity Data Extraction', false, 'Failed to extract or validate data');
-      console.error('❌ Failed to extract or validate commodity data');
-      return null;
-    }
+    this.logger.log(`\n✅ ${commodity} price data fetched successfully`);
     
     // Track successful data extraction
-    trackDataRetrieval('Commodity Data Extraction', true, `Price: $${commodityData.currentPrice}`);
+    trackDataRetrieval('Commodity Data Extraction', true, `Price: $${commodityData.currentPrice}`, this.logger);
     
-    console.log('\n✅ Commodity data extraction and validation completed');
-    console.log(`Current crude oil price: $${commodityData.currentPrice} ${commodityData.currency} ${commodityData.unit}`);
-    console.log(`Last updated: ${new Date(commodityData.lastUpdated).toLocaleString()}`);
-    console.log(`Sources: ${commodityData.sources.map(s => s.name).join(', ')}`);
+    this.logger.log('\n✅ Commodity data extraction and validation completed');
+    this.logger.log(`Current ${commodityData.name} price: ${commodityData.currentPrice} ${commodityData.unit}`);
+    this.logger.log(`Last updated: ${new Date(commodityData.lastUpdated).toLocaleString()}`);
+    this.logger.log(`Sources: ${commodityData.sources.map(s => s.name).join(', ')}`);
     
     return commodityData;
   }
@@ -143,31 +129,39 @@ class CommodityForecastApp {
    * Generate comprehensive analysis with forecasts
    * 
    * @param commodityData - Current commodity data
+   * @param config - Forecast method, horizons and structured output settings
    * @returns Promise resolving to comprehensive analysis
    */
-  private async generateComprehensiveAnalysis(commodityData: CommodityData) {
+  private async generateComprehensiveAnalysis(
+    commodityData: CommodityData,
+    config: Pick<AppConfig, 'forecastMethod' | 'statisticalModel' | 'horizons' | 'useStructuredOutput' | 'includeTechnicalIndicators' | 'curveInterpolation'>
+  ) {
     // Display commodity data in formatted table
     displayCommodityDataInConsole(commodityData);
     
     // Generate comprehensive commodity analysis with forecasts
-    trackDataRetrieval('Multi-Horizon Forecast Generation', true, 'Starting forecast analysis');
+    trackDataRetrieval('Multi-Horizon Forecast Generation', true, 'Starting forecast analysis', this.logger);
     
-    const comprehensiveAnalysis = await this.forecastService.createComprehensiveAnalysis(commodityData, {
-      validateDiversity: true,
-      requestDelay: 2000
+    const comprehensiveAnalysis = await this.analysisService.analyzeCommodityData(commodityData, {
+      forecastMethod: config.forecastMethod,
+      ...(config.statisticalModel && { statisticalModel: config.statisticalModel }),
+      ...(config.horizons && { horizons: config.horizons }),
+      ...(config.useStructuredOutput && { useStructuredOutput: true }),
+      ...(config.includeTechnicalIndicators && { includeTechnicalIndicators: true }),
+      ...(config.curveInterpolation && { curveInterpolation: config.curveInterpolation })
     });
     
     // Track successful analysis completion
-    trackDataRetrieval('Comprehensive Analysis', true, `Generated ${comprehensiveAnalysis.forecasts.length} forecasts`);
+    trackDataRetrieval('Comprehensive Analysis', true, `Generated ${comprehensiveAnalysis.forecasts.length} forecasts`, this.logger);
     
     // Display analysis summary
-    console.log('\n🎯 Quick Analysis Summary:');
-    console.log(`   Overall Market Trend: ${comprehensiveAnalysis.overallTrend.toUpperCase()}`);
-    console.log(`   Total Forecasts Generated: ${comprehensiveAnalysis.forecasts.length}`);
-    console.log(`   Market Sentiment: ${comprehensiveAnalysis.marketSentiment}`);
+    this.logger.log('\n🎯 Quick Analysis Summary:');
+    this.logger.log(`   Overall Market Trend: ${comprehensiveAnalysis.overallTrend.toUpperCase()}`);
+    this.logger.log(`   Total Forecasts Generated: ${comprehensiveAnalysis.forecasts.length}`);
+    this.logger.log(`   Market Sentiment: ${comprehensiveAnalysis.marketSentiment}`);
     
     if (comprehensiveAnalysis.riskFactors && comprehensiveAnalysis.riskFactors.length > 0) {
-      console.log(`   Risk Factors Identified: ${comprehensiveAnalysis.riskFactors.length}`);
+      this.logger.log(`   Risk Factors Identified: ${comprehensiveAnalysis.riskFactors.length}`);
     }
     
     // Display forecast summary in console
@@ -182,65 +176,102 @@ class CommodityForecastApp {
    * Output comprehensive analysis results
    * 
    * @param analysis - Comprehensive commodity analysis
+   * @param config - Output directory and format settings
    */
-  private async outputResults(analysis: any) {
-    console.log('\n' + '='.repeat(80));
-    console.log('🎉 GENERATING COMPREHENSIVE OUTPUT...');
-    console.log('='.repeat(80));
+  private async outputResults(analysis: CommodityAnalysis, config: Pick<AppConfig, 'outputDir' | 'outputFormat'> = {}) {
+    this.logger.log('\n' + '='.repeat(80));
+    this.logger.log('🎉 GENERATING COMPREHENSIVE OUTPUT...');
+    this.logger.log('='.repeat(80));
     
-    const outputResult = await outputComprehensiveAnalysis(analysis);
+    const outputResult = await outputComprehensiveAnalysis(analysis, {
+      ...(config.outputDir && { outputDir: config.outputDir }),
+      ...(config.outputFormat && { format: config.outputFormat })
+    });
+    const savedFiles = [outputResult.filesWritten.jsonPath, outputResult.filesWritten.tablePath]
+      .filter((path): path is string => !!path)
+      .map(path => path.split('/').pop());
     
-    console.log('\n🎊 COMMODITY FORECAST ANALYSIS COMPLETED SUCCESSFULLY! 🎊');
-    console.log('✅ All data has been processed, analyzed, and saved');
-    console.log(`📊 Console: Full analysis displayed`);
-    console.log(`📁 Files: Saved to ${outputResult.filesWritten.jsonPath.split('/').pop()} and ${outputResult.filesWritten.tablePath.split('/').pop()}`);
-    console.log(`📝 Tracking: All operations logged with timestamps`);
+    this.logger.log('\n🎊 COMMODITY FORECAST ANALYSIS COMPLETED SUCCESSFULLY! 🎊');
+    this.logger.log('✅ All data has been processed, analyzed, and saved');
+    this.logger.log(`📊 Console: Full analysis displayed`);
+    this.logger.log(`📁 Files: Saved to ${savedFiles.join(' and ')}`);
+    this.logger.log(`📝 Tracking: All operations logged with timestamps`);
   }
 
   /**
    * Run the complete commodity forecast application
    * 
    * @param config - Application configuration
+   * @returns Promise resolving to the analysis, or null when forecasts are disabled
+   * @throws AnalysisServiceException if the method needs OpenAI and OPENAI_API_KEY is not set
+   *   (unless replaying fixtures), or the underlying error on failure
    */
-  async run(config: AppConfig = {}): Promise<void> {
+  async run(config: AppConfig = {}): Promise<CommodityAnalysis | null> {
     const {
+      commodity = DEFAULT_COMMODITY,
       testConnectivity = true,
       testWebSearch = true,
       useYahooFinance = true,
       generateForecasts = true,
-      outputResults = true
+      forecastMethod = 'hybrid',
+      statisticalModel,
+      horizons,
+      useStructuredOutput = false,
+      includeTechnicalIndicators = false,
+      curveInterpolation,
+      outputResults = true,
+      outputDir,
+      outputFormat
     } = config;
+    
+    let analysis: CommodityAnalysis | null = null;
+    // The statistical method runs on price history alone: no API key or OpenAI tests
+    const usesWebSearch = !generateForecasts || methodUsesWebSearch(forecastMethod);
+
+    if (usesWebSearch && !this.analysisService.hasWebSearch()) {
+      throw new AnalysisServiceException(
+        AnalysisServiceError.CONFIGURATION_ERROR,
+        'OPENAI_API_KEY environment variable is not set'
+      );
+    }
 
     try {
       // Run tests if enabled
-      if (testConnectivity || testWebSearch) {
-        const testResults = await this.runTests();
-        if (!testResults.connectivity || !testResults.functionality) {
-          process.exit(1);
-        }
+      if (usesWebSearch && (testConnectivity || testWebSearch)) {
+        this.logger.log('🚀 Starting commodity forecast test...');
+        await this.analysisService.testConnectivity();
       }
       
       // Fetch and validate commodity data
-      const commodityData = await this.fetchAndValidateCommodityData();
-      if (!commodityData) {
-        process.exit(1);
-      }
+      const commodityData = await this.fetchAndValidateCommodityData(commodity);
       
       // Generate forecasts and analysis if enabled
       if (generateForecasts) {
-        const analysis = await this.generateComprehensiveAnalysis(commodityData);
+        analysis = await this.generateComprehensiveAnalysis(commodityData, {
+          forecastMethod,
+          useStructuredOutput,
+          includeTechnicalIndicators,
+          ...(statisticalModel && { statisticalModel }),
+          ...(curveInterpolation && { curveInterpolation }),
+          ...(horizons && { horizons })
+        });
         
         // Output results if enabled
         if (outputResults) {
-          await this.outputResults(analysis);
+          await this.outputResults(analysis, {
+            ...(outputDir && { outputDir }),
+            ...(outputFormat && { outputFormat })
+          });
         }
       }
       
-      console.log('\n🚀 Ready to proceed with forecasting functionality...');
+      this.logger.log('\n🚀 Ready to proceed with forecasting functionality...');
+      
+      return analysis;
       
     } catch (error) {
-      console.error('❌ Error in main application:', error instanceof Error ? error.message : error);
-      process.exit(1);
+      this.logger.error('❌ Error in main application:', error instanceof Error ? error.message : error);
+      throw error;
     }
   }
 }
@@ -249,8 +280,15 @@ class CommodityForecastApp {
  * Main function to run the application
  */
 async function main() {
-  const app = new CommodityForecastApp();
-  await app.run();
+  try {
+    const app = new CommodityForecastApp();
+    await app.run();
+  } catch (error) {
+    if (error instanceof AnalysisServiceException && error.errorType === AnalysisServiceError.CONFIGURATION_ERROR) {
+      console.error(`Error: ${error.message}`);
+    }
+    process.exitCode = 1;
+  }
 }
 
 // Run the main function if this file is executed directly
@@ -118,7 +118,115 @@ export const CACHE_CONFIG = {
   /** Cache cleanup interval (milliseconds) */
   CLEANUP_INTERVAL: 10 * 60 * 1000,
   /** Cache key prefix */
-  KEY_PREFIX: 'yahoo_finance:'
+  KEY_PREFIX: 'yahoo_finance:',
+  /** Cache backend ('file' persists across processes, 'memory' lasts for the process) */
+  BACKEND: 'file' as 'memory' | 'file',
+  /** Directory for the file cache backend */
+  DIRECTORY: '.cache/yahoo-finance'
+} as const;
+
+/**
+ * Fixture Configuration
+ * Record/replay of Yahoo Finance and OpenAI traffic for offline runs and tests
+ */
+export const FIXTURE_CONFIG = {
+  /** Environment variable selecting the mode ('off', 'record' or 'replay') */
+  MODE_ENV: 'FIXTURE_MODE',
+  /** Environment variable overriding the fixture directory */
+  DIRECTORY_ENV: 'FIXTURE_DIR',
+  /** Default fixture directory */
+  DIRECTORY: 'fixtures',
+  /** Length of the hex hash used in fixture file names */
+  HASH_LENGTH: 16,
+  /** Replaces dates in OpenAI requests before hashing so fixtures replay on later days */
+  DATE_PLACEHOLDER: '<date>'
+} as const;
+
+/**
+ * Price History Store Configuration
+ * Local OHLCV time series kept as JSONL files per symbol and interval
+ */
+export const PRICE_HISTORY_CONFIG = {
+  /** Directory for stored price history */
+  DIRECTORY: 'data/history',
+  /** Range fetched when a series is synced for the first time */
+  INITIAL_RANGE: '10y',
+  /** Ranges tried (smallest first) when fetching bars newer than the last stored one */
+  SYNC_RANGES: ['5d', '1mo', '3mo', '6mo', '1y', '2y', '5y', '10y'],
+  /** Weekdays without a daily bar tolerated before reporting a gap (covers exchange holidays) */
+  DAILY_GAP_TOLERANCE: 2,
+  /** Missing bars tolerated for other intervals before reporting a gap */
+  BAR_GAP_TOLERANCE: 2,
+  /** Shortest gap reported for intraday intervals (seconds; skips nights and weekends) */
+  MIN_INTRADAY_GAP: 4 * 24 * 60 * 60
+} as const;
+
+/**
+ * Forecast Evaluation Configuration
+ * Archive of issued forecasts and realized-accuracy tracking
+ */
+export const FORECAST_EVALUATION_CONFIG = {
+  /** JSONL archive of issued forecasts */
+  ARCHIVE_FILE: 'data/forecasts/archive.jsonl',
+  /** Days after maturity searched for the first realized close */
+  REALIZED_PRICE_WINDOW_DAYS: 7
+} as const;
+
+/**
+ * Backtest Configuration
+ * Historical replay of forecast methods against naive baselines
+ */
+export const BACKTEST_CONFIG = {
+  /** Directory for stored futures curve snapshots */
+  SNAPSHOT_DIRECTORY: 'data/curves',
+  /** Trading days between issue dates (1 = every stored day) */
+  STEP_DAYS: 1,
+  /** Daily closes used to estimate the drift baseline */
+  DRIFT_LOOKBACK_DAYS: 252,
+  /** Trading days per calendar year (scales drift to a horizon) */
+  TRADING_DAYS_PER_YEAR: 252,
+  /** Oldest contract close or curve snapshot usable on an issue date (calendar days) */
+  MAX_PRICE_AGE_DAYS: 5,
+  /** Contracts expiring sooner than this after the issue date are skipped (matches the live mapping) */
+  MIN_DAYS_TO_EXPIRATION: 30,
+  /** Years ahead of the current one whose contracts are synced for backtesting */
+  CONTRACT_SYNC_YEARS: 3
+} as const;
+
+/**
+ * Risk Metrics Configuration
+ * Volatility, drawdown and Value-at-Risk computed from price history
+ */
+export const RISK_METRICS_CONFIG = {
+  /** Daily history the metrics are computed on */
+  HISTORY_RANGE: '1y',
+  /** Returns per rolling volatility window (about one trading month) */
+  ROLLING_WINDOW: 21,
+  /** One-sided confidence levels for Value-at-Risk and expected shortfall (%) */
+  VAR_CONFIDENCE_LEVELS: [95, 99],
+  /** Minimum returns needed to compute the metrics */
+  MIN_OBSERVATIONS: 30
+} as const;
+
+/**
+ * Technical Indicators Configuration
+ * Moving averages, momentum and range indicators for the analysis snapshot
+ */
+export const TECHNICAL_INDICATORS_CONFIG = {
+  /** Daily history the snapshot is computed on (covers the longest moving average) */
+  HISTORY_RANGE: '1y',
+  /** Simple moving average periods (bars) */
+  SMA_PERIODS: [20, 50, 200],
+  /** Exponential moving average periods (bars) */
+  EMA_PERIODS: [12, 26],
+  /** Relative Strength Index period (Wilder smoothing) */
+  RSI_PERIOD: 14,
+  /** MACD fast, slow and signal EMA periods */
+  MACD: { FAST: 12, SLOW: 26, SIGNAL: 9 },
+  /** Bollinger Bands period and width in standard deviations */
+  BOLLINGER: { PERIOD: 20, STD_DEV: 2 },
+  /** Average True Range period (Wilder smoothing) */
+  ATR_PERIOD: 14
 } as const;
 
 /**
@@ -266,7 +374,7 @@ export const COMMODITY_SYMBOLS = {
     name: 'Corn',
     exchange: 'CBOT',
     currency: 'USD',
-    unit: 'USD per bushel',
+    unit: 'US cents per bushel',
     contractType: 'future' as const,
     category: 'agriculture',
     isActive: true,
@@ -279,7 +387,7 @@ export const COMMODITY_SYMBOLS = {
     name: 'Wheat',
     exchange: 'CBOT',
     currency: 'USD',
-    unit: 'USD per bushel',
+    unit: 'US cents per bushel',
     contractType: 'future' as const,
     category: 'agriculture',
     isActive: true,
@@ -292,7 +400,7 @@ export const COMMODITY_SYMBOLS = {
     name: 'Soybeans',
     exchange: 'CBOT',
     currency: 'USD',
-    unit: 'USD per bushel',
+    unit: 'US cents per bushel',
     contractType: 'future' as const,
     category: 'agriculture',
     isActive: true,
@@ -305,7 +413,7 @@ export const COMMODITY_SYMBOLS = {
     name: 'Coffee',
     exchange: 'ICE',
     currency: 'USD',
-    unit: 'USD per pound',
+    unit: 'US cents per pound',
     contractType: 'future' as const,
     category: 'agriculture',
     isActive: true,
@@ -318,7 +426,7 @@ export const COMMODITY_SYMBOLS = {
     name: 'Sugar',
     exchange: 'ICE',
     currency: 'USD',
-    unit: 'USD per pound',
+    unit: 'US cents per pound',
     contractType: 'future' as const,
     category: 'agriculture',
     isActive: true,
@@ -331,7 +439,7 @@ export const COMMODITY_SYMBOLS = {
     name: 'Cotton',
     exchange: 'ICE',
     currency: 'USD',
-    unit: 'USD per pound',
+    unit: 'US cents per pound',
     contractType: 'future' as const,
     category: 'agriculture',
     isActive: true,
@@ -344,7 +452,7 @@ export const COMMODITY_SYMBOLS = {
     name: 'Live Cattle',
     exchange: 'CME',
     currency: 'USD',
-    unit: 'USD per pound',
+    unit: 'US cents per pound',
     contractType: 'future' as const,
     category: 'agriculture',
     isActive: true,
@@ -357,7 +465,7 @@ export const COMMODITY_SYMBOLS = {
     name: 'Lean Hogs',
     exchange: 'CME',
     currency: 'USD',
-    unit: 'USD per pound',
+    unit: 'US cents per pound',
     contractType: 'future' as const,
     category: 'agriculture',
     isActive: true,
@@ -386,7 +494,7 @@ export const VALIDATION_RULES = {
     PLATINUM: { min: 500, max: 3000, warningThresholds: { low: 800, high: 2500 } },
     PALLADIUM: { min: 1000, max: 5000, warningThresholds: { low: 1500, high: 4000 } },
 
-    // Agricultural commodities (USD per bushel/pound)
+    // Agricultural commodities (US cents per bushel/pound)
     CORN: { min: 200, max: 1000, warningThresholds: { low: 300, high: 800 } },
     WHEAT: { min: 300, max: 1500, warningThresholds: { low: 400, high: 1200 } },
     SOYBEANS: { min: 500, max: 2000, warningThresholds: { low: 700, high: 1700 } },
@@ -506,6 +614,11 @@ export const ERROR_CONFIG = {
 
 /**
  * Market Hours Configuration
+ * Times are in the exchange timezone. The electronic session closes on the
+ * trading day and, with a '+1' close, opens the evening before it; the week's
+ * first session opens at `sunday.open` on Sunday (null: no Sunday open). The
+ * gap between the electronic close and the next open is the maintenance break.
+ * Keys match the trading calendars in utils/trading-calendar.
  */
 export const MARKET_HOURS = {
   /** NYMEX (Energy and metals) */
@@ -529,12 +642,26 @@ export const MARKET_HOURS = {
     electronic: { open: '20:00', close: '08:45+1' },
     sunday: { open: '20:00', close: '08:45+1' }
   },
+  /** CME (Livestock, day session only) */
+  CME: {
+    timezone: 'America/Chicago',
+    regular: { open: '08:30', close: '13:05' },
+    electronic: { open: '08:30', close: '13:05' },
+    sunday: null as null
+  },
   /** ICE (Coffee, Sugar, etc.) */
   ICE: {
     timezone: 'America/New_York',
     regular: { open: '04:00', close: '14:00' },
     electronic: { open: '20:00', close: '18:00+1' },
     sunday: { open: '20:00', close: '18:00+1' }
+  },
+  /** ICE Futures Europe (Brent) */
+  ICE_EUROPE: {
+    timezone: 'Europe/London',
+    regular: { open: '01:00', close: '23:00' },
+    electronic: { open: '01:00', close: '23:00' },
+    sunday: { open: '23:00', close: '23:00+1' }
   }
 } as const;
 
@@ -553,7 +680,8 @@ export const DEFAULT_YAHOO_FINANCE_CONFIG = {
     enabled: CACHE_CONFIG.ENABLED,
     defaultTtl: CACHE_CONFIG.DEFAULT_TTL,
     maxSizeMb: CACHE_CONFIG.MAX_SIZE_MB,
-    keyPrefix: CACHE_CONFIG.KEY_PREFIX
+    keyPrefix: CACHE_CONFIG.KEY_PREFIX,
+    backend: CACHE_CONFIG.BACKEND
   },
   rateLimit: {
     enabled: RATE_LIMIT_CONFIG.ENABLED,
@@ -593,6 +721,29 @@ export function getCommodityConfig(symbol: string) {
   return Object.values(COMMODITY_SYMBOLS).find(config => config.symbol === symbol);
 }
 
+/**
+ * Get commodity key by symbol
+ */
+export function getCommodityKey(symbol: string): CommoditySymbolKey | undefined {
+  return (Object.keys(COMMODITY_SYMBOLS) as CommoditySymbolKey[]).find(key =>
+    COMMODITY_SYMBOLS[key].symbol === symbol
+  );
+}
+
+/**
+ * Resolve commodity key from a key ('GOLD'), symbol ('GC=F') or name ('gold', 'natural-gas')
+ */
+export function resolveCommodityKey(input: string): CommoditySymbolKey | undefined {
+  const normalize = (value: string) => value.trim().toUpperCase().replace(/[^A-Z0-9=]+/g, '_').replace(/^_+|_+$/g, '');
+  const normalized = normalize(input);
+
+  return (Object.keys(COMMODITY_SYMBOLS) as CommoditySymbolKey[]).find(key =>
+    key === normalized ||
+    COMMODITY_SYMBOLS[key].symbol === normalized ||
+    normalize(COMMODITY_SYMBOLS[key].name) === normalized
+  );
+}
+
 /**
  * Get commodity configuration by name
  */
@@ -651,28 +802,37 @@ export const FUTURES_CONFIG = {
   /** Standard forecast horizons in months */
   STANDARD_HORIZONS: [3, 6, 12, 24],
   
-  /** Contract expiration rules by commodity */
+  /**
+   * Last trading day rules by product, evaluated on the product's exchange calendar
+   * - before-day: `businessDays` business days before `day` of the month `monthOffset` from the contract month
+   *   (with `rollAnchor`, a non-business `day` first rolls back to the preceding business day)
+   * - last-business-day: `businessDays` business days before the last business day of that month
+   * - nth-business-day: the `n`th business day of that month
+   */
   EXPIRATION_RULES: {
-    'CL': { // Crude Oil WTI
-      dayOfMonth: 20,
-      monthOffset: -1,
-      businessDaysOnly: true,
-      exchange: 'NYMEX'
-    },
-    'GC': { // Gold
-      dayOfMonth: 27,
-      monthOffset: -1,
-      businessDaysOnly: true,
-      exchange: 'COMEX'
-    },
-    'NG': { // Natural Gas
-      dayOfMonth: 25,
-      monthOffset: -1,
-      businessDaysOnly: true,
-      exchange: 'NYMEX'
-    }
+    'CL': { calendar: 'NYMEX', type: 'before-day', monthOffset: -1, day: 25, businessDays: 3, rollAnchor: true }, // 3 business days before the 25th of the prior month (4 if the 25th is not a business day)
+    'BZ': { calendar: 'ICE_EUROPE', type: 'last-business-day', monthOffset: -2, businessDays: 0 }, // Last business day of the second month before the contract month
+    'NG': { calendar: 'NYMEX', type: 'before-day', monthOffset: 0, day: 1, businessDays: 3 }, // 3 business days before the first day of the contract month
+    'HO': { calendar: 'NYMEX', type: 'last-business-day', monthOffset: -1, businessDays: 0 }, // Last business day of the prior month
+    'RB': { calendar: 'NYMEX', type: 'last-business-day', monthOffset: -1, businessDays: 0 }, // Last business day of the prior month
+    'GC': { calendar: 'COMEX', type: 'last-business-day', monthOffset: 0, businessDays: 2 }, // Third last business day of the contract month
+    'SI': { calendar: 'COMEX', type: 'last-business-day', monthOffset: 0, businessDays: 2 }, // Third last business day of the contract month
+    'HG': { calendar: 'COMEX', type: 'last-business-day', monthOffset: 0, businessDays: 2 }, // Third last business day of the contract month
+    'PL': { calendar: 'NYMEX', type: 'last-business-day', monthOffset: 0, businessDays: 2 }, // Third last business day of the contract month
+    'PA': { calendar: 'NYMEX', type: 'last-business-day', monthOffset: 0, businessDays: 2 }, // Third last business day of the contract month
+    'ZC': { calendar: 'CBOT', type: 'before-day', monthOffset: 0, day: 15, businessDays: 1 }, // Business day before the 15th of the contract month
+    'ZW': { calendar: 'CBOT', type: 'before-day', monthOffset: 0, day: 15, businessDays: 1 }, // Business day before the 15th of the contract month
+    'ZS': { calendar: 'CBOT', type: 'before-day', monthOffset: 0, day: 15, businessDays: 1 }, // Business day before the 15th of the contract month
+    'KC': { calendar: 'ICE', type: 'last-business-day', monthOffset: 0, businessDays: 8 }, // Business day before last notice (7 business days before the last business day)
+    'SB': { calendar: 'ICE', type: 'last-business-day', monthOffset: -1, businessDays: 0 }, // Last business day of the prior month
+    'CT': { calendar: 'ICE', type: 'last-business-day', monthOffset: 0, businessDays: 16 }, // 17th business day counting back from the end of the contract month
+    'LE': { calendar: 'CME', type: 'last-business-day', monthOffset: 0, businessDays: 0 }, // Last business day of the contract month
+    'HE': { calendar: 'CME', type: 'nth-business-day', monthOffset: 0, n: 10 } // 10th business day of the contract month
   },
   
+  /** Rule for products without one: the 20th of the prior month, or the business day before it */
+  DEFAULT_EXPIRATION_RULE: { calendar: 'NYMEX', type: 'before-day', monthOffset: -1, day: 20, businessDays: 0, rollAnchor: true },
+  
   /** Cache TTL configuration for futures data */
   CACHE_TTL: {
     SPOT_PRICES: 1 * 60 * 1000,        // 1 minute
@@ -680,6 +840,7 @@ export const FUTURES_CONFIG = {
     NEAR_TERM: 15 * 60 * 1000,         // 15 minutes (2-6 months)
     MEDIUM_TERM: 1 * 60 * 60 * 1000,   // 1 hour (6-12 months)
     LONG_TERM: 4 * 60 * 60 * 1000,     // 4 hours (12+ months)
+    EXPIRED: 24 * 60 * 60 * 1000,      // 24 hours (past the last trading day, prices are final)
     CURVE_DATA: 2 * 60 * 60 * 1000,    // 2 hours (full curve)
     HISTORICAL_CURVES: 24 * 60 * 60 * 1000 // 24 hours
   },
@@ -814,6 +975,70 @@ export const FORECASTING_CONFIG = {
       accuracy: 'medium',
       requiredServices: ['web-search'],
       fallback: null as null
+    },
+    STATISTICAL: {
+      name: 'Statistical Time-Series Model',
+      costEfficiency: 1.0, // Price history only, no AI calls
+      accuracy: 'low',
+      requiredServices: ['yahoo-finance'],
+      fallback: null as null
+    },
+    ENSEMBLE: {
+      name: 'Ensemble Forecast',
+      costEfficiency: 0.25, // Runs every member method, including web search
+      accuracy: 'high',
+      requiredServices: ['web-search', 'yahoo-finance', 'risk-analyzer'],
+      fallback: null as null
+    }
+  },
+  
+  /** Market consensus (futures curve) baseline settings */
+  MARKET_CONSENSUS: {
+    DEFAULT_ANNUAL_VOLATILITY: 0.30, // Used for uncertainty ranges when no better estimate exists
+    CONFIDENCE_INTERVAL: 95, // Default confidence interval (%)
+    Z_SCORES: { 80: 1.2816, 90: 1.6449, 95: 1.96, 99: 2.5758 } as Record<number, number>,
+    MIN_CONFIDENCE_LEVEL: 20 // Floor for reported confidence level (%)
+  },
+  
+  /** Ensemble forecast combiner (weights from the forecast archive) */
+  ENSEMBLE: {
+    MEMBERS: ['web-search', 'hybrid', 'statistical'] as Array<'web-search' | 'hybrid' | 'statistical'>,
+    MIN_TRACK_RECORD: 5, // Resolved forecasts a method needs before its error is used for weighting
+    MIN_ERROR: 0.005 // MAPE floor so a lucky method cannot take all the weight
+  },
+  
+  /** Constant-maturity forward prices interpolated from the futures curve */
+  CURVE_INTERPOLATION: {
+    DEFAULT_METHOD: 'linear' as 'linear' | 'cubic-spline' | 'nelson-siegel',
+    NELSON_SIEGEL_TAU_GRID: [0.1, 0.25, 0.5, 0.75, 1, 1.5, 2, 3, 5], // Decay constants tried (years)
+    MIN_NELSON_SIEGEL_POINTS: 4, // Three betas need at least one contract to spare
+    CONTRACTS_PAST_TARGET: 1 // Listed contracts fetched after the latest horizon so it is bracketed
+  },
+  
+  /** Monte Carlo price path simulation */
+  SIMULATION: {
+    PATHS: 10000,
+    MAX_PATHS: 200000,
+    STEPS_PER_YEAR: 252, // Daily steps
+    SEED: 42, // Default seed so repeated runs give identical results
+    DEGREES_OF_FREEDOM: 5, // Student-t shocks (must be above 2)
+    PERCENTILES: [5, 25, 50, 75, 95],
+    VOLATILITY_RANGE: '1y' as TimeRange // Daily history used to estimate volatility
+  },
+  
+  /** Statistical baseline forecasters (fitted on log closes) */
+  STATISTICAL: {
+    DEFAULT_MODEL: 'arima' as 'random-walk' | 'drift' | 'holt-winters' | 'arima',
+    HISTORY_RANGE: '5y' as TimeRange, // Daily price history fetched for the statistical method
+    MIN_OBSERVATIONS: 30, // Fewer closes than this cannot be fitted
+    STEPS_PER_MONTH: { '1d': 21, '5d': 4.2, '1wk': 52 / 12, '1mo': 1, '3mo': 1 / 3 } as Record<string, number>,
+    SEASONAL_PERIODS: { '1wk': 52, '1mo': 12, '3mo': 4 } as Record<string, number>, // Daily data is fitted without seasonality
+    MAX_AR_ORDER: 5, // ARIMA(p,1,0) orders tried, selected by AIC
+    SMOOTHING_GRID: {
+      ALPHA: [0.05, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9, 0.99],
+      BETA: [0.001, 0.01, 0.05, 0.1, 0.2],
+      PHI: [0.8, 0.9, 0.95, 0.98, 1.0],
+      GAMMA: [0.01, 0.05, 0.1, 0.2]
     }
   },
   
@@ -834,6 +1059,52 @@ export const FORECASTING_CONFIG = {
   }
 } as const;
 
+/**
+ * Source Reliability Configuration for web search citations
+ * Domains match the cited hostname or any of its subdomains
+ */
+export const SOURCE_RELIABILITY_CONFIG = {
+  /** Government agencies, intergovernmental bodies, exchanges and major banks */
+  HIGH: [
+    'eia.gov',
+    'energy.gov',
+    'iea.org',
+    'opec.org',
+    'worldbank.org',
+    'imf.org',
+    'federalreserve.gov',
+    'cmegroup.com',
+    'theice.com',
+    'goldmansachs.com',
+    'jpmorgan.com',
+    'morganstanley.com',
+    'citigroup.com',
+    'citi.com',
+    'bankofamerica.com',
+    'ubs.com',
+    'barclays.com',
+    'hsbc.com'
+  ],
+  /** Established financial news and market data providers */
+  MEDIUM: [
+    'reuters.com',
+    'bloomberg.com',
+    'ft.com',
+    'wsj.com',
+    'cnbc.com',
+    'marketwatch.com',
+    'finance.yahoo.com',
+    'spglobal.com',
+    'argusmedia.com',
+    'oilprice.com',
+    'tradingeconomics.com',
+    'investing.com',
+    'fitchsolutions.com'
+  ],
+  /** Reliability assigned to domains not on either list */
+  DEFAULT: 'low' as 'high' | 'medium' | 'low'
+} as const;
+
 /**
  * Export configuration for easy access
  */
@@ -851,5 +1122,6 @@ export default {
   futures: FUTURES_CONFIG,
   riskFactors: RISK_FACTOR_CONFIG,
   forecasting: FORECASTING_CONFIG,
+  sourceReliability: SOURCE_RELIABILITY_CONFIG,
   defaults: DEFAULT_YAHOO_FINANCE_CONFIG
 } as const;
\ No newline at end of file
@@ -0,0 +1,302 @@
+/**
+ * Commodity Forecast Library
+ *
+ * Library entry point for embedding the commodity forecast pipeline in other
+ * Node services. Services log through an injectable Logger (silent by
+ * default), return typed results and throw typed exceptions instead of
+ * exiting the process.
+ *
+ * Example:
+ *   const service = createAnalysisService({ apiKey, logger: consoleLogger });
+ *   const analysis = await service.analyze('GOLD', { horizons: ['3-month'] });
+ *
+ * @author Commodity Forecast Library
+ * @version 1.0.0
+ */
+
+// Orchestration
+export {
+  AnalysisService,
+  AnalysisServiceError,
+  AnalysisServiceException,
+  AnalysisServiceOptions,
+  AnalysisOptions,
+  createAnalysisService
+} from './services/analysis-service';
+
+// Services
+export {
+  WebSearchService,
+  WebSearchOptions,
+  WebSearchResult,
+  createWebSearchService
+} from './services/web-search-service';
+export {
+  PriceDataService,
+  PriceDataOptions,
+  DEFAULT_COMMODITY,
+  createPriceDataService
+} from './services/price-data-service';
+export {
+  ForecastService,
+  ForecastMethod,
+  ForecastOptions,
+  MarketConsensusOptions,
+  StatisticalMethodOptions,
+  createForecastService,
+  methodUsesWebSearch
+} from './services/forecast-service';
+export {
+  RiskAnalysisService,
+  RiskAssessment,
+  RiskAssessmentOptions,
+  createRiskAnalysisService
+} from './services/risk-analysis-service';
+export {
+  PriceHistoryService,
+  PriceHistorySyncOptions,
+  PriceHistorySyncResult,
+  PriceGap,
+  PriceGapRepairResult,
+  createPriceHistoryService
+} from './services/price-history-service';
+export {
+  ForecastEvaluationService,
+  ForecastAccuracyMetrics,
+  ForecastAccuracyReport,
+  RealizedPriceUpdate,
+  calculateAccuracyMetrics,
+  createForecastEvaluationService
+} from './services/forecast-evaluation-service';
+export {
+  BacktestService,
+  BacktestMethod,
+  BacktestCurveSource,
+  BacktestOptions,
+  BacktestSample,
+  BacktestErrorMetrics,
+  BacktestHorizonResult,
+  BacktestReport,
+  BacktestSyncResult,
+  calculateBacktestMetrics,
+  createBacktestService
+} from './services/backtest-service';
+export {
+  YahooFinanceService,
+  YahooFinanceServiceError,
+  YahooFinanceServiceException,
+  QuoteOptions,
+  ChartOptions,
+  getYahooFinanceService,
+  createYahooFinanceService
+} from './services/yahoo-finance-service';
+
+// HTTP API
+export { ApiServer, ApiServerOptions, ApiError, ForecastRequestBody, createApiServer } from './api/server';
+
+// Caching
+export {
+  CacheBackend,
+  CacheBackendType,
+  CacheBackendOptions,
+  CacheEntry,
+  CacheStats,
+  MemoryCacheBackend,
+  FileCacheBackend,
+  createCacheBackend
+} from './utils/cache-backend';
+
+// Price history storage
+export {
+  PriceHistoryStore,
+  PriceHistoryRange,
+  PriceHistoryWriteResult,
+  PriceSeriesId,
+  createPriceHistoryStore
+} from './utils/price-history-store';
+
+// Forecast archive
+export {
+  ForecastArchive,
+  ArchivedForecast,
+  ForecastArchiveFilter,
+  RealizedPrice,
+  createForecastArchive
+} from './utils/forecast-archive';
+
+// Statistical forecasters
+export {
+  Forecaster,
+  BaseForecaster,
+  FittedModel,
+  LogPriceForecast,
+  StatisticalModel,
+  StatisticalForecastOptions,
+  RandomWalkForecaster,
+  DriftForecaster,
+  HoltWintersForecaster,
+  ArimaForecaster,
+  STATISTICAL_MODELS,
+  createForecaster
+} from './utils/statistical-forecasters';
+
+// Trading calendars
+export {
+  TradingCalendarId,
+  HolidayObservance,
+  HolidayRule,
+  ExchangeHoliday,
+  BusinessDayConvention,
+  TRADING_CALENDARS,
+  EXCHANGE_HOLIDAY_RULES,
+  getExchangeHolidays,
+  getExchangeHoliday,
+  isBusinessDay,
+  addBusinessDays,
+  rollToBusinessDay,
+  getLastBusinessDay,
+  getNthBusinessDay,
+  countBusinessDays,
+  getCalendarDaysBetween
+} from './utils/trading-calendar';
+
+// Market hours
+export {
+  MarketHoursKey,
+  TradingSessions,
+  YAHOO_EXCHANGE_CODES,
+  getMarketStatusAt,
+  getTradingSessions
+} from './utils/market-hours';
+
+// Futures curve interpolation
+export {
+  CurveInterpolationMethod,
+  CurvePoint,
+  NelsonSiegelFit,
+  CURVE_INTERPOLATION_METHODS,
+  interpolateCurve,
+  getCurvePoints,
+  fitNelsonSiegel,
+  evaluateNelsonSiegel
+} from './utils/curve-interpolation';
+
+// Monte Carlo simulation
+export {
+  ShockDistribution,
+  SimulationHorizon,
+  MonteCarloSettings,
+  MonteCarloOptions,
+  MonteCarloHorizonResult,
+  MonteCarloResult,
+  simulatePricePaths,
+  estimateAnnualVolatility,
+  createSeededRandom,
+  getPercentile
+} from './utils/monte-carlo';
+
+// Ensemble forecasts
+export {
+  EnsembleMethod,
+  MethodTrackRecord,
+  EnsembleTrackRecord,
+  EnsembleMemberForecast,
+  EnsembleCombineOptions,
+  EnsembleWeights,
+  calculateEnsembleWeights,
+  combineForecasts
+} from './utils/ensemble';
+
+// Risk metrics
+export {
+  RiskMetricsOptions,
+  LogReturn,
+  calculateRiskMetrics,
+  calculateLogReturns,
+  calculateRealizedVolatility,
+  calculateRollingVolatility,
+  calculateMaxDrawdown,
+  calculateValueAtRisk,
+  getBarsPerYear
+} from './utils/risk-metrics';
+
+// Technical indicators
+export {
+  MacdPoint,
+  BollingerPoint,
+  TechnicalSnapshotOptions,
+  calculateSMA,
+  calculateEMA,
+  calculateRSI,
+  calculateMACD,
+  calculateBollingerBands,
+  calculateATR,
+  calculateRangePosition,
+  createTechnicalSnapshot
+} from './utils/technical-indicators';
+
+// Futures curve snapshots
+export { CurveSnapshotStore, CurveSnapshot, createCurveSnapshotStore } from './utils/curve-snapshot-store';
+
+// Record/replay fixtures
+export {
+  FixtureMode,
+  FixtureOptions,
+  FixtureStore,
+  FixtureHttpClient,
+  FixtureNotFoundError,
+  createFixtureStore,
+  getFixtureOptions
+} from './utils/fixtures';
+
+// Logging
+export { Logger, consoleLogger, silentLogger, stderrLogger } from './utils/logger';
+
+// Configuration
+export {
+  COMMODITY_SYMBOLS,
+  CommoditySymbolKey,
+  CommodityCategory,
+  TimeInterval,
+  TimeRange,
+  getCommodityConfig,
+  getCommodityKey
+} from './config/yahoo-finance';
+
+// Types
+export {
+  SourceInfo,
+  CommodityData,
+  ForecastData,
+  FuturesContract,
+  FuturesCurve,
+  RiskAdjustment,
+  MarketConsensusForcast,
+  CurveInterpolation,
+  PercentileBand,
+  ThresholdProbability,
+  SimulationSummary,
+  EnsembleMember,
+  EnsembleForecast,
+  RiskMetrics,
+  RealizedVolatility,
+  RollingVolatilityPoint,
+  MaxDrawdown,
+  ValueAtRisk,
+  MovingAverageValue,
+  TechnicalSnapshot,
+  CommodityAnalysis,
+  FORECAST_HORIZONS
+} from './types/commodity';
+export { HistoricalData, HistoricalPricePoint, MarketStatus } from './types/yahoo-finance';
+
+// Formatting
+export {
+  formatAnalysisAsJSON,
+  formatAnalysisAsTable,
+  formatCommodityDataAsJSON,
+  formatCommodityDataAsTable,
+  formatBacktestReportAsTable,
+  formatSimulationAsTable,
+  OutputFormat
+} from './utils/formatter';
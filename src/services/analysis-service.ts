@@ -0,0 +1,333 @@
+/**
+ * Analysis Service Module
+ *
+ * Library-facing orchestration of the forecast pipeline: connectivity checks,
+ * current price retrieval and multi-horizon analysis. Returns typed results
+ * and throws AnalysisServiceException instead of exiting the process, and
+ * logs only through the injected logger (silent by default), so it can be
+ * embedded in other Node services. The application and CLI are thin
+ * wrappers on top of it.
+ *
+ * @author Analysis Service Module
+ * @version 1.0.0
+ */
+
+import OpenAI from 'openai';
+import { CommodityAnalysis, CommodityData, ForecastData } from '../types/commodity';
+import { CommoditySymbolKey, FORECASTING_CONFIG } from '../config/yahoo-finance';
+import { WebSearchService, createWebSearchService } from './web-search-service';
+import { PriceDataService, PriceDataOptions, createPriceDataService, DEFAULT_COMMODITY } from './price-data-service';
+import { ForecastService, ForecastMethod, createForecastService, methodUsesWebSearch } from './forecast-service';
+import { createForecastEvaluationService } from './forecast-evaluation-service';
+import { YahooFinanceService } from './yahoo-finance-service';
+import { Logger, silentLogger } from '../utils/logger';
+import { StatisticalModel } from '../utils/statistical-forecasters';
+import { MonteCarloSettings } from '../utils/monte-carlo';
+import { CurveInterpolationMethod } from '../utils/curve-interpolation';
+import { EnsembleMethod, EnsembleTrackRecord } from '../utils/ensemble';
+import { FixtureOptions, createFixtureStore, getFixtureOptions } from '../utils/fixtures';
+import { ForecastArchive } from '../utils/forecast-archive';
+
+/**
+ * Analysis service error types
+ */
+export enum AnalysisServiceError {
+  CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
+  CONNECTIVITY_FAILED = 'CONNECTIVITY_FAILED',
+  PRICE_UNAVAILABLE = 'PRICE_UNAVAILABLE',
+  DATA_VALIDATION_FAILED = 'DATA_VALIDATION_FAILED',
+  FORECAST_FAILED = 'FORECAST_FAILED'
+}
+
+/**
+ * Analysis service error class
+ */
+export class AnalysisServiceException extends Error {
+  public readonly errorType: AnalysisServiceError;
+  public readonly commodity: CommoditySymbolKey | undefined;
+  public readonly cause: unknown;
+
+  constructor(
+    errorType: AnalysisServiceError,
+    message: string,
+    commodity?: CommoditySymbolKey,
+    cause?: unknown
+  ) {
+    super(message);
+    this.name = 'AnalysisServiceException';
+    this.errorType = errorType;
+    this.commodity = commodity;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Analysis service construction options
+ */
+export interface AnalysisServiceOptions {
+  /** OpenAI API key (default: OPENAI_API_KEY environment variable) */
+  apiKey?: string;
+  /** Preconfigured OpenAI client (takes precedence over apiKey) */
+  client?: OpenAI;
+  /** Yahoo Finance service for futures data */
+  yahooFinanceService?: YahooFinanceService;
+  /** Logger for progress output (default: silent) */
+  logger?: Logger;
+  /** Record or replay OpenAI fixtures (default: from FIXTURE_MODE and FIXTURE_DIR) */
+  fixtures?: FixtureOptions;
+  /** Archive every issued forecast for later accuracy evaluation (default: none) */
+  forecastArchive?: ForecastArchive;
+}
+
+/**
+ * Analysis options
+ */
+export interface AnalysisOptions {
+  /** Forecasting method (default: 'hybrid') */
+  forecastMethod?: ForecastMethod;
+  /** Horizons to forecast (default: all) */
+  horizons?: ForecastData['horizon'][];
+  /** Request typed JSON forecasts from the model */
+  useStructuredOutput?: boolean;
+  /** Model for the 'statistical' method (default: FORECASTING_CONFIG.STATISTICAL.DEFAULT_MODEL) */
+  statisticalModel?: StatisticalModel;
+  /** Monte Carlo settings for 'hybrid' forecast intervals (default: closed-form range) */
+  simulation?: MonteCarloSettings;
+  /** Curve interpolation for 'hybrid' consensus prices, or 'none' for the mapped contract (default: FORECASTING_CONFIG.CURVE_INTERPOLATION.DEFAULT_METHOD) */
+  curveInterpolation?: CurveInterpolationMethod | 'none';
+  /** Methods combined by the 'ensemble' method (default: FORECASTING_CONFIG.ENSEMBLE.MEMBERS) */
+  ensembleMembers?: EnsembleMethod[];
+  /** Add a technical indicator snapshot to the analysis */
+  includeTechnicalIndicators?: boolean;
+  /** Delay between forecast requests (ms, default: 2000) */
+  requestDelay?: number;
+  /** Options for current price retrieval */
+  priceOptions?: PriceDataOptions;
+}
+
+/**
+ * Analysis Service for embedding the forecast pipeline
+ */
+export class AnalysisService {
+  private webSearchService: WebSearchService | undefined;
+  private priceDataService: PriceDataService;
+  private forecastService: ForecastService;
+  private forecastArchive: ForecastArchive | undefined;
+  private yahooFinanceService: YahooFinanceService | undefined;
+  private logger: Logger;
+
+  constructor(options: AnalysisServiceOptions = {}) {
+    this.logger = options.logger || silentLogger;
+    this.forecastArchive = options.forecastArchive;
+    this.yahooFinanceService = options.yahooFinanceService;
+
+    const fixtures = createFixtureStore(options.fixtures || getFixtureOptions());
+    // Replaying fixtures never reaches OpenAI, so no real API key is needed
+    const apiKey = options.apiKey || process.env['OPENAI_API_KEY'] || (fixtures?.mode === 'replay' ? 'fixture-replay' : undefined);
+    const client = options.client || (apiKey ? new OpenAI({ apiKey }) : undefined);
+
+    if (client) {
+      this.webSearchService = createWebSearchService(client, this.logger, fixtures);
+    }
+    // Without web search only the statistical method can run
+    this.forecastService = createForecastService(this.webSearchService, options.yahooFinanceService, this.logger);
+    this.priceDataService = createPriceDataService(this.webSearchService, this.logger);
+  }
+
+  /**
+   * Whether an OpenAI client is configured (required for every method but 'statistical')
+   *
+   * @returns True if web search and forecasting are available
+   */
+  hasWebSearch(): boolean {
+    return !!this.webSearchService;
+  }
+
+  /**
+   * Get the web search service, or throw if no OpenAI client is configured
+   *
+   * @returns WebSearchService instance
+   * @throws AnalysisServiceException when OpenAI is not configured
+   */
+  private requireWebSearch(): WebSearchService {
+    if (!this.webSearchService) {
+      throw new AnalysisServiceException(
+        AnalysisServiceError.CONFIGURATION_ERROR,
+        'OpenAI is not configured: pass apiKey or client, or set OPENAI_API_KEY'
+      );
+    }
+    return this.webSearchService;
+  }
+
+  /**
+   * Test OpenAI connectivity and web search functionality
+   *
+   * @throws AnalysisServiceException if either test fails
+   */
+  async testConnectivity(): Promise<void> {
+    const webSearchService = this.requireWebSearch();
+
+    if (!await webSearchService.testConnectivity()) {
+      throw new AnalysisServiceException(AnalysisServiceError.CONNECTIVITY_FAILED, 'API connectivity test failed');
+    }
+
+    if (!await webSearchService.testFunctionality()) {
+      throw new AnalysisServiceException(AnalysisServiceError.CONNECTIVITY_FAILED, 'Web search functionality test failed');
+    }
+
+    this.logger.log('\n✅ All tests passed! OpenAI API integration is working correctly.');
+  }
+
+  /**
+   * Fetch and validate current commodity data
+   *
+   * @param commodity - Commodity to fetch
+   * @param options - Price data fetching options
+   * @returns Promise resolving to validated CommodityData
+   * @throws AnalysisServiceException when no source returns a valid price
+   */
+  async getCurrentPrice(
+    commodity: CommoditySymbolKey = DEFAULT_COMMODITY,
+    options: PriceDataOptions = {}
+  ): Promise<CommodityData> {
+    const searchResult = await this.priceDataService.fetchCurrentPrice(commodity, {
+      useYahooFinance: true,
+      useWebSearchFallback: this.hasWebSearch(),
+      validatePrice: true,
+      useCache: true,
+      ...options
+    });
+
+    if (!searchResult.success) {
+      throw new AnalysisServiceException(
+        AnalysisServiceError.PRICE_UNAVAILABLE,
+        `Failed to fetch ${commodity} price data`,
+        commodity
+      );
+    }
+
+    const commodityData = await this.priceDataService.extractCommodityDataFromSearch(searchResult, commodity);
+
+    if (!commodityData) {
+      throw new AnalysisServiceException(
+        AnalysisServiceError.DATA_VALIDATION_FAILED,
+        `Failed to extract or validate ${commodity} price data`,
+        commodity
+      );
+    }
+
+    return commodityData;
+  }
+
+  /**
+   * Generate a multi-horizon analysis from existing commodity data
+   *
+   * @param commodityData - Current commodity data
+   * @param options - Analysis options
+   * @returns Promise resolving to comprehensive analysis
+   * @throws AnalysisServiceException when the method needs OpenAI and it is not configured, or forecasting fails
+   */
+  async analyzeCommodityData(commodityData: CommodityData, options: AnalysisOptions = {}): Promise<CommodityAnalysis> {
+    const method = options.forecastMethod || 'hybrid';
+    if (methodUsesWebSearch(method, options.ensembleMembers)) {
+      this.requireWebSearch();
+    }
+    const trackRecord = method === 'ensemble' ? await this.getTrackRecord(commodityData.symbol, options) : undefined;
+
+    let analysis: CommodityAnalysis;
+    try {
+      analysis = await this.forecastService.createComprehensiveAnalysis(commodityData, {
+        validateDiversity: true,
+        requestDelay: options.requestDelay ?? 2000,
+        method,
+        ...(options.horizons && { horizons: options.horizons }),
+        ...(options.useStructuredOutput && { useStructuredOutput: true }),
+        ...(options.includeTechnicalIndicators && { includeTechnicalIndicators: true }),
+        ...(options.statisticalModel && { statistical: { model: options.statisticalModel } }),
+        ...((options.simulation || options.curveInterpolation) && {
+          marketConsensus: {
+            ...(options.simulation && { simulation: options.simulation }),
+            ...(options.curveInterpolation && { interpolation: options.curveInterpolation })
+          }
+        }),
+        ...(method === 'ensemble' && {
+          ensemble: {
+            ...(options.ensembleMembers && { members: options.ensembleMembers }),
+            ...(trackRecord && { trackRecord })
+          }
+        })
+      });
+    } catch (error) {
+      throw new AnalysisServiceException(
+        AnalysisServiceError.FORECAST_FAILED,
+        `Forecast generation failed: ${error instanceof Error ? error.message : error}`,
+        undefined,
+        error
+      );
+    }
+
+    if (this.forecastArchive) {
+      try {
+        // Hybrid falls back to web search; archive under the method that produced the forecasts
+        const archived = await this.forecastArchive.record(analysis, analysis.forecastMethod ?? method);
+        this.logger.log(`🗄️ Archived ${archived.length} forecasts for accuracy tracking`);
+      } catch (error) {
+        // Archiving is bookkeeping; the analysis itself succeeded
+        this.logger.warn('⚠️ Failed to archive forecasts:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    return analysis;
+  }
+
+  /**
+   * Ensemble weights come from the archive's track record (none without an archive);
+   * matured forecasts are resolved first so the weights use every outcome so far
+   */
+  private async getTrackRecord(symbol: string, options: AnalysisOptions): Promise<EnsembleTrackRecord | undefined> {
+    if (!this.forecastArchive) {
+      return undefined;
+    }
+
+    const evaluationService = createForecastEvaluationService(this.yahooFinanceService, this.forecastArchive, this.logger);
+    try {
+      await evaluationService.updateRealizedPrices();
+    } catch (error) {
+      this.logger.warn('⚠️ Failed to resolve matured forecasts:', error instanceof Error ? error.message : error);
+    }
+
+    try {
+      return await evaluationService.getTrackRecord(symbol, options.ensembleMembers || FORECASTING_CONFIG.ENSEMBLE.MEMBERS);
+    } catch (error) {
+      this.logger.warn('⚠️ Failed to read forecast track record, using equal ensemble weights:', error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Fetch the current price and generate a multi-horizon analysis
+   *
+   * @param commodity - Commodity to analyze
+   * @param options - Analysis options
+   * @returns Promise resolving to comprehensive analysis
+   * @throws AnalysisServiceException on configuration, price or forecast failures
+   */
+  async analyze(commodity: CommoditySymbolKey = DEFAULT_COMMODITY, options: AnalysisOptions = {}): Promise<CommodityAnalysis> {
+    if (methodUsesWebSearch(options.forecastMethod || 'hybrid', options.ensembleMembers)) {
+      this.requireWebSearch();
+    }
+
+    const commodityData = await this.getCurrentPrice(commodity, options.priceOptions);
+    return this.analyzeCommodityData(commodityData, options);
+  }
+}
+
+/**
+ * Create a new AnalysisService instance
+ *
+ * @param options - OpenAI credentials, Yahoo Finance service and logger
+ * @returns AnalysisService instance
+ */
+export function createAnalysisService(options: AnalysisServiceOptions = {}): AnalysisService {
+  return new AnalysisService(options);
+}
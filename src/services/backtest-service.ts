@@ -0,0 +1,554 @@
+/**
+ * Backtest Service Module
+ *
+ * Replays stored daily history issue date by issue date and rebuilds what
+ * each forecasting method would have said using only data available on that
+ * date, then scores the forecasts against realized prices:
+ * - consensus: price of the futures contract the live mapping would pick for
+ *   the horizon (first expiry after the target date, at least
+ *   MIN_DAYS_TO_EXPIRATION out), from stored contract histories or from
+ *   curve snapshots. The AI risk adjustment is not replayed: it depends on
+ *   web searches that cannot be reproduced for past dates.
+ * - random-walk: the spot price on the issue date
+ * - drift: the spot price compounded at the mean daily log return over the
+ *   previous DRIFT_LOOKBACK_DAYS closes (issue dates start once that many
+ *   closes are stored)
+ *
+ * The realized price is the first spot close on or after the target date
+ * (within FORECAST_EVALUATION_CONFIG.REALIZED_PRICE_WINDOW_DAYS). Methods are
+ * scored on the same samples: issue dates where every method has a forecast
+ * and the horizon has matured.
+ *
+ * @author Backtest Service Module
+ * @version 1.0.0
+ */
+
+import { BACKTEST_CONFIG, FORECAST_EVALUATION_CONFIG, TIME_CONFIG } from '../config/yahoo-finance';
+import { FORECAST_HORIZONS, ForecastData } from '../types/commodity';
+import { HistoricalPricePoint } from '../types/yahoo-finance';
+import { YahooFinanceService, getYahooFinanceService } from './yahoo-finance-service';
+import { PriceHistorySyncResult, createPriceHistoryService } from './price-history-service';
+import { PriceHistoryStore, createPriceHistoryStore } from '../utils/price-history-store';
+import { CurveSnapshot, CurveSnapshotStore, createCurveSnapshotStore, findSnapshotAsOf } from '../utils/curve-snapshot-store';
+import { FuturesMapper } from '../utils/futures-mapper';
+import { Logger, silentLogger } from '../utils/logger';
+
+/**
+ * Backtested forecasting methods
+ */
+export type BacktestMethod = 'consensus' | 'random-walk' | 'drift';
+
+/**
+ * Where historical futures prices come from
+ * - history: per-contract daily closes in the price history store
+ * - snapshots: stored getFuturesCurve snapshots
+ */
+export type BacktestCurveSource = 'history' | 'snapshots';
+
+export const BACKTEST_METHODS: BacktestMethod[] = ['consensus', 'random-walk', 'drift'];
+
+/**
+ * Backtest options
+ */
+export interface BacktestOptions {
+  /** Horizons to backtest (default: all FORECAST_HORIZONS) */
+  horizons?: ForecastData['horizon'][];
+  /** Source of historical futures prices (default: 'history') */
+  curveSource?: BacktestCurveSource;
+  /** First issue date (YYYY-MM-DD, default: first close after the drift lookback) */
+  from?: string;
+  /** Last issue date (YYYY-MM-DD, default: last stored close) */
+  to?: string;
+  /** Trading days between issue dates (default: BACKTEST_CONFIG.STEP_DAYS) */
+  stepDays?: number;
+  /** Daily closes used for the drift estimate (default: BACKTEST_CONFIG.DRIFT_LOOKBACK_DAYS) */
+  driftLookbackDays?: number;
+}
+
+/**
+ * One scored issue date and horizon
+ */
+export interface BacktestSample {
+  /** Issue date (YYYY-MM-DD) */
+  issueDate: string;
+  horizon: ForecastData['horizon'];
+  /** Issue date plus the horizon (YYYY-MM-DD) */
+  targetDate: string;
+  /** Spot close on the issue date */
+  spotPrice: number;
+  /** Contract used for the consensus forecast */
+  contractSymbol: string;
+  /** Forecast price per method */
+  forecasts: Record<BacktestMethod, number>;
+  /** Date of the realized close (YYYY-MM-DD) */
+  realizedDate: string;
+  /** First spot close on or after the target date */
+  realizedPrice: number;
+}
+
+/**
+ * Error metrics of one method at one horizon
+ */
+export interface BacktestErrorMetrics {
+  /** Scored samples */
+  count: number;
+  /** Mean absolute error (price units) */
+  mae: number | null;
+  /** Mean absolute percentage error (fraction) */
+  mape: number | null;
+  /** Root mean squared error (price units) */
+  rmse: number | null;
+  /** Share of samples with the correct direction, among those calling a direction (fraction) */
+  directionalHitRate: number | null;
+  /** MAE divided by the random-walk MAE (below 1 beats the random walk) */
+  relativeMae: number | null;
+}
+
+/**
+ * Backtest results for one horizon
+ */
+export interface BacktestHorizonResult {
+  horizon: ForecastData['horizon'];
+  months: number;
+  /** Samples scored for every method */
+  samples: number;
+  /** Issue dates without a usable futures price */
+  missingConsensus: number;
+  /** Issue dates whose target date has no realized close yet */
+  unresolved: number;
+  metrics: Record<BacktestMethod, BacktestErrorMetrics>;
+}
+
+/**
+ * Backtest report
+ */
+export interface BacktestReport {
+  symbol: string;
+  curveSource: BacktestCurveSource;
+  /** First and last issue dates replayed (YYYY-MM-DD) */
+  from: string;
+  to: string;
+  /** Issue dates replayed */
+  issueDates: number;
+  stepDays: number;
+  driftLookbackDays: number;
+  /** Time the report was generated (ISO string) */
+  generatedAt: string;
+  horizons: BacktestHorizonResult[];
+  samples: BacktestSample[];
+}
+
+/**
+ * Backtest history sync outcome
+ */
+export interface BacktestSyncResult {
+  spot: PriceHistorySyncResult;
+  /** Contracts synced */
+  contracts: PriceHistorySyncResult[];
+  /** Contracts that could not be fetched */
+  failedContracts: string[];
+}
+
+/**
+ * Futures contract candidate for a target date
+ */
+interface ContractCandidate {
+  symbol: string;
+  expiration: number;
+  score: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAILY = TIME_CONFIG.DEFAULTS.DAILY_INTERVAL;
+
+/**
+ * Backtest Service for forecast methods over historical data
+ */
+export class BacktestService {
+  private yahooFinanceService: YahooFinanceService;
+  private store: PriceHistoryStore;
+  private snapshots: CurveSnapshotStore;
+  private logger: Logger;
+
+  constructor(
+    yahooFinanceService?: YahooFinanceService,
+    store?: PriceHistoryStore,
+    snapshots?: CurveSnapshotStore,
+    logger: Logger = silentLogger
+  ) {
+    this.yahooFinanceService = yahooFinanceService || getYahooFinanceService();
+    this.store = store || createPriceHistoryStore();
+    this.snapshots = snapshots || createCurveSnapshotStore();
+    this.logger = logger;
+  }
+
+  /**
+   * Sync the spot history and the currently listed contracts into the store
+   *
+   * Yahoo Finance stops quoting contracts once they expire, so contract
+   * histories have to be synced regularly while they are listed.
+   *
+   * @param symbol - Base symbol (e.g., 'CL=F')
+   * @returns Promise resolving to the sync outcome
+   * @throws YahooFinanceServiceException when the spot history cannot be fetched
+   */
+  async syncHistory(symbol: string): Promise<BacktestSyncResult> {
+    const historyService = createPriceHistoryService(this.yahooFinanceService, this.store, this.logger);
+    const spot = await historyService.sync(symbol);
+    const contracts: PriceHistorySyncResult[] = [];
+    const failedContracts: string[] = [];
+
+    const now = Date.now();
+    const currentYear = new Date().getFullYear();
+
+    for (let year = currentYear; year <= currentYear + BACKTEST_CONFIG.CONTRACT_SYNC_YEARS; year++) {
+      for (const month of FuturesMapper.getContractMonths(symbol)) {
+        if (FuturesMapper.calculateExpirationDate(symbol, month, year).getTime() < now) {
+          continue;
+        }
+
+        const contractSymbol = FuturesMapper.buildContractSymbol(symbol, month, year);
+        try {
+          contracts.push(await historyService.sync(contractSymbol));
+        } catch (error) {
+          this.logger.warn(`⚠️ Could not sync ${contractSymbol}:`, error instanceof Error ? error.message : error);
+          failedContracts.push(contractSymbol);
+        }
+      }
+    }
+
+    return { spot, contracts, failedContracts };
+  }
+
+  /**
+   * Replay stored history and score every method per horizon
+   *
+   * @param symbol - Base symbol (e.g., 'CL=F')
+   * @param options - Backtest options
+   * @returns Promise resolving to the backtest report
+   * @throws Error when no daily history is stored for the symbol
+   */
+  async run(symbol: string, options: BacktestOptions = {}): Promise<BacktestReport> {
+    const {
+      curveSource = 'history',
+      stepDays = BACKTEST_CONFIG.STEP_DAYS,
+      driftLookbackDays = BACKTEST_CONFIG.DRIFT_LOOKBACK_DAYS
+    } = options;
+
+    if (stepDays < 1 || driftLookbackDays < 1) {
+      throw new Error('stepDays and driftLookbackDays must be at least 1');
+    }
+
+    const spot = (await this.store.read(symbol, DAILY)).filter(point => point.close !== null && point.close > 0);
+    if (spot.length === 0) {
+      throw new Error(`No daily history stored for ${symbol}; sync it before backtesting`);
+    }
+
+    const horizonConfigs = options.horizons && options.horizons.length > 0
+      ? FORECAST_HORIZONS.filter(h => options.horizons!.includes(h.key))
+      : [...FORECAST_HORIZONS];
+    const snapshots = curveSource === 'snapshots' ? await this.snapshots.list(symbol) : [];
+    const contractHistories = new Map<string, HistoricalPricePoint[]>();
+
+    // Cumulative log returns, so the drift over any lookback is a difference
+    const cumulativeReturns = [0];
+    for (let i = 1; i < spot.length; i++) {
+      cumulativeReturns.push(cumulativeReturns[i - 1]! + Math.log(spot[i]!.close! / spot[i - 1]!.close!));
+    }
+
+    // Issue dates start once a full drift lookback is available
+    const issueIndices: number[] = [];
+    spot.forEach((point, index) => {
+      const day = toDay(point.date);
+      if (index >= driftLookbackDays && (!options.from || day >= options.from) && (!options.to || day <= options.to)) {
+        issueIndices.push(index);
+      }
+    });
+    const replayed = issueIndices.filter((_, position) => position % stepDays === 0);
+
+    this.logger.log(`🔁 Backtesting ${symbol} over ${replayed.length} issue dates (${curveSource} curve source)`);
+
+    const samples: BacktestSample[] = [];
+    const horizons: BacktestHorizonResult[] = [];
+
+    for (const horizonConfig of horizonConfigs) {
+      const horizonSamples: BacktestSample[] = [];
+      let missingConsensus = 0;
+      let unresolved = 0;
+
+      for (const index of replayed) {
+        const issue = spot[index]!;
+        const issueDate = toDay(issue.date);
+        const targetDate = addMonths(issueDate, horizonConfig.months);
+
+        const realized = findRealizedClose(spot, targetDate);
+        if (!realized) {
+          unresolved++;
+          continue;
+        }
+
+        const consensus = curveSource === 'snapshots'
+          ? this.findSnapshotConsensus(snapshots, issueDate, targetDate)
+          : await this.findHistoryConsensus(symbol, issueDate, targetDate, contractHistories);
+        if (!consensus) {
+          missingConsensus++;
+          continue;
+        }
+
+        const dailyDrift = (cumulativeReturns[index]! - cumulativeReturns[index - driftLookbackDays]!) / driftLookbackDays;
+        const tradingDays = ((Date.parse(targetDate) - Date.parse(issueDate)) / DAY_MS) * BACKTEST_CONFIG.TRADING_DAYS_PER_YEAR / 365;
+
+        horizonSamples.push({
+          issueDate,
+          horizon: horizonConfig.key,
+          targetDate,
+          spotPrice: issue.close!,
+          contractSymbol: consensus.symbol,
+          forecasts: {
+            'consensus': consensus.price,
+            'random-walk': issue.close!,
+            'drift': issue.close! * Math.exp(dailyDrift * tradingDays)
+          },
+          realizedDate: toDay(realized.date),
+          realizedPrice: realized.close!
+        });
+      }
+
+      const metrics = {} as Record<BacktestMethod, BacktestErrorMetrics>;
+      BACKTEST_METHODS.forEach(method => {
+        metrics[method] = calculateBacktestMetrics(horizonSamples, method);
+      });
+      const randomWalkMae = metrics['random-walk'].mae;
+      BACKTEST_METHODS.forEach(method => {
+        const mae = metrics[method].mae;
+        metrics[method].relativeMae = mae !== null && randomWalkMae ? mae / randomWalkMae : null;
+      });
+
+      this.logger.log(`📊 ${horizonConfig.label}: ${horizonSamples.length} samples, ${missingConsensus} without futures prices, ${unresolved} unresolved`);
+
+      horizons.push({
+        horizon: horizonConfig.key,
+        months: horizonConfig.months,
+        samples: horizonSamples.length,
+        missingConsensus,
+        unresolved,
+        metrics
+      });
+      samples.push(...horizonSamples);
+    }
+
+    return {
+      symbol,
+      curveSource,
+      from: replayed.length > 0 ? toDay(spot[replayed[0]!]!.date) : '',
+      to: replayed.length > 0 ? toDay(spot[replayed[replayed.length - 1]!]!.date) : '',
+      issueDates: replayed.length,
+      stepDays,
+      driftLookbackDays,
+      generatedAt: new Date().toISOString(),
+      horizons,
+      samples
+    };
+  }
+
+  /**
+   * Consensus price from stored contract histories: the best-scoring
+   * contract with a recent enough close on the issue date
+   */
+  private async findHistoryConsensus(
+    symbol: string,
+    issueDate: string,
+    targetDate: string,
+    contractHistories: Map<string, HistoricalPricePoint[]>
+  ): Promise<{ symbol: string; price: number } | null> {
+    const issue = Date.parse(issueDate);
+    const target = Date.parse(targetDate);
+    const candidates: ContractCandidate[] = [];
+
+    for (const year of [new Date(target).getUTCFullYear(), new Date(target).getUTCFullYear() + 1]) {
+      for (const month of FuturesMapper.getContractMonths(symbol)) {
+        const expiration = FuturesMapper.calculateExpirationDate(symbol, month, year).getTime();
+        const candidate = scoreContract(FuturesMapper.buildContractSymbol(symbol, month, year), expiration, issue, target);
+        if (candidate) {
+          candidates.push(candidate);
+        }
+      }
+    }
+
+    for (const candidate of candidates.sort((a, b) => a.score - b.score)) {
+      if (!contractHistories.has(candidate.symbol)) {
+        contractHistories.set(candidate.symbol, await this.store.read(candidate.symbol, DAILY));
+      }
+
+      const close = findCloseAsOf(contractHistories.get(candidate.symbol)!, issueDate);
+      if (close !== null) {
+        return { symbol: candidate.symbol, price: close };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Consensus price from the latest curve snapshot on or before the issue date
+   */
+  private findSnapshotConsensus(
+    snapshots: CurveSnapshot[],
+    issueDate: string,
+    targetDate: string
+  ): { symbol: string; price: number } | null {
+    const snapshot = findSnapshotAsOf(snapshots, issueDate, BACKTEST_CONFIG.MAX_PRICE_AGE_DAYS);
+    if (!snapshot) {
+      return null;
+    }
+
+    const issue = Date.parse(issueDate);
+    const target = Date.parse(targetDate);
+    let best: { symbol: string; price: number; score: number } | null = null;
+
+    snapshot.contracts.forEach(contract => {
+      const candidate = scoreContract(contract.symbol, Date.parse(contract.maturity), issue, target);
+      if (candidate && contract.price > 0 && (!best || candidate.score < best.score)) {
+        best = { symbol: contract.symbol, price: contract.price, score: candidate.score };
+      }
+    });
+
+    return best;
+  }
+}
+
+/**
+ * Compute error metrics of one method over backtest samples
+ *
+ * @param samples - Scored samples
+ * @param method - Method to score
+ * @returns Error metrics (relativeMae is filled in per horizon by the service)
+ */
+export function calculateBacktestMetrics(samples: BacktestSample[], method: BacktestMethod): BacktestErrorMetrics {
+  if (samples.length === 0) {
+    return { count: 0, mae: null, mape: null, rmse: null, directionalHitRate: null, relativeMae: null };
+  }
+
+  let absoluteError = 0;
+  let percentageError = 0;
+  let squaredError = 0;
+  let directionalCalls = 0;
+  let directionalHits = 0;
+
+  samples.forEach(sample => {
+    const forecast = sample.forecasts[method];
+    const error = forecast - sample.realizedPrice;
+
+    absoluteError += Math.abs(error);
+    percentageError += Math.abs(error) / sample.realizedPrice;
+    squaredError += error * error;
+
+    // A forecast equal to the spot price (the random walk) calls no direction
+    if (forecast !== sample.spotPrice) {
+      directionalCalls++;
+      if (Math.sign(forecast - sample.spotPrice) === Math.sign(sample.realizedPrice - sample.spotPrice)) {
+        directionalHits++;
+      }
+    }
+  });
+
+  return {
+    count: samples.length,
+    mae: absoluteError / samples.length,
+    mape: percentageError / samples.length,
+    rmse: Math.sqrt(squaredError / samples.length),
+    directionalHitRate: directionalCalls > 0 ? directionalHits / directionalCalls : null,
+    relativeMae: null
+  };
+}
+
+/**
+ * Score a contract for a target date the way the live horizon mapping does:
+ * distance from the target, with a penalty for expiring before it
+ * (null when it expires too soon after the issue date)
+ */
+function scoreContract(symbol: string, expiration: number, issue: number, target: number): ContractCandidate | null {
+  if (isNaN(expiration) || (expiration - issue) / DAY_MS < BACKTEST_CONFIG.MIN_DAYS_TO_EXPIRATION) {
+    return null;
+  }
+
+  const daysDifference = Math.abs(expiration - target) / DAY_MS;
+  return { symbol, expiration, score: daysDifference + (expiration >= target ? 0 : 1000) };
+}
+
+/**
+ * Last close on or before a date, if recent enough
+ */
+function findCloseAsOf(prices: HistoricalPricePoint[], date: string): number | null {
+  for (let i = findFirstIndex(prices, date, true) - 1; i >= 0; i--) {
+    const point = prices[i]!;
+    if ((Date.parse(date) - Date.parse(toDay(point.date))) / DAY_MS > BACKTEST_CONFIG.MAX_PRICE_AGE_DAYS) {
+      break;
+    }
+    if (point.close !== null) {
+      return point.close;
+    }
+  }
+  return null;
+}
+
+/**
+ * First close on or after a date, within the realized price window
+ */
+function findRealizedClose(prices: HistoricalPricePoint[], date: string): HistoricalPricePoint | null {
+  const bar = prices[findFirstIndex(prices, date, false)];
+  const windowEnd = Date.parse(date) + FORECAST_EVALUATION_CONFIG.REALIZED_PRICE_WINDOW_DAYS * DAY_MS;
+  return bar && Date.parse(toDay(bar.date)) <= windowEnd ? bar : null;
+}
+
+/**
+ * Binary search for the first bar on (or, when strict, after) a date
+ */
+function findFirstIndex(prices: HistoricalPricePoint[], date: string, strict: boolean): number {
+  let low = 0;
+  let high = prices.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    const day = toDay(prices[mid]!.date);
+    if (day < date || (strict && day === date)) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of an ISO date
+ */
+function toDay(date: string): string {
+  return date.split('T')[0]!;
+}
+
+/**
+ * Add calendar months to a day (YYYY-MM-DD)
+ */
+function addMonths(day: string, months: number): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  return date.toISOString().split('T')[0]!;
+}
+
+/**
+ * Create a new BacktestService instance
+ *
+ * @param yahooFinanceService - Yahoo Finance service used for syncing (default: shared instance)
+ * @param store - Price history store (default: PRICE_HISTORY_CONFIG.DIRECTORY)
+ * @param snapshots - Curve snapshot store (default: BACKTEST_CONFIG.SNAPSHOT_DIRECTORY)
+ * @param logger - Logger for progress output (default: silent)
+ * @returns BacktestService instance
+ */
+export function createBacktestService(
+  yahooFinanceService?: YahooFinanceService,
+  store?: PriceHistoryStore,
+  snapshots?: CurveSnapshotStore,
+  logger?: Logger
+): BacktestService {
+  return new BacktestService(yahooFinanceService, store, snapshots, logger);
+}
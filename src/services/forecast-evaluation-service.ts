@@ -0,0 +1,353 @@
+/**
+ * Forecast Evaluation Service Module
+ *
+ * Checks archived forecasts against what actually happened. Once a
+ * forecast's horizon has matured, the realized price (the first daily close
+ * on or after dateRange.end) is pulled from Yahoo Finance and stored in the
+ * archive. Accuracy is then reported per horizon and per method:
+ * - MAE: mean absolute error of forecastPrice against the realized price
+ * - MAPE: mean absolute percentage error (fraction, 0.05 = 5%)
+ * - Directional hit rate: share of forecasts that called the direction of
+ *   the move from the issue price correctly
+ * - Interval coverage: share of realized prices inside the forecast
+ *   interval (confidenceInterval, else priceRange, for forecasts that have one)
+ * Accuracy (1 - MAPE) is compared with
+ * FORECASTING_CONFIG.PERFORMANCE_TARGETS.FORECAST_ACCURACY_THRESHOLD.
+ *
+ * @author Forecast Evaluation Service Module
+ * @version 1.0.0
+ */
+
+import { FORECAST_EVALUATION_CONFIG, FORECASTING_CONFIG, TIME_CONFIG, TimeRange } from '../config/yahoo-finance';
+import { EnsembleForecast, ForecastData, MarketConsensusForcast } from '../types/commodity';
+import { HistoricalPricePoint } from '../types/yahoo-finance';
+import { YahooFinanceService, getYahooFinanceService } from './yahoo-finance-service';
+import {
+  ArchivedForecast,
+  ForecastArchive,
+  ForecastArchiveFilter,
+  RealizedPrice,
+  createForecastArchive
+} from '../utils/forecast-archive';
+import { EnsembleMethod, EnsembleTrackRecord } from '../utils/ensemble';
+import { Logger, silentLogger } from '../utils/logger';
+
+/**
+ * Accuracy metrics for a group of resolved forecasts
+ */
+export interface ForecastAccuracyMetrics {
+  /** Resolved forecasts in the group */
+  count: number;
+  /** Mean absolute error (price units) */
+  mae: number | null;
+  /** Mean absolute percentage error (fraction) */
+  mape: number | null;
+  /** Share of forecasts with the correct direction (fraction) */
+  directionalHitRate: number | null;
+  /** Share of realized prices inside the forecast interval (fraction) */
+  intervalCoverage: number | null;
+  /** Forecasts with an interval (denominator of intervalCoverage) */
+  intervalCount: number;
+  /** 1 - MAPE, floored at 0 */
+  accuracy: number | null;
+  /** Whether accuracy meets FORECAST_ACCURACY_THRESHOLD */
+  meetsAccuracyTarget: boolean | null;
+}
+
+/**
+ * Accuracy report across archived forecasts
+ */
+export interface ForecastAccuracyReport {
+  /** Time the report was generated (ISO string) */
+  generatedAt: string;
+  /** Accuracy target (FORECAST_ACCURACY_THRESHOLD) */
+  accuracyTarget: number;
+  /** Forecasts not yet matured or without a realized price */
+  pending: number;
+  /** Metrics across all resolved forecasts */
+  overall: ForecastAccuracyMetrics;
+  /** Metrics per forecast horizon */
+  byHorizon: Record<string, ForecastAccuracyMetrics>;
+  /** Metrics per forecasting method */
+  byMethod: Record<string, ForecastAccuracyMetrics>;
+}
+
+/**
+ * Realized price update outcome
+ */
+export interface RealizedPriceUpdate {
+  /** Matured forecasts that had no realized price */
+  matured: number;
+  /** Realized prices found and stored */
+  resolved: number;
+  /** Symbols whose prices could not be fetched */
+  failedSymbols: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Forecast Evaluation Service for realized-accuracy tracking
+ */
+export class ForecastEvaluationService {
+  private yahooFinanceService: YahooFinanceService;
+  private archive: ForecastArchive;
+  private logger: Logger;
+
+  constructor(
+    yahooFinanceService?: YahooFinanceService,
+    archive?: ForecastArchive,
+    logger: Logger = silentLogger
+  ) {
+    this.yahooFinanceService = yahooFinanceService || getYahooFinanceService();
+    this.archive = archive || createForecastArchive();
+    this.logger = logger;
+  }
+
+  /**
+   * Fetch realized prices for matured forecasts that have none yet
+   *
+   * @param asOf - Evaluation time (default: now)
+   * @returns Promise resolving to the update outcome
+   */
+  async updateRealizedPrices(asOf: Date = new Date()): Promise<RealizedPriceUpdate> {
+    const matured = (await this.archive.list({ resolved: false }))
+      .filter(record => new Date(record.maturityDate).getTime() <= asOf.getTime());
+
+    const bySymbol = new Map<string, ArchivedForecast[]>();
+    matured.forEach(record => {
+      bySymbol.set(record.symbol, [...(bySymbol.get(record.symbol) || []), record]);
+    });
+
+    const outcomes = new Map<string, RealizedPrice>();
+    const failedSymbols: string[] = [];
+
+    for (const [symbol, records] of bySymbol) {
+      const oldestMaturity = Math.min(...records.map(record => new Date(record.maturityDate).getTime()));
+
+      let prices: HistoricalPricePoint[];
+      try {
+        const history = await this.yahooFinanceService.getChartData(symbol, {
+          interval: TIME_CONFIG.DEFAULTS.DAILY_INTERVAL,
+          range: this.selectRange(oldestMaturity, asOf),
+          maxDataPoints: Number.MAX_SAFE_INTEGER
+        });
+        prices = history.prices.filter(point => point.close !== null);
+      } catch (error) {
+        this.logger.warn(`⚠️ Could not fetch realized prices for ${symbol}:`, error instanceof Error ? error.message : error);
+        failedSymbols.push(symbol);
+        continue;
+      }
+
+      records.forEach(record => {
+        const realized = this.findRealizedPrice(prices, record.maturityDate, asOf);
+        if (realized) {
+          outcomes.set(record.id, realized);
+        }
+      });
+    }
+
+    const resolved = await this.archive.saveRealized(outcomes);
+    this.logger.log(`📏 Resolved ${resolved} of ${matured.length} matured forecasts`);
+
+    return { matured: matured.length, resolved, failedSymbols };
+  }
+
+  /**
+   * Compute accuracy metrics for resolved forecasts
+   *
+   * @param filter - Optional archive filter (e.g., one symbol)
+   * @returns Promise resolving to the accuracy report
+   */
+  async getAccuracyReport(filter: Omit<ForecastArchiveFilter, 'resolved'> = {}): Promise<ForecastAccuracyReport> {
+    const records = await this.archive.list(filter);
+    const resolved = records.filter(record => record.realized);
+
+    const groupBy = (key: (record: ArchivedForecast) => string): Record<string, ForecastAccuracyMetrics> => {
+      const groups: Record<string, ArchivedForecast[]> = {};
+      resolved.forEach(record => {
+        (groups[key(record)] ||= []).push(record);
+      });
+
+      const metrics: Record<string, ForecastAccuracyMetrics> = {};
+      Object.entries(groups).forEach(([name, group]) => {
+        metrics[name] = calculateAccuracyMetrics(group);
+      });
+      return metrics;
+    };
+
+    return {
+      generatedAt: new Date().toISOString(),
+      accuracyTarget: FORECASTING_CONFIG.PERFORMANCE_TARGETS.FORECAST_ACCURACY_THRESHOLD,
+      pending: records.length - resolved.length,
+      overall: calculateAccuracyMetrics(resolved),
+      byHorizon: groupBy(record => record.forecast.horizon),
+      byMethod: groupBy(record => record.method)
+    };
+  }
+
+  /**
+   * Historical error of each method per horizon, for ensemble weighting
+   *
+   * Counts forecasts archived under each method and the member prices of
+   * archived ensemble forecasts, so ensemble runs build their own track record.
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param methods - Methods to include
+   * @returns Promise resolving to track records keyed by horizon, then method
+   */
+  async getTrackRecord(symbol: string, methods: EnsembleMethod[]): Promise<EnsembleTrackRecord> {
+    const resolved = await this.archive.list({ symbol, resolved: true });
+
+    // Each ensemble member becomes a record of its own method with the member's price
+    const groups = new Map<string, ArchivedForecast[]>();
+    const add = (method: string, record: ArchivedForecast): void => {
+      if (methods.includes(method as EnsembleMethod)) {
+        const key = `${record.forecast.horizon}|${method}`;
+        groups.set(key, [...(groups.get(key) || []), { ...record, method }]);
+      }
+    };
+    resolved.forEach(record => {
+      add(record.method, record);
+      if (record.method === 'ensemble') {
+        ((record.forecast as Partial<EnsembleForecast>).members || []).forEach(member => {
+          add(member.method, { ...record, forecast: { ...record.forecast, forecastPrice: member.forecastPrice } });
+        });
+      }
+    });
+
+    const trackRecord: EnsembleTrackRecord = {};
+    groups.forEach((group, key) => {
+      const [horizon, method] = key.split('|') as [ForecastData['horizon'], EnsembleMethod];
+      const metrics = calculateAccuracyMetrics(group);
+      (trackRecord[horizon] ||= {})[method] = { mape: metrics.mape, count: metrics.count };
+    });
+
+    return trackRecord;
+  }
+
+  /**
+   * Update realized prices, then report accuracy
+   *
+   * @param filter - Optional archive filter for the report
+   * @returns Promise resolving to the accuracy report
+   */
+  async evaluate(filter: Omit<ForecastArchiveFilter, 'resolved'> = {}): Promise<ForecastAccuracyReport> {
+    await this.updateRealizedPrices();
+    return this.getAccuracyReport(filter);
+  }
+
+  /**
+   * First close on or after the maturity date, within REALIZED_PRICE_WINDOW_DAYS
+   * (null while the window is still open and no close has printed yet)
+   */
+  private findRealizedPrice(prices: HistoricalPricePoint[], maturityDate: string, asOf: Date): RealizedPrice | null {
+    const maturityDay = maturityDate.split('T')[0]!;
+    const windowEnd = new Date(maturityDay).getTime() + FORECAST_EVALUATION_CONFIG.REALIZED_PRICE_WINDOW_DAYS * DAY_MS;
+    const bar = prices.find(point => point.date >= maturityDay);
+
+    if (!bar || new Date(bar.date).getTime() > windowEnd) {
+      if (asOf.getTime() > windowEnd) {
+        this.logger.warn(`⚠️ No close within ${FORECAST_EVALUATION_CONFIG.REALIZED_PRICE_WINDOW_DAYS} days of ${maturityDay}`);
+      }
+      return null;
+    }
+
+    return { price: bar.close!, date: bar.date, resolvedAt: asOf.toISOString() };
+  }
+
+  /**
+   * Smallest chart range reaching back to a time ('max' if none does)
+   */
+  private selectRange(since: number, asOf: Date): TimeRange {
+    const daysSince = (asOf.getTime() - since) / DAY_MS + 1;
+    const range = (Object.keys(TIME_CONFIG.RANGES) as TimeRange[]).find(candidate => {
+      const days = TIME_CONFIG.RANGES[candidate].days;
+      return days !== null && days >= daysSince;
+    });
+    return range ?? 'max';
+  }
+}
+
+/**
+ * Compute accuracy metrics for resolved forecasts
+ *
+ * @param records - Archived forecasts with realized prices
+ * @returns Accuracy metrics (null metrics when there are no records)
+ */
+export function calculateAccuracyMetrics(records: ArchivedForecast[]): ForecastAccuracyMetrics {
+  const resolved = records.filter(record => record.realized);
+  const threshold = FORECASTING_CONFIG.PERFORMANCE_TARGETS.FORECAST_ACCURACY_THRESHOLD;
+
+  if (resolved.length === 0) {
+    return {
+      count: 0,
+      mae: null,
+      mape: null,
+      directionalHitRate: null,
+      intervalCoverage: null,
+      intervalCount: 0,
+      accuracy: null,
+      meetsAccuracyTarget: null
+    };
+  }
+
+  let absoluteError = 0;
+  let percentageError = 0;
+  let directionalHits = 0;
+  let intervalHits = 0;
+  let intervalCount = 0;
+
+  resolved.forEach(record => {
+    const realized = record.realized!.price;
+    const { forecastPrice, priceRange } = record.forecast;
+    // Consensus forecasts carry a confidence interval instead of a price range
+    const interval = (record.forecast as Partial<MarketConsensusForcast>).confidenceInterval;
+    const low = interval?.lower ?? priceRange?.low;
+    const high = interval?.upper ?? priceRange?.high;
+
+    absoluteError += Math.abs(forecastPrice - realized);
+    percentageError += Math.abs(forecastPrice - realized) / Math.abs(realized);
+
+    if (Math.sign(forecastPrice - record.issuePrice) === Math.sign(realized - record.issuePrice)) {
+      directionalHits++;
+    }
+
+    if (low !== undefined && high !== undefined) {
+      intervalCount++;
+      if (realized >= low && realized <= high) {
+        intervalHits++;
+      }
+    }
+  });
+
+  const mape = percentageError / resolved.length;
+  const accuracy = Math.max(0, 1 - mape);
+
+  return {
+    count: resolved.length,
+    mae: absoluteError / resolved.length,
+    mape,
+    directionalHitRate: directionalHits / resolved.length,
+    intervalCoverage: intervalCount > 0 ? intervalHits / intervalCount : null,
+    intervalCount,
+    accuracy,
+    meetsAccuracyTarget: accuracy >= threshold
+  };
+}
+
+/**
+ * Create a new ForecastEvaluationService instance
+ *
+ * @param yahooFinanceService - Yahoo Finance service (default: shared instance)
+ * @param archive - Forecast archive (default: FORECAST_EVALUATION_CONFIG.ARCHIVE_FILE)
+ * @param logger - Logger for progress output (default: silent)
+ * @returns ForecastEvaluationService instance
+ */
+export function createForecastEvaluationService(
+  yahooFinanceService?: YahooFinanceService,
+  archive?: ForecastArchive,
+  logger?: Logger
+): ForecastEvaluationService {
+  return new ForecastEvaluationService(yahooFinanceService, archive, logger);
+}
@@ -1,16 +1,80 @@
 /**
  * Forecast Service Module
  * 
- * Handles multi-horizon forecast generation using web search to find expert
- * forecasts from financial institutions, EIA, IEA, and other reliable sources.
+ * Handles multi-horizon forecast generation for any configured commodity using
+ * web search to find expert forecasts from financial institutions, EIA, IEA,
+ * USDA and other reliable sources.
  * Provides forecast price parsing, validation, and analysis capabilities.
  * 
  * @author Forecast Service Module
  * @version 1.0.0
  */
 
-import { ForecastData, FORECAST_HORIZONS, CommodityData, CommodityAnalysis, SourceInfo } from '../types/commodity';
+import { 
+  ForecastData, 
+  FORECAST_HORIZONS, 
+  CommodityData, 
+  CommodityAnalysis, 
+  SourceInfo,
+  FuturesContract,
+  FuturesCurve,
+  CurveInterpolation,
+  MarketConsensusForcast,
+  EnsembleForecast,
+  RiskAdjustment,
+  RiskMetrics,
+  SimulationSummary,
+  TechnicalSnapshot
+} from '../types/commodity';
+import { FORECASTING_CONFIG, COMMODITY_SYMBOLS, RISK_METRICS_CONFIG, TECHNICAL_INDICATORS_CONFIG, TIME_CONFIG, TimeRange, getCommodityKey, getValidationRules } from '../config/yahoo-finance';
 import { WebSearchService, WebSearchResult } from './web-search-service';
+import { YahooFinanceService, getYahooFinanceService } from './yahoo-finance-service';
+import { RiskAnalysisService } from './risk-analysis-service';
+import { FuturesMapper, ContractMapping } from '../utils/futures-mapper';
+import { getCalendarDaysBetween } from '../utils/trading-calendar';
+import { RiskAnalyzer } from '../utils/risk-analyzer';
+import { CitationExtractor } from '../utils/citation-extractor';
+import { JsonSchema } from '../utils/schema-validator';
+import { StatisticalModel, createForecaster } from '../utils/statistical-forecasters';
+import { MonteCarloSettings, estimateAnnualVolatility, simulatePricePaths } from '../utils/monte-carlo';
+import { EnsembleMemberForecast, EnsembleMethod, EnsembleTrackRecord, combineForecasts } from '../utils/ensemble';
+import { calculateRiskMetrics } from '../utils/risk-metrics';
+import { createTechnicalSnapshot } from '../utils/technical-indicators';
+import { CurveInterpolationMethod, interpolateCurve } from '../utils/curve-interpolation';
+import { Logger, silentLogger } from '../utils/logger';
+import {
+  PRICE_NUMBER_PATTERN,
+  parsePriceNumber,
+  getUnitOfMeasure,
+  getUnitPattern,
+  getCommodityKeywords
+} from '../utils/commodity-text';
+
+/**
+ * Forecasting method selection
+ * - 'hybrid': futures market consensus baseline with risk adjustments
+ * - 'web-search': one AI web search per horizon
+ * - 'statistical': time-series model fitted on price history (no AI calls)
+ * - 'ensemble': the other methods combined, weighted by their track record
+ */
+export type ForecastMethod = 'hybrid' | 'web-search' | 'statistical' | 'ensemble';
+
+/**
+ * Whether a method needs web search (an OpenAI client)
+ * 
+ * @param method - Forecasting method
+ * @param members - Ensemble members when method is 'ensemble' (default: FORECASTING_CONFIG.ENSEMBLE.MEMBERS)
+ * @returns False only for methods that run entirely on price history
+ */
+export function methodUsesWebSearch(method: ForecastMethod, members: EnsembleMethod[] = FORECASTING_CONFIG.ENSEMBLE.MEMBERS): boolean {
+  if (method === 'statistical') {
+    return false;
+  }
+  if (method === 'ensemble') {
+    return members.some(member => member !== 'statistical');
+  }
+  return true;
+}
 
 /**
  * Forecast generation options
@@ -22,26 +86,213 @@ export interface ForecastOptions {
   requestDelay?: number;
   /** Maximum confidence threshold for warnings */
   maxConfidenceThreshold?: number;
+  /** Request a typed JSON forecast from the model, with regex parsing as fallback */
+  useStructuredOutput?: boolean;
+  /** Horizons to forecast (default: all FORECAST_HORIZONS) */
+  horizons?: ForecastData['horizon'][];
+  /** Forecasting method (default: 'web-search') */
+  method?: ForecastMethod;
+  /** Options for the market consensus path when method is 'hybrid' */
+  marketConsensus?: MarketConsensusOptions;
+  /** Options for the statistical path when method is 'statistical' */
+  statistical?: StatisticalMethodOptions;
+  /** Options for combining methods when method is 'ensemble' */
+  ensemble?: EnsembleMethodOptions;
+  /** Compute historical volatility and risk metrics for the analysis (default: true) */
+  includeRiskMetrics?: boolean;
+  /** Add a technical indicator snapshot to the analysis (default: false) */
+  includeTechnicalIndicators?: boolean;
+}
+
+/**
+ * Ensemble forecast method options
+ */
+export interface EnsembleMethodOptions {
+  /** Methods to combine (default: FORECASTING_CONFIG.ENSEMBLE.MEMBERS) */
+  members?: EnsembleMethod[];
+  /** Historical errors per horizon and method (default: none, equal weights) */
+  trackRecord?: EnsembleTrackRecord;
+  /** Confidence interval in percent (80, 90, 95 or 99) */
+  confidenceInterval?: number;
+}
+
+/**
+ * Statistical forecast method options
+ */
+export interface StatisticalMethodOptions {
+  /** Horizons to forecast (default: all FORECAST_HORIZONS) */
+  horizons?: ForecastData['horizon'][];
+  /** Model to fit (default: FORECASTING_CONFIG.STATISTICAL.DEFAULT_MODEL) */
+  model?: StatisticalModel;
+  /** Daily price history to fit on (default: FORECASTING_CONFIG.STATISTICAL.HISTORY_RANGE) */
+  range?: TimeRange;
+  /** Confidence interval in percent (80, 90, 95 or 99) */
+  confidenceInterval?: number;
+}
+
+/**
+ * Market consensus forecast options
+ */
+export interface MarketConsensusOptions {
+  /** Horizons to forecast (default: all FORECAST_HORIZONS) */
+  horizons?: ForecastData['horizon'][];
+  /** Risk adjustments to apply, keyed by forecast horizon (skips the AI risk assessment) */
+  riskAdjustments?: Partial<Record<ForecastData['horizon'], RiskAdjustment[]>>;
+  /** Run the single structured AI risk assessment when no adjustments are supplied (default: true) */
+  assessRisks?: boolean;
+  /** Annualized volatility used for the uncertainty range (e.g., 0.30 for 30%) */
+  annualVolatility?: number;
+  /** Confidence interval in percent (80, 90, 95 or 99) */
+  confidenceInterval?: number;
+  /** Take the interval from a Monte Carlo simulation instead of the closed-form lognormal range */
+  simulation?: MonteCarloSettings;
+  /** Price each horizon date off the futures curve, or 'none' for the mapped contract price (default: CURVE_INTERPOLATION.DEFAULT_METHOD) */
+  interpolation?: CurveInterpolationMethod | 'none';
 }
 
+/**
+ * Market factor keywords shared by all commodities
+ */
+const COMMON_FACTOR_KEYWORDS = [
+  'supply', 'demand', 'inventory', 'production', 'geopolitical', 'sanctions',
+  'weather', 'seasonal', 'economic growth', 'recession', 'inflation', 'dollar',
+  'usd', 'interest rate', 'china', 'exports', 'imports'
+];
+
+/**
+ * Market factor keywords by commodity category
+ */
+const FACTOR_KEYWORDS_BY_CATEGORY: Record<string, string[]> = {
+  energy: [
+    'opec', 'refinery', 'hurricane', 'russia', 'venezuela', 'iran',
+    'saudi arabia', 'shale', 'drilling', 'reserves', 'storage', 'lng'
+  ],
+  metals: [
+    'central bank', 'federal reserve', 'safe haven', 'etf', 'mine', 'mining',
+    'industrial demand', 'jewelry', 'real yields', 'tariff'
+  ],
+  agriculture: [
+    'usda', 'harvest', 'crop', 'planting', 'acreage', 'yield', 'drought',
+    'la nina', 'el nino', 'brazil', 'argentina', 'ethanol', 'feed'
+  ]
+};
+
+/**
+ * Suggested forecast sources by commodity category
+ */
+const SOURCE_SUGGESTIONS_BY_CATEGORY: Record<string, string> = {
+  energy: 'EIA, IEA, major financial institutions, energy analysts, or commodities research firms',
+  metals: 'the World Gold Council, LBMA, central banks, major financial institutions, or commodities research firms',
+  agriculture: 'USDA (WASDE), FAO, major financial institutions, agricultural economists, or commodities research firms'
+};
+
+/**
+ * Structured forecast reply (matches STRUCTURED_FORECAST_SCHEMA)
+ */
+interface StructuredForecastReply {
+  forecastPrice: number;
+  priceRange: {
+    low: number;
+    high: number;
+  };
+  confidenceLevel: number;
+  keyFactors: string[];
+  sources: Array<{
+    name: string;
+    url: string | null;
+    date: string;
+    reliability: SourceInfo['reliability'];
+  }>;
+}
+
+/**
+ * Strict JSON schema for structured forecast replies
+ */
+const STRUCTURED_FORECAST_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['forecastPrice', 'priceRange', 'confidenceLevel', 'keyFactors', 'sources'],
+  properties: {
+    forecastPrice: { type: 'number', minimum: 0 },
+    priceRange: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['low', 'high'],
+      properties: {
+        low: { type: 'number', minimum: 0 },
+        high: { type: 'number', minimum: 0 }
+      }
+    },
+    confidenceLevel: { type: 'number', minimum: 0, maximum: 100 },
+    keyFactors: { type: 'array', items: { type: 'string' } },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['name', 'url', 'date', 'reliability'],
+        properties: {
+          name: { type: 'string' },
+          url: { type: ['string', 'null'] },
+          date: { type: 'string' },
+          reliability: { type: 'string', enum: ['high', 'medium', 'low'] }
+        }
+      }
+    }
+  }
+};
+
 /**
  * Forecast Service for multi-horizon price predictions
  */
 export class ForecastService {
-  private webSearchService: WebSearchService;
+  private webSearchService: WebSearchService | undefined;
+  private yahooFinanceService: YahooFinanceService;
+  private riskAnalysisService: RiskAnalysisService | undefined;
+  private logger: Logger;
 
-  constructor(webSearchService: WebSearchService) {
+  /**
+   * @param webSearchService - Web search service (omit to run only the 'statistical' method)
+   * @param yahooFinanceService - Optional Yahoo Finance service for futures data
+   * @param logger - Logger for progress output (default: silent)
+   */
+  constructor(webSearchService?: WebSearchService, yahooFinanceService?: YahooFinanceService, logger: Logger = silentLogger) {
     this.webSearchService = webSearchService;
+    this.yahooFinanceService = yahooFinanceService || getYahooFinanceService();
+    this.riskAnalysisService = webSearchService && new RiskAnalysisService(webSearchService, logger);
+    this.logger = logger;
+  }
+
+  /**
+   * Get the web search service, or throw if none is configured
+   */
+  private requireWebSearch(): WebSearchService {
+    if (!this.webSearchService) {
+      throw new Error('Web search is not configured: only the statistical method runs without an OpenAI client');
+    }
+    return this.webSearchService;
+  }
+
+  /**
+   * Get horizon configurations, optionally restricted to the requested horizons
+   * 
+   * @param horizons - Requested horizons (default: all)
+   * @returns Matching FORECAST_HORIZONS entries in standard order
+   */
+  private getHorizonConfigs(horizons?: ForecastData['horizon'][]) {
+    return horizons && horizons.length > 0
+      ? FORECAST_HORIZONS.filter(h => horizons.includes(h.key))
+      : [...FORECAST_HORIZONS];
   }
 
   /**
    * Generate forecast query for specific horizon
    * 
    * @param horizon - Forecast horizon (3-month, 6-month, etc.)
-   * @param currentPrice - Current commodity price
+   * @param commodityData - Current commodity data
    * @returns Formatted forecast query
    */
-  private generateForecastQuery(horizon: string, currentPrice: number): string {
+  private generateForecastQuery(horizon: string, commodityData: CommodityData): string {
     const horizonConfig = FORECAST_HORIZONS.find(h => h.key === horizon);
     
     if (!horizonConfig) {
@@ -51,14 +302,17 @@ export class ForecastService {
     const currentDate = new Date();
     const futureDate = new Date(currentDate.getTime() + (horizonConfig.months * 30 * 24 * 60 * 60 * 1000));
     
-    return `Based on current crude oil WTI (CL=F) price of $${currentPrice} per barrel, what is the forecast for crude oil prices in ${horizonConfig.months} months (around ${futureDate.toLocaleDateString()})? 
+    const { name, symbol, unit, currentPrice } = commodityData;
+    const unitOfMeasure = getUnitOfMeasure(unit);
+    
+    return `Based on current ${name} (${symbol}) price of ${currentPrice} ${unit}, what is the forecast for ${name} prices in ${horizonConfig.months} months (around ${futureDate.toLocaleDateString()})? 
 
 Please provide your response in this format:
 
-${horizonConfig.months}-MONTH FORECAST PRICE: $[specific number] per barrel
+${horizonConfig.months}-MONTH FORECAST PRICE: [specific number] per ${unitOfMeasure}
 
 Additional details:
-1. Expected price range in USD per barrel
+1. Expected price range in ${unit}
 2. Key factors that will influence the price over this ${horizonConfig.months}-month period
 3. Confidence level of the forecast (as percentage)
 4. Market sentiment and trends
@@ -66,40 +320,53 @@ Additional details:
 6. Comparison to current price (percentage change expected)
 
 Please start with the specific forecast price in the format shown above.
-Please cite reliable sources such as EIA, IEA, major financial institutions, energy analysts, or commodities research firms.`;
+Please cite reliable sources such as ${this.getSuggestedSources(commodityData)}.`;
+  }
+
+  /**
+   * Get suggested source types for a commodity's category
+   * 
+   * @param commodityData - Current commodity data
+   * @returns Comma-separated source suggestions
+   */
+  private getSuggestedSources(commodityData: CommodityData): string {
+    const key = getCommodityKey(commodityData.symbol);
+    const category = key ? COMMODITY_SYMBOLS[key].category : 'energy';
+    
+    return SOURCE_SUGGESTIONS_BY_CATEGORY[category] || SOURCE_SUGGESTIONS_BY_CATEGORY['energy']!;
   }
 
   /**
    * Fetch forecast data for a specific horizon
    * 
    * @param horizon - Forecast horizon
-   * @param currentPrice - Current commodity price
+   * @param commodityData - Current commodity data
    * @returns Promise resolving to forecast search result
    */
-  private async fetchForecastData(horizon: string, currentPrice: number): Promise<WebSearchResult> {
+  private async fetchForecastData(horizon: string, commodityData: CommodityData): Promise<WebSearchResult> {
     try {
-      console.log(`\n=== Fetching ${horizon} Forecast ===`);
+      this.logger.log(`\n=== Fetching ${horizon} Forecast ===`);
       
-      const query = this.generateForecastQuery(horizon, currentPrice);
-      console.log(`Generating forecast for ${horizon}...`);
+      const query = this.generateForecastQuery(horizon, commodityData);
+      this.logger.log(`Generating forecast for ${horizon}...`);
       
-      const searchResult = await this.webSearchService.search(query, {
+      const searchResult = await this.requireWebSearch().search(query, {
         maxRetries: 3,
         timeout: 30000,
         model: "gpt-4.1"
       });
       
       if (searchResult.success) {
-        console.log(`✅ ${horizon} forecast data fetched successfully`);
-        console.log(`Response length: ${searchResult.content.length} characters`);
+        this.logger.log(`✅ ${horizon} forecast data fetched successfully`);
+        this.logger.log(`Response length: ${searchResult.content.length} characters`);
       } else {
-        console.log(`❌ Failed to fetch ${horizon} forecast`);
+        this.logger.log(`❌ Failed to fetch ${horizon} forecast`);
       }
       
       return searchResult;
       
     } catch (error) {
-      console.error(`❌ Failed to fetch ${horizon} forecast:`, error instanceof Error ? error.message : error);
+      this.logger.error(`❌ Failed to fetch ${horizon} forecast:`, error instanceof Error ? error.message : error);
       
       return {
         content: '',
@@ -110,44 +377,199 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
     }
   }
 
+  /**
+   * Generate structured forecast query for specific horizon
+   * 
+   * @param horizon - Forecast horizon (3-month, 6-month, etc.)
+   * @param commodityData - Current commodity data
+   * @returns Formatted structured forecast query
+   */
+  private generateStructuredForecastQuery(horizon: string, commodityData: CommodityData): string {
+    const horizonConfig = FORECAST_HORIZONS.find(h => h.key === horizon);
+    
+    if (!horizonConfig) {
+      throw new Error(`Unknown forecast horizon: ${horizon}`);
+    }
+    
+    const futureDate = new Date(Date.now() + (horizonConfig.months * 30 * 24 * 60 * 60 * 1000));
+    
+    const { name, symbol, unit, currentPrice } = commodityData;
+    
+    return `Based on current ${name} (${symbol}) price of ${currentPrice} ${unit}, forecast the ${name} price in ${horizonConfig.months} months (around ${futureDate.toLocaleDateString()}).
+
+Return:
+- forecastPrice: the forecast price in ${unit}
+- priceRange: the expected low and high price in ${unit}
+- confidenceLevel: confidence in the forecast as a percentage (0-100)
+- keyFactors: the key factors that will influence the price over this ${horizonConfig.months}-month period, one sentence each
+- sources: the sources you relied on, with name, url, publication date and reliability
+
+Use reliable sources such as ${this.getSuggestedSources(commodityData)}.`;
+  }
+
+  /**
+   * Fetch a typed forecast for a specific horizon via structured output
+   * 
+   * @param horizon - Forecast horizon
+   * @param commodityData - Current commodity data
+   * @returns Promise resolving to ForecastData or null if the structured call fails
+   */
+  private async fetchStructuredForecast(horizon: string, commodityData: CommodityData): Promise<ForecastData | null> {
+    try {
+      this.logger.log(`\n=== Fetching ${horizon} Structured Forecast ===`);
+      
+      const plausible = this.getPlausiblePriceRange(commodityData);
+      const result = await this.requireWebSearch().performStructuredSearch<StructuredForecastReply>(
+        this.generateStructuredForecastQuery(horizon, commodityData),
+        {
+          name: 'commodity_price_forecast',
+          description: `Price forecast for the ${horizon} horizon`,
+          schema: STRUCTURED_FORECAST_SCHEMA,
+          validate: reply => {
+            const errors: string[] = [];
+            if (reply.priceRange.low > reply.priceRange.high) {
+              errors.push('$.priceRange: low must not exceed high');
+            }
+            if (reply.forecastPrice < reply.priceRange.low || reply.forecastPrice > reply.priceRange.high) {
+              errors.push('$.forecastPrice: must lie within priceRange');
+            }
+            if (reply.forecastPrice < plausible.min || reply.forecastPrice >= plausible.max) {
+              errors.push(`$.forecastPrice: ${reply.forecastPrice} is outside the plausible range ${plausible.min}-${plausible.max} ${commodityData.unit}`);
+            }
+            return errors;
+          }
+        },
+        {
+          maxRetries: 3,
+          timeout: 30000,
+          model: "gpt-4.1"
+        }
+      );
+      
+      return this.mapStructuredForecast(result.data, horizon, commodityData, result.timestamp, result.citations);
+      
+    } catch (error) {
+      this.logger.error(`❌ Structured forecast failed for ${horizon}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Map a structured forecast reply onto ForecastData
+   * 
+   * @param reply - Validated structured reply
+   * @param horizon - Forecast horizon
+   * @param commodityData - Current commodity data
+   * @param timestamp - Reply timestamp
+   * @param citations - Sources cited by the web search tool
+   * @returns ForecastData
+   */
+  private mapStructuredForecast(
+    reply: StructuredForecastReply,
+    horizon: string,
+    commodityData: CommodityData,
+    timestamp: string,
+    citations: SourceInfo[] = []
+  ): ForecastData {
+    const horizonConfig = FORECAST_HORIZONS.find(h => h.key === horizon);
+    if (!horizonConfig) {
+      throw new Error(`Unknown forecast horizon: ${horizon}`);
+    }
+    
+    const startDate = new Date();
+    const endDate = new Date(startDate.getTime() + (horizonConfig.months * 30 * 24 * 60 * 60 * 1000));
+    
+    // Tool citations first: their reliability comes from the domain allowlist
+    const sources = CitationExtractor.mergeSources(
+      citations,
+      reply.sources.map(source => ({
+        name: source.name,
+        ...(source.url && { url: source.url }),
+        date: source.date || timestamp,
+        reliability: source.url ? CitationExtractor.getReliability(source.url) : source.reliability
+      }))
+    );
+    
+    return {
+      horizon: horizonConfig.key,
+      forecastPrice: reply.forecastPrice,
+      currency: commodityData.currency,
+      confidenceLevel: Math.round(reply.confidenceLevel),
+      dateRange: {
+        start: startDate.toISOString(),
+        end: endDate.toISOString()
+      },
+      priceRange: {
+        low: reply.priceRange.low,
+        high: reply.priceRange.high
+      },
+      percentageChange: this.calculatePercentageChange(commodityData.currentPrice, reply.forecastPrice),
+      sources,
+      methodology: 'Web Search Analysis with Structured Output',
+      ...(reply.keyFactors.length > 0 && { keyFactors: reply.keyFactors.slice(0, 5) })
+    };
+  }
+
+  /**
+   * Plausible forecast price range: the commodity's configured range with headroom above
+   * 
+   * @param commodityData - Current commodity data
+   * @returns Minimum (inclusive) and maximum (exclusive) price in the commodity's unit
+   */
+  private getPlausiblePriceRange(commodityData: CommodityData): { min: number; max: number } {
+    const commodityKey = getCommodityKey(commodityData.symbol);
+    return commodityKey
+      ? { min: getValidationRules(commodityKey).min, max: getValidationRules(commodityKey).max * 5 }
+      : { min: commodityData.currentPrice / 10, max: commodityData.currentPrice * 10 };
+  }
+
   /**
    * Parse forecast price from search result content
    * 
    * @param content - Search result content
    * @param horizon - Forecast horizon
+   * @param commodityData - Current commodity data
    * @returns Extracted price or null if parsing fails
    */
-  private parseForecastPrice(content: string, horizon: string): number | null {
+  private parseForecastPrice(content: string, horizon: string, commodityData: CommodityData): number | null {
     const lowerContent = content.toLowerCase();
     
     // Extract horizon number for targeted parsing
     const horizonMonths = parseInt(horizon.split('-')[0] || '3');
     
+    const amount = PRICE_NUMBER_PATTERN;
+    const unit = getUnitPattern(commodityData.unit);
+    const keywords = ['price', ...getCommodityKeywords(commodityData.name)].join('|');
+    
     // Enhanced patterns with more specific targeting
     const pricePatterns = [
       // NEW: Exact format pattern matching our request (with markdown support)
-      new RegExp(`\\*?\\*?${horizonMonths}-month\\s+forecast\\s+price:?\\*?\\*?\\s*\\$?(\\d+\\.?\\d*)`, 'gi'),
+      new RegExp(`\\*?\\*?${horizonMonths}-month\\s+forecast\\s+price:?\\*?\\*?\\s*\\$?${amount}`, 'gi'),
       
       // Pattern for "forecast price: $XX" anywhere in text
-      /forecast\s+price:?\s*\$?(\d+\.?\d*)\s*per\s*barrel/gi,
+      new RegExp(`forecast\\s+price:?\\s*\\$?${amount}\\s*per\\s*${unit}`, 'gi'),
       
       // Horizon-specific patterns: "in 3 months: $75", "3-month forecast: $75"
-      new RegExp(`(?:in\\s+)?${horizonMonths}\\s*months?[\\s:]*(?:forecast|outlook|target|expected)?[\\s:]*\\$?(\\d+\\.?\\d*)`, 'gi'),
-      new RegExp(`${horizonMonths}[\\s-]*month[\\s-]*(?:forecast|outlook|target|expected)[\\s:]*\\$?(\\d+\\.?\\d*)`, 'gi'),
+      new RegExp(`(?:in\\s+)?${horizonMonths}\\s*months?[\\s:]*(?:forecast|outlook|target|expected)?[\\s:]*\\$?${amount}`, 'gi'),
+      new RegExp(`${horizonMonths}[\\s-]*month[\\s-]*(?:forecast|outlook|target|expected)[\\s:]*\\$?${amount}`, 'gi'),
       
       // Range patterns: "$70-80", "$70 to $80", "$70-$80" (take midpoint)
-      /(?:forecast|expected|target|outlook)[\s:]*\$?(\d+\.?\d*)\s*(?:to|-|–)\s*\$?(\d+\.?\d*)/gi,
+      new RegExp(`(?:forecast|expected|target|outlook)[\\s:]*\\$?${amount}\\s*(?:to|-|–)\\s*\\$?${amount}`, 'gi'),
       
       // Pattern for "approximately $XX per barrel"
-      /approximately\s*\$?(\d+\.?\d*)\s*per\s*barrel/gi,
+      new RegExp(`approximately\\s*\\$?${amount}\\s*per\\s*${unit}`, 'gi'),
       
       // Context-specific patterns
-      /(?:price|crude|oil|wti)\s+(?:forecast|expected|target|outlook)[\s:]*\$?(\d+\.?\d*)/gi,
+      new RegExp(`(?:${keywords})\\s+(?:forecast|expected|target|outlook)[\\s:]*\\$?${amount}`, 'gi'),
       
       // General forecast patterns (less specific, lower priority)
-      /(?:forecast|expected|target|predict)(?:ed)?\s*(?:price\s*)?:?\s*\$?(\d+\.?\d*)/gi,
+      new RegExp(`(?:forecast|expected|target|predict)(?:ed)?\\s*(?:price\\s*)?:?\\s*\\$?${amount}`, 'gi'),
     ];
     
+    const { min: minPrice, max: maxPrice } = this.getPlausiblePriceRange(commodityData);
+    // Cent-quoted commodities are often answered in dollars ("$4.50 per bushel")
+    const quotedInCents = /\bcents?\b/i.test(commodityData.unit);
+    
     let extractedPrice: number | null = null;
     let bestMatch: { price: number; confidence: number } | null = null;
     
@@ -162,19 +584,23 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
         
         if (matches[0][2]) {
           // Range pattern - take the average
-          const lowPrice = parseFloat(matches[0][1] || '0');
-          const highPrice = parseFloat(matches[0][2] || '0');
+          const lowPrice = parsePriceNumber(matches[0][1] || '0');
+          const highPrice = parsePriceNumber(matches[0][2] || '0');
           price = (lowPrice + highPrice) / 2;
           confidence += 0.1; // Range patterns are often more reliable
         } else if (matches[0][1]) {
           // Single price pattern
-          price = parseFloat(matches[0][1]);
+          price = parsePriceNumber(matches[0][1]);
         } else {
           continue;
         }
         
-        // Validate the price is reasonable for oil
-        if (!isNaN(price) && price > 0 && price < 1000) {
+        if (quotedInCents && matches[0][0].includes('$')) {
+          price *= 100;
+        }
+        
+        // Validate the price is reasonable for the commodity
+        if (!isNaN(price) && price > 0 && price >= minPrice && price < maxPrice) {
           // Boost confidence for horizon-specific matches
           if (i === 0 || i === 1) {
             confidence += 0.2;
@@ -190,7 +616,7 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
     
     if (bestMatch) {
       extractedPrice = bestMatch.price;
-      console.log(`   Extracted price: $${extractedPrice} (confidence: ${bestMatch.confidence.toFixed(2)})`);
+      this.logger.log(`   Extracted price: $${extractedPrice} (confidence: ${bestMatch.confidence.toFixed(2)})`);
     }
     
     return extractedPrice;
@@ -241,19 +667,19 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
    * Parse key factors from forecast content
    * 
    * @param content - Search result content
+   * @param commodityData - Current commodity data
    * @returns Array of key factors
    */
-  private parseKeyFactors(content: string): string[] {
+  private parseKeyFactors(content: string, commodityData: CommodityData): string[] {
     const factors: string[] = [];
     const lowerContent = content.toLowerCase();
     
-    // Common oil market factors
+    // Common market factors plus those specific to the commodity's category
+    const commodityKey = getCommodityKey(commodityData.symbol);
+    const category = commodityKey ? COMMODITY_SYMBOLS[commodityKey].category : 'energy';
     const factorKeywords = [
-      'opec', 'supply', 'demand', 'inventory', 'production', 'refinery',
-      'geopolitical', 'sanctions', 'weather', 'hurricane', 'seasonal',
-      'economic growth', 'recession', 'inflation', 'dollar', 'usd',
-      'china', 'russia', 'venezuela', 'iran', 'saudi arabia',
-      'shale', 'drilling', 'reserves', 'exports', 'imports'
+      ...COMMON_FACTOR_KEYWORDS,
+      ...(FACTOR_KEYWORDS_BY_CATEGORY[category] || [])
     ];
     
     factorKeywords.forEach(keyword => {
@@ -293,21 +719,22 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
    * 
    * @param searchResult - Web search result
    * @param horizon - Forecast horizon
-   * @param currentPrice - Current commodity price
+   * @param commodityData - Current commodity data
    * @returns ForecastData or null if parsing fails
    */
   private createForecastData(
     searchResult: WebSearchResult,
     horizon: string,
-    currentPrice: number
+    commodityData: CommodityData
   ): ForecastData | null {
     try {
       const content = searchResult.content;
+      const currentPrice = commodityData.currentPrice;
       
       // Parse forecast price
-      const forecastPrice = this.parseForecastPrice(content, horizon);
+      const forecastPrice = this.parseForecastPrice(content, horizon, commodityData);
       if (!forecastPrice) {
-        console.warn(`⚠️ Could not extract forecast price for ${horizon}`);
+        this.logger.warn(`⚠️ Could not extract forecast price for ${horizon}`);
         return null;
       }
       
@@ -318,7 +745,7 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
       const confidenceLevel = this.parseConfidenceLevel(content);
       
       // Parse key factors
-      const keyFactors = this.parseKeyFactors(content);
+      const keyFactors = this.parseKeyFactors(content, commodityData);
       
       // Calculate date range
       const horizonConfig = FORECAST_HORIZONS.find(h => h.key === horizon);
@@ -329,17 +756,17 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
       const startDate = new Date();
       const endDate = new Date(startDate.getTime() + (horizonConfig.months * 30 * 24 * 60 * 60 * 1000));
       
-      // Create source information
-      const sources: SourceInfo[] = [{
+      // Use cited sources, falling back to a generic entry when none were cited
+      const sources: SourceInfo[] = searchResult.sources.length > 0 ? searchResult.sources : [{
         name: 'Web Search Forecast Analysis',
         date: searchResult.timestamp,
-        reliability: 'medium' // Default, could be enhanced based on content analysis
+        reliability: 'medium'
       }];
       
       const forecastData: ForecastData = {
         horizon: horizon as '3-month' | '6-month' | '12-month' | '24-month',
         forecastPrice,
-        currency: 'USD',
+        currency: commodityData.currency,
         dateRange: {
           start: startDate.toISOString(),
           end: endDate.toISOString()
@@ -354,7 +781,7 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
       return forecastData;
       
     } catch (error) {
-      console.error(`❌ Error creating forecast data for ${horizon}:`, error instanceof Error ? error.message : error);
+      this.logger.error(`❌ Error creating forecast data for ${horizon}:`, error instanceof Error ? error.message : error);
       return null;
     }
   }
@@ -367,11 +794,11 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
    * @returns Validated forecasts array
    */
   private validateForecastDiversity(forecasts: ForecastData[], currentPrice: number): ForecastData[] {
-    console.log('\n🔍 Validating forecast diversity...');
-    console.log(`   Received ${forecasts.length} forecasts to validate`);
+    this.logger.log('\n🔍 Validating forecast diversity...');
+    this.logger.log(`   Received ${forecasts.length} forecasts to validate`);
     
     if (forecasts.length < 2) {
-      console.log('   ✅ Not enough data to validate diversity, returning as-is');
+      this.logger.log('   ✅ Not enough data to validate diversity, returning as-is');
       return forecasts; // Not enough data to validate diversity
     }
     
@@ -379,17 +806,17 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
     const prices = forecasts.map(f => f.forecastPrice);
     const uniquePrices = [...new Set(prices)];
     
-    console.log(`   Forecast prices: ${prices.map(p => `$${p}`).join(', ')}`);
-    console.log(`   Unique prices: ${uniquePrices.length}`);
+    this.logger.log(`   Forecast prices: ${prices.map(p => `$${p}`).join(', ')}`);
+    this.logger.log(`   Unique prices: ${uniquePrices.length}`);
     
     if (uniquePrices.length === 1) {
-      console.warn('⚠️ WARNING: All forecasts have identical prices - this is suspicious!');
-      console.warn(`   All forecasts: $${uniquePrices[0]}`);
-      console.warn('   This suggests a parsing issue or insufficient forecast variation.');
+      this.logger.warn('⚠️ WARNING: All forecasts have identical prices - this is suspicious!');
+      this.logger.warn(`   All forecasts: $${uniquePrices[0]}`);
+      this.logger.warn('   This suggests a parsing issue or insufficient forecast variation.');
       
       // Log the forecast details for debugging
       forecasts.forEach(forecast => {
-        console.warn(`   ${forecast.horizon}: $${forecast.forecastPrice} (${forecast.percentageChange}%)`);
+        this.logger.warn(`   ${forecast.horizon}: $${forecast.forecastPrice} (${forecast.percentageChange}%)`);
       });
       
       return []; // Return empty array to indicate validation failure
@@ -401,12 +828,12 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
     const priceVariation = ((maxPrice - minPrice) / minPrice) * 100;
     
     if (priceVariation < 2) {
-      console.warn(`⚠️ WARNING: Very low price variation (${priceVariation.toFixed(1)}%) across forecasts`);
-      console.warn('   This may indicate parsing issues or unrealistic forecast similarity.');
+      this.logger.warn(`⚠️ WARNING: Very low price variation (${priceVariation.toFixed(1)}%) across forecasts`);
+      this.logger.warn('   This may indicate parsing issues or unrealistic forecast similarity.');
       
       // Still return the forecasts but with warning
       forecasts.forEach(forecast => {
-        console.warn(`   ${forecast.horizon}: $${forecast.forecastPrice} (${forecast.percentageChange}%)`);
+        this.logger.warn(`   ${forecast.horizon}: $${forecast.forecastPrice} (${forecast.percentageChange}%)`);
       });
     }
     
@@ -415,11 +842,11 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
     const maxChange = Math.max(...allChanges);
     
     if (maxChange < 0.5) {
-      console.warn('⚠️ WARNING: All forecasts are very close to current price');
-      console.warn('   This may indicate the parsing is picking up current price instead of forecasts.');
+      this.logger.warn('⚠️ WARNING: All forecasts are very close to current price');
+      this.logger.warn('   This may indicate the parsing is picking up current price instead of forecasts.');
     }
     
-    console.log('✅ Forecast diversity validation completed');
+    this.logger.log('✅ Forecast diversity validation completed');
     
     return forecasts;
   }
@@ -437,41 +864,56 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
   ): Promise<ForecastData[]> {
     const { 
       validateDiversity = true, 
-      requestDelay = 2000 
+      requestDelay = 2000,
+      useStructuredOutput = false
     } = options;
     
     const forecasts: ForecastData[] = [];
+    const horizonConfigs = this.getHorizonConfigs(options.horizons);
     
-    console.log('\n🔮 Generating Multi-Horizon Forecasts...');
+    this.logger.log('\n🔮 Generating Multi-Horizon Forecasts...');
     
-    for (const horizonConfig of FORECAST_HORIZONS) {
+    for (const horizonConfig of horizonConfigs) {
       try {
-        console.log(`\n--- Processing ${horizonConfig.label} ---`);
+        this.logger.log(`\n--- Processing ${horizonConfig.label} ---`);
         
-        // Fetch forecast data for this horizon
-        const searchResult = await this.fetchForecastData(horizonConfig.key, commodityData.currentPrice);
+        let forecastData: ForecastData | null = null;
         
-        if (!searchResult.success) {
-          console.warn(`⚠️ Failed to fetch data for ${horizonConfig.key}`);
-          continue;
+        // Prefer the typed structured-output reply when enabled
+        if (useStructuredOutput) {
+          forecastData = await this.fetchStructuredForecast(horizonConfig.key, commodityData);
+          
+          if (!forecastData) {
+            this.logger.warn(`⚠️ Structured forecast unavailable for ${horizonConfig.key}, falling back to text parsing`);
+          }
         }
         
-        // Create forecast data structure
-        const forecastData = this.createForecastData(searchResult, horizonConfig.key, commodityData.currentPrice);
+        if (!forecastData) {
+          // Fetch forecast data for this horizon
+          const searchResult = await this.fetchForecastData(horizonConfig.key, commodityData);
+          
+          if (!searchResult.success) {
+            this.logger.warn(`⚠️ Failed to fetch data for ${horizonConfig.key}`);
+            continue;
+          }
+          
+          // Create forecast data structure
+          forecastData = this.createForecastData(searchResult, horizonConfig.key, commodityData);
+        }
         
         if (forecastData) {
           forecasts.push(forecastData);
-          console.log(`✅ ${horizonConfig.label}: $${forecastData.forecastPrice} (${forecastData.percentageChange > 0 ? '+' : ''}${forecastData.percentageChange}%)`);
+          this.logger.log(`✅ ${horizonConfig.label}: $${forecastData.forecastPrice} (${forecastData.percentageChange > 0 ? '+' : ''}${forecastData.percentageChange}%)`);
           
           if (forecastData.confidenceLevel) {
-            console.log(`   Confidence: ${forecastData.confidenceLevel}%`);
+            this.logger.log(`   Confidence: ${forecastData.confidenceLevel}%`);
           }
           
           if (forecastData.keyFactors && forecastData.keyFactors.length > 0) {
-            console.log(`   Key Factors: ${forecastData.keyFactors.length} identified`);
+            this.logger.log(`   Key Factors: ${forecastData.keyFactors.length} identified`);
           }
         } else {
-          console.warn(`⚠️ Could not create forecast data for ${horizonConfig.key}`);
+          this.logger.warn(`⚠️ Could not create forecast data for ${horizonConfig.key}`);
         }
         
         // Add delay between requests to be respectful to the API
@@ -480,7 +922,7 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
         }
         
       } catch (error) {
-        console.error(`❌ Error processing ${horizonConfig.key}:`, error instanceof Error ? error.message : error);
+        this.logger.error(`❌ Error processing ${horizonConfig.key}:`, error instanceof Error ? error.message : error);
       }
     }
     
@@ -489,11 +931,523 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
       this.validateForecastDiversity(forecasts, commodityData.currentPrice) : 
       forecasts;
     
-    console.log(`\n✅ Multi-horizon forecast generation completed. Generated ${validatedForecasts.length}/${FORECAST_HORIZONS.length} forecasts.`);
+    this.logger.log(`\n✅ Multi-horizon forecast generation completed. Generated ${validatedForecasts.length}/${horizonConfigs.length} forecasts.`);
     
     return validatedForecasts;
   }
 
+  /**
+   * Generate market consensus forecasts from the futures curve
+   * 
+   * Maps each forecast horizon to a futures contract and uses the futures curve
+   * interpolated to the horizon date as the market consensus baseline (the
+   * mapped contract price when the curve does not bracket the date), applies
+   * any supplied risk adjustments and derives a lognormal confidence interval
+   * around the adjusted price.
+   * 
+   * @param commodityData - Current commodity data
+   * @param options - Market consensus options
+   * @returns Promise resolving to array of market consensus forecasts
+   */
+  async generateMarketConsensusForecasts(
+    commodityData: CommodityData,
+    options: MarketConsensusOptions = {}
+  ): Promise<MarketConsensusForcast[]> {
+    const forecasts: MarketConsensusForcast[] = [];
+    
+    this.logger.log('\n🏛️ Generating Market Consensus Forecasts...');
+    
+    const horizonConfigs = this.getHorizonConfigs(options.horizons);
+    const mappings = FuturesMapper.getStandardMappings(commodityData.symbol);
+    const riskAdjustments = options.riskAdjustments || await this.fetchRiskAdjustments(commodityData, options);
+    const historicalVolatility = options.simulation && options.annualVolatility === undefined
+      ? await this.fetchHistoricalVolatility(commodityData.symbol)
+      : null;
+    const interpolationMethod = options.interpolation || FORECASTING_CONFIG.CURVE_INTERPOLATION.DEFAULT_METHOD;
+    const targetDates = mappings.filter(m => horizonConfigs.some(h => h.key === m.horizon)).map(m => m.targetDate);
+    const curve = interpolationMethod !== 'none' && targetDates.length > 0
+      ? await this.fetchConsensusCurve(commodityData.symbol, targetDates)
+      : null;
+    
+    for (const horizonConfig of horizonConfigs) {
+      const mapping = mappings.find(m => m.horizon === horizonConfig.key);
+      
+      if (!mapping) {
+        this.logger.warn(`⚠️ No futures contract mapped for ${horizonConfig.key}`);
+        continue;
+      }
+      
+      try {
+        this.logger.log(`\n--- ${horizonConfig.label}: ${mapping.contractSymbol} ---`);
+        
+        const contract = await this.yahooFinanceService.getFuturesContract(mapping.contractSymbol);
+        const interpolation = curve && interpolationMethod !== 'none'
+          ? this.interpolateConsensusPrice(curve, mapping, interpolationMethod)
+          : null;
+        const forecast = this.createMarketConsensusForecast(
+          horizonConfig.key,
+          contract,
+          mapping,
+          commodityData.currentPrice,
+          { ...options, riskAdjustments },
+          historicalVolatility,
+          interpolation
+        );
+        
+        forecasts.push(forecast);
+        this.logger.log(`✅ ${horizonConfig.label}: consensus $${forecast.marketConsensusPrice.toFixed(2)}, adjusted $${forecast.riskAdjustedPrice.toFixed(2)} (${forecast.percentageChange > 0 ? '+' : ''}${forecast.percentageChange}%)`);
+        
+      } catch (error) {
+        this.logger.error(`❌ Error fetching consensus for ${horizonConfig.key}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    
+    this.logger.log(`\n✅ Market consensus generation completed. Generated ${forecasts.length}/${horizonConfigs.length} forecasts.`);
+    
+    return forecasts;
+  }
+
+  /**
+   * Fetch risk adjustments for all horizons with one structured AI call
+   * 
+   * @param commodityData - Current commodity data
+   * @param options - Market consensus options
+   * @returns Promise resolving to risk adjustments keyed by horizon (empty on failure)
+   */
+  private async fetchRiskAdjustments(
+    commodityData: CommodityData,
+    options: MarketConsensusOptions
+  ): Promise<Partial<Record<ForecastData['horizon'], RiskAdjustment[]>>> {
+    if (options.assessRisks === false) {
+      return {};
+    }
+    if (!this.riskAnalysisService) {
+      this.logger.warn('⚠️ Web search is not configured, using market consensus without risk adjustments');
+      return {};
+    }
+    
+    try {
+      const assessment = await this.riskAnalysisService.assessRisks(commodityData, {
+        ...(options.horizons && { horizons: options.horizons })
+      });
+      return assessment.adjustments;
+    } catch (error) {
+      this.logger.warn('⚠️ Risk assessment failed, using market consensus without risk adjustments');
+      this.logger.warn('Error:', error instanceof Error ? error.message : error);
+      return {};
+    }
+  }
+
+  /**
+   * Estimate annualized volatility from daily price history
+   * 
+   * @param symbol - Commodity symbol
+   * @returns Promise resolving to the volatility (null on failure)
+   */
+  private async fetchHistoricalVolatility(symbol: string): Promise<number | null> {
+    try {
+      const history = await this.yahooFinanceService.getChartData(symbol, {
+        interval: TIME_CONFIG.DEFAULTS.DAILY_INTERVAL,
+        range: FORECASTING_CONFIG.SIMULATION.VOLATILITY_RANGE,
+        maxDataPoints: Number.MAX_SAFE_INTEGER
+      });
+      const volatility = estimateAnnualVolatility(history);
+      if (volatility !== null) {
+        this.logger.log(`📈 Historical volatility for ${symbol}: ${(volatility * 100).toFixed(1)}%`);
+      }
+      return volatility;
+    } catch (error) {
+      this.logger.warn('⚠️ Could not estimate historical volatility, using configured volatility');
+      this.logger.warn('Error:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch the futures curve far enough out to bracket every horizon date
+   * 
+   * @param symbol - Commodity symbol
+   * @param targetDates - Horizon target dates
+   * @returns Promise resolving to the curve (null on failure)
+   */
+  private async fetchConsensusCurve(symbol: string, targetDates: Date[]): Promise<FuturesCurve | null> {
+    const contractMonths = FuturesMapper.getContractMonths(symbol);
+    const contractYear = new Date().getFullYear();
+    const latestTarget = Math.max(...targetDates.map(date => date.getTime()));
+    
+    // The curve starts at the first contract expiring after today; count through the ones expiring after the latest target
+    let maxContracts = 0;
+    let pastTarget = 0;
+    for (let year = contractYear; year < contractYear + 3 && pastTarget < FORECASTING_CONFIG.CURVE_INTERPOLATION.CONTRACTS_PAST_TARGET; year++) {
+      for (const month of contractMonths) {
+        const expirationDate = FuturesMapper.calculateExpirationDate(symbol, month, year);
+        if (getCalendarDaysBetween(new Date(), expirationDate) < 1) {
+          continue;
+        }
+        maxContracts++;
+        if (expirationDate.getTime() > latestTarget &&
+          ++pastTarget >= FORECASTING_CONFIG.CURVE_INTERPOLATION.CONTRACTS_PAST_TARGET) {
+          break;
+        }
+      }
+    }
+    
+    try {
+      return await this.yahooFinanceService.getFuturesCurve(symbol, { contractMonths, maxContracts, minDaysToExpiry: 1 });
+    } catch (error) {
+      this.logger.warn('⚠️ Could not fetch the futures curve, using mapped contract prices');
+      this.logger.warn('Error:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Interpolate the futures curve to a horizon's target date
+   * 
+   * @param curve - Futures curve
+   * @param mapping - Horizon to contract mapping
+   * @param method - Interpolation method
+   * @returns Constant-maturity forward price (null when the curve does not bracket the date)
+   */
+  private interpolateConsensusPrice(
+    curve: FuturesCurve,
+    mapping: ContractMapping,
+    method: CurveInterpolationMethod
+  ): CurveInterpolation | null {
+    try {
+      const interpolation = interpolateCurve(curve, mapping.targetDate, method);
+      this.logger.log(`📏 ${method} curve price for ${mapping.targetDate.toLocaleDateString()}: $${interpolation.price.toFixed(2)} (${interpolation.bracketingContracts.map(c => c.symbol).join('/')})`);
+      return interpolation;
+    } catch (error) {
+      this.logger.warn(`⚠️ Curve interpolation failed for ${mapping.horizon}, using ${mapping.contractSymbol}`);
+      this.logger.warn('Error:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Build a market consensus forecast from a futures contract
+   * 
+   * @param horizon - Forecast horizon
+   * @param contract - Futures contract mapped to the horizon
+   * @param mapping - Horizon to contract mapping
+   * @param currentPrice - Current commodity price
+   * @param options - Market consensus options
+   * @param historicalVolatility - Volatility estimated from price history, used for simulation when the contract has no implied volatility
+   * @param interpolation - Curve price at the horizon date, used instead of the contract price when present
+   * @returns MarketConsensusForcast
+   */
+  private createMarketConsensusForecast(
+    horizon: ForecastData['horizon'],
+    contract: FuturesContract,
+    mapping: ContractMapping,
+    currentPrice: number,
+    options: MarketConsensusOptions,
+    historicalVolatility: number | null = null,
+    interpolation: CurveInterpolation | null = null
+  ): MarketConsensusForcast {
+    const consensusConfig = FORECASTING_CONFIG.MARKET_CONSENSUS;
+    const {
+      annualVolatility = consensusConfig.DEFAULT_ANNUAL_VOLATILITY,
+      confidenceInterval = consensusConfig.CONFIDENCE_INTERVAL
+    } = options;
+    
+    const horizonConfig = FORECAST_HORIZONS.find(h => h.key === horizon);
+    if (!horizonConfig) {
+      throw new Error(`Unknown forecast horizon: ${horizon}`);
+    }
+    
+    const marketConsensusPrice = interpolation ? interpolation.price : contract.currentPrice;
+    if (!marketConsensusPrice || marketConsensusPrice <= 0) {
+      throw new Error(`Invalid consensus price for ${contract.symbol}: ${marketConsensusPrice}`);
+    }
+    
+    // Apply risk adjustments through the deterministic risk engine
+    const riskAdjustments = options.riskAdjustments?.[horizon] || [];
+    const riskResult = RiskAnalyzer.applyRiskAdjustments(marketConsensusPrice, riskAdjustments, horizonConfig.months);
+    const riskAdjustedPrice = riskResult.riskAdjustedPrice;
+    
+    // Lognormal uncertainty range scaled by square root of time
+    const zScore = consensusConfig.Z_SCORES[confidenceInterval] ?? consensusConfig.Z_SCORES[95] ?? 1.96;
+    const spread = zScore * annualVolatility * Math.sqrt(horizonConfig.months / 12);
+    let lower = Math.round(riskAdjustedPrice * Math.exp(-spread) * 100) / 100;
+    let upper = Math.round(riskAdjustedPrice * Math.exp(spread) * 100) / 100;
+    
+    // Simulated paths anchored on the adjusted price replace the closed-form range
+    let simulation: SimulationSummary | undefined;
+    if (options.simulation) {
+      const impliedVolatility = contract.priceMetrics.impliedVolatility;
+      const [volatility, volatilitySource]: [number, SimulationSummary['volatilitySource']] =
+        impliedVolatility && impliedVolatility > 0 ? [impliedVolatility, 'implied']
+          : options.annualVolatility === undefined && historicalVolatility !== null ? [historicalVolatility, 'historical']
+            : [annualVolatility, 'configured'];
+      const tail = (100 - confidenceInterval) / 2;
+      
+      const result = simulatePricePaths({
+        ...options.simulation,
+        percentiles: [...new Set([...(options.simulation.percentiles || FORECASTING_CONFIG.SIMULATION.PERCENTILES), tail, 100 - tail])].sort((a, b) => a - b),
+        spotPrice: currentPrice,
+        horizons: [{ key: horizon, months: horizonConfig.months, forwardPrice: riskAdjustedPrice }],
+        annualVolatility: volatility
+      });
+      const distribution = result.horizons[0]!;
+      const priceAt = (percentile: number): number =>
+        distribution.percentiles.find(band => band.percentile === percentile)!.price;
+      
+      lower = priceAt(tail);
+      upper = priceAt(100 - tail);
+      simulation = {
+        paths: result.paths,
+        seed: result.seed,
+        shocks: result.shocks,
+        ...(result.degreesOfFreedom !== undefined && { degreesOfFreedom: result.degreesOfFreedom }),
+        annualVolatility: volatility,
+        volatilitySource,
+        forwardPrice: riskAdjustedPrice,
+        mean: distribution.mean,
+        percentiles: distribution.percentiles,
+        ...(distribution.thresholds.length > 0 && { thresholds: distribution.thresholds })
+      };
+    }
+    
+    // Narrower relative ranges translate into higher confidence
+    const relativeHalfWidth = (upper - lower) / (2 * riskAdjustedPrice);
+    const baseConfidence = Math.max(
+      consensusConfig.MIN_CONFIDENCE_LEVEL,
+      Math.round((1 - relativeHalfWidth) * 100)
+    );
+    const confidenceLevel = RiskAnalyzer.adjustConfidence(baseConfidence, riskResult.confidenceImpact);
+    
+    const keyFactors = riskAdjustments.map(adj => adj.description);
+    const sources: SourceInfo[] = [
+      ...contract.sources,
+      ...riskAdjustments.flatMap(adj => adj.sources)
+    ];
+    
+    return {
+      horizon,
+      forecastPrice: riskAdjustedPrice,
+      currency: contract.currency || 'USD',
+      confidenceLevel,
+      dateRange: {
+        start: new Date().toISOString(),
+        end: mapping.targetDate.toISOString()
+      },
+      percentageChange: this.calculatePercentageChange(currentPrice, riskAdjustedPrice),
+      sources,
+      methodology: interpolation
+        ? `${FORECASTING_CONFIG.METHODS.HYBRID.name} (${interpolation.method} curve price for ${mapping.targetDate.toLocaleDateString()} from ${interpolation.bracketingContracts.map(c => c.symbol).join('/')})`
+        : `${FORECASTING_CONFIG.METHODS.HYBRID.name} (${mapping.contractSymbol}, expires ${mapping.expirationDate.toLocaleDateString()})`,
+      ...(keyFactors.length > 0 && { keyFactors }),
+      marketConsensusPrice,
+      riskAdjustedPrice,
+      riskAdjustments,
+      riskAdjustmentExplanation: RiskAnalyzer.explain(riskResult),
+      confidenceInterval: {
+        lower,
+        upper,
+        confidence: confidenceInterval
+      },
+      ...(simulation && { simulation }),
+      ...(interpolation && { curveInterpolation: interpolation })
+    };
+  }
+
+  /**
+   * Run each member method and combine their forecasts per horizon
+   * 
+   * @param commodityData - Current commodity data
+   * @param options - Forecast generation options (member method options and ensemble options)
+   * @returns Promise resolving to array of ensemble forecasts
+   */
+  async generateEnsembleForecasts(
+    commodityData: CommodityData,
+    options: ForecastOptions = {}
+  ): Promise<EnsembleForecast[]> {
+    const { members = FORECASTING_CONFIG.ENSEMBLE.MEMBERS, trackRecord = {}, confidenceInterval } = options.ensemble || {};
+    
+    this.logger.log(`\n🧩 Generating Ensemble Forecasts (${members.join(', ')})...`);
+    
+    const memberForecasts: EnsembleMemberForecast[] = [];
+    for (const method of members) {
+      try {
+        const forecasts = await this.generateMemberForecasts(commodityData, method, options);
+        forecasts.forEach(forecast => memberForecasts.push({ method, forecast }));
+      } catch (error) {
+        this.logger.warn(`⚠️ Ensemble member ${method} failed, combining the remaining members`);
+        this.logger.warn('Error:', error instanceof Error ? error.message : error);
+      }
+    }
+    
+    const forecasts: EnsembleForecast[] = [];
+    for (const horizonConfig of this.getHorizonConfigs(options.horizons)) {
+      const horizonMembers = memberForecasts.filter(member => member.forecast.horizon === horizonConfig.key);
+      if (horizonMembers.length === 0) {
+        this.logger.warn(`⚠️ No member forecasts for ${horizonConfig.key}`);
+        continue;
+      }
+      
+      const forecast = combineForecasts(horizonConfig.key, horizonMembers, commodityData.currentPrice, {
+        ...(trackRecord[horizonConfig.key] && { trackRecord: trackRecord[horizonConfig.key] }),
+        ...(confidenceInterval !== undefined && { confidenceInterval })
+      });
+      forecasts.push(forecast);
+      this.logger.log(`✅ ${horizonConfig.label}: $${forecast.forecastPrice.toFixed(2)} from ${forecast.members.length} members (${forecast.weighting} weights)`);
+    }
+    
+    this.logger.log(`\n✅ Ensemble generation completed. Generated ${forecasts.length}/${this.getHorizonConfigs(options.horizons).length} forecasts.`);
+    
+    return forecasts;
+  }
+
+  /**
+   * Generate one ensemble member's forecasts (no fallback to other methods)
+   */
+  private async generateMemberForecasts(
+    commodityData: CommodityData,
+    method: EnsembleMethod,
+    options: ForecastOptions
+  ): Promise<ForecastData[]> {
+    const horizons = options.horizons && { horizons: options.horizons };
+    
+    if (method === 'hybrid') {
+      return this.generateMarketConsensusForecasts(commodityData, { ...horizons, ...options.marketConsensus });
+    }
+    if (method === 'statistical') {
+      return this.generateStatisticalForecasts(commodityData, { ...horizons, ...options.statistical });
+    }
+    return this.generateMultiHorizonForecasts(commodityData, options);
+  }
+
+  /**
+   * Generate forecasts from a statistical model fitted on daily price history
+   * 
+   * @param commodityData - Current commodity data
+   * @param options - Statistical method options
+   * @returns Promise resolving to array of forecast data
+   */
+  async generateStatisticalForecasts(
+    commodityData: CommodityData,
+    options: StatisticalMethodOptions = {}
+  ): Promise<ForecastData[]> {
+    const statisticalConfig = FORECASTING_CONFIG.STATISTICAL;
+    const {
+      model = statisticalConfig.DEFAULT_MODEL,
+      range = statisticalConfig.HISTORY_RANGE,
+      confidenceInterval
+    } = options;
+    
+    const forecaster = createForecaster(model);
+    this.logger.log(`\n📐 Generating ${forecaster.name} forecasts from ${range} of ${commodityData.symbol} history...`);
+    
+    const history = await this.yahooFinanceService.getChartData(commodityData.symbol, {
+      interval: TIME_CONFIG.DEFAULTS.DAILY_INTERVAL,
+      range,
+      maxDataPoints: Number.MAX_SAFE_INTEGER
+    });
+    
+    const forecasts = forecaster.forecast(history, {
+      currentPrice: commodityData.currentPrice,
+      ...(options.horizons && { horizons: options.horizons }),
+      ...(confidenceInterval !== undefined && { confidenceInterval })
+    });
+    
+    forecasts.forEach(forecast => {
+      this.logger.log(`✅ ${forecast.horizon}: $${forecast.forecastPrice.toFixed(2)} (${forecast.percentageChange > 0 ? '+' : ''}${forecast.percentageChange}%), range $${forecast.priceRange!.low.toFixed(2)}-$${forecast.priceRange!.high.toFixed(2)}`);
+    });
+    
+    return forecasts;
+  }
+
+  /**
+   * Generate forecasts with the requested method, falling back per configuration
+   * 
+   * @param commodityData - Current commodity data
+   * @param options - Forecast generation options
+   * @returns Promise resolving to the forecasts and the method that produced them
+   */
+  private async generateForecastsByMethod(
+    commodityData: CommodityData,
+    options: ForecastOptions
+  ): Promise<{ method: ForecastMethod; forecasts: ForecastData[] }> {
+    const { method = 'web-search' } = options;
+    
+    if (method === 'ensemble') {
+      return { method, forecasts: await this.generateEnsembleForecasts(commodityData, options) };
+    }
+    
+    if (method === 'statistical') {
+      const forecasts = await this.generateStatisticalForecasts(commodityData, {
+        ...(options.horizons && { horizons: options.horizons }),
+        ...options.statistical
+      });
+      return { method, forecasts };
+    }
+    
+    if (method === 'hybrid') {
+      const consensusForecasts = await this.generateMarketConsensusForecasts(commodityData, {
+        ...(options.horizons && { horizons: options.horizons }),
+        ...options.marketConsensus
+      });
+      
+      if (consensusForecasts.length > 0) {
+        return { method, forecasts: consensusForecasts };
+      }
+      
+      const fallback = FORECASTING_CONFIG.METHODS.HYBRID.fallback;
+      this.logger.warn(`⚠️ No market consensus forecasts available, falling back to ${fallback}`);
+    }
+    
+    return { method: 'web-search', forecasts: await this.generateMultiHorizonForecasts(commodityData, options) };
+  }
+
+  /**
+   * Compute volatility and risk metrics from daily price history
+   * 
+   * @param symbol - Commodity symbol
+   * @returns Promise resolving to risk metrics (null on failure)
+   */
+  private async fetchRiskMetrics(symbol: string): Promise<RiskMetrics | null> {
+    try {
+      const history = await this.yahooFinanceService.getChartData(symbol, {
+        interval: TIME_CONFIG.DEFAULTS.DAILY_INTERVAL,
+        range: RISK_METRICS_CONFIG.HISTORY_RANGE,
+        maxDataPoints: Number.MAX_SAFE_INTEGER
+      });
+      const riskMetrics = calculateRiskMetrics(history);
+      this.logger.log(`📉 Risk metrics: ${(riskMetrics.volatility.closeToClose * 100).toFixed(1)}% volatility, ${(riskMetrics.maxDrawdown.drawdown * 100).toFixed(1)}% max drawdown`);
+      return riskMetrics;
+    } catch (error) {
+      this.logger.warn('⚠️ Could not compute risk metrics:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Compute the technical indicator snapshot from daily price history
+   * 
+   * @param symbol - Commodity symbol
+   * @returns Promise resolving to the snapshot (null on failure)
+   */
+  private async fetchTechnicalSnapshot(symbol: string): Promise<TechnicalSnapshot | null> {
+    try {
+      const history = await this.yahooFinanceService.getChartData(symbol, {
+        interval: TIME_CONFIG.DEFAULTS.DAILY_INTERVAL,
+        range: TECHNICAL_INDICATORS_CONFIG.HISTORY_RANGE,
+        maxDataPoints: Number.MAX_SAFE_INTEGER
+      });
+      
+      // The 52-week range falls back to the history's highs and lows without a quote
+      const quote = await this.yahooFinanceService.getQuoteData(symbol).catch((): undefined => undefined);
+      const snapshot = createTechnicalSnapshot(history, { ...(quote && { quote }) });
+      this.logger.log(`📐 Technical indicators: RSI ${snapshot.rsi.value?.toFixed(1) ?? 'N/A'}, ${snapshot.yearRange?.position != null ? `${(snapshot.yearRange.position * 100).toFixed(0)}% of 52-week range` : '52-week range N/A'}`);
+      return snapshot;
+    } catch (error) {
+      this.logger.warn('⚠️ Could not compute technical indicators:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
   /**
    * Create comprehensive commodity analysis with forecasts
    * 
@@ -506,10 +1460,10 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
     options: ForecastOptions = {}
   ): Promise<CommodityAnalysis> {
     try {
-      console.log('\n📊 Creating Comprehensive Commodity Analysis...');
+      this.logger.log('\n📊 Creating Comprehensive Commodity Analysis...');
       
       // Generate forecasts for all horizons
-      const forecasts = await this.generateMultiHorizonForecasts(commodityData, options);
+      const { method, forecasts } = await this.generateForecastsByMethod(commodityData, options);
       
       // Determine overall trend based on forecasts
       let overallTrend: 'bullish' | 'bearish' | 'neutral' = 'neutral';
@@ -528,27 +1482,33 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
       const allKeyFactors = forecasts.flatMap(f => f.keyFactors || []);
       const riskFactors = [...new Set(allKeyFactors)].slice(0, 10); // Top 10 unique factors
       
+      const riskMetrics = options.includeRiskMetrics === false ? null : await this.fetchRiskMetrics(commodityData.symbol);
+      const technicalIndicators = options.includeTechnicalIndicators ? await this.fetchTechnicalSnapshot(commodityData.symbol) : null;
+      
       // Create comprehensive analysis
       const analysis: CommodityAnalysis = {
         commodity: commodityData,
         forecasts,
+        forecastMethod: method,
         analysisDate: new Date().toISOString(),
         overallTrend,
         marketSentiment: overallTrend === 'bullish' ? 'Positive outlook with expected price increases' :
                          overallTrend === 'bearish' ? 'Negative outlook with expected price decreases' :
                          'Mixed signals with uncertain price direction',
-        ...(riskFactors.length > 0 && { riskFactors })
+        ...(riskFactors.length > 0 && { riskFactors }),
+        ...(riskMetrics && { riskMetrics }),
+        ...(technicalIndicators && { technicalIndicators })
       };
       
-      console.log(`✅ Comprehensive analysis completed!`);
-      console.log(`   Overall Trend: ${overallTrend.toUpperCase()}`);
-      console.log(`   Forecasts Generated: ${forecasts.length}`);
-      console.log(`   Risk Factors Identified: ${riskFactors.length}`);
+      this.logger.log(`✅ Comprehensive analysis completed!`);
+      this.logger.log(`   Overall Trend: ${overallTrend.toUpperCase()}`);
+      this.logger.log(`   Forecasts Generated: ${forecasts.length}`);
+      this.logger.log(`   Risk Factors Identified: ${riskFactors.length}`);
       
       return analysis;
       
     } catch (error) {
-      console.error('❌ Error creating comprehensive analysis:', error instanceof Error ? error.message : error);
+      this.logger.error('❌ Error creating comprehensive analysis:', error instanceof Error ? error.message : error);
       throw error;
     }
   }
@@ -557,9 +1517,15 @@ Please cite reliable sources such as EIA, IEA, major financial institutions, ene
 /**
  * Create a new ForecastService instance
  * 
- * @param webSearchService - Web search service instance
+ * @param webSearchService - Web search service instance (omit to run only the 'statistical' method)
+ * @param yahooFinanceService - Optional Yahoo Finance service for futures data
+ * @param logger - Logger for progress output (default: silent)
  * @returns ForecastService instance
  */
-export function createForecastService(webSearchService: WebSearchService): ForecastService {
-  return new ForecastService(webSearchService);
+export function createForecastService(
+  webSearchService?: WebSearchService,
+  yahooFinanceService?: YahooFinanceService,
+  logger?: Logger
+): ForecastService {
+  return new ForecastService(webSearchService, yahooFinanceService, logger);
 }
\ No newline at end of file
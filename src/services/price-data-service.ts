@@ -1,18 +1,33 @@
 /**
  * Price Data Service Module
  * 
- * Handles current crude oil price fetching with Yahoo Finance as primary source
+ * Handles current commodity price fetching with Yahoo Finance as primary source
  * and OpenAI web search as fallback. Provides price parsing, validation,
- * and commodity data extraction capabilities.
+ * and commodity data extraction capabilities for any commodity in
+ * COMMODITY_SYMBOLS.
  * 
  * @author Price Data Service Module
  * @version 1.0.0
  */
 
-import { CommodityData, SourceInfo, ParsedPriceData, ValidationResult, CRUDE_OIL_CONFIG } from '../types/commodity';
+import { CommodityData, SourceInfo, ParsedPriceData, ValidationResult } from '../types/commodity';
+import { COMMODITY_SYMBOLS, CommoditySymbolKey, getValidationRules } from '../config/yahoo-finance';
 import { WebSearchService, WebSearchResult } from './web-search-service';
 import { getYahooFinanceService } from './yahoo-finance-service';
 import { trackDataRetrieval } from '../utils/formatter';
+import { Logger, silentLogger } from '../utils/logger';
+import {
+  PRICE_NUMBER_PATTERN,
+  parsePriceNumber,
+  getUnitOfMeasure,
+  getUnitPattern,
+  getCommodityKeywords
+} from '../utils/commodity-text';
+
+/**
+ * Default commodity when none is specified
+ */
+export const DEFAULT_COMMODITY: CommoditySymbolKey = 'CRUDE_OIL_WTI';
 
 /**
  * Price data service options
@@ -32,10 +47,12 @@ export interface PriceDataOptions {
  * Price Data Service for current commodity prices
  */
 export class PriceDataService {
-  private webSearchService: WebSearchService;
+  private webSearchService: WebSearchService | undefined;
+  private logger: Logger;
 
-  constructor(webSearchService: WebSearchService) {
+  constructor(webSearchService?: WebSearchService, logger: Logger = silentLogger) {
     this.webSearchService = webSearchService;
+    this.logger = logger;
   }
 
   /**
@@ -45,37 +62,53 @@ export class PriceDataService {
    * @returns Promise resolving to WebSearchResult
    */
   async fetchCurrentCrudeOilPrice(options: PriceDataOptions = {}): Promise<WebSearchResult> {
+    return this.fetchCurrentPrice('CRUDE_OIL_WTI', options);
+  }
+
+  /**
+   * Fetch current commodity price with Yahoo Finance primary and web search fallback
+   * 
+   * @param commodityKey - Commodity to fetch
+   * @param options - Price data fetching options
+   * @returns Promise resolving to WebSearchResult
+   */
+  async fetchCurrentPrice(
+    commodityKey: CommoditySymbolKey = DEFAULT_COMMODITY,
+    options: PriceDataOptions = {}
+  ): Promise<WebSearchResult> {
     const {
       useYahooFinance = true,
       useWebSearchFallback = true,
       validatePrice = true,
       useCache = true
     } = options;
+    
+    const commodity = COMMODITY_SYMBOLS[commodityKey];
 
     try {
-      console.log('\n=== Fetching Current Crude Oil Price ===');
+      this.logger.log(`\n=== Fetching Current ${commodity.name} Price ===`);
       
       // Try Yahoo Finance first if enabled
       if (useYahooFinance) {
         try {
-          console.log('Attempting to fetch from Yahoo Finance (primary source)...');
+          this.logger.log('Attempting to fetch from Yahoo Finance (primary source)...');
           
           const yahooFinanceService = getYahooFinanceService();
-          const quoteData = await yahooFinanceService.getQuoteData('CL=F', {
+          const quoteData = await yahooFinanceService.getQuoteData(commodity.symbol, {
             validatePrice,
             useCache
           });
           
           // Track successful Yahoo Finance retrieval
-          trackDataRetrieval('Yahoo Finance API', true, `Price: $${quoteData.currentPrice}`);
+          trackDataRetrieval('Yahoo Finance API', true, `Price: $${quoteData.currentPrice}`, this.logger);
           
           // Format Yahoo Finance data as WebSearchResult for compatibility
           const yahooResult: WebSearchResult = {
-            content: `Current WTI Crude Oil (CL=F) price: $${quoteData.currentPrice} USD per barrel
+            content: `Current ${commodity.name} (${commodity.symbol}) price: ${quoteData.currentPrice} ${commodity.unit}
 Last updated: ${new Date(quoteData.lastUpdated).toLocaleString()}
 Exchange: ${quoteData.exchange}
-Day Range: $${quoteData.dayLow} - $${quoteData.dayHigh}
-Previous Close: $${quoteData.previousClose}
+Day Range: ${quoteData.dayLow} - ${quoteData.dayHigh}
+Previous Close: ${quoteData.previousClose}
 Change: ${quoteData.priceChange > 0 ? '+' : ''}${quoteData.priceChange.toFixed(2)} (${quoteData.percentChange.toFixed(2)}%)
 Volume: ${quoteData.volume.toLocaleString()}
 Source: Yahoo Finance`,
@@ -83,34 +116,35 @@ Source: Yahoo Finance`,
             success: true,
             sources: [{
               name: 'Yahoo Finance',
+              url: `https://finance.yahoo.com/quote/${commodity.symbol}`,
               date: quoteData.lastUpdated,
               reliability: 'high'
             }]
           };
           
-          console.log('✅ Yahoo Finance data fetched successfully');
-          console.log(`Current price: $${quoteData.currentPrice} USD per barrel`);
-          console.log(`Data source: Yahoo Finance (primary)`);
+          this.logger.log('✅ Yahoo Finance data fetched successfully');
+          this.logger.log(`Current price: ${quoteData.currentPrice} ${commodity.unit}`);
+          this.logger.log(`Data source: Yahoo Finance (primary)`);
           
           return yahooResult;
           
         } catch (yahooError) {
           // Log Yahoo Finance error but continue to fallback
-          console.warn('⚠️ Yahoo Finance API failed, falling back to OpenAI web search');
-          console.warn('Error:', yahooError instanceof Error ? yahooError.message : yahooError);
+          this.logger.warn('⚠️ Yahoo Finance API failed, falling back to OpenAI web search');
+          this.logger.warn('Error:', yahooError instanceof Error ? yahooError.message : yahooError);
           
           // Track Yahoo Finance failure
-          trackDataRetrieval('Yahoo Finance API', false, yahooError instanceof Error ? yahooError.message : 'Unknown error');
+          trackDataRetrieval('Yahoo Finance API', false, yahooError instanceof Error ? yahooError.message : 'Unknown error', this.logger);
         }
       }
       
-      // Fallback to OpenAI web search if enabled
-      if (useWebSearchFallback) {
-        console.log('Using OpenAI web search as fallback data source...');
+      // Fallback to OpenAI web search if enabled and available
+      if (useWebSearchFallback && this.webSearchService) {
+        this.logger.log('Using OpenAI web search as fallback data source...');
         
-        const query = `What is the current price of crude oil WTI (CL=F) today? Please provide the latest price in USD per barrel with the source and timestamp.`;
+        const query = `What is the current price of ${commodity.name} (${commodity.symbol}) today? Please provide the latest price in ${commodity.unit} with the source and timestamp.`;
         
-        console.log('Fetching crude oil price data via web search...');
+        this.logger.log(`Fetching ${commodity.name} price data via web search...`);
         
         const searchResult = await this.webSearchService.search(query, {
           maxRetries: 3,
@@ -120,19 +154,19 @@ Source: Yahoo Finance`,
         
         if (searchResult.success) {
           // Track successful OpenAI fallback
-          trackDataRetrieval('OpenAI Web Search (Fallback)', true, 'Used as fallback after Yahoo Finance failure');
+          trackDataRetrieval('OpenAI Web Search (Fallback)', true, 'Used as fallback after Yahoo Finance failure', this.logger);
           
-          console.log('✅ Crude oil price data fetched successfully via OpenAI');
-          console.log(`Response length: ${searchResult.content.length} characters`);
-          console.log(`Data source: OpenAI Web Search (fallback)`);
+          this.logger.log(`✅ ${commodity.name} price data fetched successfully via OpenAI`);
+          this.logger.log(`Response length: ${searchResult.content.length} characters`);
+          this.logger.log(`Data source: OpenAI Web Search (fallback)`);
           
           return searchResult;
         }
       }
       
       // If all sources fail
-      console.error('❌ Failed to fetch crude oil price from all sources');
-      trackDataRetrieval('All Data Sources', false, 'Both Yahoo Finance and OpenAI failed');
+      this.logger.error(`❌ Failed to fetch ${commodity.name} price from all sources`);
+      trackDataRetrieval('All Data Sources', false, 'Both Yahoo Finance and OpenAI failed', this.logger);
       
       return {
         content: '',
@@ -142,10 +176,10 @@ Source: Yahoo Finance`,
       };
       
     } catch (error) {
-      console.error('❌ Failed to fetch crude oil price from all sources:', error instanceof Error ? error.message : error);
+      this.logger.error(`❌ Failed to fetch ${commodity.name} price from all sources:`, error instanceof Error ? error.message : error);
       
       // Track complete failure
-      trackDataRetrieval('All Data Sources', false, 'Both Yahoo Finance and OpenAI failed');
+      trackDataRetrieval('All Data Sources', false, 'Both Yahoo Finance and OpenAI failed', this.logger);
       
       return {
         content: '',
@@ -160,28 +194,39 @@ Source: Yahoo Finance`,
    * Parse price data from web search results
    * 
    * @param searchResult - Web search result
+   * @param commodityKey - Commodity the result describes
    * @returns Parsed price data
    */
-  parsePriceFromSearchResult(searchResult: WebSearchResult): ParsedPriceData {
+  parsePriceFromSearchResult(
+    searchResult: WebSearchResult,
+    commodityKey: CommoditySymbolKey = DEFAULT_COMMODITY
+  ): ParsedPriceData {
     const content = searchResult.content.toLowerCase();
+    const commodity = COMMODITY_SYMBOLS[commodityKey];
+    const rules = getValidationRules(commodityKey);
+    const unitOfMeasure = getUnitOfMeasure(commodity.unit).toLowerCase();
+    const unitPattern = getUnitPattern(commodity.unit);
+    const keywords = getCommodityKeywords(commodity.name);
     
     // Check if this is Yahoo Finance formatted data
     const isYahooFinance = content.includes('yahoo finance') || 
                           (searchResult.sources && searchResult.sources.length > 0 && 
                            searchResult.sources[0]?.name === 'Yahoo Finance');
     
+    const unitSuffix = `(?:per\\s+${unitPattern}|\\/${unitPattern}|${unitPattern})?`;
+    
     // Regular expressions to match different price formats
     const pricePatterns = [
-      // $75.50, $75.5, $75
-      /\$(\d+\.?\d*)\s*(?:per\s+barrel|\/barrel|barrel)?/gi,
+      // $75.50, $2,650.30 per troy ounce
+      new RegExp(`\\$${PRICE_NUMBER_PATTERN}\\s*${unitSuffix}`, 'gi'),
       // 75.50 USD, 75.5 USD
-      /(\d+\.?\d*)\s*usd\s*(?:per\s+barrel|\/barrel|barrel)?/gi,
-      // 75.50 dollars, 75.5 dollars  
-      /(\d+\.?\d*)\s*dollars?\s*(?:per\s+barrel|\/barrel|barrel)?/gi,
-      // WTI: 75.50, crude: 75.50
-      /(?:wti|crude|oil)[:\s]+\$?(\d+\.?\d*)/gi,
+      new RegExp(`${PRICE_NUMBER_PATTERN}\\s*usd\\s*${unitSuffix}`, 'gi'),
+      // 75.50 dollars, 425.25 cents
+      new RegExp(`${PRICE_NUMBER_PATTERN}\\s*(?:dollars?|cents?|¢)\\s*${unitSuffix}`, 'gi'),
+      // WTI: 75.50, gold: 2,650.30
+      new RegExp(`(?:${keywords.join('|')})[:\\s]+\\$?${PRICE_NUMBER_PATTERN}`, 'gi'),
       // Price: $75.50
-      /price[:\s]+\$?(\d+\.?\d*)/gi
+      new RegExp(`price[:\\s]+\\$?${PRICE_NUMBER_PATTERN}`, 'gi')
     ];
     
     let extractedPrice: number | null = null;
@@ -193,15 +238,15 @@ Source: Yahoo Finance`,
       if (matches.length > 0 && matches[0] && matches[0][1]) {
         // Get the first match and extract the numeric value
         const priceStr = matches[0][1];
-        const price = parseFloat(priceStr);
+        const price = parsePriceNumber(priceStr);
         
-        if (!isNaN(price) && price > 0 && price < 1000) { // Reasonable oil price range
+        if (!isNaN(price) && price > 0 && price <= rules.max) { // Within the commodity's price range
           extractedPrice = price;
           
           // Calculate confidence based on context
-          if (content.includes('wti') || content.includes('cl=f')) confidence += 0.3;
-          if (content.includes('barrel')) confidence += 0.2;
-          if (content.includes('crude oil')) confidence += 0.2;
+          if (content.includes(commodity.symbol.toLowerCase())) confidence += 0.3;
+          if (content.includes(unitOfMeasure)) confidence += 0.2;
+          if (content.includes(commodity.name.toLowerCase())) confidence += 0.2;
           if (content.includes('current') || content.includes('today')) confidence += 0.2;
           if (content.includes('$') || content.includes('usd')) confidence += 0.1;
           
@@ -238,8 +283,8 @@ Source: Yahoo Finance`,
     
     return {
       price: extractedPrice,
-      currency: 'USD',
-      unit: 'per barrel',
+      currency: commodity.currency,
+      unit: commodity.unit,
       source: sourceInfo,
       confidence: Math.min(confidence, 1.0)
     };
@@ -249,31 +294,41 @@ Source: Yahoo Finance`,
    * Validate price data
    * 
    * @param parsedData - Parsed price data
+   * @param commodityKey - Commodity whose price range and unit apply
    * @returns Validation result
    */
-  validatePriceData(parsedData: ParsedPriceData): ValidationResult {
+  validatePriceData(
+    parsedData: ParsedPriceData,
+    commodityKey: CommoditySymbolKey = DEFAULT_COMMODITY
+  ): ValidationResult {
     const errors: string[] = [];
     const warnings: string[] = [];
     
+    const commodity = COMMODITY_SYMBOLS[commodityKey];
+    const rules = getValidationRules(commodityKey);
+    const unitOfMeasure = getUnitOfMeasure(commodity.unit);
+    
     // Validate price
     if (parsedData.price === null) {
       errors.push('Price is null or could not be extracted');
     } else if (parsedData.price <= 0) {
       errors.push(`Invalid price: ${parsedData.price}. Price must be positive`);
-    } else if (parsedData.price < 10) {
-      warnings.push(`Unusually low oil price: $${parsedData.price}. Please verify.`);
-    } else if (parsedData.price > 200) {
-      warnings.push(`Unusually high oil price: $${parsedData.price}. Please verify.`);
+    } else if (parsedData.price < rules.min || parsedData.price > rules.max) {
+      errors.push(`${commodity.name} price ${parsedData.price} is outside expected range [${rules.min}, ${rules.max}] ${commodity.unit}`);
+    } else if (parsedData.price < rules.warningThresholds.low) {
+      warnings.push(`Unusually low ${commodity.name} price: ${parsedData.price} ${commodity.unit}. Please verify.`);
+    } else if (parsedData.price > rules.warningThresholds.high) {
+      warnings.push(`Unusually high ${commodity.name} price: ${parsedData.price} ${commodity.unit}. Please verify.`);
     }
     
     // Validate currency
-    if (parsedData.currency !== 'USD') {
-      warnings.push(`Expected USD currency, got: ${parsedData.currency}`);
+    if (parsedData.currency !== commodity.currency) {
+      warnings.push(`Expected ${commodity.currency} currency, got: ${parsedData.currency}`);
     }
     
     // Validate unit
-    if (!parsedData.unit.includes('barrel')) {
-      warnings.push(`Expected barrel unit, got: ${parsedData.unit}`);
+    if (!parsedData.unit.toLowerCase().includes(unitOfMeasure.toLowerCase())) {
+      warnings.push(`Expected ${unitOfMeasure} unit, got: ${parsedData.unit}`);
     }
     
     // Validate confidence
@@ -299,20 +354,24 @@ Source: Yahoo Finance`,
    * @param price - Current price
    * @param sources - Source information
    * @param lastUpdated - Last update timestamp
+   * @param commodityKey - Commodity the price belongs to
    * @returns CommodityData structure
    */
   createCommodityDataStructure(
     price: number,
     sources: SourceInfo[],
-    lastUpdated: string
+    lastUpdated: string,
+    commodityKey: CommoditySymbolKey = DEFAULT_COMMODITY
   ): CommodityData {
+    const commodity = COMMODITY_SYMBOLS[commodityKey];
+    
     return {
-      symbol: CRUDE_OIL_CONFIG.symbol,
-      name: CRUDE_OIL_CONFIG.name,
-      type: CRUDE_OIL_CONFIG.type,
-      unit: CRUDE_OIL_CONFIG.unit,
+      symbol: commodity.symbol,
+      name: commodity.name,
+      type: 'commodity',
+      unit: commodity.unit,
       currentPrice: price,
-      currency: CRUDE_OIL_CONFIG.currency,
+      currency: commodity.currency,
       lastUpdated,
       sources
     };
@@ -322,38 +381,42 @@ Source: Yahoo Finance`,
    * Extract comprehensive commodity data from search results
    * 
    * @param searchResult - Web search result
+   * @param commodityKey - Commodity the result describes
    * @returns Promise resolving to CommodityData or null
    */
-  async extractCommodityDataFromSearch(searchResult: WebSearchResult): Promise<CommodityData | null> {
+  async extractCommodityDataFromSearch(
+    searchResult: WebSearchResult,
+    commodityKey: CommoditySymbolKey = DEFAULT_COMMODITY
+  ): Promise<CommodityData | null> {
     try {
-      console.log('Parsing price data from search result...');
+      this.logger.log('Parsing price data from search result...');
       
-      const parsedData = this.parsePriceFromSearchResult(searchResult);
+      const parsedData = this.parsePriceFromSearchResult(searchResult, commodityKey);
       
       // Validate the parsed price data
-      const priceValidation = this.validatePriceData(parsedData);
+      const priceValidation = this.validatePriceData(parsedData, commodityKey);
       
       if (!priceValidation.isValid) {
-        console.error('❌ Price data validation failed:');
-        priceValidation.errors.forEach(error => console.error(`  - ${error}`));
+        this.logger.error('❌ Price data validation failed:');
+        priceValidation.errors.forEach(error => this.logger.error(`  - ${error}`));
         return null;
       }
       
       if (priceValidation.warnings.length > 0) {
-        console.warn('⚠️ Price data validation warnings:');
-        priceValidation.warnings.forEach(warning => console.warn(`  - ${warning}`));
+        this.logger.warn('⚠️ Price data validation warnings:');
+        priceValidation.warnings.forEach(warning => this.logger.warn(`  - ${warning}`));
       }
       
       if (!parsedData.price) {
-        console.error('❌ Could not extract price from search result');
+        this.logger.error('❌ Could not extract price from search result');
         return null;
       }
       
-      console.log(`✅ Extracted price: $${parsedData.price} ${parsedData.unit}`);
-      console.log(`Confidence level: ${(parsedData.confidence * 100).toFixed(1)}%`);
+      this.logger.log(`✅ Extracted price: ${parsedData.price} ${parsedData.unit}`);
+      this.logger.log(`Confidence level: ${(parsedData.confidence * 100).toFixed(1)}%`);
       
-      // Create source information
-      const sources: SourceInfo[] = [{
+      // Use cited sources, falling back to the parsed source name when none were cited
+      const sources: SourceInfo[] = searchResult.sources.length > 0 ? searchResult.sources : [{
         name: parsedData.source,
         date: searchResult.timestamp,
         reliability: parsedData.confidence > 0.7 ? 'high' : 
@@ -364,13 +427,14 @@ Source: Yahoo Finance`,
       const commodityData = this.createCommodityDataStructure(
         parsedData.price,
         sources,
-        searchResult.timestamp
+        searchResult.timestamp,
+        commodityKey
       );
       
       return commodityData;
       
     } catch (error) {
-      console.error('❌ Error extracting commodity data:', error instanceof Error ? error.message : error);
+      this.logger.error('❌ Error extracting commodity data:', error instanceof Error ? error.message : error);
       return null;
     }
   }
@@ -379,9 +443,10 @@ Source: Yahoo Finance`,
 /**
  * Create a new PriceDataService instance
  * 
- * @param webSearchService - Web search service instance
+ * @param webSearchService - Web search service instance (omit for Yahoo Finance only)
+ * @param logger - Logger for progress output (default: silent)
  * @returns PriceDataService instance
  */
-export function createPriceDataService(webSearchService: WebSearchService): PriceDataService {
-  return new PriceDataService(webSearchService);
+export function createPriceDataService(webSearchService?: WebSearchService, logger?: Logger): PriceDataService {
+  return new PriceDataService(webSearchService, logger);
 }
\ No newline at end of file
@@ -0,0 +1,304 @@
+/**
+ * Price History Service Module
+ *
+ * Keeps a local OHLCV history per symbol and interval in sync with Yahoo
+ * Finance, so analyses can use years of history without refetching it on
+ * every run. Sync fetches only bars from the last stored one onwards (the
+ * last bar is refreshed in case it was still forming), gap detection finds
+ * missing stretches in the stored series and repair refetches them.
+ *
+ * Yahoo Finance chart requests take a range rather than start/end dates, so
+ * each fetch uses the smallest PRICE_HISTORY_CONFIG.SYNC_RANGES range that
+ * covers the missing period.
+ *
+ * @author Price History Service Module
+ * @version 1.0.0
+ */
+
+import { PRICE_HISTORY_CONFIG, TIME_CONFIG, TimeInterval, TimeRange } from '../config/yahoo-finance';
+import { HistoricalPricePoint } from '../types/yahoo-finance';
+import { YahooFinanceService, getYahooFinanceService } from './yahoo-finance-service';
+import { PriceHistoryRange, PriceHistoryStore, createPriceHistoryStore } from '../utils/price-history-store';
+import { Logger, silentLogger } from '../utils/logger';
+
+/**
+ * Sync options
+ */
+export interface PriceHistorySyncOptions {
+  /** Bar interval (default: '1d') */
+  interval?: string;
+  /** Range fetched when nothing is stored yet (default: PRICE_HISTORY_CONFIG.INITIAL_RANGE) */
+  initialRange?: TimeRange;
+}
+
+/**
+ * Sync outcome
+ */
+export interface PriceHistorySyncResult {
+  symbol: string;
+  interval: string;
+  /** Range requested from Yahoo Finance */
+  range: string;
+  /** Bars received from Yahoo Finance */
+  fetched: number;
+  /** Bars not stored before */
+  added: number;
+  /** Stored bars refreshed */
+  updated: number;
+  /** Bars stored after the sync */
+  total: number;
+  /** Timestamp of the newest stored bar (Unix seconds), or null if none */
+  lastTimestamp: number | null;
+}
+
+/**
+ * Missing stretch in a stored series
+ */
+export interface PriceGap {
+  /** Last bar before the gap */
+  start: HistoricalPricePoint;
+  /** First bar after the gap */
+  end: HistoricalPricePoint;
+  /** Estimated number of missing bars */
+  missingBars: number;
+}
+
+/**
+ * Gap repair outcome
+ */
+export interface PriceGapRepairResult {
+  symbol: string;
+  interval: string;
+  /** Gaps found before the repair */
+  gapsFound: number;
+  /** Gaps filled by the repair */
+  gapsRepaired: number;
+  /** Gaps still present (e.g., older than Yahoo Finance provides, or no trading) */
+  remainingGaps: PriceGap[];
+  /** Range requested from Yahoo Finance, or null when nothing needed fetching */
+  range: string | null;
+  /** Bars added inside gaps */
+  added: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Price History Service for local historical data
+ */
+export class PriceHistoryService {
+  private yahooFinanceService: YahooFinanceService;
+  private store: PriceHistoryStore;
+  private logger: Logger;
+
+  constructor(
+    yahooFinanceService?: YahooFinanceService,
+    store?: PriceHistoryStore,
+    logger: Logger = silentLogger
+  ) {
+    this.yahooFinanceService = yahooFinanceService || getYahooFinanceService();
+    this.store = store || createPriceHistoryStore();
+    this.logger = logger;
+  }
+
+  /**
+   * Fetch bars newer than the last stored one and add them to the store
+   *
+   * @param symbol - Yahoo Finance symbol (e.g., 'GC=F')
+   * @param options - Sync options
+   * @returns Promise resolving to the sync outcome
+   * @throws YahooFinanceServiceException when the fetch fails
+   */
+  async sync(symbol: string, options: PriceHistorySyncOptions = {}): Promise<PriceHistorySyncResult> {
+    const {
+      interval = TIME_CONFIG.DEFAULTS.DAILY_INTERVAL,
+      initialRange = PRICE_HISTORY_CONFIG.INITIAL_RANGE
+    } = options;
+    this.getIntervalSeconds(interval);
+
+    const latest = await this.store.getLatest(symbol, interval);
+    const range = latest ? this.selectRange(latest.timestamp) : initialRange;
+
+    this.logger.log(`📥 Syncing ${symbol} ${interval} history (${latest ? `since ${latest.date}` : 'initial load'}, range ${range})`);
+
+    const fetched = await this.fetchBars(symbol, interval, range);
+    const newBars = latest
+      ? fetched.filter(point => point.timestamp >= latest.timestamp || point.date === latest.date)
+      : fetched;
+    const { added, updated, total } = await this.store.write(symbol, interval, newBars);
+    const lastBar = newBars[newBars.length - 1];
+
+    this.logger.log(`✅ ${symbol} ${interval}: ${added} bars added, ${updated} refreshed, ${total} stored`);
+
+    return {
+      symbol,
+      interval,
+      range,
+      fetched: fetched.length,
+      added,
+      updated,
+      total,
+      lastTimestamp: lastBar?.timestamp ?? latest?.timestamp ?? null
+    };
+  }
+
+  /**
+   * Find missing stretches in a stored series
+   *
+   * Daily series tolerate PRICE_HISTORY_CONFIG.DAILY_GAP_TOLERANCE missing
+   * weekdays (exchange holidays); intraday series ignore nights and weekends.
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param interval - Bar interval (default: '1d')
+   * @returns Promise resolving to gaps ordered by time
+   */
+  async findGaps(symbol: string, interval: string = TIME_CONFIG.DEFAULTS.DAILY_INTERVAL): Promise<PriceGap[]> {
+    const intervalSeconds = this.getIntervalSeconds(interval);
+    const prices = await this.store.read(symbol, interval);
+    const gaps: PriceGap[] = [];
+
+    for (let i = 1; i < prices.length; i++) {
+      const start = prices[i - 1]!;
+      const end = prices[i]!;
+      const missingBars = this.countMissingBars(start.timestamp, end.timestamp, interval, intervalSeconds);
+
+      if (missingBars > 0) {
+        gaps.push({ start, end, missingBars });
+      }
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Refetch bars inside stored gaps
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param interval - Bar interval (default: '1d')
+   * @returns Promise resolving to the repair outcome
+   * @throws YahooFinanceServiceException when the fetch fails
+   */
+  async repairGaps(symbol: string, interval: string = TIME_CONFIG.DEFAULTS.DAILY_INTERVAL): Promise<PriceGapRepairResult> {
+    const gaps = await this.findGaps(symbol, interval);
+    const oldestGap = gaps[0];
+
+    if (!oldestGap) {
+      return { symbol, interval, gapsFound: 0, gapsRepaired: 0, remainingGaps: [], range: null, added: 0 };
+    }
+
+    const range = this.selectRange(oldestGap.start.timestamp);
+    this.logger.log(`🔧 Repairing ${gaps.length} gaps in ${symbol} ${interval} history (range ${range})`);
+
+    const fetched = await this.fetchBars(symbol, interval, range);
+    const gapBars = fetched.filter(point =>
+      gaps.some(gap => point.timestamp > gap.start.timestamp && point.timestamp < gap.end.timestamp)
+    );
+    const { added } = await this.store.write(symbol, interval, gapBars);
+    const remainingGaps = await this.findGaps(symbol, interval);
+
+    if (remainingGaps.length > 0) {
+      this.logger.warn(`⚠️ ${remainingGaps.length} gaps remain in ${symbol} ${interval} history`);
+    }
+
+    return {
+      symbol,
+      interval,
+      gapsFound: gaps.length,
+      gapsRepaired: gaps.length - remainingGaps.length,
+      remainingGaps,
+      range,
+      added
+    };
+  }
+
+  /**
+   * Query stored bars by date range
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param interval - Bar interval (default: '1d')
+   * @param range - Inclusive date range (default: everything stored)
+   * @returns Promise resolving to bars ordered by timestamp
+   */
+  async getHistory(
+    symbol: string,
+    interval: string = TIME_CONFIG.DEFAULTS.DAILY_INTERVAL,
+    range: PriceHistoryRange = {}
+  ): Promise<HistoricalPricePoint[]> {
+    return this.store.query(symbol, interval, range);
+  }
+
+  /**
+   * Fetch complete bars (bars without a close are still forming or missing)
+   */
+  private async fetchBars(symbol: string, interval: string, range: TimeRange): Promise<HistoricalPricePoint[]> {
+    const data = await this.yahooFinanceService.getChartData(symbol, {
+      interval: interval as TimeInterval,
+      range,
+      maxDataPoints: Number.MAX_SAFE_INTEGER
+    });
+
+    return data.prices.filter(point => point.close !== null);
+  }
+
+  /**
+   * Smallest sync range reaching back to a timestamp ('max' if none does)
+   */
+  private selectRange(sinceTimestamp: number): TimeRange {
+    const daysSince = (Date.now() / 1000 - sinceTimestamp) / DAY_SECONDS;
+    const range = PRICE_HISTORY_CONFIG.SYNC_RANGES.find(
+      candidate => (TIME_CONFIG.RANGES[candidate].days ?? Infinity) >= daysSince + 1
+    );
+    return range ?? 'max';
+  }
+
+  /**
+   * Estimate bars missing between two consecutive stored bars (0 if within tolerance)
+   */
+  private countMissingBars(start: number, end: number, interval: string, intervalSeconds: number): number {
+    if (intervalSeconds === DAY_SECONDS) {
+      // Count weekdays strictly between the two bars
+      let weekdays = 0;
+      for (let day = start + DAY_SECONDS; day < end - DAY_SECONDS / 2; day += DAY_SECONDS) {
+        const weekday = new Date(day * 1000).getUTCDay();
+        if (weekday !== 0 && weekday !== 6) {
+          weekdays++;
+        }
+      }
+      return weekdays > PRICE_HISTORY_CONFIG.DAILY_GAP_TOLERANCE ? weekdays : 0;
+    }
+
+    if (intervalSeconds < DAY_SECONDS && end - start < PRICE_HISTORY_CONFIG.MIN_INTRADAY_GAP) {
+      return 0;
+    }
+
+    const missing = Math.round((end - start) / intervalSeconds) - 1;
+    return missing > PRICE_HISTORY_CONFIG.BAR_GAP_TOLERANCE ? missing : 0;
+  }
+
+  /**
+   * Length of a bar interval in seconds
+   */
+  private getIntervalSeconds(interval: string): number {
+    const config = TIME_CONFIG.INTERVALS[interval as TimeInterval];
+    if (!config) {
+      throw new Error(`Unsupported interval: ${interval}. Expected one of ${Object.keys(TIME_CONFIG.INTERVALS).join(', ')}`);
+    }
+    return config.seconds;
+  }
+}
+
+/**
+ * Create a new PriceHistoryService instance
+ *
+ * @param yahooFinanceService - Yahoo Finance service (default: shared instance)
+ * @param store - Price history store (default: PRICE_HISTORY_CONFIG.DIRECTORY)
+ * @param logger - Logger for progress output (default: silent)
+ * @returns PriceHistoryService instance
+ */
+export function createPriceHistoryService(
+  yahooFinanceService?: YahooFinanceService,
+  store?: PriceHistoryStore,
+  logger?: Logger
+): PriceHistoryService {
+  return new PriceHistoryService(yahooFinanceService, store, logger);
+}
@@ -0,0 +1,277 @@
+/**
+ * Risk Analysis Service Module
+ *
+ * Performs a single structured OpenAI call that assesses risk factors for all
+ * forecast horizons at once. The model must reply with JSON matching a strict
+ * schema of RiskAdjustment entries per horizon; replies that fail validation
+ * are re-requested with the validation errors.
+ *
+ * @author Risk Analysis Service Module
+ * @version 1.0.0
+ */
+
+import { CommodityData, FORECAST_HORIZONS, ForecastData, RiskAdjustment, SourceInfo } from '../types/commodity';
+import { RISK_FACTOR_CONFIG } from '../config/yahoo-finance';
+import { WebSearchService, StructuredOutputFormat, WebSearchOptions } from './web-search-service';
+import { JsonSchema } from '../utils/schema-validator';
+import { Logger, silentLogger } from '../utils/logger';
+
+/**
+ * Forecast horizon key
+ */
+type HorizonKey = ForecastData['horizon'];
+
+/**
+ * Risk assessment options
+ */
+export interface RiskAssessmentOptions extends WebSearchOptions {
+  /** Horizons to assess (default: all FORECAST_HORIZONS) */
+  horizons?: HorizonKey[];
+  /** Maximum attempts when the reply fails validation */
+  maxValidationAttempts?: number;
+}
+
+/**
+ * Risk assessment result for all horizons
+ */
+export interface RiskAssessment {
+  /** Risk adjustments keyed by horizon */
+  adjustments: Partial<Record<HorizonKey, RiskAdjustment[]>>;
+  /** Overall risk summary from the model */
+  summary: string;
+  /** Number of model calls needed to obtain a valid reply */
+  attempts: number;
+  /** Assessment timestamp */
+  timestamp: string;
+}
+
+/**
+ * Raw model reply shape (matches RISK_ASSESSMENT_SCHEMA)
+ */
+interface RiskAssessmentReply {
+  summary: string;
+  horizons: Array<{
+    horizon: HorizonKey;
+    riskAdjustments: Array<{
+      riskType: RiskAdjustment['riskType'];
+      adjustmentFactor: number;
+      confidenceImpact: number;
+      description: string;
+      methodology: string;
+      sources: Array<{
+        name: string;
+        url: string | null;
+        date: string;
+        reliability: SourceInfo['reliability'];
+      }>;
+    }>;
+  }>;
+}
+
+/**
+ * Risk types allowed by the RiskAdjustment interface
+ */
+const RISK_TYPES = Object.values(RISK_FACTOR_CONFIG.CATEGORIES).map(c => c.category);
+
+/**
+ * Strict JSON schema for the risk assessment reply
+ */
+const RISK_ASSESSMENT_SCHEMA: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['summary', 'horizons'],
+  properties: {
+    summary: { type: 'string' },
+    horizons: {
+      type: 'array',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        required: ['horizon', 'riskAdjustments'],
+        properties: {
+          horizon: { type: 'string', enum: FORECAST_HORIZONS.map(h => h.key) },
+          riskAdjustments: {
+            type: 'array',
+            items: {
+              type: 'object',
+              additionalProperties: false,
+              required: ['riskType', 'adjustmentFactor', 'confidenceImpact', 'description', 'methodology', 'sources'],
+              properties: {
+                riskType: { type: 'string', enum: RISK_TYPES },
+                adjustmentFactor: { type: 'number', minimum: -1, maximum: 1 },
+                confidenceImpact: { type: 'number', minimum: -1, maximum: 1 },
+                description: { type: 'string' },
+                methodology: { type: 'string' },
+                sources: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    additionalProperties: false,
+                    required: ['name', 'url', 'date', 'reliability'],
+                    properties: {
+                      name: { type: 'string' },
+                      url: { type: ['string', 'null'] },
+                      date: { type: 'string' },
+                      reliability: { type: 'string', enum: ['high', 'medium', 'low'] }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Risk Analysis Service for structured AI risk assessment
+ */
+export class RiskAnalysisService {
+  private webSearchService: WebSearchService;
+  private logger: Logger;
+
+  constructor(webSearchService: WebSearchService, logger: Logger = silentLogger) {
+    this.webSearchService = webSearchService;
+    this.logger = logger;
+  }
+
+  /**
+   * Build the single risk analysis query covering all horizons
+   *
+   * @param commodityData - Current commodity data
+   * @param horizons - Horizons to assess
+   * @returns Risk analysis query
+   */
+  private buildRiskAnalysisQuery(commodityData: CommodityData, horizons: HorizonKey[]): string {
+    const categories = Object.values(RISK_FACTOR_CONFIG.CATEGORIES)
+      .map(c => `- ${c.category}: ${c.factors.join(', ')} (max impact ${(c.maxImpact * 100).toFixed(0)}%)`)
+      .join('\n');
+
+    return `You are a commodity risk analyst. The current ${commodityData.name} (${commodityData.symbol}) price is $${commodityData.currentPrice} ${commodityData.currency} ${commodityData.unit}.
+
+Assess the main risks that could move the price away from the futures market consensus over each of these horizons: ${horizons.join(', ')}.
+
+Risk categories:
+${categories}
+
+For every horizon return the relevant risk adjustments:
+- riskType: one of ${RISK_TYPES.join(', ')}
+- adjustmentFactor: fractional price impact versus the futures consensus (e.g., 0.05 for +5%, -0.03 for -3%)
+- confidenceImpact: effect on forecast confidence from -1 (much less certain) to 1 (much more certain)
+- description: one sentence describing the risk
+- methodology: how the impact was estimated
+- sources: supporting sources with name, url (or null), date and reliability
+
+Use current news and reliable sources such as EIA, IEA, OPEC, central banks and major financial institutions.
+Include every requested horizon exactly once.`;
+  }
+
+  /**
+   * Assess risks for all horizons with one structured AI call
+   *
+   * @param commodityData - Current commodity data
+   * @param options - Risk assessment options
+   * @returns Promise resolving to risk assessment
+   */
+  async assessRisks(commodityData: CommodityData, options: RiskAssessmentOptions = {}): Promise<RiskAssessment> {
+    const {
+      horizons = FORECAST_HORIZONS.map(h => h.key),
+      maxValidationAttempts = 3,
+      maxRetries = 3,
+      timeout = 30000,
+      model = "gpt-4.1"
+    } = options;
+
+    this.logger.log('\n⚖️ Running structured risk assessment...');
+
+    const format: StructuredOutputFormat<RiskAssessmentReply> = {
+      name: 'commodity_risk_assessment',
+      description: 'Risk adjustments per forecast horizon',
+      schema: RISK_ASSESSMENT_SCHEMA,
+      validate: reply => {
+        const returned = reply.horizons.map(h => h.horizon);
+        const errors = horizons
+          .filter(h => !returned.includes(h))
+          .map(h => `$.horizons: missing horizon ${h}`);
+        const duplicates = returned.filter((h, i) => returned.indexOf(h) !== i);
+        duplicates.forEach(h => errors.push(`$.horizons: horizon ${h} appears more than once`));
+        return errors;
+      }
+    };
+
+    const result = await this.webSearchService.performStructuredSearch(
+      this.buildRiskAnalysisQuery(commodityData, horizons),
+      format,
+      { maxValidationAttempts, maxRetries, timeout, model }
+    );
+
+    const adjustments: Partial<Record<HorizonKey, RiskAdjustment[]>> = {};
+
+    for (const entry of result.data.horizons) {
+      if (!horizons.includes(entry.horizon)) continue;
+      adjustments[entry.horizon] = entry.riskAdjustments.map(adj =>
+        this.toRiskAdjustment(adj, entry.horizon, result.timestamp)
+      );
+    }
+
+    const total = Object.values(adjustments).reduce((sum, list) => sum + (list?.length || 0), 0);
+    this.logger.log(`✅ Risk assessment completed: ${total} adjustments across ${Object.keys(adjustments).length} horizons (${result.attempts} attempt(s))`);
+
+    return {
+      adjustments,
+      summary: result.data.summary,
+      attempts: result.attempts,
+      timestamp: result.timestamp
+    };
+  }
+
+  /**
+   * Convert a reply entry into a RiskAdjustment
+   *
+   * @param entry - Reply risk adjustment entry
+   * @param horizon - Horizon the entry belongs to
+   * @param timestamp - Assessment timestamp
+   * @returns RiskAdjustment
+   */
+  private toRiskAdjustment(
+    entry: RiskAssessmentReply['horizons'][number]['riskAdjustments'][number],
+    horizon: HorizonKey,
+    timestamp: string
+  ): RiskAdjustment {
+    const horizonConfig = FORECAST_HORIZONS.find(h => h.key === horizon);
+    const start = new Date(timestamp);
+    const end = new Date(start);
+    end.setMonth(end.getMonth() + (horizonConfig?.months || 0));
+
+    return {
+      riskType: entry.riskType,
+      adjustmentFactor: entry.adjustmentFactor,
+      confidenceImpact: entry.confidenceImpact,
+      description: entry.description,
+      methodology: entry.methodology,
+      validityPeriod: {
+        start: start.toISOString(),
+        end: end.toISOString()
+      },
+      sources: entry.sources.map(source => ({
+        name: source.name,
+        ...(source.url && { url: source.url }),
+        date: source.date,
+        reliability: source.reliability
+      }))
+    };
+  }
+}
+
+/**
+ * Create a new RiskAnalysisService instance
+ *
+ * @param webSearchService - Web search service instance
+ * @param logger - Logger for progress output (default: silent)
+ * @returns RiskAnalysisService instance
+ */
+export function createRiskAnalysisService(webSearchService: WebSearchService, logger?: Logger): RiskAnalysisService {
+  return new RiskAnalysisService(webSearchService, logger);
+}
@@ -10,6 +10,14 @@
  */
 
 import OpenAI from 'openai';
+import { Response, ResponseCreateParamsNonStreaming } from 'openai/resources/responses/responses';
+import { SourceInfo } from '../types/commodity';
+import { JsonSchema, parseAndValidate } from '../utils/schema-validator';
+import { CitationExtractor } from '../utils/citation-extractor';
+import { Logger, silentLogger } from '../utils/logger';
+import { CircuitBreakerRegistry, CircuitBreakerStatus, CircuitOpenError } from '../utils/circuit-breaker';
+import { RetryError, TransientError, withRetry } from '../utils/retry';
+import { FixtureStore, hashFixtureKey, normalizeFixtureRequest } from '../utils/fixtures';
 
 /**
  * Web search options configuration
@@ -23,6 +31,46 @@ export interface WebSearchOptions {
   model?: string;
 }
 
+/**
+ * Structured output format definition
+ */
+export interface StructuredOutputFormat<T> {
+  /** Format name sent to the model (a-z, A-Z, 0-9, underscores, dashes) */
+  name: string;
+  /** Description of the expected output */
+  description?: string;
+  /** JSON schema the reply must match */
+  schema: JsonSchema;
+  /** Additional semantic validation, returns error messages */
+  validate?: (value: T) => string[];
+}
+
+/**
+ * Structured web search options
+ */
+export interface StructuredSearchOptions extends WebSearchOptions {
+  /** Maximum number of times to ask again after a validation failure */
+  maxValidationAttempts?: number;
+  /** Allow the model to use the web search tool */
+  useWebSearch?: boolean;
+}
+
+/**
+ * Structured web search result
+ */
+export interface StructuredSearchResult<T> {
+  /** Validated result data */
+  data: T;
+  /** Number of attempts needed to obtain a valid reply */
+  attempts: number;
+  /** Total OpenAI requests made, including retries */
+  requestAttempts: number;
+  /** Sources cited by the web search tool */
+  citations: SourceInfo[];
+  /** Result timestamp */
+  timestamp: string;
+}
+
 /**
  * Web search result structure
  */
@@ -33,12 +81,22 @@ export interface WebSearchResult {
   timestamp: string;
   /** Whether search was successful */
   success: boolean;
-  /** Source information */
-  sources: Array<{
-    name: string;
-    date: string;
-    reliability: 'high' | 'medium' | 'low';
-  }>;
+  /** Sources cited by the web search tool */
+  sources: SourceInfo[];
+  /** Number of OpenAI requests made, including retries */
+  attempts?: number;
+}
+
+// Timeouts, connection failures, empty replies, 5xx and 429 indicate an outage;
+// other 4xx and replies failing validation are caller errors
+function isOpenAIOutage(error: unknown): boolean {
+  if (error instanceof TransientError) {
+    return true;
+  }
+  if (error instanceof OpenAI.APIError) {
+    return error.status === undefined || error.status >= 500 || error.status === 429;
+  }
+  return false;
 }
 
 /**
@@ -46,73 +104,236 @@ export interface WebSearchResult {
  */
 export class WebSearchService {
   private client: OpenAI;
+  private logger: Logger;
+  private circuitBreakers: CircuitBreakerRegistry;
+  private fixtures: FixtureStore | undefined;
 
-  constructor(client: OpenAI) {
+  /**
+   * @param client - OpenAI client instance
+   * @param logger - Logger for progress output (default: silent)
+   * @param circuitBreakers - Circuit breakers for the OpenAI endpoints
+   * @param fixtures - Fixture store to record or replay responses (keyed by request hash)
+   */
+  constructor(
+    client: OpenAI,
+    logger: Logger = silentLogger,
+    circuitBreakers: CircuitBreakerRegistry = new CircuitBreakerRegistry({ isFailure: isOpenAIOutage }),
+    fixtures?: FixtureStore
+  ) {
     this.client = client;
+    this.logger = logger;
+    this.circuitBreakers = circuitBreakers;
+    this.fixtures = fixtures;
   }
 
   /**
-   * Perform web search with retry logic and timeout handling
+   * Get circuit breaker status for the OpenAI endpoints
    * 
-   * @param query - Search query
+   * @returns Circuit breaker status keyed by endpoint
+   */
+  getStatus(): { circuitBreakers: Record<string, CircuitBreakerStatus> } {
+    return { circuitBreakers: this.circuitBreakers.getStatus() };
+  }
+
+  /**
+   * Create an OpenAI response with retry logic and timeout handling
+   * 
+   * Only retryable failures (timeouts, network errors, empty replies and
+   * RETRY_CONFIG.RETRYABLE_STATUS_CODES) are retried, with jittered
+   * exponential backoff honouring Retry-After.
+   * 
+   * @param params - Response request parameters (model is filled from options)
    * @param options - Search options
-   * @returns Promise resolving to search result content
+   * @returns Promise resolving to the OpenAI response and the number of attempts
    */
-  async performSearch(query: string, options: WebSearchOptions = {}): Promise<string> {
+  private async createResponse(
+    params: Omit<ResponseCreateParamsNonStreaming, 'model'>,
+    options: WebSearchOptions = {}
+  ): Promise<{ response: Response; attempts: number }> {
     const { 
       maxRetries = 3, 
       timeout = 30000, 
       model = "gpt-4.1" 
     } = options;
     
-    let lastError: Error;
+    const request: ResponseCreateParamsNonStreaming = { ...params, model };
+    // Dates in the prompt move with the clock; key on the date-normalized request
+    const fixtureKey = this.fixtures ? hashFixtureKey(normalizeFixtureRequest(request)) : '';
     
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        console.log(`Performing web search (attempt ${attempt}/${maxRetries}): "${query}"`);
-        
-        // Create a timeout promise
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error(`Request timeout after ${timeout}ms`)), timeout);
-        });
+    if (this.fixtures?.mode === 'replay') {
+      this.logger.log(`Replaying OpenAI response from fixture ${fixtureKey}`);
+      return { response: await this.fixtures.replay<Response>('openai', fixtureKey), attempts: 1 };
+    }
+    
+    try {
+      const { result: response, attempts } = await withRetry(async attempt => {
+        this.logger.log(`Sending OpenAI request (attempt ${attempt}/${maxRetries})`);
         
-        // Create the API call promise using Responses API
-        const apiCallPromise = this.client.responses.create({
-          model,
-          tools: [{ type: "web_search_preview" }],
-          tool_choice: { type: "web_search_preview" }, // Force web search for consistent results
-          input: query,
+        // Race the Responses API call against the timeout, failing fast while the circuit is open
+        const result = await this.circuitBreakers.get('openai:responses').execute(async () => {
+          let timer: NodeJS.Timeout | undefined;
+          const timeoutPromise = new Promise<never>((_, reject) => {
+            timer = setTimeout(() => reject(new TransientError(`Request timeout after ${timeout}ms`, 'TIMEOUT')), timeout);
+          });
+          
+          try {
+            const reply = await Promise.race([this.client.responses.create(request), timeoutPromise]);
+            
+            if (!reply.output_text) {
+              throw new TransientError('No response content received from OpenAI web search');
+            }
+            return reply;
+          } catch (error) {
+            if (error instanceof OpenAI.APIConnectionTimeoutError) {
+              throw new TransientError(error.message, 'TIMEOUT');
+            }
+            if (error instanceof OpenAI.APIConnectionError) {
+              throw new TransientError(error.message, 'NETWORK_ERROR');
+            }
+            throw error;
+          } finally {
+            clearTimeout(timer);
+          }
         });
         
-        // Race between API call and timeout
-        const response = await Promise.race([apiCallPromise, timeoutPromise]);
-        
-        const result = response.output_text;
-        
-        if (!result) {
-          throw new Error('No response content received from OpenAI web search');
-        }
-        
-        console.log(`Web search completed successfully on attempt ${attempt}`);
+        this.logger.log(`Web search completed successfully on attempt ${attempt}`);
         return result;
-        
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        console.error(`Web search attempt ${attempt} failed:`, lastError.message);
-        
-        // If this is the last attempt, throw the error
-        if (attempt === maxRetries) {
-          throw new Error(`Web search failed after ${maxRetries} attempts. Last error: ${lastError.message}`);
+      }, {
+        maxAttempts: maxRetries,
+        onRetry: (error, attempt, delay) => {
+          this.logger.error(`Web search attempt ${attempt} failed:`, error instanceof Error ? error.message : error);
+          this.logger.log(`Retrying in ${delay}ms...`);
         }
-        
-        // Wait before retrying (exponential backoff)
-        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 10000);
-        console.log(`Retrying in ${delay}ms...`);
-        await new Promise(resolve => setTimeout(resolve, delay));
+      });
+      
+      if (this.fixtures?.mode === 'record') {
+        await this.fixtures.record('openai', fixtureKey, request, response);
       }
+      
+      return { response, attempts };
+      
+    } catch (error) {
+      const attempts = error instanceof RetryError ? error.attempts : 1;
+      const lastError = error instanceof RetryError ? error.lastError : error;
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Web search attempt ${attempts} failed:`, message);
+      
+      if (lastError instanceof CircuitOpenError) {
+        throw new Error(`Web search unavailable: ${message}`);
+      }
+      throw new Error(`Web search failed after ${attempts} attempts. Last error: ${message}`);
+    }
+  }
+
+  /**
+   * Perform web search with retry logic and timeout handling
+   * 
+   * @param query - Search query
+   * @param options - Search options
+   * @returns Promise resolving to search result content
+   */
+  async performSearch(query: string, options: WebSearchOptions = {}): Promise<string> {
+    const { content } = await this.performSearchWithCitations(query, options);
+    return content;
+  }
+
+  /**
+   * Perform web search and extract the cited sources
+   * 
+   * @param query - Search query
+   * @param options - Search options
+   * @returns Promise resolving to search result content, cited sources and request attempts
+   */
+  async performSearchWithCitations(
+    query: string,
+    options: WebSearchOptions = {}
+  ): Promise<{ content: string; sources: SourceInfo[]; attempts: number }> {
+    this.logger.log(`Performing web search: "${query}"`);
+    
+    const { response, attempts } = await this.createResponse({
+      tools: [{ type: "web_search_preview" }],
+      tool_choice: { type: "web_search_preview" }, // Force web search for consistent results
+      input: query,
+    }, options);
+    
+    const sources = CitationExtractor.extractFromResponse(response);
+    this.logger.log(`Extracted ${sources.length} cited sources`);
+    
+    return {
+      content: response.output_text,
+      sources,
+      attempts
+    };
+  }
+
+  /**
+   * Perform web search that must return JSON matching a schema
+   * 
+   * The reply is validated against the schema (and the optional custom validator).
+   * When validation fails the model is asked again with the validation errors,
+   * up to maxValidationAttempts times.
+   * 
+   * @param query - Search query
+   * @param format - Structured output format (name and JSON schema)
+   * @param options - Structured search options
+   * @returns Promise resolving to the validated, typed result
+   */
+  async performStructuredSearch<T>(
+    query: string,
+    format: StructuredOutputFormat<T>,
+    options: StructuredSearchOptions = {}
+  ): Promise<StructuredSearchResult<T>> {
+    const { maxValidationAttempts = 3, useWebSearch = true } = options;
+    
+    let input = query;
+    let lastErrors: string[] = [];
+    let requestAttempts = 0;
+    
+    for (let attempt = 1; attempt <= maxValidationAttempts; attempt++) {
+      this.logger.log(`Performing structured web search "${format.name}" (attempt ${attempt}/${maxValidationAttempts})`);
+      
+      const { response, attempts } = await this.createResponse({
+        ...(useWebSearch && {
+          tools: [{ type: "web_search_preview" as const }]
+        }),
+        input,
+        text: {
+          format: {
+            type: 'json_schema',
+            name: format.name,
+            schema: format.schema as Record<string, unknown>,
+            strict: true,
+            ...(format.description && { description: format.description })
+          }
+        }
+      }, options);
+      requestAttempts += attempts;
+      
+      const { value, errors } = parseAndValidate<T>(response.output_text, format.schema);
+      const customErrors = value !== null && format.validate ? format.validate(value) : [];
+      lastErrors = [...errors, ...customErrors];
+      
+      if (value !== null && lastErrors.length === 0) {
+        this.logger.log(`Structured output "${format.name}" validated on attempt ${attempt}`);
+        return {
+          data: value,
+          attempts: attempt,
+          requestAttempts,
+          citations: CitationExtractor.extractFromResponse(response),
+          timestamp: new Date().toISOString()
+        };
+      }
+      
+      this.logger.warn(`⚠️ Structured output "${format.name}" failed validation (${lastErrors.length} errors)`);
+      lastErrors.slice(0, 5).forEach(error => this.logger.warn(`   - ${error}`));
+      
+      input = `${query}
+
+Your previous reply did not match the required JSON schema. Fix these problems and reply again with JSON only:
+${lastErrors.slice(0, 20).map(error => `- ${error}`).join('\n')}`;
     }
     
-    throw lastError!;
+    throw new Error(`Structured output "${format.name}" failed validation after ${maxValidationAttempts} attempts: ${lastErrors.slice(0, 5).join('; ')}`);
   }
 
   /**
@@ -124,17 +345,18 @@ export class WebSearchService {
    */
   async search(query: string, options: WebSearchOptions = {}): Promise<WebSearchResult> {
     try {
-      const content = await this.performSearch(query, options);
+      const { content, sources, attempts } = await this.performSearchWithCitations(query, options);
       
       return {
         content,
         timestamp: new Date().toISOString(),
         success: true,
-        sources: [] // Will be populated by parser if needed
+        sources,
+        attempts
       };
       
     } catch (error) {
-      console.error('❌ Web search failed:', error instanceof Error ? error.message : error);
+      this.logger.error('❌ Web search failed:', error instanceof Error ? error.message : error);
       
       return {
         content: '',
@@ -152,10 +374,10 @@ export class WebSearchService {
    */
   async testConnectivity(): Promise<boolean> {
     try {
-      console.log('\n=== Testing API Connectivity ===');
+      this.logger.log('\n=== Testing API Connectivity ===');
       
       const testQuery = "What time is it right now?";
-      console.log(`Testing with query: "${testQuery}"`);
+      this.logger.log(`Testing with query: "${testQuery}"`);
       
       const result = await this.performSearch(testQuery, {
         maxRetries: 2,
@@ -163,15 +385,15 @@ export class WebSearchService {
       });
       
       if (result && result.length > 10) {
-        console.log('✅ API connectivity test passed');
-        console.log('Sample response length:', result.length, 'characters');
+        this.logger.log('✅ API connectivity test passed');
+        this.logger.log('Sample response length:', result.length, 'characters');
         return true;
       } else {
-        console.log('❌ API connectivity test failed - insufficient response');
+        this.logger.log('❌ API connectivity test failed - insufficient response');
         return false;
       }
     } catch (error) {
-      console.error('❌ API connectivity test failed:', error instanceof Error ? error.message : error);
+      this.logger.error('❌ API connectivity test failed:', error instanceof Error ? error.message : error);
       return false;
     }
   }
@@ -183,10 +405,10 @@ export class WebSearchService {
    */
   async testFunctionality(): Promise<boolean> {
     try {
-      console.log('\n=== Testing Web Search Functionality ===');
+      this.logger.log('\n=== Testing Web Search Functionality ===');
       
       const testQuery = "What is the current price of crude oil today?";
-      console.log(`Testing with commodity query: "${testQuery}"`);
+      this.logger.log(`Testing with commodity query: "${testQuery}"`);
       
       const result = await this.performSearch(testQuery, {
         maxRetries: 3,
@@ -200,16 +422,16 @@ export class WebSearchService {
                                  result.toLowerCase().includes('price');
       
       if (hasRelevantContent) {
-        console.log('✅ Web search functionality test passed');
-        console.log('Response contains relevant commodity information');
+        this.logger.log('✅ Web search functionality test passed');
+        this.logger.log('Response contains relevant commodity information');
         return true;
       } else {
-        console.log('❌ Web search functionality test failed - no relevant content found');
-        console.log('Response preview:', result.substring(0, 200) + '...');
+        this.logger.log('❌ Web search functionality test failed - no relevant content found');
+        this.logger.log('Response preview:', result.substring(0, 200) + '...');
         return false;
       }
     } catch (error) {
-      console.error('❌ Web search functionality test failed:', error instanceof Error ? error.message : error);
+      this.logger.error('❌ Web search functionality test failed:', error instanceof Error ? error.message : error);
       return false;
     }
   }
@@ -219,8 +441,10 @@ export class WebSearchService {
  * Create a new WebSearchService instance
  * 
  * @param client - OpenAI client instance
+ * @param logger - Logger for progress output (default: silent)
+ * @param fixtures - Fixture store to record or replay responses
  * @returns WebSearchService instance
  */
-export function createWebSearchService(client: OpenAI): WebSearchService {
-  return new WebSearchService(client);
+export function createWebSearchService(client: OpenAI, logger?: Logger, fixtures?: FixtureStore): WebSearchService {
+  return new WebSearchService(client, logger, undefined, fixtures);
 }
\ No newline at end of file
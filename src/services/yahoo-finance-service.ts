@@ -9,6 +9,7 @@
  * - Type-safe method signatures using TypeScript interfaces
  * - Comprehensive error handling and logging
  * - Rate limiting and caching integration points
+ * - Pluggable cache backends (in-memory or on-disk) with LRU eviction
  * - Data validation and parsing
  * - Extensible design for multiple commodities
  * - Integration with HTTP client and configuration modules
@@ -30,14 +31,18 @@ import {
 } from '../types/yahoo-finance';
 import { 
   getCommodityConfig,
+  getCommodityKey,
   getValidationRules,
   VALIDATION_RULES,
   TIME_CONFIG,
   CACHE_CONFIG,
-  FUTURES_CONFIG,
-  CommoditySymbolKey
+  FUTURES_CONFIG
 } from '../config/yahoo-finance';
 import { FuturesMapper } from '../utils/futures-mapper';
+import { MarketHoursKey, YAHOO_EXCHANGE_CODES, getMarketStatusAt } from '../utils/market-hours';
+import { Logger, silentLogger } from '../utils/logger';
+import { CacheBackend, CacheStats, createCacheBackend } from '../utils/cache-backend';
+import { getFixtureOptions } from '../utils/fixtures';
 import { FuturesContract, FuturesCurve, FuturesContractOptions, FuturesCurveOptions } from '../types/commodity';
 
 /**
@@ -114,13 +119,17 @@ export interface ChartOptions extends YahooFinanceParams {
  */
 export class YahooFinanceService {
   private httpClient: YahooFinanceHttpClient;
-  private cache: Map<string, { data: any; timestamp: number; ttl: number }>;
-  private logger: Console;
+  private cache: CacheBackend;
+  private bypassCache: boolean;
+  private logger: Logger;
 
-  constructor(httpClient?: YahooFinanceHttpClient) {
+  constructor(httpClient?: YahooFinanceHttpClient, logger: Logger = silentLogger, cache?: CacheBackend) {
     this.httpClient = httpClient || getHttpClient();
-    this.cache = new Map();
-    this.logger = console;
+    // Recording and replaying fixtures must not be short-circuited by a cache:
+    // every request has to reach the fixture client, whatever backend is passed in
+    this.bypassCache = getFixtureOptions().mode !== 'off';
+    this.cache = cache || createCacheBackend(this.bypassCache ? 'memory' : CACHE_CONFIG.BACKEND);
+    this.logger = logger;
     
     // Setup cache cleanup interval
     this.setupCacheCleanup();
@@ -148,7 +157,7 @@ export class YahooFinanceService {
 
       // Check cache first
       const cacheKey = `price:${symbol}`;
-      const cachedPrice = this.getFromCache(cacheKey);
+      const cachedPrice = await this.getFromCache(cacheKey);
       if (cachedPrice !== null) {
         this.logger.log(`[YahooFinanceService] Returning cached price for ${symbol}: ${cachedPrice}`);
         return cachedPrice;
@@ -159,7 +168,7 @@ export class YahooFinanceService {
       const price = quoteData.currentPrice;
 
       // Cache the result
-      this.setCache(cacheKey, price, CACHE_CONFIG.TTL_BY_TYPE.QUOTES);
+      await this.setCache(cacheKey, price, CACHE_CONFIG.TTL_BY_TYPE.QUOTES);
 
       this.logger.log(`[YahooFinanceService] Successfully fetched current price for ${symbol}: ${price}`);
       return price;
@@ -203,7 +212,7 @@ export class YahooFinanceService {
       // Check cache if enabled
       const cacheKey = `quote:${symbol}:${JSON.stringify(options)}`;
       if (options.useCache !== false) {
-        const cachedData = this.getFromCache(cacheKey);
+        const cachedData = await this.getFromCache(cacheKey);
         if (cachedData) {
           this.logger.log(`[YahooFinanceService] Returning cached quote data for ${symbol}`);
           return cachedData;
@@ -216,9 +225,10 @@ export class YahooFinanceService {
       if (!chartResponse.success || !chartResponse.data) {
         throw new YahooFinanceServiceException(
           YahooFinanceServiceError.NO_DATA_AVAILABLE,
-          `No data available for symbol: ${symbol}`,
+          `No data available for symbol: ${symbol}${chartResponse.error ? ` (${chartResponse.error})` : ''}`,
           symbol,
-          chartResponse.statusCode
+          chartResponse.statusCode,
+          chartResponse.retryable === true
         );
       }
 
@@ -251,7 +261,7 @@ export class YahooFinanceService {
 
       // Cache the result
       if (options.useCache !== false) {
-        this.setCache(cacheKey, quoteData, CACHE_CONFIG.TTL_BY_TYPE.QUOTES);
+        await this.setCache(cacheKey, quoteData, CACHE_CONFIG.TTL_BY_TYPE.QUOTES);
       }
 
       this.logger.log(`[YahooFinanceService] Successfully fetched quote data for ${symbol}`);
@@ -303,12 +313,12 @@ export class YahooFinanceService {
         maxDataPoints = 1000
       } = options;
 
-      // Check cache
+      // Check cache (entries hold the full series; options are applied on the way out)
       const cacheKey = `chart:${symbol}:${interval}:${range}`;
-      const cachedData = this.getFromCache(cacheKey);
+      const cachedData = await this.getFromCache(cacheKey);
       if (cachedData) {
         this.logger.log(`[YahooFinanceService] Returning cached chart data for ${symbol}`);
-        return cachedData;
+        return this.selectChartData(cachedData, maxDataPoints, includeVolume, includeAdjustedClose);
       }
 
       // Fetch chart data
@@ -317,9 +327,10 @@ export class YahooFinanceService {
       if (!chartResponse.success || !chartResponse.data) {
         throw new YahooFinanceServiceException(
           YahooFinanceServiceError.NO_DATA_AVAILABLE,
-          `No chart data available for symbol: ${symbol}`,
+          `No chart data available for symbol: ${symbol}${chartResponse.error ? ` (${chartResponse.error})` : ''}`,
           symbol,
-          chartResponse.statusCode
+          chartResponse.statusCode,
+          chartResponse.retryable === true
         );
       }
 
@@ -341,21 +352,13 @@ export class YahooFinanceService {
           symbol
         );
       }
-      const historicalData = this.parseHistoricalData(
-        chartResult,
-        symbol,
-        interval,
-        range,
-        maxDataPoints,
-        includeVolume,
-        includeAdjustedClose
-      );
+      const historicalData = this.parseHistoricalData(chartResult, symbol, interval, range);
 
       // Cache the result
-      this.setCache(cacheKey, historicalData, CACHE_CONFIG.TTL_BY_TYPE.HISTORICAL);
+      await this.setCache(cacheKey, historicalData, CACHE_CONFIG.TTL_BY_TYPE.HISTORICAL);
 
       this.logger.log(`[YahooFinanceService] Successfully fetched chart data for ${symbol}, ${historicalData.prices.length} data points`);
-      return historicalData;
+      return this.selectChartData(historicalData, maxDataPoints, includeVolume, includeAdjustedClose);
 
     } catch (error) {
       if (error instanceof YahooFinanceServiceException) {
@@ -526,40 +529,26 @@ export class YahooFinanceService {
   /**
    * Get market status for a symbol
    * 
+   * Commodities use the hours and holiday calendar of the exchange their
+   * contracts trade on; other symbols are resolved from the quote's exchange.
+   * 
    * @param symbol - Yahoo Finance symbol
    * @returns Promise resolving to market status information
    */
   async getMarketStatus(symbol: string): Promise<MarketStatus> {
     try {
-      const quoteData = await this.getQuoteData(symbol);
-      const commodityConfig = getCommodityConfig(symbol);
-      
-      const currentTime = new Date();
-      const marketTime = new Date(quoteData.lastUpdated);
-      const timeDiff = currentTime.getTime() - marketTime.getTime();
-      
-      // Determine market status based on data freshness and time
-      let status: MarketStatus['status'] = 'CLOSED';
-      
-      // If data is very recent (less than 5 minutes), market is likely open
-      if (timeDiff < 5 * 60 * 1000) {
-        status = 'OPEN';
-      } else if (timeDiff < 30 * 60 * 1000) {
-        // Data is somewhat recent, could be pre/post market
-        const hour = currentTime.getUTCHours();
-        if (hour >= 13 && hour < 21) { // Rough estimate for US market hours
-          status = 'OPEN';
-        } else {
-          status = 'PRE_MARKET';
+      let market: MarketHoursKey | undefined;
+      if (getCommodityConfig(symbol)) {
+        market = FuturesMapper.getTradingCalendar(symbol);
+      } else {
+        const quoteData = await this.getQuoteData(symbol);
+        market = YAHOO_EXCHANGE_CODES[quoteData.exchange];
+        if (!market) {
+          throw new Error(`No market hours configured for exchange ${quoteData.exchange}`);
         }
       }
 
-      return {
-        market: commodityConfig?.exchange || quoteData.exchange,
-        status,
-        timezone: 'America/New_York', // Default to NYSE timezone
-        extendedHours: true // Most commodity markets have extended hours
-      };
+      return getMarketStatusAt(market);
 
     } catch (error) {
       this.logger.error(`[YahooFinanceService] Error getting market status for ${symbol}:`, error);
@@ -643,7 +632,7 @@ export class YahooFinanceService {
       // Check cache with futures-specific TTL
       const cacheKey = `futures_contract:${contractSymbol}:${JSON.stringify(options)}`;
       const cacheTtl = this.getFuturesCacheTtl(daysToExpiration);
-      const cachedData = this.getFromCache(cacheKey);
+      const cachedData = await this.getFromCache(cacheKey);
       if (cachedData) {
         this.logger.log(`[YahooFinanceService] Returning cached futures contract data for ${contractSymbol}`);
         return cachedData;
@@ -663,7 +652,7 @@ export class YahooFinanceService {
         ...quoteData,
         type: 'futures_contract',
         name: `${this.getUnderlyingAssetName(parsed.baseSymbol)} ${parsed.month}${parsed.year}`,
-        unit: 'USD per barrel', // Default unit for crude oil futures
+        unit: getCommodityConfig(`${parsed.baseSymbol}=F`)?.unit || `${quoteData.currency} per unit`,
         contractDetails: {
           expirationDate: expirationDate.toISOString(),
           deliveryMonth: parsed.month,
@@ -714,7 +703,7 @@ export class YahooFinanceService {
       }
 
       // Cache the result
-      this.setCache(cacheKey, futuresContract, cacheTtl);
+      await this.setCache(cacheKey, futuresContract, cacheTtl);
 
       this.logger.log(`[YahooFinanceService] Successfully fetched futures contract data for ${contractSymbol}`);
       return futuresContract;
@@ -760,13 +749,14 @@ export class YahooFinanceService {
         contractMonths = FUTURES_CONFIG.QUARTERLY_MONTHS,
         contractYear = new Date().getFullYear(),
         maxContracts = 12,
+        minDaysToExpiry,
         validateCurve = true,
         includeAnalytics = true
       } = options;
 
       // Check cache
       const cacheKey = `futures_curve:${baseSymbol}:${JSON.stringify(options)}`;
-      const cachedData = this.getFromCache(cacheKey);
+      const cachedData = await this.getFromCache(cacheKey);
       if (cachedData) {
         this.logger.log(`[YahooFinanceService] Returning cached futures curve for ${baseSymbol}`);
         return cachedData;
@@ -781,6 +771,10 @@ export class YahooFinanceService {
         for (const month of contractMonths) {
           try {
             const contractSymbol = FuturesMapper.buildContractSymbol(baseCode, month, year);
+            // Skip contracts that expire too soon before they count toward maxContracts
+            if (minDaysToExpiry !== undefined && FuturesMapper.getDaysToExpiration(contractSymbol) < minDaysToExpiry) {
+              continue;
+            }
             contractSymbols.push(contractSymbol);
             
             if (contractSymbols.length >= maxContracts) break;
@@ -851,7 +845,7 @@ export class YahooFinanceService {
       };
 
       // Cache the result
-      this.setCache(cacheKey, futuresCurve, FUTURES_CONFIG.CACHE_TTL.CURVE_DATA);
+      await this.setCache(cacheKey, futuresCurve, FUTURES_CONFIG.CACHE_TTL.CURVE_DATA);
 
       this.logger.log(`[YahooFinanceService] Successfully fetched futures curve for ${baseSymbol}, ${contracts.length} contracts`);
       return futuresCurve;
@@ -875,20 +869,16 @@ export class YahooFinanceService {
   /**
    * Clear service cache
    */
-  clearCache(): void {
-    this.cache.clear();
+  async clearCache(): Promise<void> {
+    await this.cache.clear();
     this.logger.log('[YahooFinanceService] Cache cleared');
   }
 
   /**
    * Get cache statistics
    */
-  getCacheStats() {
-    return {
-      size: this.cache.size,
-      entries: Array.from(this.cache.keys()),
-      memoryUsage: JSON.stringify(Array.from(this.cache.values())).length
-    };
+  async getCacheStats(): Promise<CacheStats> {
+    return this.cache.getStats();
   }
 
   // Private helper methods
@@ -911,7 +901,10 @@ export class YahooFinanceService {
     const commodityConfig = getCommodityConfig(symbol);
     if (!commodityConfig) return; // Skip validation for unknown symbols
 
-    const validationRules = getValidationRules(commodityConfig.symbol as CommoditySymbolKey);
+    const commodityKey = getCommodityKey(symbol);
+    if (!commodityKey) return;
+
+    const validationRules = getValidationRules(commodityKey);
     if (!validationRules) return;
 
     if (price < validationRules.min || price > validationRules.max) {
@@ -998,10 +991,7 @@ export class YahooFinanceService {
     chartResult: ChartResult,
     symbol: string,
     interval: string,
-    range: string,
-    maxDataPoints: number,
-    includeVolume: boolean,
-    includeAdjustedClose: boolean
+    range: string
   ): HistoricalData {
     const timestamps = chartResult.timestamp;
     const quote = chartResult.indicators.quote[0];
@@ -1016,9 +1006,7 @@ export class YahooFinanceService {
     }
 
     const prices: HistoricalPricePoint[] = [];
-    const dataLength = Math.min(timestamps.length, maxDataPoints);
-
-    for (let i = 0; i < dataLength; i++) {
+    for (let i = 0; i < timestamps.length; i++) {
       const timestamp = timestamps[i];
       if (timestamp === undefined) continue;
       
@@ -1031,8 +1019,8 @@ export class YahooFinanceService {
         high: quote.high?.[i] || null,
         low: quote.low?.[i] || null,
         close: quote.close?.[i] || null,
-        adjClose: includeAdjustedClose ? (adjClose?.adjclose?.[i] || null) : null,
-        volume: includeVolume ? (quote.volume?.[i] || null) : null
+        adjClose: adjClose?.adjclose?.[i] || null,
+        volume: quote.volume?.[i] || null
       };
 
       prices.push(pricePoint);
@@ -1047,6 +1035,25 @@ export class YahooFinanceService {
     };
   }
 
+  /**
+   * Apply chart options to a full parsed series
+   */
+  private selectChartData(
+    data: HistoricalData,
+    maxDataPoints: number,
+    includeVolume: boolean,
+    includeAdjustedClose: boolean
+  ): HistoricalData {
+    return {
+      ...data,
+      prices: data.prices.slice(0, maxDataPoints).map(point => ({
+        ...point,
+        adjClose: includeAdjustedClose ? point.adjClose : null,
+        volume: includeVolume ? point.volume : null
+      }))
+    };
+  }
+
   /**
    * Get latest non-null value from array
    */
@@ -1064,7 +1071,9 @@ export class YahooFinanceService {
    * Get appropriate cache TTL based on contract expiration
    */
   private getFuturesCacheTtl(daysToExpiration: number): number {
-    if (daysToExpiration <= 30) {
+    if (daysToExpiration < 0) {
+      return FUTURES_CONFIG.CACHE_TTL.EXPIRED;
+    } else if (daysToExpiration <= 30) {
       return FUTURES_CONFIG.CACHE_TTL.FRONT_MONTH;
     } else if (daysToExpiration <= 180) {
       return FUTURES_CONFIG.CACHE_TTL.NEAR_TERM;
@@ -1112,7 +1121,7 @@ export class YahooFinanceService {
       'HG': 'Copper'
     };
 
-    return nameMap[baseSymbol] || `${baseSymbol} Commodity`;
+    return nameMap[baseSymbol] || getCommodityConfig(`${baseSymbol}=F`)?.name || `${baseSymbol} Commodity`;
   }
 
   /**
@@ -1127,7 +1136,7 @@ export class YahooFinanceService {
       'HG': 'metals'
     };
 
-    return categoryMap[baseSymbol] || 'commodity';
+    return categoryMap[baseSymbol] || getCommodityConfig(`${baseSymbol}=F`)?.category || 'commodity';
   }
 
   /**
@@ -1396,41 +1405,41 @@ export class YahooFinanceService {
   /**
    * Cache management methods
    */
-  private getFromCache(key: string): any {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
+  private async getFromCache(key: string): Promise<any> {
+    if (!CACHE_CONFIG.ENABLED || this.bypassCache) return null;
 
-    const now = Date.now();
-    if (now > entry.timestamp + entry.ttl) {
-      this.cache.delete(key);
+    try {
+      const entry = await this.cache.get(CACHE_CONFIG.KEY_PREFIX + key);
+      return entry ? entry.data : null;
+    } catch (error) {
+      // A failing cache backend must not fail the request
+      this.logger.warn(`[YahooFinanceService] Cache read failed for ${key}:`, error);
       return null;
     }
-
-    return entry.data;
   }
 
-  private setCache(key: string, data: any, ttl: number): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl
-    });
+  private async setCache(key: string, data: any, ttl: number): Promise<void> {
+    if (!CACHE_CONFIG.ENABLED || this.bypassCache) return;
+
+    try {
+      await this.cache.set(CACHE_CONFIG.KEY_PREFIX + key, {
+        data,
+        timestamp: Date.now(),
+        ttl
+      });
+    } catch (error) {
+      this.logger.warn(`[YahooFinanceService] Cache write failed for ${key}:`, error);
+    }
   }
 
   private setupCacheCleanup(): void {
-    // Clean expired cache entries every 10 minutes
-    setInterval(() => {
-      const now = Date.now();
-      const keysToDelete: string[] = [];
-      
-      this.cache.forEach((entry, key) => {
-        if (now > entry.timestamp + entry.ttl) {
-          keysToDelete.push(key);
-        }
+    // Remove expired cache entries periodically (without keeping the process alive)
+    const timer = setInterval(() => {
+      this.cache.prune().catch(error => {
+        this.logger.warn('[YahooFinanceService] Cache cleanup failed:', error);
       });
-      
-      keysToDelete.forEach(key => this.cache.delete(key));
     }, CACHE_CONFIG.CLEANUP_INTERVAL);
+    timer.unref();
   }
 }
 
@@ -1442,11 +1451,12 @@ let serviceInstance: YahooFinanceService | null = null;
 /**
  * Get singleton Yahoo Finance service instance
  * 
+ * @param logger - Logger used when the singleton is first created (default: silent)
  * @returns YahooFinanceService instance
  */
-export function getYahooFinanceService(): YahooFinanceService {
+export function getYahooFinanceService(logger?: Logger): YahooFinanceService {
   if (!serviceInstance) {
-    serviceInstance = new YahooFinanceService();
+    serviceInstance = new YahooFinanceService(undefined, logger);
   }
   return serviceInstance;
 }
@@ -1455,10 +1465,16 @@ export function getYahooFinanceService(): YahooFinanceService {
  * Create new Yahoo Finance service instance
  * 
  * @param httpClient - Optional HTTP client instance
+ * @param logger - Logger for progress output (default: silent)
+ * @param cache - Cache backend (default: CACHE_CONFIG.BACKEND)
  * @returns New YahooFinanceService instance
  */
-export function createYahooFinanceService(httpClient?: YahooFinanceHttpClient): YahooFinanceService {
-  return new YahooFinanceService(httpClient);
+export function createYahooFinanceService(
+  httpClient?: YahooFinanceHttpClient,
+  logger?: Logger,
+  cache?: CacheBackend
+): YahooFinanceService {
+  return new YahooFinanceService(httpClient, logger, cache);
 }
 
 /**
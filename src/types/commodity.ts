@@ -28,6 +28,10 @@ export interface ForecastData {
     start: string;
     end: string;
   };
+  priceRange?: {
+    low: number;
+    high: number;
+  };
   percentageChange: number;
   sources: SourceInfo[];
   methodology?: string;
@@ -102,6 +106,75 @@ export interface MarketConsensusForcast extends ForecastData {
   marketConsensusPrice: number; // Price from futures curve
   riskAdjustedPrice: number; // Final forecast after risk adjustments
   riskAdjustments: RiskAdjustment[];
+  riskAdjustmentExplanation?: string[]; // Step-by-step audit trail of the risk engine
+  confidenceInterval: {
+    lower: number;
+    upper: number;
+    confidence: number; // e.g., 95 for 95% confidence interval
+  };
+  simulation?: SimulationSummary; // Monte Carlo distribution the interval was taken from
+  curveInterpolation?: CurveInterpolation; // Constant-maturity price used as the consensus price
+}
+
+// Forward price for an exact date interpolated between listed futures contracts
+export interface CurveInterpolation {
+  method: 'linear' | 'cubic-spline' | 'nelson-siegel';
+  targetDate: string;
+  price: number;
+  bracketingContracts: Array<{ // Contracts expiring either side of the target (one when it falls on a maturity)
+    symbol: string;
+    maturity: string;
+    price: number;
+  }>;
+  nelsonSiegel?: { // Fitted curve (nelson-siegel only)
+    beta0: number;
+    beta1: number;
+    beta2: number;
+    tau: number; // Decay constant in years
+    rmse: number;
+  };
+}
+
+// Simulated price at a percentile of the distribution
+export interface PercentileBand {
+  percentile: number; // e.g., 5 for the 5th percentile
+  price: number;
+}
+
+// Probability of a simulated price reaching a threshold
+export interface ThresholdProbability {
+  threshold: number;
+  probabilityAbove: number; // Share of paths ending above the threshold (0-1)
+  probabilityTouch: number; // Share of paths reaching the threshold at any step (0-1)
+}
+
+// Monte Carlo price distribution for one forecast horizon
+export interface SimulationSummary {
+  paths: number;
+  seed: number;
+  shocks: 'normal' | 'student-t';
+  degreesOfFreedom?: number; // Student-t shocks only
+  annualVolatility: number;
+  volatilitySource: 'implied' | 'historical' | 'configured';
+  forwardPrice: number; // Price the simulated mean is anchored on
+  mean: number;
+  percentiles: PercentileBand[];
+  thresholds?: ThresholdProbability[];
+}
+
+// Member method of an ensemble forecast
+export interface EnsembleMember {
+  method: 'web-search' | 'hybrid' | 'statistical';
+  forecastPrice: number;
+  weight: number; // Normalized weight (0-1)
+  historicalMape?: number; // Track-record error behind the weight (absent without history)
+  trackRecord: number; // Resolved forecasts behind historicalMape
+}
+
+// Forecast combined from several forecasting methods
+export interface EnsembleForecast extends ForecastData {
+  members: EnsembleMember[];
+  weighting: 'track-record' | 'equal';
   confidenceInterval: {
     lower: number;
     upper: number;
@@ -113,10 +186,95 @@ export interface MarketConsensusForcast extends ForecastData {
 export interface CommodityAnalysis {
   commodity: CommodityData;
   forecasts: ForecastData[];
+  forecastMethod?: 'hybrid' | 'web-search' | 'statistical' | 'ensemble'; // Method that produced the forecasts (after any fallback)
   analysisDate: string;
   overallTrend: 'bullish' | 'bearish' | 'neutral';
   riskFactors?: string[];
   marketSentiment?: string;
+  riskMetrics?: RiskMetrics; // Historical volatility and risk analytics
+  technicalIndicators?: TechnicalSnapshot; // Latest indicator values (opt-in)
+}
+
+// Moving average value and where price sits against it
+export interface MovingAverageValue {
+  type: 'SMA' | 'EMA';
+  period: number;
+  value: number | null; // null with fewer closes than the period
+  priceDistance: number | null; // (price - value) / value
+}
+
+// Latest technical indicator values from daily history
+export interface TechnicalSnapshot {
+  date: string; // Date of the latest close
+  price: number; // Latest close
+  movingAverages: MovingAverageValue[];
+  rsi: { period: number; value: number | null }; // 0-100
+  macd: { macd: number | null; signal: number | null; histogram: number | null };
+  bollinger: {
+    period: number;
+    stdDev: number;
+    upper: number | null;
+    middle: number | null;
+    lower: number | null;
+    percentB: number | null; // Position within the bands (0 = lower, 1 = upper)
+  };
+  atr: { period: number; value: number | null; percentOfPrice: number | null };
+  yearRange: {
+    high: number;
+    low: number;
+    position: number | null; // Position within the 52-week range (0 = low, 1 = high)
+    source: 'quote' | 'history'; // Quote yearHigh/yearLow, or highs and lows of the last 52 weeks
+  } | null;
+}
+
+// Annualized realized volatility estimates (fractions, e.g. 0.30 for 30%)
+export interface RealizedVolatility {
+  closeToClose: number;
+  parkinson: number | null; // High-low range estimator (null without high/low data)
+  garmanKlass: number | null; // Open-high-low-close estimator (null without OHLC data)
+}
+
+// Annualized close-to-close volatility over a trailing window
+export interface RollingVolatilityPoint {
+  date: string;
+  volatility: number;
+}
+
+// Largest peak-to-trough decline of the closing price
+export interface MaxDrawdown {
+  drawdown: number; // Decline from the peak (fraction, e.g. 0.25 for 25%)
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null; // First close back at the peak (null if not recovered)
+}
+
+// Value-at-Risk and expected shortfall over one bar, one day for daily history (losses as fractions of price)
+export interface ValueAtRisk {
+  confidence: number; // One-sided confidence level, e.g. 95
+  historical: number; // Empirical loss quantile
+  parametric: number; // Normal loss quantile
+  expectedShortfall: number; // Mean empirical loss beyond the historical VaR
+  parametricExpectedShortfall: number; // Normal mean loss beyond the parametric VaR
+}
+
+// Risk analytics computed from price history
+export interface RiskMetrics {
+  symbol: string;
+  interval: string;
+  startDate: string;
+  endDate: string;
+  observations: number; // Log returns the metrics are based on
+  meanReturn: number; // Mean log return per bar
+  volatility: RealizedVolatility;
+  rollingVolatility: {
+    window: number; // Returns per window
+    current: number;
+    min: number;
+    max: number;
+    series: RollingVolatilityPoint[];
+  };
+  maxDrawdown: MaxDrawdown;
+  valueAtRisk: ValueAtRisk[];
 }
 
 // Web search result structure
@@ -321,6 +321,10 @@ export interface ApiResponse<T> {
   timestamp: string;
   /** Whether data came from cache */
   fromCache?: boolean;
+  /** Number of request attempts made */
+  attempts?: number;
+  /** Whether a failed request may succeed if retried later */
+  retryable?: boolean;
 }
 
 /**
@@ -366,14 +370,21 @@ export interface MarketStatus {
   market: string;
   /** Current market state */
   status: 'OPEN' | 'CLOSED' | 'PRE_MARKET' | 'POST_MARKET';
-  /** Next market open time */
+  /** Next regular session open (ISO 8601) */
   nextOpen?: string;
-  /** Next market close time */
+  /** Close of the regular session that is open or opens next (ISO 8601) */
   nextClose?: string;
   /** Timezone */
   timezone: string;
   /** Whether extended hours trading is available */
   extendedHours: boolean;
+  /** Electronic session that is open or opens next (ISO 8601) */
+  extendedSession?: {
+    open: string;
+    close: string;
+  };
+  /** Exchange holiday on the current exchange date */
+  holiday?: string;
 }
 
 /**
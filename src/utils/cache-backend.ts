@@ -0,0 +1,459 @@
+/**
+ * Cache Backend Utility
+ *
+ * Pluggable storage for YahooFinanceService cache entries. Every backend
+ * honours the TTL stored with each entry and enforces a size limit
+ * (CACHE_CONFIG.MAX_SIZE_MB) by evicting the least recently used entries.
+ * The memory backend lives for the life of the process; the file backend
+ * keeps one JSON file per entry so cached data survives across processes.
+ *
+ * A SQLite backend is not included: no SQLite driver is a dependency and
+ * the supported Node.js runtime has no built-in one. One can be added by
+ * implementing CacheBackend.
+ *
+ * @author Cache Backend Module
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { CACHE_CONFIG } from '../config/yahoo-finance';
+
+/**
+ * Cache backend types
+ */
+export type CacheBackendType = 'memory' | 'file';
+
+/**
+ * Cached value with its expiry information
+ */
+export interface CacheEntry<T = unknown> {
+  /** Cached data (must be JSON-serializable for persistent backends) */
+  data: T;
+  /** Time the entry was stored (epoch milliseconds) */
+  timestamp: number;
+  /** Time to live (milliseconds) */
+  ttl: number;
+}
+
+/**
+ * Cache statistics
+ */
+export interface CacheStats {
+  /** Backend type */
+  backend: CacheBackendType;
+  /** Number of entries */
+  size: number;
+  /** Entry keys, least recently used first */
+  entries: string[];
+  /** Total size of stored entries (bytes) */
+  sizeBytes: number;
+  /** Size limit (bytes) */
+  maxSizeBytes: number;
+  /** Entries evicted to stay under the size limit */
+  evictions: number;
+}
+
+/**
+ * Cache backend options (defaults from CACHE_CONFIG)
+ */
+export interface CacheBackendOptions {
+  /** Size limit in megabytes */
+  maxSizeMb?: number;
+  /** Directory for the file backend */
+  directory?: string;
+}
+
+/**
+ * Storage interface implemented by every cache backend
+ */
+export interface CacheBackend {
+  /** Backend type */
+  readonly type: CacheBackendType;
+
+  /**
+   * Get an unexpired entry, marking it as recently used
+   *
+   * @param key - Cache key
+   * @returns Entry, or null if missing or expired
+   */
+  get(key: string): Promise<CacheEntry | null>;
+
+  /**
+   * Store an entry, evicting least recently used entries to stay under the size limit
+   *
+   * @param key - Cache key
+   * @param entry - Entry to store
+   */
+  set(key: string, entry: CacheEntry): Promise<void>;
+
+  /**
+   * Remove an entry
+   *
+   * @param key - Cache key
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Remove every entry
+   */
+  clear(): Promise<void>;
+
+  /**
+   * Remove expired entries
+   *
+   * @returns Number of entries removed
+   */
+  prune(): Promise<number>;
+
+  /**
+   * Get cache statistics
+   */
+  getStats(): Promise<CacheStats>;
+}
+
+/**
+ * Check whether an entry has outlived its TTL
+ */
+export function isExpired(entry: CacheEntry, now: number = Date.now()): boolean {
+  return now > entry.timestamp + entry.ttl;
+}
+
+/**
+ * Convert the configured size limit to bytes
+ */
+function toBytes(maxSizeMb: number): number {
+  return Math.floor(maxSizeMb * 1024 * 1024);
+}
+
+/**
+ * In-memory cache backend with LRU eviction
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  public readonly type = 'memory';
+  // Map iteration order doubles as recency order: first entry is least recently used
+  private entries = new Map<string, { entry: CacheEntry; size: number }>();
+  private maxSizeBytes: number;
+  private sizeBytes = 0;
+  private evictions = 0;
+
+  constructor(options: CacheBackendOptions = {}) {
+    this.maxSizeBytes = toBytes(options.maxSizeMb ?? CACHE_CONFIG.MAX_SIZE_MB);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const stored = this.entries.get(key);
+    if (!stored) {
+      return null;
+    }
+
+    if (isExpired(stored.entry)) {
+      this.remove(key);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, stored);
+    return stored.entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const size = Buffer.byteLength(JSON.stringify(entry));
+    this.remove(key);
+
+    if (size > this.maxSizeBytes) {
+      return;
+    }
+
+    this.entries.set(key, { entry, size });
+    this.sizeBytes += size;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.sizeBytes <= this.maxSizeBytes) {
+        break;
+      }
+      this.remove(oldest);
+      this.evictions += 1;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.sizeBytes = 0;
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now();
+    const expired = Array.from(this.entries.entries())
+      .filter(([, stored]) => isExpired(stored.entry, now))
+      .map(([key]) => key);
+
+    expired.forEach(key => this.remove(key));
+    return expired.length;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    return {
+      backend: this.type,
+      size: this.entries.size,
+      entries: Array.from(this.entries.keys()),
+      sizeBytes: this.sizeBytes,
+      maxSizeBytes: this.maxSizeBytes,
+      evictions: this.evictions
+    };
+  }
+
+  /**
+   * Remove an entry and release its size
+   */
+  private remove(key: string): void {
+    const stored = this.entries.get(key);
+    if (stored) {
+      this.sizeBytes -= stored.size;
+      this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * Entry as written to disk
+ */
+interface StoredFileEntry extends CacheEntry {
+  key: string;
+}
+
+/**
+ * Cache file metadata used for eviction
+ */
+interface CacheFileInfo {
+  file: string;
+  size: number;
+  lastUsed: number;
+}
+
+/**
+ * File-system cache backend with LRU eviction
+ *
+ * Each entry is stored as `<sha1(key)>.json` in the cache directory and its
+ * modification time records when it was last used, so recency and the size
+ * limit are shared by every process using the same directory. Writes go
+ * through a temporary file and rename so readers never see partial entries.
+ */
+export class FileCacheBackend implements CacheBackend {
+  public readonly type = 'file';
+  private directory: string;
+  private maxSizeBytes: number;
+  private evictions = 0;
+
+  constructor(options: CacheBackendOptions = {}) {
+    this.directory = path.resolve(options.directory ?? CACHE_CONFIG.DIRECTORY);
+    this.maxSizeBytes = toBytes(options.maxSizeMb ?? CACHE_CONFIG.MAX_SIZE_MB);
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const file = this.getFilePath(key);
+    const stored = await this.readEntry(file);
+
+    if (!stored || stored.key !== key) {
+      return null;
+    }
+
+    if (isExpired(stored)) {
+      await this.removeFile(file);
+      return null;
+    }
+
+    try {
+      const now = new Date();
+      await fs.utimes(file, now, now);
+    } catch (error) {
+      // Removed by another process since reading
+    }
+
+    return { data: stored.data, timestamp: stored.timestamp, ttl: stored.ttl };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const contents = JSON.stringify({ key, ...entry } as StoredFileEntry);
+    if (Buffer.byteLength(contents) > this.maxSizeBytes) {
+      await this.delete(key);
+      return;
+    }
+
+    const file = this.getFilePath(key);
+    const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempFile, contents, 'utf8');
+    await fs.rename(tempFile, file);
+
+    await this.enforceSizeLimit(file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.removeFile(this.getFilePath(key));
+  }
+
+  async clear(): Promise<void> {
+    const files = await this.listFiles();
+    await Promise.all(files.map(file => this.removeFile(file)));
+  }
+
+  async prune(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    for (const file of await this.listFiles()) {
+      const stored = await this.readEntry(file);
+      if (!stored || isExpired(stored, now)) {
+        await this.removeFile(file);
+        removed += 1;
+      }
+    }
+
+    return removed;
+  }
+
+  async getStats(): Promise<CacheStats> {
+    const files = await this.getFileInfo();
+    const entries: string[] = [];
+
+    for (const info of files) {
+      const stored = await this.readEntry(info.file);
+      if (stored) {
+        entries.push(stored.key);
+      }
+    }
+
+    return {
+      backend: this.type,
+      size: entries.length,
+      entries,
+      sizeBytes: files.reduce((total, info) => total + info.size, 0),
+      maxSizeBytes: this.maxSizeBytes,
+      evictions: this.evictions
+    };
+  }
+
+  /**
+   * Map a cache key to its file path
+   */
+  private getFilePath(key: string): string {
+    const hash = createHash('sha1').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+
+  /**
+   * List cache entry files (missing directory means an empty cache)
+   */
+  private async listFiles(): Promise<string[]> {
+    try {
+      const names = await fs.readdir(this.directory);
+      return names.filter(name => name.endsWith('.json')).map(name => path.join(this.directory, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get size and last use of every entry file, least recently used first
+   */
+  private async getFileInfo(): Promise<CacheFileInfo[]> {
+    const files = await this.listFiles();
+    const info: CacheFileInfo[] = [];
+
+    for (const file of files) {
+      try {
+        const stats = await fs.stat(file);
+        info.push({ file, size: stats.size, lastUsed: stats.mtimeMs });
+      } catch (error) {
+        // Removed by another process since listing
+      }
+    }
+
+    return info.sort((a, b) => a.lastUsed - b.lastUsed);
+  }
+
+  /**
+   * Read an entry file, removing it if it is corrupt
+   */
+  private async readEntry(file: string): Promise<StoredFileEntry | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(contents) as StoredFileEntry;
+    } catch (error) {
+      await this.removeFile(file);
+      return null;
+    }
+  }
+
+  /**
+   * Remove a file, ignoring files that are already gone
+   */
+  private async removeFile(file: string): Promise<void> {
+    try {
+      await fs.unlink(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Evict least recently used entries until the directory is under the size limit
+   *
+   * @param keepFile - Entry just written, evicted only if nothing else remains
+   */
+  private async enforceSizeLimit(keepFile: string): Promise<void> {
+    const files = await this.getFileInfo();
+    let sizeBytes = files.reduce((total, info) => total + info.size, 0);
+
+    for (const info of files) {
+      if (sizeBytes <= this.maxSizeBytes) {
+        break;
+      }
+      if (info.file === keepFile) {
+        continue;
+      }
+      await this.removeFile(info.file);
+      sizeBytes -= info.size;
+      this.evictions += 1;
+    }
+  }
+}
+
+/**
+ * Create a cache backend
+ *
+ * @param type - Backend type (default: CACHE_CONFIG.BACKEND)
+ * @param options - Size limit and directory (defaults from CACHE_CONFIG)
+ * @returns CacheBackend instance
+ */
+export function createCacheBackend(
+  type: CacheBackendType = CACHE_CONFIG.BACKEND,
+  options: CacheBackendOptions = {}
+): CacheBackend {
+  switch (type) {
+    case 'memory':
+      return new MemoryCacheBackend(options);
+    case 'file':
+      return new FileCacheBackend(options);
+    default:
+      throw new Error(`Unsupported cache backend: ${type}`);
+  }
+}
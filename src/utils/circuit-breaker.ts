@@ -0,0 +1,243 @@
+/**
+ * Circuit Breaker Utility
+ *
+ * Circuit breaker driven by ERROR_CONFIG.CIRCUIT_BREAKER. After
+ * FAILURE_THRESHOLD consecutive failures the circuit opens and calls fail
+ * fast with CircuitOpenError; after RECOVERY_TIMEOUT one trial call is let
+ * through (half-open) and its outcome closes or re-opens the circuit. A
+ * trial call outstanding for longer than MONITOR_TIMEOUT no longer blocks
+ * the next trial. The registry keeps independent state per endpoint.
+ *
+ * @author Circuit Breaker Module
+ * @version 1.0.0
+ */
+
+import { ERROR_CONFIG } from '../config/yahoo-finance';
+
+/**
+ * Circuit breaker states
+ */
+export enum CircuitState {
+  CLOSED = 'CLOSED',
+  OPEN = 'OPEN',
+  HALF_OPEN = 'HALF_OPEN'
+}
+
+/**
+ * Circuit breaker options (defaults from ERROR_CONFIG.CIRCUIT_BREAKER)
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial call (milliseconds) */
+  recoveryTimeout?: number;
+  /** Time after which an unfinished trial call stops blocking new trials (milliseconds) */
+  monitorTimeout?: number;
+  /** Enable the circuit breaker */
+  enabled?: boolean;
+  /** Whether an error counts as a failure (default: all errors) */
+  isFailure?: (error: unknown) => boolean;
+}
+
+/**
+ * Circuit breaker status snapshot
+ */
+export interface CircuitBreakerStatus {
+  /** Current state */
+  state: CircuitState;
+  /** Consecutive failures */
+  failures: number;
+  /** Last failure time (ISO string) */
+  lastFailure?: string;
+  /** Time the next trial call is allowed while open (ISO string) */
+  nextAttempt?: string;
+}
+
+/**
+ * Error thrown when a call is rejected by an open circuit
+ */
+export class CircuitOpenError extends Error {
+  public readonly circuit: string;
+  public readonly retryAt: number;
+
+  constructor(circuit: string, retryAt: number) {
+    super(`Circuit "${circuit}" is open; retry after ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+    this.circuit = circuit;
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Circuit breaker for a single endpoint
+ */
+export class CircuitBreaker {
+  public readonly name: string;
+  private failureThreshold: number;
+  private recoveryTimeout: number;
+  private monitorTimeout: number;
+  private enabled: boolean;
+  private isFailure: (error: unknown) => boolean;
+  private state: CircuitState = CircuitState.CLOSED;
+  private failures = 0;
+  private lastFailure = 0;
+  private openedAt = 0;
+  private trialStartedAt = 0;
+
+  constructor(name: string, options: CircuitBreakerOptions = {}) {
+    this.name = name;
+    this.failureThreshold = options.failureThreshold ?? ERROR_CONFIG.CIRCUIT_BREAKER.FAILURE_THRESHOLD;
+    this.recoveryTimeout = options.recoveryTimeout ?? ERROR_CONFIG.CIRCUIT_BREAKER.RECOVERY_TIMEOUT;
+    this.monitorTimeout = options.monitorTimeout ?? ERROR_CONFIG.CIRCUIT_BREAKER.MONITOR_TIMEOUT;
+    this.enabled = options.enabled ?? ERROR_CONFIG.CIRCUIT_BREAKER.ENABLED;
+    this.isFailure = options.isFailure || (() => true);
+  }
+
+  /**
+   * Run a call through the circuit breaker
+   *
+   * @param operation - Call to protect
+   * @returns Promise resolving to the call's result
+   * @throws CircuitOpenError when the circuit is open, otherwise the call's error
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    if (!this.enabled) {
+      return operation();
+    }
+
+    this.beforeCall();
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (this.isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the current state
+   *
+   * @returns Circuit state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Get a status snapshot
+   *
+   * @returns Circuit breaker status
+   */
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      failures: this.failures,
+      ...(this.lastFailure && { lastFailure: new Date(this.lastFailure).toISOString() }),
+      ...(this.state === CircuitState.OPEN && {
+        nextAttempt: new Date(this.openedAt + this.recoveryTimeout).toISOString()
+      })
+    };
+  }
+
+  /**
+   * Close the circuit and clear failures
+   */
+  reset(): void {
+    this.state = CircuitState.CLOSED;
+    this.failures = 0;
+    this.trialStartedAt = 0;
+  }
+
+  /**
+   * Admit the call or fail fast, moving from open to half-open when recovery is due
+   */
+  private beforeCall(): void {
+    const now = Date.now();
+
+    if (this.state === CircuitState.OPEN) {
+      const retryAt = this.openedAt + this.recoveryTimeout;
+      if (now < retryAt) {
+        throw new CircuitOpenError(this.name, retryAt);
+      }
+      this.state = CircuitState.HALF_OPEN;
+      this.trialStartedAt = now;
+      return;
+    }
+
+    if (this.state === CircuitState.HALF_OPEN) {
+      // Only one trial call at a time, unless the outstanding one has stalled
+      if (now - this.trialStartedAt < this.monitorTimeout) {
+        throw new CircuitOpenError(this.name, this.trialStartedAt + this.monitorTimeout);
+      }
+      this.trialStartedAt = now;
+    }
+  }
+
+  /**
+   * Record a successful call
+   */
+  private onSuccess(): void {
+    this.reset();
+  }
+
+  /**
+   * Record a failed call, opening the circuit at the threshold or on a failed trial
+   */
+  private onFailure(): void {
+    const now = Date.now();
+    this.failures += 1;
+    this.lastFailure = now;
+
+    if (this.state === CircuitState.HALF_OPEN || this.failures >= this.failureThreshold) {
+      this.state = CircuitState.OPEN;
+      this.openedAt = now;
+    }
+  }
+}
+
+/**
+ * Registry of circuit breakers keyed by endpoint
+ */
+export class CircuitBreakerRegistry {
+  private breakers = new Map<string, CircuitBreaker>();
+  private options: CircuitBreakerOptions;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Get the circuit breaker for an endpoint, creating it on first use
+   *
+   * @param endpoint - Endpoint name (e.g., 'yahoo:chart')
+   * @returns CircuitBreaker instance
+   */
+  get(endpoint: string): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, this.options);
+      this.breakers.set(endpoint, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Get status for every endpoint
+   *
+   * @returns Status keyed by endpoint
+   */
+  getStatus(): Record<string, CircuitBreakerStatus> {
+    const status: Record<string, CircuitBreakerStatus> = {};
+    this.breakers.forEach((breaker, endpoint) => {
+      status[endpoint] = breaker.getStatus();
+    });
+    return status;
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * Citation Extractor Utility
+ *
+ * Converts `url_citation` annotations returned by the OpenAI Responses API
+ * web search tool into SourceInfo entries. Reliability tiers are assigned from
+ * the SOURCE_RELIABILITY_CONFIG domain allowlists.
+ *
+ * @author Citation Extractor Module
+ * @version 1.0.0
+ */
+
+import { Response } from 'openai/resources/responses/responses';
+import { SourceInfo } from '../types/commodity';
+import { SOURCE_RELIABILITY_CONFIG } from '../config/yahoo-finance';
+
+/**
+ * Citation Extractor Class
+ */
+export class CitationExtractor {
+  /**
+   * Extract cited sources from an OpenAI response
+   *
+   * Citations are de-duplicated by URL (ignoring tracking query parameters
+   * added by the search tool) and ordered by first appearance.
+   *
+   * @param response - OpenAI response
+   * @param date - Retrieval date recorded on each source (default: response creation time)
+   * @returns Array of cited sources
+   */
+  static extractFromResponse(response: Response, date?: string): SourceInfo[] {
+    const retrievedAt = date || new Date(response.created_at * 1000).toISOString();
+    const sources = new Map<string, SourceInfo>();
+
+    for (const item of response.output || []) {
+      if (item.type !== 'message') continue;
+
+      for (const content of item.content) {
+        if (content.type !== 'output_text') continue;
+
+        for (const annotation of content.annotations || []) {
+          if (annotation.type !== 'url_citation') continue;
+
+          const url = this.normalizeUrl(annotation.url);
+          if (!url || sources.has(url)) continue;
+
+          sources.set(url, {
+            name: annotation.title?.trim() || this.getHostname(url) || url,
+            url,
+            date: retrievedAt,
+            reliability: this.getReliability(url)
+          });
+        }
+      }
+    }
+
+    return Array.from(sources.values());
+  }
+
+  /**
+   * Get reliability tier for a URL from the domain allowlists
+   *
+   * @param url - Source URL
+   * @returns Reliability tier
+   */
+  static getReliability(url: string): SourceInfo['reliability'] {
+    const hostname = this.getHostname(url);
+    if (!hostname) return SOURCE_RELIABILITY_CONFIG.DEFAULT;
+
+    const matches = (domains: readonly string[]) =>
+      domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+
+    if (matches(SOURCE_RELIABILITY_CONFIG.HIGH)) return 'high';
+    if (matches(SOURCE_RELIABILITY_CONFIG.MEDIUM)) return 'medium';
+    return SOURCE_RELIABILITY_CONFIG.DEFAULT;
+  }
+
+  /**
+   * Merge source lists, keeping the first entry for each URL
+   *
+   * Sources without a URL are kept as-is.
+   *
+   * @param lists - Source lists in priority order
+   * @returns Merged source list
+   */
+  static mergeSources(...lists: SourceInfo[][]): SourceInfo[] {
+    const seen = new Set<string>();
+    const merged: SourceInfo[] = [];
+
+    for (const source of lists.flat()) {
+      const key = source.url ? this.normalizeUrl(source.url) : null;
+      if (key) {
+        if (seen.has(key)) continue;
+        seen.add(key);
+      }
+      merged.push(source);
+    }
+
+    return merged;
+  }
+
+  /**
+   * Get lower-case hostname without "www." prefix
+   */
+  private static getHostname(url: string): string | null {
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Normalize a cited URL by removing the utm_* parameters added by web search
+   */
+  private static normalizeUrl(url: string): string | null {
+    try {
+      const parsed = new URL(url);
+      Array.from(parsed.searchParams.keys())
+        .filter(key => key.startsWith('utm_'))
+        .forEach(key => parsed.searchParams.delete(key));
+      return parsed.toString();
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Convenience function to extract cited sources from an OpenAI response
+ *
+ * @param response - OpenAI response
+ * @param date - Retrieval date recorded on each source
+ * @returns Array of cited sources
+ */
+export function extractCitations(response: Response, date?: string): SourceInfo[] {
+  return CitationExtractor.extractFromResponse(response, date);
+}
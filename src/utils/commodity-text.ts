@@ -0,0 +1,78 @@
+/**
+ * Commodity Text Utility
+ *
+ * Commodity-agnostic helpers for building prompts and parsing prices from
+ * free text: unit of measure extraction, commodity name keywords, price
+ * number patterns (with thousands separators) and file name slugs.
+ *
+ * @author Commodity Text Module
+ * @version 1.0.0
+ */
+
+/**
+ * Regex source matching a price number, with optional thousands separators
+ * (e.g., '75.50', '2,650.30'). Contains one capture group.
+ */
+export const PRICE_NUMBER_PATTERN = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+\\.?\\d*)';
+
+/**
+ * Parse a price number matched by PRICE_NUMBER_PATTERN
+ *
+ * @param value - Matched price text
+ * @returns Parsed price (NaN if invalid)
+ */
+export function parsePriceNumber(value: string): number {
+  return parseFloat(value.replace(/,/g, ''));
+}
+
+/**
+ * Get unit of measure from a price unit (e.g., 'USD per barrel' -> 'barrel')
+ *
+ * @param unit - Price unit
+ * @returns Unit of measure
+ */
+export function getUnitOfMeasure(unit: string): string {
+  const parts = unit.split(/\s+per\s+/i);
+  return (parts[parts.length - 1] || unit).trim();
+}
+
+/**
+ * Get regex source matching the unit of measure, tolerating qualifiers
+ * (e.g., 'troy ounce' also matches 'per ounce')
+ *
+ * @param unit - Price unit
+ * @returns Regex source for the unit of measure
+ */
+export function getUnitPattern(unit: string): string {
+  const words = getUnitOfMeasure(unit).toLowerCase().split(/\s+/);
+  const last = words[words.length - 1] || 'unit';
+  return `(?:\\w+\\s+)?${last.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`;
+}
+
+/**
+ * Get lower-case keywords identifying a commodity in text
+ * (e.g., 'Crude Oil WTI' -> ['crude', 'oil', 'wti'])
+ *
+ * @param name - Commodity name
+ * @returns Keywords
+ */
+export function getCommodityKeywords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2);
+}
+
+/**
+ * Convert a commodity name into a file name slug
+ * (e.g., 'Crude Oil WTI' -> 'crude-oil-wti')
+ *
+ * @param name - Commodity name
+ * @returns File name slug
+ */
+export function toFileSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'commodity';
+}
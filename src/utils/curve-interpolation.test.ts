@@ -0,0 +1,87 @@
+import { FuturesCurve } from '../types/commodity';
+import { evaluateNelsonSiegel, fitNelsonSiegel, getCurvePoints, interpolateCurve } from './curve-interpolation';
+
+const CURVE_DATE = Date.UTC(2024, 0, 1);
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Date a number of years (365.25 days) after the curve date
+ */
+function yearsOut(years: number): Date {
+  return new Date(CURVE_DATE + years * YEAR_MS);
+}
+
+/**
+ * Curve with one contract per (years, price) point
+ */
+function curveOf(points: Array<[number, number]>): Pick<FuturesCurve, 'curveDate' | 'contracts'> {
+  return {
+    curveDate: new Date(CURVE_DATE).toISOString(),
+    contracts: points.map(([years, price], i) => ({
+      symbol: `C${i + 1}`,
+      maturity: yearsOut(years).toISOString(),
+      price,
+      daysToExpiration: Math.round(years * 365.25)
+    }))
+  };
+}
+
+describe('curve interpolation', () => {
+  it('interpolates linearly between the bracketing contracts', () => {
+    const result = interpolateCurve(curveOf([[1, 70], [2, 74], [3, 80]]), yearsOut(1.25), 'linear');
+
+    expect(result.price).toBe(71);
+    expect(result.bracketingContracts.map(contract => contract.symbol)).toEqual(['C1', 'C2']);
+  });
+
+  it('returns the contract price on a maturity date', () => {
+    const result = interpolateCurve(curveOf([[1, 70], [2, 74], [3, 80]]), yearsOut(2), 'cubic-spline');
+
+    expect(result.price).toBe(74);
+    expect(result.bracketingContracts.map(contract => contract.symbol)).toEqual(['C2']);
+  });
+
+  it('evaluates the natural cubic spline through known points', () => {
+    // Natural spline through (1,0), (2,1), (3,0): M = [0, -3, 0], S(1.5) = 0.5 + 3·0.375/6
+    const curve = curveOf([[1, 10], [2, 11], [3, 10]]);
+
+    expect(interpolateCurve(curve, yearsOut(1.5), 'cubic-spline').price).toBe(10.69);
+    expect(interpolateCurve(curve, yearsOut(2.5), 'cubic-spline').price).toBe(10.69);
+    // Linear data stays linear
+    expect(interpolateCurve(curveOf([[1, 10], [2, 12], [3, 14], [4, 16]]), yearsOut(2.5), 'cubic-spline').price).toBe(13);
+  });
+
+  it('fits a Nelson-Siegel curve through points generated from one', () => {
+    const truth = { beta0: 80, beta1: -10, beta2: 5, tau: 1, rmse: 0 };
+    const curve = curveOf([0.25, 0.5, 1, 2, 3, 5].map(years => [years, evaluateNelsonSiegel(truth, years)]));
+
+    const fit = fitNelsonSiegel(getCurvePoints(curve));
+    expect(fit.tau).toBe(1);
+    expect(fit.beta0).toBeCloseTo(80, 6);
+    expect(fit.beta1).toBeCloseTo(-10, 6);
+    expect(fit.beta2).toBeCloseTo(5, 6);
+    expect(fit.rmse).toBeCloseTo(0, 6);
+
+    const result = interpolateCurve(curve, yearsOut(1.5), 'nelson-siegel');
+    expect(result.price).toBe(Math.round(evaluateNelsonSiegel(truth, 1.5) * 100) / 100);
+    expect(result.nelsonSiegel!.tau).toBe(1);
+  });
+
+  it('needs enough contracts for a Nelson-Siegel fit', () => {
+    expect(() => interpolateCurve(curveOf([[1, 70], [2, 74], [3, 80]]), yearsOut(1.5), 'nelson-siegel')).toThrow(/at least 4 contracts/);
+  });
+
+  it('rejects targets outside the curve instead of extrapolating', () => {
+    const curve = curveOf([[1, 70], [2, 74]]);
+
+    expect(() => interpolateCurve(curve, yearsOut(0.5))).toThrow(/outside the curve/);
+    expect(() => interpolateCurve(curve, yearsOut(2.5))).toThrow(/outside the curve/);
+  });
+
+  it('ignores expired and unpriced contracts and duplicate maturities', () => {
+    const points = getCurvePoints(curveOf([[-0.1, 69], [1, 70], [1, 71], [2, 0], [3, 80]]));
+
+    expect(points.map(point => point.symbol)).toEqual(['C2', 'C5']);
+    expect(points[0]!.years).toBeCloseTo(1, 10);
+  });
+});
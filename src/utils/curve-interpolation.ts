@@ -0,0 +1,272 @@
+/**
+ * Futures Curve Interpolation Utility
+ *
+ * Constant-maturity forward prices from a futures curve. Listed contracts
+ * expire on fixed dates, so the price for an exact horizon date is read off
+ * the curve between the contracts that expire either side of it:
+ * - Linear: straight line in time between the two bracketing contracts
+ * - Cubic spline: natural cubic spline through every contract
+ * - Nelson-Siegel: level, slope and curvature fitted to every contract,
+ *   with the decay constant chosen from CURVE_INTERPOLATION.NELSON_SIEGEL_TAU_GRID
+ *
+ * Time is measured in years from the curve date to each contract's
+ * expiration. Contracts that have expired or have no positive price are
+ * ignored, and target dates outside the remaining maturities are rejected
+ * rather than extrapolated.
+ *
+ * @author Curve Interpolation Module
+ * @version 1.0.0
+ */
+
+import { FORECASTING_CONFIG } from '../config/yahoo-finance';
+import { CurveInterpolation, FuturesCurve } from '../types/commodity';
+
+/**
+ * Interpolation methods
+ */
+export type CurveInterpolationMethod = CurveInterpolation['method'];
+
+export const CURVE_INTERPOLATION_METHODS: CurveInterpolationMethod[] = ['linear', 'cubic-spline', 'nelson-siegel'];
+
+/**
+ * Contract on the curve with its time to maturity
+ */
+export interface CurvePoint {
+  symbol: string;
+  maturity: string;
+  /** Years from the curve date to expiration */
+  years: number;
+  price: number;
+}
+
+/**
+ * Fitted Nelson-Siegel curve: F(t) = β0 + β1·L(t/τ) + β2·(L(t/τ) − e^(−t/τ)), L(x) = (1 − e^(−x))/x
+ */
+export interface NelsonSiegelFit {
+  beta0: number;
+  beta1: number;
+  beta2: number;
+  /** Decay constant in years */
+  tau: number;
+  /** Root mean squared price error over the fitted contracts */
+  rmse: number;
+}
+
+const INTERPOLATION_CONFIG = FORECASTING_CONFIG.CURVE_INTERPOLATION;
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Interpolate the curve to a target date
+ *
+ * @param curve - Futures curve
+ * @param targetDate - Date to price
+ * @param method - Interpolation method (default: CURVE_INTERPOLATION.DEFAULT_METHOD)
+ * @returns Constant-maturity forward price with the contracts bracketing the target
+ * @throws Error when the target is outside the curve or there are too few contracts for the method
+ */
+export function interpolateCurve(
+  curve: Pick<FuturesCurve, 'curveDate' | 'contracts'>,
+  targetDate: Date,
+  method: CurveInterpolationMethod = INTERPOLATION_CONFIG.DEFAULT_METHOD
+): CurveInterpolation {
+  const points = getCurvePoints(curve);
+  if (points.length < 2) {
+    throw new Error(`Curve interpolation needs at least 2 live contracts, got ${points.length}`);
+  }
+
+  const years = (targetDate.getTime() - new Date(curve.curveDate).getTime()) / MS_PER_YEAR;
+  const first = points[0]!;
+  const last = points[points.length - 1]!;
+  if (years < first.years || years > last.years) {
+    throw new Error(
+      `Target date ${toDateString(targetDate)} is outside the curve (${toDateString(new Date(first.maturity))} to ${toDateString(new Date(last.maturity))})`
+    );
+  }
+
+  // Contracts expiring either side of the target (one when it falls on a maturity)
+  const upperIndex = points.findIndex(point => point.years >= years);
+  const upper = points[upperIndex]!;
+  const lower = upper.years === years ? upper : points[upperIndex - 1]!;
+  const bracketing = lower === upper ? [upper] : [lower, upper];
+
+  let price: number;
+  let parameters: NelsonSiegelFit | undefined;
+  switch (method) {
+    case 'linear':
+      price = lower === upper ? upper.price : lower.price + ((upper.price - lower.price) * (years - lower.years)) / (upper.years - lower.years);
+      break;
+    case 'cubic-spline':
+      price = evaluateNaturalSpline(points, years);
+      break;
+    case 'nelson-siegel':
+      parameters = fitNelsonSiegel(points);
+      price = evaluateNelsonSiegel(parameters, years);
+      break;
+    default:
+      throw new Error(`Unknown curve interpolation method: ${method}`);
+  }
+
+  return {
+    method,
+    targetDate: targetDate.toISOString(),
+    price: Math.round(price * 100) / 100,
+    bracketingContracts: bracketing.map(point => ({ symbol: point.symbol, maturity: point.maturity, price: point.price })),
+    ...(parameters && { nelsonSiegel: parameters })
+  };
+}
+
+/**
+ * Live contracts ordered by time to maturity
+ *
+ * @param curve - Futures curve
+ * @returns One point per maturity (the first listed contract wins ties)
+ */
+export function getCurvePoints(curve: Pick<FuturesCurve, 'curveDate' | 'contracts'>): CurvePoint[] {
+  const curveTime = new Date(curve.curveDate).getTime();
+  const points = curve.contracts
+    .map(contract => ({
+      symbol: contract.symbol,
+      maturity: contract.maturity,
+      years: (new Date(contract.maturity).getTime() - curveTime) / MS_PER_YEAR,
+      price: contract.price
+    }))
+    .filter(point => point.years > 0 && point.price > 0)
+    .sort((a, b) => a.years - b.years);
+
+  return points.filter((point, i) => i === 0 || point.years > points[i - 1]!.years);
+}
+
+/**
+ * Fit a Nelson-Siegel curve by least squares over a grid of decay constants
+ *
+ * @param points - Curve points ordered by maturity
+ * @returns Best fit
+ * @throws Error with fewer than CURVE_INTERPOLATION.MIN_NELSON_SIEGEL_POINTS points
+ */
+export function fitNelsonSiegel(points: CurvePoint[]): NelsonSiegelFit {
+  if (points.length < INTERPOLATION_CONFIG.MIN_NELSON_SIEGEL_POINTS) {
+    throw new Error(`Nelson-Siegel fit needs at least ${INTERPOLATION_CONFIG.MIN_NELSON_SIEGEL_POINTS} contracts, got ${points.length}`);
+  }
+
+  let best: NelsonSiegelFit | null = null;
+  for (const tau of INTERPOLATION_CONFIG.NELSON_SIEGEL_TAU_GRID) {
+    // Betas are linear given τ: solve the 3x3 normal equations
+    const rows = points.map(point => getNelsonSiegelLoadings(point.years, tau));
+    const normal = [0, 1, 2].map(i => [0, 1, 2].map(j => rows.reduce((sum, row) => sum + row[i]! * row[j]!, 0)));
+    const rhs = [0, 1, 2].map(i => rows.reduce((sum, row, k) => sum + row[i]! * points[k]!.price, 0));
+    const betas = solveLinearSystem(normal, rhs);
+    if (!betas) {
+      continue;
+    }
+
+    const sse = rows.reduce((sum, row, k) => sum + (row[0]! * betas[0]! + row[1]! * betas[1]! + row[2]! * betas[2]! - points[k]!.price) ** 2, 0);
+    const rmse = Math.sqrt(sse / points.length);
+    if (!best || rmse < best.rmse) {
+      best = { beta0: betas[0]!, beta1: betas[1]!, beta2: betas[2]!, tau, rmse };
+    }
+  }
+
+  if (!best) {
+    throw new Error('Nelson-Siegel fit failed for every decay constant');
+  }
+  return best;
+}
+
+/**
+ * Evaluate a fitted Nelson-Siegel curve
+ *
+ * @param fit - Fitted parameters
+ * @param years - Years to maturity
+ * @returns Forward price
+ */
+export function evaluateNelsonSiegel(fit: NelsonSiegelFit, years: number): number {
+  const [level, slope, curvature] = getNelsonSiegelLoadings(years, fit.tau) as [number, number, number];
+  return fit.beta0 * level + fit.beta1 * slope + fit.beta2 * curvature;
+}
+
+/**
+ * Nelson-Siegel factor loadings at a maturity
+ */
+function getNelsonSiegelLoadings(years: number, tau: number): number[] {
+  const x = years / tau;
+  const decay = Math.exp(-x);
+  const slope = x > 1e-8 ? (1 - decay) / x : 1;
+  return [1, slope, slope - decay];
+}
+
+/**
+ * Natural cubic spline through the points, evaluated at one maturity
+ */
+function evaluateNaturalSpline(points: CurvePoint[], years: number): number {
+  const n = points.length;
+  const x = points.map(point => point.years);
+  const y = points.map(point => point.price);
+  const h = x.slice(1).map((value, i) => value - x[i]!);
+
+  // Second derivatives from the tridiagonal system (zero at both ends)
+  const second = new Array<number>(n).fill(0);
+  const diagonal = new Array<number>(n).fill(1);
+  const rhs = new Array<number>(n).fill(0);
+  for (let i = 1; i < n - 1; i++) {
+    diagonal[i] = 2 * (h[i - 1]! + h[i]!);
+    rhs[i] = 6 * ((y[i + 1]! - y[i]!) / h[i]! - (y[i]! - y[i - 1]!) / h[i - 1]!);
+  }
+  // Thomas algorithm: forward sweep, then back substitution
+  for (let i = 2; i < n - 1; i++) {
+    const factor = h[i - 1]! / diagonal[i - 1]!;
+    diagonal[i] = diagonal[i]! - factor * h[i - 1]!;
+    rhs[i] = rhs[i]! - factor * rhs[i - 1]!;
+  }
+  for (let i = n - 2; i >= 1; i--) {
+    second[i] = (rhs[i]! - h[i]! * second[i + 1]!) / diagonal[i]!;
+  }
+
+  const segment = Math.max(0, Math.min(n - 2, x.findIndex(value => value >= years) - 1));
+  const width = h[segment]!;
+  const a = (x[segment + 1]! - years) / width;
+  const b = (years - x[segment]!) / width;
+  return a * y[segment]! + b * y[segment + 1]! +
+    ((a ** 3 - a) * second[segment]! + (b ** 3 - b) * second[segment + 1]!) * (width ** 2) / 6;
+}
+
+/**
+ * Solve a small linear system by Gaussian elimination with partial pivoting
+ *
+ * @returns Solution, or null when the matrix is singular
+ */
+function solveLinearSystem(matrix: number[][], rhs: number[]): number[] | null {
+  const n = rhs.length;
+  const a = matrix.map((row, i) => [...row, rhs[i]!]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row]![col]!) > Math.abs(a[pivot]![col]!)) pivot = row;
+    }
+    if (Math.abs(a[pivot]![col]!) < 1e-12) {
+      return null;
+    }
+    [a[col], a[pivot]] = [a[pivot]!, a[col]!];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row]![col]! / a[col]![col]!;
+      for (let k = col; k <= n; k++) {
+        a[row]![k] = a[row]![k]! - factor * a[col]![k]!;
+      }
+    }
+  }
+
+  const solution = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row]![n]!;
+    for (let k = row + 1; k < n; k++) {
+      sum -= a[row]![k]! * solution[k]!;
+    }
+    solution[row] = sum / a[row]![row]!;
+  }
+  return solution;
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().split('T')[0]!;
+}
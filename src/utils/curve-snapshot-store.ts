@@ -0,0 +1,159 @@
+/**
+ * Curve Snapshot Store Utility
+ *
+ * Local JSONL storage of futures curve snapshots, one file per base symbol
+ * under BACKTEST_CONFIG.SNAPSHOT_DIRECTORY (e.g. data/curves/CL=F.jsonl).
+ * Yahoo Finance only quotes contracts that are still listed, so saving the
+ * curve returned by getFuturesCurve each day builds the history of what the
+ * market expected on past dates. Snapshots are keyed by curve date (one per
+ * day, later saves replace earlier ones) and files are rewritten through a
+ * temporary file and rename.
+ *
+ * @author Curve Snapshot Store Module
+ * @version 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { BACKTEST_CONFIG } from '../config/yahoo-finance';
+import { FuturesCurve } from '../types/commodity';
+
+/**
+ * Stored futures curve snapshot
+ */
+export interface CurveSnapshot {
+  /** Base symbol (e.g., 'CL=F') */
+  underlyingSymbol: string;
+  /** Day the curve was observed (YYYY-MM-DD) */
+  date: string;
+  /** Time the curve was fetched (ISO string) */
+  curveDate: string;
+  /** Contracts on the curve */
+  contracts: FuturesCurve['contracts'];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * JSONL futures curve snapshot store
+ */
+export class CurveSnapshotStore {
+  private directory: string;
+  // Writes to the same file are serialized to avoid lost updates
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(directory: string = BACKTEST_CONFIG.SNAPSHOT_DIRECTORY) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Save a futures curve as the snapshot for its curve date
+   *
+   * @param curve - Curve returned by getFuturesCurve
+   * @returns Promise resolving to the stored snapshot
+   */
+  async save(curve: FuturesCurve): Promise<CurveSnapshot> {
+    const snapshot: CurveSnapshot = {
+      underlyingSymbol: curve.underlyingSymbol,
+      date: curve.curveDate.split('T')[0]!,
+      curveDate: curve.curveDate,
+      contracts: curve.contracts
+    };
+    const file = this.getFilePath(curve.underlyingSymbol);
+
+    const next = this.writeQueue.catch((): void => undefined).then(async () => {
+      const snapshots = (await this.list(curve.underlyingSymbol)).filter(existing => existing.date !== snapshot.date);
+      snapshots.push(snapshot);
+      snapshots.sort((a, b) => a.date.localeCompare(b.date));
+
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(tempFile, snapshots.map(existing => JSON.stringify(existing)).join('\n') + '\n', 'utf8');
+      await fs.rename(tempFile, file);
+    });
+    this.writeQueue = next;
+    await next;
+
+    return snapshot;
+  }
+
+  /**
+   * List stored snapshots of a base symbol
+   *
+   * @param baseSymbol - Base symbol (e.g., 'CL=F')
+   * @returns Promise resolving to snapshots ordered by date (empty if none stored)
+   */
+  async list(baseSymbol: string): Promise<CurveSnapshot[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.getFilePath(baseSymbol), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as CurveSnapshot);
+  }
+
+  /**
+   * Get the latest snapshot observed on or before a date
+   *
+   * @param baseSymbol - Base symbol
+   * @param date - As-of date (YYYY-MM-DD)
+   * @param maxAgeDays - Oldest usable snapshot (default: BACKTEST_CONFIG.MAX_PRICE_AGE_DAYS)
+   * @returns Promise resolving to the snapshot, or null if none is recent enough
+   */
+  async getAsOf(
+    baseSymbol: string,
+    date: string,
+    maxAgeDays: number = BACKTEST_CONFIG.MAX_PRICE_AGE_DAYS
+  ): Promise<CurveSnapshot | null> {
+    const snapshots = await this.list(baseSymbol);
+    return findSnapshotAsOf(snapshots, date, maxAgeDays);
+  }
+
+  /**
+   * Map a base symbol to its file path (symbols are made filesystem-safe)
+   */
+  private getFilePath(baseSymbol: string): string {
+    return path.join(this.directory, `${baseSymbol.toUpperCase().replace(/[^A-Za-z0-9._=-]/g, '_')}.jsonl`);
+  }
+}
+
+/**
+ * Find the latest snapshot observed on or before a date
+ *
+ * @param snapshots - Snapshots ordered by date
+ * @param date - As-of date (YYYY-MM-DD)
+ * @param maxAgeDays - Oldest usable snapshot in calendar days
+ * @returns The snapshot, or null if none is recent enough
+ */
+export function findSnapshotAsOf(snapshots: CurveSnapshot[], date: string, maxAgeDays: number): CurveSnapshot | null {
+  let latest: CurveSnapshot | null = null;
+  for (const snapshot of snapshots) {
+    if (snapshot.date > date) {
+      break;
+    }
+    latest = snapshot;
+  }
+
+  if (!latest || (Date.parse(date) - Date.parse(latest.date)) / DAY_MS > maxAgeDays) {
+    return null;
+  }
+  return latest;
+}
+
+/**
+ * Create a new CurveSnapshotStore instance
+ *
+ * @param directory - Storage directory (default: BACKTEST_CONFIG.SNAPSHOT_DIRECTORY)
+ * @returns CurveSnapshotStore instance
+ */
+export function createCurveSnapshotStore(directory?: string): CurveSnapshotStore {
+  return new CurveSnapshotStore(directory);
+}
@@ -0,0 +1,219 @@
+/**
+ * Ensemble Forecast Utility
+ *
+ * Combines the forecasts of several methods (web search, futures consensus,
+ * statistical model) for one horizon into a single forecast. Each method is
+ * weighted by the inverse of its historical MAPE for that horizon, taken
+ * from the forecast archive. Methods with fewer than
+ * ENSEMBLE.MIN_TRACK_RECORD resolved forecasts get the average weight of the
+ * methods that have one, so with fewer than two track records the weights
+ * are equal.
+ *
+ * The confidence interval treats the members as a mixture in log space: its
+ * variance is the weighted spread of the member prices plus the weighted
+ * variance implied by each member's own price range.
+ *
+ * @author Ensemble Forecast Module
+ * @version 1.0.0
+ */
+
+import { FORECASTING_CONFIG } from '../config/yahoo-finance';
+import { EnsembleForecast, EnsembleMember, FORECAST_HORIZONS, ForecastData, MarketConsensusForcast, SourceInfo } from '../types/commodity';
+
+/**
+ * Forecasting methods that can join an ensemble
+ */
+export type EnsembleMethod = EnsembleMember['method'];
+
+/**
+ * Historical error of one method at one horizon
+ */
+export interface MethodTrackRecord {
+  /** Mean absolute percentage error (fraction), null without resolved forecasts */
+  mape: number | null;
+  /** Resolved forecasts behind the error */
+  count: number;
+}
+
+/**
+ * Track records keyed by horizon, then by method
+ */
+export type EnsembleTrackRecord = Partial<Record<ForecastData['horizon'], Partial<Record<EnsembleMethod, MethodTrackRecord>>>>;
+
+/**
+ * Forecast produced by one member method
+ */
+export interface EnsembleMemberForecast {
+  method: EnsembleMethod;
+  forecast: ForecastData;
+}
+
+/**
+ * Ensemble combination options
+ */
+export interface EnsembleCombineOptions {
+  /** Track records for the horizon being combined (default: none, equal weights) */
+  trackRecord?: Partial<Record<EnsembleMethod, MethodTrackRecord>>;
+  /** Confidence interval in percent (80, 90, 95 or 99) */
+  confidenceInterval?: number;
+}
+
+/**
+ * Ensemble weights for a set of methods
+ */
+export interface EnsembleWeights {
+  /** Normalized weights keyed by method */
+  weights: Partial<Record<EnsembleMethod, number>>;
+  /** Whether track records set the weights (needs at least two methods with one) */
+  weighting: EnsembleForecast['weighting'];
+}
+
+const ENSEMBLE_CONFIG = FORECASTING_CONFIG.ENSEMBLE;
+
+/**
+ * Weight methods by inverse historical error
+ *
+ * @param methods - Member methods
+ * @param trackRecord - Track records of the methods (default: none)
+ * @returns Normalized weights
+ */
+export function calculateEnsembleWeights(
+  methods: EnsembleMethod[],
+  trackRecord: Partial<Record<EnsembleMethod, MethodTrackRecord>> = {}
+): EnsembleWeights {
+  const inverseErrors = new Map<EnsembleMethod, number>();
+  methods.forEach(method => {
+    const record = trackRecord[method];
+    if (record && record.mape !== null && record.count >= ENSEMBLE_CONFIG.MIN_TRACK_RECORD) {
+      inverseErrors.set(method, 1 / Math.max(record.mape, ENSEMBLE_CONFIG.MIN_ERROR));
+    }
+  });
+
+  // Methods without a track record get the average of those with one
+  const known = [...inverseErrors.values()];
+  const fallback = known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : 1;
+  const raw = methods.map(method => inverseErrors.get(method) ?? fallback);
+  const total = raw.reduce((sum, value) => sum + value, 0);
+
+  const weights: Partial<Record<EnsembleMethod, number>> = {};
+  methods.forEach((method, i) => {
+    weights[method] = raw[i]! / total;
+  });
+
+  return { weights, weighting: known.length > 1 ? 'track-record' : 'equal' };
+}
+
+/**
+ * Combine member forecasts for one horizon
+ *
+ * @param horizon - Forecast horizon
+ * @param members - Member forecasts for the horizon (one per method)
+ * @param currentPrice - Current commodity price
+ * @param options - Combination options
+ * @returns Ensemble forecast
+ * @throws Error when there are no members
+ */
+export function combineForecasts(
+  horizon: ForecastData['horizon'],
+  members: EnsembleMemberForecast[],
+  currentPrice: number,
+  options: EnsembleCombineOptions = {}
+): EnsembleForecast {
+  const consensusConfig = FORECASTING_CONFIG.MARKET_CONSENSUS;
+  const { confidenceInterval = consensusConfig.CONFIDENCE_INTERVAL, trackRecord = {} } = options;
+
+  const horizonConfig = FORECAST_HORIZONS.find(h => h.key === horizon);
+  if (!horizonConfig) {
+    throw new Error(`Unknown forecast horizon: ${horizon}`);
+  }
+  if (members.length === 0) {
+    throw new Error(`No member forecasts to combine for ${horizon}`);
+  }
+
+  const { weights, weighting } = calculateEnsembleWeights(members.map(member => member.method), trackRecord);
+  const weightOf = (member: EnsembleMemberForecast): number => weights[member.method]!;
+
+  const forecastPrice = round(members.reduce((sum, member) => sum + weightOf(member) * member.forecast.forecastPrice, 0));
+
+  // Mixture variance in log space: spread between members plus their own uncertainty
+  const logMean = members.reduce((sum, member) => sum + weightOf(member) * Math.log(member.forecast.forecastPrice), 0);
+  const logVariance = members.reduce((sum, member) => {
+    const between = (Math.log(member.forecast.forecastPrice) - logMean) ** 2;
+    return sum + weightOf(member) * (between + getMemberLogVariance(member.forecast));
+  }, 0);
+  const zScore = consensusConfig.Z_SCORES[confidenceInterval] ?? consensusConfig.Z_SCORES[95] ?? 1.96;
+  const spread = zScore * Math.sqrt(logVariance);
+  const lower = round(forecastPrice * Math.exp(-spread));
+  const upper = round(forecastPrice * Math.exp(spread));
+
+  // Narrower relative ranges translate into higher confidence
+  const relativeHalfWidth = (upper - lower) / (2 * forecastPrice);
+  const confidenceLevel = Math.max(consensusConfig.MIN_CONFIDENCE_LEVEL, Math.round((1 - relativeHalfWidth) * 100));
+
+  const ensembleMembers: EnsembleMember[] = members.map(member => {
+    const record = trackRecord[member.method];
+    return {
+      method: member.method,
+      forecastPrice: member.forecast.forecastPrice,
+      weight: Math.round(weightOf(member) * 10000) / 10000,
+      ...(record && record.mape !== null && { historicalMape: record.mape }),
+      trackRecord: record?.count ?? 0
+    };
+  });
+
+  const keyFactors = [...new Set(members.flatMap(member => member.forecast.keyFactors || []))];
+  const sources: SourceInfo[] = members.flatMap(member => member.forecast.sources);
+  const contributions = ensembleMembers
+    .map(member => `${member.method} $${member.forecastPrice.toFixed(2)} × ${(member.weight * 100).toFixed(1)}%`)
+    .join(', ');
+
+  const start = new Date();
+  const end = new Date(start);
+  end.setUTCMonth(end.getUTCMonth() + horizonConfig.months);
+
+  return {
+    horizon,
+    forecastPrice,
+    currency: members[0]!.forecast.currency,
+    confidenceLevel,
+    dateRange: {
+      start: start.toISOString(),
+      end: end.toISOString()
+    },
+    priceRange: { low: lower, high: upper },
+    percentageChange: round(((forecastPrice - currentPrice) / currentPrice) * 100),
+    sources,
+    methodology: `${FORECASTING_CONFIG.METHODS.ENSEMBLE.name} (${contributions}; ${weighting === 'track-record' ? 'inverse-MAPE weights' : 'equal weights, no track record'})`,
+    ...(keyFactors.length > 0 && { keyFactors }),
+    members: ensembleMembers,
+    weighting,
+    confidenceInterval: {
+      lower,
+      upper,
+      confidence: confidenceInterval
+    }
+  };
+}
+
+/**
+ * Log-price variance implied by a member's own interval (0 without one)
+ */
+function getMemberLogVariance(forecast: ForecastData): number {
+  const consensusConfig = FORECASTING_CONFIG.MARKET_CONSENSUS;
+  const interval = (forecast as Partial<MarketConsensusForcast>).confidenceInterval;
+  const low = interval?.lower ?? forecast.priceRange?.low;
+  const high = interval?.upper ?? forecast.priceRange?.high;
+
+  if (!low || !high || low <= 0 || high <= low) {
+    return 0;
+  }
+
+  // Ranges without a stated confidence are read as the default interval
+  const confidence = interval?.confidence ?? consensusConfig.CONFIDENCE_INTERVAL;
+  const zScore = consensusConfig.Z_SCORES[confidence] ?? consensusConfig.Z_SCORES[95] ?? 1.96;
+  return (Math.log(high / low) / (2 * zScore)) ** 2;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,290 @@
+/**
+ * Fixture Utility
+ *
+ * Record/replay of Yahoo Finance and OpenAI traffic so the pipeline can run
+ * without network access (CI, air-gapped machines). In record mode each
+ * request and its response are saved as a JSON fixture file; in replay mode
+ * responses are served from those files and a missing fixture fails with
+ * FixtureNotFoundError instead of reaching the network.
+ *
+ * Fixture files live under the fixture directory by kind:
+ * - chart/<symbol>_<interval>_<range>.json  Yahoo Finance chart requests
+ * - get/<hash>.json                         other Yahoo Finance GET requests (URL and params)
+ * - openai/<hash>.json                      OpenAI Responses API requests (request body, dates normalized)
+ *
+ * OpenAI prompts embed dates derived from the clock (forecast target dates),
+ * so dates in the request body are replaced with FIXTURE_CONFIG.DATE_PLACEHOLDER
+ * before hashing; a fixture recorded one day still replays the next.
+ *
+ * The mode comes from FIXTURE_MODE ('off', 'record' or 'replay') and the
+ * directory from FIXTURE_DIR (default: FIXTURE_CONFIG.DIRECTORY).
+ *
+ * @author Fixture Module
+ * @version 1.0.0
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AxiosRequestConfig } from 'axios';
+import { FIXTURE_CONFIG } from '../config/yahoo-finance';
+import { ApiResponse } from '../types/yahoo-finance';
+import type { YahooFinanceHttpClient } from './http-client';
+
+/**
+ * Fixture modes
+ */
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * Kinds of recorded traffic
+ */
+export type FixtureKind = 'chart' | 'get' | 'openai';
+
+/**
+ * Fixture options
+ */
+export interface FixtureOptions {
+  /** Record, replay or pass through */
+  mode: FixtureMode;
+  /** Fixture directory (default: FIXTURE_CONFIG.DIRECTORY) */
+  directory?: string;
+}
+
+/**
+ * Fixture file contents
+ */
+export interface Fixture<T = unknown> {
+  /** Kind of recorded traffic */
+  kind: FixtureKind;
+  /** Request that produced the response */
+  request: unknown;
+  /** Recorded response */
+  response: T;
+  /** Time the fixture was recorded (ISO string) */
+  recordedAt: string;
+}
+
+const FIXTURE_MODES: FixtureMode[] = ['off', 'record', 'replay'];
+
+/**
+ * Error thrown in replay mode when no fixture matches a request
+ */
+export class FixtureNotFoundError extends Error {
+  public readonly kind: FixtureKind;
+  public readonly key: string;
+  public readonly file: string;
+
+  constructor(kind: FixtureKind, key: string, file: string) {
+    super(`No ${kind} fixture for "${key}" (expected ${file}); record it with ${FIXTURE_CONFIG.MODE_ENV}=record`);
+    this.name = 'FixtureNotFoundError';
+    this.kind = kind;
+    this.key = key;
+    this.file = file;
+  }
+}
+
+/**
+ * Read fixture options from FIXTURE_MODE and FIXTURE_DIR
+ *
+ * @returns Fixture options (mode 'off' when FIXTURE_MODE is unset)
+ * @throws Error when FIXTURE_MODE is not a known mode
+ */
+export function getFixtureOptions(): FixtureOptions {
+  const mode = (process.env[FIXTURE_CONFIG.MODE_ENV] || 'off').toLowerCase() as FixtureMode;
+  if (!FIXTURE_MODES.includes(mode)) {
+    throw new Error(`Invalid ${FIXTURE_CONFIG.MODE_ENV} "${mode}": expected one of ${FIXTURE_MODES.join(', ')}`);
+  }
+
+  return {
+    mode,
+    directory: process.env[FIXTURE_CONFIG.DIRECTORY_ENV] || FIXTURE_CONFIG.DIRECTORY
+  };
+}
+
+/**
+ * Hash a request into a stable fixture key
+ *
+ * @param request - JSON-serializable request description
+ * @returns Hex hash of the request
+ */
+export function hashFixtureKey(request: unknown): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, FIXTURE_CONFIG.HASH_LENGTH);
+}
+
+/**
+ * Replace dates in a request with FIXTURE_CONFIG.DATE_PLACEHOLDER
+ *
+ * Matches ISO dates and timestamps and numeric locale dates (10/19/2026,
+ * 19.10.2026) in every string of the request.
+ *
+ * @param request - JSON-serializable request description
+ * @returns Copy of the request with dates normalized
+ */
+export function normalizeFixtureRequest(request: unknown): unknown {
+  if (typeof request === 'string') {
+    return request
+      .replace(/\b\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?\b/g, FIXTURE_CONFIG.DATE_PLACEHOLDER)
+      .replace(/\b\d{1,2}([./])\d{1,2}\1\d{2,4}\b/g, FIXTURE_CONFIG.DATE_PLACEHOLDER);
+  }
+  if (Array.isArray(request)) {
+    return request.map(normalizeFixtureRequest);
+  }
+  if (request !== null && typeof request === 'object') {
+    return Object.fromEntries(Object.entries(request).map(([key, value]) => [key, normalizeFixtureRequest(value)]));
+  }
+  return request;
+}
+
+/**
+ * Fixture file store
+ */
+export class FixtureStore {
+  public readonly mode: FixtureMode;
+  public readonly directory: string;
+
+  constructor(options: FixtureOptions) {
+    this.mode = options.mode;
+    this.directory = path.resolve(options.directory ?? FIXTURE_CONFIG.DIRECTORY);
+  }
+
+  /**
+   * Load a recorded response
+   *
+   * @param kind - Kind of traffic
+   * @param key - Fixture key
+   * @returns Promise resolving to the recorded response
+   * @throws FixtureNotFoundError when no fixture exists for the key
+   */
+  async replay<T>(kind: FixtureKind, key: string): Promise<T> {
+    const file = this.getFilePath(kind, key);
+
+    let contents: string;
+    try {
+      contents = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new FixtureNotFoundError(kind, key, file);
+      }
+      throw error;
+    }
+
+    return (JSON.parse(contents) as Fixture<T>).response;
+  }
+
+  /**
+   * Save a request and its response, replacing any earlier recording
+   *
+   * @param kind - Kind of traffic
+   * @param key - Fixture key
+   * @param request - Request that produced the response
+   * @param response - Response to record
+   */
+  async record<T>(kind: FixtureKind, key: string, request: unknown, response: T): Promise<void> {
+    const file = this.getFilePath(kind, key);
+    const fixture: Fixture<T> = {
+      kind,
+      request,
+      response,
+      recordedAt: new Date().toISOString()
+    };
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+  }
+
+  /**
+   * Map a fixture key to its file path (keys are made filesystem-safe)
+   */
+  private getFilePath(kind: FixtureKind, key: string): string {
+    const safeKey = key.replace(/[^A-Za-z0-9._=-]/g, '_');
+    return path.join(this.directory, kind, `${safeKey}.json`);
+  }
+}
+
+/**
+ * Create a fixture store
+ *
+ * @param options - Fixture options (default: from FIXTURE_MODE and FIXTURE_DIR)
+ * @returns FixtureStore, or undefined when fixtures are off
+ */
+export function createFixtureStore(options: FixtureOptions = getFixtureOptions()): FixtureStore | undefined {
+  return options.mode === 'off' ? undefined : new FixtureStore(options);
+}
+
+/**
+ * Yahoo Finance HTTP client that records or replays fixtures
+ *
+ * Chart requests are keyed by symbol, interval and range; other GET
+ * requests by a hash of the URL and query parameters.
+ */
+export class FixtureHttpClient implements YahooFinanceHttpClient {
+  private store: FixtureStore;
+  private client: YahooFinanceHttpClient | undefined;
+  private requestCount = 0;
+  private lastRequest?: Date;
+
+  /**
+   * @param store - Fixture store (mode 'record' or 'replay')
+   * @param client - Client making the real requests (required for recording)
+   */
+  constructor(store: FixtureStore, client?: YahooFinanceHttpClient) {
+    if (store.mode === 'record' && !client) {
+      throw new Error('FixtureHttpClient needs an HTTP client to record fixtures');
+    }
+    this.store = store;
+    this.client = client;
+  }
+
+  async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+    const request = { url, params: config?.params ?? null };
+    const key = hashFixtureKey(request);
+    this.trackRequest();
+
+    if (this.store.mode === 'replay') {
+      return this.store.replay<T>('get', key);
+    }
+
+    const data = await this.requireClient().get<T>(url, config);
+    await this.store.record('get', key, request, data);
+    return data;
+  }
+
+  async getChart<T>(symbol: string, interval?: string, range?: string): Promise<ApiResponse<T>> {
+    const request = { symbol, interval: interval ?? null, range: range ?? null };
+    const key = `${symbol}_${interval ?? 'default'}_${range ?? 'default'}`;
+    this.trackRequest();
+
+    if (this.store.mode === 'replay') {
+      return this.store.replay<ApiResponse<T>>('chart', key);
+    }
+
+    const response = await this.requireClient().getChart<T>(symbol, interval, range);
+    await this.store.record('chart', key, request, response);
+    return response;
+  }
+
+  getStatus() {
+    if (this.client) {
+      return this.client.getStatus();
+    }
+
+    return {
+      ready: true,
+      lastRequest: this.lastRequest,
+      requestCount: this.requestCount
+    };
+  }
+
+  private trackRequest(): void {
+    this.requestCount++;
+    this.lastRequest = new Date();
+  }
+
+  private requireClient(): YahooFinanceHttpClient {
+    if (!this.client) {
+      throw new Error('FixtureHttpClient has no HTTP client to pass requests to');
+    }
+    return this.client;
+  }
+}
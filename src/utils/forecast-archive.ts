@@ -0,0 +1,194 @@
+/**
+ * Forecast Archive Utility
+ *
+ * Append-only JSONL archive of issued forecasts
+ * (FORECAST_EVALUATION_CONFIG.ARCHIVE_FILE). Each record keeps the full
+ * ForecastData with its issue date, the price at issue and the maturity
+ * date (dateRange.end), so forecasts can be checked against realized
+ * prices once they mature. Realized prices are written back to the record.
+ *
+ * @author Forecast Archive Module
+ * @version 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { FORECAST_EVALUATION_CONFIG } from '../config/yahoo-finance';
+import { CommodityAnalysis, ForecastData } from '../types/commodity';
+
+/**
+ * Realized outcome of a matured forecast
+ */
+export interface RealizedPrice {
+  /** First close on or after the maturity date */
+  price: number;
+  /** Date of that close (YYYY-MM-DD) */
+  date: string;
+  /** Time the outcome was recorded (ISO string) */
+  resolvedAt: string;
+}
+
+/**
+ * Archived forecast
+ */
+export interface ArchivedForecast {
+  /** Unique record id (symbol, horizon and issue date) */
+  id: string;
+  /** Yahoo Finance symbol */
+  symbol: string;
+  /** Commodity name */
+  commodityName: string;
+  /** Forecasting method (e.g., 'hybrid', 'web-search') */
+  method: string;
+  /** Time the forecast was issued (ISO string) */
+  issueDate: string;
+  /** Price when the forecast was issued */
+  issuePrice: number;
+  /** Date the forecast matures (dateRange.end) */
+  maturityDate: string;
+  /** Forecast as issued */
+  forecast: ForecastData;
+  /** Realized outcome, once the forecast has matured and been evaluated */
+  realized?: RealizedPrice;
+}
+
+/**
+ * Archive query filter
+ */
+export interface ForecastArchiveFilter {
+  symbol?: string;
+  method?: string;
+  horizon?: ForecastData['horizon'];
+  /** Only forecasts with (true) or without (false) a realized outcome */
+  resolved?: boolean;
+}
+
+/**
+ * JSONL forecast archive
+ */
+export class ForecastArchive {
+  private file: string;
+  // Writes are serialized so appends and rewrites never interleave
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(file: string = FORECAST_EVALUATION_CONFIG.ARCHIVE_FILE) {
+    this.file = path.resolve(file);
+  }
+
+  /**
+   * Archive every forecast of an analysis
+   *
+   * @param analysis - Analysis whose forecasts were issued
+   * @param method - Forecasting method that produced them
+   * @returns Promise resolving to the archived records
+   */
+  async record(analysis: CommodityAnalysis, method: string): Promise<ArchivedForecast[]> {
+    const issueDate = analysis.analysisDate || new Date().toISOString();
+    const records = analysis.forecasts.map(forecast => ({
+      id: `${analysis.commodity.symbol}:${forecast.horizon}:${issueDate}`,
+      symbol: analysis.commodity.symbol,
+      commodityName: analysis.commodity.name,
+      method,
+      issueDate,
+      issuePrice: analysis.commodity.currentPrice,
+      maturityDate: forecast.dateRange.end,
+      forecast
+    }));
+
+    if (records.length > 0) {
+      await this.enqueue(async () => {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        await fs.appendFile(this.file, records.map(record => JSON.stringify(record)).join('\n') + '\n', 'utf8');
+      });
+    }
+
+    return records;
+  }
+
+  /**
+   * List archived forecasts
+   *
+   * @param filter - Optional filter
+   * @returns Promise resolving to matching records in issue order
+   */
+  async list(filter: ForecastArchiveFilter = {}): Promise<ArchivedForecast[]> {
+    const records = await this.readAll();
+
+    return records.filter(record =>
+      (filter.symbol === undefined || record.symbol === filter.symbol) &&
+      (filter.method === undefined || record.method === filter.method) &&
+      (filter.horizon === undefined || record.forecast.horizon === filter.horizon) &&
+      (filter.resolved === undefined || !!record.realized === filter.resolved)
+    );
+  }
+
+  /**
+   * Store realized outcomes for archived forecasts
+   *
+   * @param outcomes - Realized prices keyed by record id
+   * @returns Promise resolving to the number of records updated
+   */
+  async saveRealized(outcomes: Map<string, RealizedPrice>): Promise<number> {
+    if (outcomes.size === 0) {
+      return 0;
+    }
+
+    return this.enqueue(async () => {
+      const records = await this.readAll();
+      let updated = 0;
+
+      records.forEach(record => {
+        const realized = outcomes.get(record.id);
+        if (realized) {
+          record.realized = realized;
+          updated++;
+        }
+      });
+
+      const tempFile = `${this.file}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, records.map(record => JSON.stringify(record)).join('\n') + '\n', 'utf8');
+      await fs.rename(tempFile, this.file);
+
+      return updated;
+    });
+  }
+
+  /**
+   * Read every record (a missing archive is empty)
+   */
+  private async readAll(): Promise<ArchivedForecast[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as ArchivedForecast);
+  }
+
+  /**
+   * Run a write after any pending one
+   */
+  private enqueue<T>(write: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.catch((): void => undefined).then(write);
+    this.writeQueue = next;
+    return next;
+  }
+}
+
+/**
+ * Create a new ForecastArchive instance
+ *
+ * @param file - Archive file (default: FORECAST_EVALUATION_CONFIG.ARCHIVE_FILE)
+ * @returns ForecastArchive instance
+ */
+export function createForecastArchive(file?: string): ForecastArchive {
+  return new ForecastArchive(file);
+}
@@ -1,6 +1,10 @@
 import { CommodityAnalysis, ForecastData, CommodityData, MarketConsensusForcast } from '../types/commodity';
 import { promises as fs } from 'fs';
 import { join } from 'path';
+import { toFileSlug } from './commodity-text';
+import { Logger, consoleLogger } from './logger';
+import type { BacktestReport } from '../services/backtest-service';
+import type { MonteCarloResult } from './monte-carlo';
 
 // Extract and summarize the most relevant key factor from forecast data
 export function extractKeyFactor(forecast: ForecastData): string {
@@ -156,6 +160,7 @@ export function formatAnalysisAsJSON(analysis: CommodityAnalysis): string {
     const formattedAnalysis = {
       metadata: {
         analysisDate: analysis.analysisDate,
+        forecastMethod: analysis.forecastMethod || null,
         timestamp: new Date().toISOString(),
         generatedBy: 'OpenAI Commodity Forecast System'
       },
@@ -186,7 +191,8 @@ export function formatAnalysisAsJSON(analysis: CommodityAnalysis): string {
           currency: forecast.currency,
           percentageChange: forecast.percentageChange,
           changeDirection: forecast.percentageChange > 0 ? 'increase' : 
-                           forecast.percentageChange < 0 ? 'decrease' : 'neutral'
+                           forecast.percentageChange < 0 ? 'decrease' : 'neutral',
+          priceRange: forecast.priceRange || null
         },
         confidence: {
           level: forecast.confidenceLevel || null,
@@ -198,7 +204,9 @@ export function formatAnalysisAsJSON(analysis: CommodityAnalysis): string {
           primaryFactor: extractKeyFactor(forecast)
         },
         sources: forecast.sources
-      }))
+      })),
+      riskMetrics: analysis.riskMetrics || null,
+      technicalIndicators: analysis.technicalIndicators || null
     };
 
     return JSON.stringify(formattedAnalysis, null, 2);
@@ -275,7 +283,7 @@ export function formatAnalysisAsTable(analysis: CommodityAnalysis): string {
     
     // Header
     lines.push('═'.repeat(80));
-    lines.push('                    CRUDE OIL FORECAST ANALYSIS REPORT');
+    lines.push(`                    ${analysis.commodity.name.toUpperCase()} FORECAST ANALYSIS REPORT`);
     lines.push('═'.repeat(80));
     lines.push('');
     
@@ -326,6 +334,55 @@ export function formatAnalysisAsTable(analysis: CommodityAnalysis): string {
       lines.push('');
     }
     
+    // Risk metrics section
+    if (analysis.riskMetrics) {
+      const metrics = analysis.riskMetrics;
+      const percent = (value: number | null) => (value === null ? 'N/A' : `${(value * 100).toFixed(2)}%`);
+      const drawdown = metrics.maxDrawdown;
+      
+      lines.push(`📉 RISK METRICS (${metrics.observations} ${metrics.interval} returns, ${metrics.startDate} to ${metrics.endDate})`);
+      lines.push('─'.repeat(80));
+      lines.push(`Volatility:        ${percent(metrics.volatility.closeToClose)} close-to-close | ${percent(metrics.volatility.parkinson)} Parkinson | ${percent(metrics.volatility.garmanKlass)} Garman-Klass`);
+      lines.push(`Rolling (${metrics.rollingVolatility.window} bars): ${percent(metrics.rollingVolatility.current)} current | ${percent(metrics.rollingVolatility.min)} min | ${percent(metrics.rollingVolatility.max)} max`);
+      lines.push(`Max Drawdown:      ${percent(drawdown.drawdown)} (${drawdown.peakDate} to ${drawdown.troughDate}, ${drawdown.recoveryDate ? `recovered ${drawdown.recoveryDate}` : 'not recovered'})`);
+      lines.push('');
+      
+      // VaR table (one-bar losses)
+      lines.push('┌─────────────┬─────────────┬─────────────┬─────────────┬─────────────┐');
+      lines.push('│ Confidence  │  Hist. VaR  │ Param. VaR  │  Hist. ES   │  Param. ES  │');
+      lines.push('├─────────────┼─────────────┼─────────────┼─────────────┼─────────────┤');
+      metrics.valueAtRisk.forEach(risk => {
+        const cells = [`${risk.confidence}%`, percent(risk.historical), percent(risk.parametric), percent(risk.expectedShortfall), percent(risk.parametricExpectedShortfall)];
+        lines.push(`│ ${cells.map(cell => cell.padEnd(11)).join(' │ ')} │`);
+      });
+      lines.push('└─────────────┴─────────────┴─────────────┴─────────────┴─────────────┘');
+      lines.push(`Losses over one ${metrics.interval} bar as a share of price`);
+      lines.push('');
+    }
+    
+    // Technical indicators section
+    if (analysis.technicalIndicators) {
+      const technicals = analysis.technicalIndicators;
+      const price = (value: number | null) => (value === null ? 'N/A' : `$${value.toFixed(2)}`);
+      const signed = (value: number | null) => (value === null ? 'N/A' : `${value > 0 ? '+' : ''}${(value * 100).toFixed(1)}%`);
+      const number = (value: number | null, digits: number) => (value === null ? 'N/A' : value.toFixed(digits));
+      
+      lines.push(`📐 TECHNICAL INDICATORS (close ${price(technicals.price)} on ${technicals.date})`);
+      lines.push('─'.repeat(80));
+      technicals.movingAverages.forEach(average => {
+        lines.push(`${`${average.type} ${average.period}:`.padEnd(19)}${price(average.value).padEnd(12)} price ${signed(average.priceDistance)}`);
+      });
+      lines.push(`${`RSI ${technicals.rsi.period}:`.padEnd(19)}${number(technicals.rsi.value, 1)}`);
+      lines.push(`${'MACD:'.padEnd(19)}${number(technicals.macd.macd, 3)} | signal ${number(technicals.macd.signal, 3)} | histogram ${number(technicals.macd.histogram, 3)}`);
+      lines.push(`${`Bollinger ${technicals.bollinger.period}/${technicals.bollinger.stdDev}:`.padEnd(19)}${price(technicals.bollinger.lower)} - ${price(technicals.bollinger.upper)} (%B ${number(technicals.bollinger.percentB, 2)})`);
+      lines.push(`${`ATR ${technicals.atr.period}:`.padEnd(19)}${price(technicals.atr.value)} (${technicals.atr.percentOfPrice === null ? 'N/A' : `${(technicals.atr.percentOfPrice * 100).toFixed(2)}%`} of price)`);
+      if (technicals.yearRange) {
+        const range = technicals.yearRange;
+        lines.push(`${'52-Week Range:'.padEnd(19)}${price(range.low)} - ${price(range.high)} (${range.position === null ? 'N/A' : `${(range.position * 100).toFixed(0)}%`} of range, from ${range.source})`);
+      }
+      lines.push('');
+    }
+    
     // Risk factors section
     if (analysis.riskFactors && analysis.riskFactors.length > 0) {
       lines.push('⚠️  KEY RISK FACTORS');
@@ -336,6 +393,21 @@ export function formatAnalysisAsTable(analysis: CommodityAnalysis): string {
       lines.push('');
     }
     
+    // Cited sources section
+    const citedForecasts = analysis.forecasts.filter(forecast => forecast.sources.some(s => s.url));
+    if (citedForecasts.length > 0) {
+      lines.push('🔗 CITED SOURCES');
+      lines.push('─'.repeat(50));
+      citedForecasts.forEach(forecast => {
+        lines.push(`${forecast.horizon}:`);
+        forecast.sources.filter(s => s.url).forEach(source => {
+          lines.push(`  - [${source.reliability}] ${source.name}`);
+          lines.push(`    ${source.url}`);
+        });
+      });
+      lines.push('');
+    }
+    
     // Footer
     lines.push('─'.repeat(80));
     lines.push(`Generated by OpenAI Commodity Forecast System | ${new Date().toLocaleString()}`);
@@ -393,10 +465,25 @@ export function formatForecastSummaryTable(forecasts: ForecastData[]): string {
 
 // File Writing Functionality
 
+// Output file formats
+export type OutputFormat = 'json' | 'table' | 'both';
+
+// Output file options
+export interface OutputFileOptions {
+  /** Output directory (default: ./output) */
+  outputDir?: string;
+  /** File formats to write (default: 'both') */
+  format?: OutputFormat;
+}
+
+// Default output directory
+function getDefaultOutputDirectory(): string {
+  return join(process.cwd(), 'output');
+}
+
 // Ensure output directory exists
-async function ensureOutputDirectory(): Promise<void> {
+async function ensureOutputDirectory(outputDir: string = getDefaultOutputDirectory()): Promise<void> {
   try {
-    const outputDir = join(process.cwd(), 'output');
     await fs.mkdir(outputDir, { recursive: true });
   } catch (error) {
     console.error('Error creating output directory:', error);
@@ -407,12 +494,13 @@ async function ensureOutputDirectory(): Promise<void> {
 // Write JSON output to file
 export async function writeJSONToFile(
   data: string, 
-  filename: string = 'forecast-results.json'
+  filename: string = 'forecast-results.json',
+  outputDir: string = getDefaultOutputDirectory()
 ): Promise<string> {
   try {
-    await ensureOutputDirectory();
+    await ensureOutputDirectory(outputDir);
     
-    const filePath = join(process.cwd(), 'output', filename);
+    const filePath = join(outputDir, filename);
     await fs.writeFile(filePath, data, 'utf8');
     
     console.log(`✅ JSON data written to: ${filePath}`);
@@ -426,12 +514,13 @@ export async function writeJSONToFile(
 // Write table output to file
 export async function writeTableToFile(
   data: string, 
-  filename: string = 'forecast-results.txt'
+  filename: string = 'forecast-results.txt',
+  outputDir: string = getDefaultOutputDirectory()
 ): Promise<string> {
   try {
-    await ensureOutputDirectory();
+    await ensureOutputDirectory(outputDir);
     
-    const filePath = join(process.cwd(), 'output', filename);
+    const filePath = join(outputDir, filename);
     await fs.writeFile(filePath, data, 'utf8');
     
     console.log(`✅ Table data written to: ${filePath}`);
@@ -443,33 +532,41 @@ export async function writeTableToFile(
 }
 
 // Write both JSON and table formats with timestamps
-export async function writeAnalysisToFiles(analysis: CommodityAnalysis): Promise<{
-  jsonPath: string;
-  tablePath: string;
+export async function writeAnalysisToFiles(
+  analysis: CommodityAnalysis,
+  options: OutputFileOptions = {}
+): Promise<{
+  jsonPath?: string;
+  tablePath?: string;
 }> {
   try {
+    const { outputDir = getDefaultOutputDirectory(), format = 'both' } = options;
+    
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
     const timePart = new Date().toISOString().replace(/[:.]/g, '-').split('T')[1];
     const timeNow = timePart ? timePart.split('.')[0] : 'unknown';
     
-    const jsonFilename = `crude-oil-forecast-${timestamp}-${timeNow}.json`;
-    const tableFilename = `crude-oil-forecast-${timestamp}-${timeNow}.txt`;
+    const prefix = `${toFileSlug(analysis.commodity.name)}-forecast`;
+    const jsonFilename = `${prefix}-${timestamp}-${timeNow}.json`;
+    const tableFilename = `${prefix}-${timestamp}-${timeNow}.txt`;
     
-    // Format the data
-    const jsonData = formatAnalysisAsJSON(analysis);
-    const tableData = formatAnalysisAsTable(analysis);
+    const writeJSON = format === 'json' || format === 'both';
+    const writeTable = format === 'table' || format === 'both';
     
-    // Write both files
+    // Format and write the requested files
     const [jsonPath, tablePath] = await Promise.all([
-      writeJSONToFile(jsonData, jsonFilename),
-      writeTableToFile(tableData, tableFilename)
+      writeJSON ? writeJSONToFile(formatAnalysisAsJSON(analysis), jsonFilename, outputDir) : undefined,
+      writeTable ? writeTableToFile(formatAnalysisAsTable(analysis), tableFilename, outputDir) : undefined
     ]);
     
-    console.log(`📁 Analysis saved to output folder:`);
-    console.log(`   JSON: ${jsonFilename}`);
-    console.log(`   Table: ${tableFilename}`);
+    console.log(`📁 Analysis saved to ${outputDir}:`);
+    if (jsonPath) console.log(`   JSON: ${jsonFilename}`);
+    if (tablePath) console.log(`   Table: ${tableFilename}`);
     
-    return { jsonPath, tablePath };
+    return {
+      ...(jsonPath && { jsonPath }),
+      ...(tablePath && { tablePath })
+    };
     
   } catch (error) {
     console.error('Error writing analysis files:', error);
@@ -578,15 +675,20 @@ export function generateReadableTimestamp(): string {
 }
 
 // Track data retrieval with timestamp
-export function trackDataRetrieval(operation: string, success: boolean, details?: string): string {
+export function trackDataRetrieval(
+  operation: string,
+  success: boolean,
+  details?: string,
+  logger: Logger = consoleLogger
+): string {
   const timestamp = generateReadableTimestamp();
   const status = success ? '✅ SUCCESS' : '❌ FAILED';
   const message = `[${timestamp}] ${status}: ${operation}`;
   
   if (details) {
-    console.log(`${message} - ${details}`);
+    logger.log(`${message} - ${details}`);
   } else {
-    console.log(message);
+    logger.log(message);
   }
   
   return message;
@@ -614,7 +716,8 @@ export function formatMarketConsensusForecastAsJSON(forecasts: MarketConsensusFo
           finalForecastPrice: forecast.forecastPrice,
           currency: forecast.currency,
           percentageChange: forecast.percentageChange,
-          riskAdjustmentImpact: Math.round(((forecast.riskAdjustedPrice - forecast.marketConsensusPrice) / forecast.marketConsensusPrice) * 10000) / 100
+          riskAdjustmentImpact: Math.round(((forecast.riskAdjustedPrice - forecast.marketConsensusPrice) / forecast.marketConsensusPrice) * 10000) / 100,
+          curveInterpolation: forecast.curveInterpolation || null
         },
         confidence: {
           level: forecast.confidenceLevel || null,
@@ -632,7 +735,8 @@ export function formatMarketConsensusForecastAsJSON(forecasts: MarketConsensusFo
             impact: adj.adjustmentFactor,
             confidenceImpact: adj.confidenceImpact,
             description: adj.description
-          })) || []
+          })) || [],
+          calculationSteps: forecast.riskAdjustmentExplanation || []
         },
         sources: forecast.sources
       }))
@@ -682,6 +786,21 @@ export function formatMarketConsensusForecastAsTable(forecasts: MarketConsensusF
       lines.push('');
     }
     
+    // Consensus prices interpolated to the horizon dates
+    const interpolated = forecasts.filter(forecast => forecast.curveInterpolation);
+    if (interpolated.length > 0) {
+      lines.push(`📏 CURVE INTERPOLATION (${interpolated[0]!.curveInterpolation!.method})`);
+      lines.push('─'.repeat(80));
+      interpolated.forEach(forecast => {
+        const interpolation = forecast.curveInterpolation!;
+        const contracts = interpolation.bracketingContracts
+          .map(c => `${c.symbol} $${c.price.toFixed(2)}`)
+          .join(' / ');
+        lines.push(`${forecast.horizon.padEnd(10)} ${new Date(interpolation.targetDate).toLocaleDateString().padEnd(12)} $${interpolation.price.toFixed(2).padEnd(10)} ${contracts}`);
+      });
+      lines.push('');
+    }
+    
     // Risk adjustments summary
     if (forecasts.length > 0 && forecasts[0] && forecasts[0].riskAdjustments && forecasts[0].riskAdjustments.length > 0) {
       lines.push('⚠️  RISK ADJUSTMENT SUMMARY');
@@ -721,7 +840,7 @@ export function formatEnhancedAnalysisAsTable(analysis: CommodityAnalysis, marke
     
     // Header
     lines.push('═'.repeat(120));
-    lines.push('                    ENHANCED CRUDE OIL FORECAST ANALYSIS REPORT');
+    lines.push(`                    ENHANCED ${analysis.commodity.name.toUpperCase()} FORECAST ANALYSIS REPORT`);
     lines.push('═'.repeat(120));
     lines.push('');
     
@@ -821,6 +940,124 @@ export function formatEnhancedAnalysisAsTable(analysis: CommodityAnalysis, marke
   }
 }
 
+// Table formatter for backtest reports (one error table per horizon)
+export function formatBacktestReportAsTable(report: BacktestReport): string {
+  try {
+    const lines: string[] = [];
+    const price = (value: number | null) => (value === null ? 'N/A' : `$${value.toFixed(2)}`);
+    const percent = (value: number | null) => (value === null ? 'N/A' : `${(value * 100).toFixed(1)}%`);
+    
+    // Header
+    lines.push('═'.repeat(100));
+    lines.push(`                    BACKTEST REPORT: ${report.symbol} (${report.curveSource === 'snapshots' ? 'curve snapshots' : 'contract history'})`);
+    lines.push('═'.repeat(100));
+    lines.push('');
+    lines.push(`📅 Issue dates: ${report.from || 'N/A'} to ${report.to || 'N/A'} (${report.issueDates} replayed, every ${report.stepDays} trading day${report.stepDays === 1 ? '' : 's'})`);
+    lines.push(`📈 Drift lookback: ${report.driftLookbackDays} trading days`);
+    lines.push('');
+    
+    report.horizons.forEach(result => {
+      lines.push(`📊 ${result.horizon.toUpperCase()} HORIZON (${result.samples} samples, ${result.missingConsensus} without futures prices, ${result.unresolved} unresolved)`);
+      lines.push('─'.repeat(100));
+      
+      // Error table header
+      lines.push('┌─────────────┬─────────────┬─────────────┬─────────────┬─────────────┬─────────────┬─────────────┐');
+      lines.push('│   Method    │   Samples   │     MAE     │    MAPE     │    RMSE     │  Hit Rate   │  MAE vs RW  │');
+      lines.push('├─────────────┼─────────────┼─────────────┼─────────────┼─────────────┼─────────────┼─────────────┤');
+      
+      // One row per method
+      Object.entries(result.metrics).forEach(([method, metrics]) => {
+        const name = method.padEnd(11);
+        const count = String(metrics.count).padEnd(11);
+        const mae = price(metrics.mae).padEnd(11);
+        const mape = percent(metrics.mape).padEnd(11);
+        const rmse = price(metrics.rmse).padEnd(11);
+        const hitRate = percent(metrics.directionalHitRate).padEnd(11);
+        const relative = (metrics.relativeMae === null ? 'N/A' : metrics.relativeMae.toFixed(3)).padEnd(11);
+        
+        lines.push(`│ ${name} │ ${count} │ ${mae} │ ${mape} │ ${rmse} │ ${hitRate} │ ${relative} │`);
+      });
+      
+      lines.push('└─────────────┴─────────────┴─────────────┴─────────────┴─────────────┴─────────────┴─────────────┘');
+      lines.push('');
+    });
+    
+    // Footer
+    lines.push('─'.repeat(100));
+    lines.push('MAE vs RW below 1.000 beats the random walk | Consensus excludes AI risk adjustments');
+    lines.push(`Generated by Backtest Engine | ${new Date(report.generatedAt).toLocaleString()}`);
+    lines.push('═'.repeat(100));
+    
+    return lines.join('\n');
+  } catch (error) {
+    console.error('Error formatting backtest report as table:', error);
+    throw new Error(`Table formatting failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Format a Monte Carlo simulation as percentile bands per horizon
+export function formatSimulationAsTable(
+  result: MonteCarloResult,
+  symbol: string,
+  volatilitySource: 'implied' | 'historical' | 'configured'
+): string {
+  try {
+    const lines: string[] = [];
+    const columns = ['Horizon', 'Forward', 'Mean', ...(result.horizons[0]?.percentiles.map(band => `P${band.percentile}`) || [])];
+    const border = (left: string, middle: string, right: string) => left + columns.map(() => '─'.repeat(13)).join(middle) + right;
+    const row = (cells: string[]) => `│ ${cells.map(cell => cell.padEnd(11)).join(' │ ')} │`;
+    
+    // Header
+    lines.push('═'.repeat(100));
+    lines.push(`                    MONTE CARLO SIMULATION: ${symbol}`);
+    lines.push('═'.repeat(100));
+    lines.push('');
+    lines.push(`💰 Spot: $${result.spotPrice.toFixed(2)} | 📈 Volatility: ${(result.annualVolatility * 100).toFixed(1)}% (${volatilitySource})`);
+    lines.push(`🎲 ${result.paths} paths, seed ${result.seed}, ${result.shocks === 'student-t' ? `Student-t shocks (${result.degreesOfFreedom} d.f.)` : 'normal shocks'}`);
+    lines.push('');
+    
+    // Percentile table
+    lines.push(border('┌', '┬', '┐'));
+    lines.push(row(columns));
+    lines.push(border('├', '┼', '┤'));
+    result.horizons.forEach(horizon => {
+      lines.push(row([
+        horizon.key,
+        `$${horizon.forwardPrice.toFixed(2)}`,
+        `$${horizon.mean.toFixed(2)}`,
+        ...horizon.percentiles.map(band => `$${band.price.toFixed(2)}`)
+      ]));
+    });
+    lines.push(border('└', '┴', '┘'));
+    
+    // Threshold probabilities
+    const thresholds = result.horizons[0]?.thresholds || [];
+    if (thresholds.length > 0) {
+      lines.push('');
+      lines.push('🎯 THRESHOLD PROBABILITIES (ends above / touches before horizon)');
+      lines.push('─'.repeat(100));
+      thresholds.forEach((threshold, k) => {
+        const cells = result.horizons.map(horizon => {
+          const probability = horizon.thresholds[k]!;
+          return `${horizon.key}: ${(probability.probabilityAbove * 100).toFixed(1)}% / ${(probability.probabilityTouch * 100).toFixed(1)}%`;
+        });
+        lines.push(`$${threshold.threshold.toFixed(2)}`.padEnd(12) + cells.join(' | '));
+      });
+    }
+    
+    // Footer
+    lines.push('');
+    lines.push('─'.repeat(100));
+    lines.push('Paths are anchored on futures prices: the simulated mean at each horizon matches its contract');
+    lines.push('═'.repeat(100));
+    
+    return lines.join('\n');
+  } catch (error) {
+    console.error('Error formatting simulation as table:', error);
+    throw new Error(`Table formatting failed: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
 // Display market consensus forecasts in console
 export function displayMarketConsensusForecastsInConsole(forecasts: MarketConsensusForcast[]): void {
   try {
@@ -867,9 +1104,12 @@ export async function writeMarketConsensusForecastsToFiles(forecasts: MarketCons
 }
 
 // Comprehensive output function that integrates all output methods
-export async function outputComprehensiveAnalysis(analysis: CommodityAnalysis): Promise<{
+export async function outputComprehensiveAnalysis(
+  analysis: CommodityAnalysis,
+  options: OutputFileOptions = {}
+): Promise<{
   consoleDisplayed: boolean;
-  filesWritten: { jsonPath: string; tablePath: string };
+  filesWritten: { jsonPath?: string; tablePath?: string };
   tracked: string;
 }> {
   try {
@@ -883,7 +1123,7 @@ export async function outputComprehensiveAnalysis(analysis: CommodityAnalysis):
     console.log('✅ Analysis displayed in console');
     
     // Write to files
-    const filePaths = await writeAnalysisToFiles(analysis);
+    const filePaths = await writeAnalysisToFiles(analysis, options);
     console.log('✅ Analysis written to files');
     
     // Track completion
@@ -914,7 +1154,7 @@ export async function outputEnhancedAnalysis(
 ): Promise<{
   consoleDisplayed: boolean;
   filesWritten: { 
-    traditionalFiles: { jsonPath: string; tablePath: string };
+    traditionalFiles: { jsonPath?: string; tablePath?: string };
     marketConsensusFiles?: { jsonPath: string; tablePath: string };
     enhancedTablePath?: string;
   };
@@ -946,7 +1186,7 @@ export async function outputEnhancedAnalysis(
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
     const timePart = new Date().toISOString().replace(/[:.]/g, '-').split('T')[1];
     const timeNow = timePart ? timePart.split('.')[0] : 'unknown';
-    const enhancedTableFilename = `enhanced-analysis-${timestamp}-${timeNow}.txt`;
+    const enhancedTableFilename = `${toFileSlug(analysis.commodity.name)}-enhanced-analysis-${timestamp}-${timeNow}.txt`;
     
     const enhancedTablePath = await writeTableToFile(enhancedTableOutput, enhancedTableFilename);
     console.log(`✅ Enhanced comparison table written to: ${enhancedTableFilename}`);
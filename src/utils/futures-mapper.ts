@@ -8,6 +8,16 @@
  * @version 1.0.0
  */
 
+import { FUTURES_CONFIG } from '../config/yahoo-finance';
+import {
+  TradingCalendarId,
+  addBusinessDays,
+  getCalendarDaysBetween,
+  getLastBusinessDay,
+  getNthBusinessDay,
+  rollToBusinessDay
+} from './trading-calendar';
+
 /**
  * Futures contract month codes mapping
  */
@@ -40,28 +50,32 @@ export const CONTRACT_MONTHS = [
 export const QUARTERLY_CONTRACTS = ['MAR', 'JUN', 'SEP', 'DEC'] as const;
 
 /**
- * Contract expiration rules by commodity
+ * Last trading day rule for a product (see FUTURES_CONFIG.EXPIRATION_RULES)
  */
-export const EXPIRATION_RULES = {
-  'CL': { // Crude Oil WTI
-    dayOfMonth: 20,
-    monthOffset: -1, // Expires in month before delivery
-    businessDaysOnly: true,
-    exchangeTimezone: 'America/New_York'
-  },
-  'GC': { // Gold
-    dayOfMonth: 27,
-    monthOffset: -1,
-    businessDaysOnly: true,
-    exchangeTimezone: 'America/New_York'
-  },
-  'NG': { // Natural Gas
-    dayOfMonth: 25,
-    monthOffset: -1,
-    businessDaysOnly: true,
-    exchangeTimezone: 'America/New_York'
-  }
-} as const;
+export type ExpirationRule =
+  | { calendar: TradingCalendarId; type: 'before-day'; monthOffset: number; day: number; businessDays: number; rollAnchor?: boolean }
+  | { calendar: TradingCalendarId; type: 'last-business-day'; monthOffset: number; businessDays: number }
+  | { calendar: TradingCalendarId; type: 'nth-business-day'; monthOffset: number; n: number };
+
+/**
+ * Listed contract months for commodities without monthly contracts.
+ * Commodities not listed here trade every month and use quarterly contracts.
+ */
+export const LISTED_CONTRACT_MONTHS: Record<string, readonly string[]> = {
+  'GC': ['FEB', 'APR', 'JUN', 'AUG', 'OCT', 'DEC'], // Gold
+  'SI': ['MAR', 'MAY', 'JUL', 'SEP', 'DEC'], // Silver
+  'HG': ['MAR', 'MAY', 'JUL', 'SEP', 'DEC'], // Copper
+  'PL': ['JAN', 'APR', 'JUL', 'OCT'], // Platinum
+  'PA': ['MAR', 'JUN', 'SEP', 'DEC'], // Palladium
+  'ZC': ['MAR', 'MAY', 'JUL', 'SEP', 'DEC'], // Corn
+  'ZW': ['MAR', 'MAY', 'JUL', 'SEP', 'DEC'], // Wheat
+  'ZS': ['JAN', 'MAR', 'MAY', 'JUL', 'AUG', 'SEP', 'NOV'], // Soybeans
+  'KC': ['MAR', 'MAY', 'JUL', 'SEP', 'DEC'], // Coffee
+  'SB': ['MAR', 'MAY', 'JUL', 'OCT'], // Sugar
+  'CT': ['MAR', 'MAY', 'JUL', 'OCT', 'DEC'], // Cotton
+  'LE': ['FEB', 'APR', 'JUN', 'AUG', 'OCT', 'DEC'], // Live Cattle
+  'HE': ['FEB', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'OCT', 'DEC'] // Lean Hogs
+};
 
 /**
  * Time horizon to contract month mapping strategy
@@ -146,42 +160,57 @@ export class FuturesMapper {
   }
 
   /**
-   * Calculate contract expiration date
+   * Calculate contract expiration (last trading day) from the product's rule
+   * and exchange calendar
    * 
    * @param baseSymbol - Base commodity symbol
    * @param month - Contract month
    * @param year - Contract year
-   * @returns Expiration date
+   * @returns Last trading day (local midnight)
    */
   static calculateExpirationDate(baseSymbol: string, month: string, year: number): Date {
-    const baseCode = baseSymbol.replace('=F', '');
-    const rules = EXPIRATION_RULES[baseCode as keyof typeof EXPIRATION_RULES];
-    
-    if (!rules) {
-      // Default expiration: 20th of the month before delivery
-      const monthIndex = CONTRACT_MONTHS.indexOf(month as any);
-      const expirationMonth = monthIndex === 0 ? 11 : monthIndex - 1;
-      const expirationYear = monthIndex === 0 ? year - 1 : year;
-      return new Date(expirationYear, expirationMonth, 20);
-    }
-    
-    // Calculate based on commodity-specific rules
+    const rule = this.getExpirationRule(baseSymbol);
     const monthIndex = CONTRACT_MONTHS.indexOf(month as any);
-    const expirationMonth = monthIndex + rules.monthOffset;
-    const adjustedMonth = expirationMonth < 0 ? 11 : expirationMonth;
-    const adjustedYear = expirationMonth < 0 ? year - 1 : year;
+    if (monthIndex < 0) {
+      throw new Error(`Invalid contract month: ${month}`);
+    }
     
-    const expirationDate = new Date(adjustedYear, adjustedMonth, rules.dayOfMonth);
+    // Month the rule is anchored in (Date normalizes offsets across year boundaries)
+    const anchorMonth = new Date(year, monthIndex + rule.monthOffset, 1);
+    const anchorYear = anchorMonth.getFullYear();
     
-    // Adjust for business days if required
-    if (rules.businessDaysOnly) {
-      // Move to previous business day if weekend
-      while (expirationDate.getDay() === 0 || expirationDate.getDay() === 6) {
-        expirationDate.setDate(expirationDate.getDate() - 1);
+    switch (rule.type) {
+      case 'before-day': {
+        const anchor = new Date(anchorYear, anchorMonth.getMonth(), rule.day);
+        const start = rule.rollAnchor ? rollToBusinessDay(rule.calendar, anchor, 'preceding') : anchor;
+        return addBusinessDays(rule.calendar, start, -rule.businessDays);
       }
+      case 'last-business-day':
+        return addBusinessDays(rule.calendar, getLastBusinessDay(rule.calendar, anchorYear, anchorMonth.getMonth()), -rule.businessDays);
+      case 'nth-business-day':
+        return getNthBusinessDay(rule.calendar, anchorYear, anchorMonth.getMonth(), rule.n);
     }
-    
-    return expirationDate;
+  }
+
+  /**
+   * Get the last trading day rule for a product
+   * 
+   * @param baseSymbol - Base commodity symbol (e.g., 'CL' or 'CL=F')
+   * @returns Product rule, or FUTURES_CONFIG.DEFAULT_EXPIRATION_RULE
+   */
+  static getExpirationRule(baseSymbol: string): ExpirationRule {
+    const rules: Record<string, ExpirationRule | undefined> = FUTURES_CONFIG.EXPIRATION_RULES;
+    return rules[baseSymbol.replace('=F', '')] || FUTURES_CONFIG.DEFAULT_EXPIRATION_RULE;
+  }
+
+  /**
+   * Get the exchange calendar a product's contracts expire on
+   * 
+   * @param baseSymbol - Base commodity symbol (e.g., 'CL' or 'CL=F')
+   * @returns Trading calendar
+   */
+  static getTradingCalendar(baseSymbol: string): TradingCalendarId {
+    return this.getExpirationRule(baseSymbol).calendar;
   }
 
   /**
@@ -258,9 +287,7 @@ export class FuturesMapper {
       for (const month of availableMonths) {
         const contractSymbol = this.buildContractSymbol(baseSymbol, month, year);
         const expirationDate = this.calculateExpirationDate(baseSymbol, month, year);
-        const daysToExpiration = Math.floor(
-          (expirationDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24)
-        );
+        const daysToExpiration = getCalendarDaysBetween(currentDate, expirationDate);
 
         // Skip if outside acceptable expiration range
         if (daysToExpiration < minDays || daysToExpiration > maxDays) {
@@ -295,8 +322,33 @@ export class FuturesMapper {
    * @returns Standard mappings for 3, 6, 12, 24 month horizons
    */
   static getStandardCrudeOilMappings(baseSymbol: string = 'CL=F'): ContractMapping[] {
+    return this.getStandardMappings(baseSymbol);
+  }
+
+  /**
+   * Get the contract months to use for a commodity's futures curve
+   * 
+   * @param baseSymbol - Base symbol (e.g., 'CL=F', 'GC=F', 'ZC=F')
+   * @returns Listed contract months, or quarterly months if none are listed
+   */
+  static getContractMonths(baseSymbol: string): string[] {
+    return [...(LISTED_CONTRACT_MONTHS[baseSymbol.replace('=F', '')] || QUARTERLY_CONTRACTS)];
+  }
+
+  /**
+   * Get standard forecast horizon mappings for any commodity
+   * 
+   * Uses the commodity's listed contract months when it has no monthly
+   * contracts, otherwise quarterly contracts for better liquidity.
+   * 
+   * @param baseSymbol - Base symbol (e.g., 'CL=F', 'GC=F', 'ZC=F')
+   * @returns Standard mappings for 3, 6, 12, 24 month horizons
+   */
+  static getStandardMappings(baseSymbol: string): ContractMapping[] {
+    const listedMonths = LISTED_CONTRACT_MONTHS[baseSymbol.replace('=F', '')];
+    
     return this.mapHorizonsToContracts(baseSymbol, [3, 6, 12, 24], {
-      quarterlyOnly: true, // Use quarterly contracts for better liquidity
+      ...(listedMonths ? { preferredMonths: [...listedMonths] } : { quarterlyOnly: true }),
       minDaysToExpiration: 30
     });
   }
@@ -320,7 +372,7 @@ export class FuturesMapper {
    * Get days until expiration for a contract
    * 
    * @param contractSymbol - Contract symbol
-   * @returns Days until expiration
+   * @returns Calendar days until the last trading day (0 on the day itself, negative once expired)
    */
   static getDaysToExpiration(contractSymbol: string): number {
     const parsed = this.parseContractSymbol(contractSymbol);
@@ -330,8 +382,7 @@ export class FuturesMapper {
       parsed.year
     );
     
-    const currentDate = new Date();
-    return Math.floor((expirationDate.getTime() - currentDate.getTime()) / (1000 * 60 * 60 * 24));
+    return getCalendarDaysBetween(new Date(), expirationDate);
   }
 }
 
@@ -4,7 +4,11 @@
  */
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
-import { ApiResponse } from '../types/yahoo-finance';
+import { ApiResponse, RateLimit } from '../types/yahoo-finance';
+import { RateLimiter } from './rate-limiter';
+import { CircuitBreakerRegistry, CircuitBreakerStatus, CircuitOpenError, CircuitState } from './circuit-breaker';
+import { RetryError, RetryOptions, withRetry } from './retry';
+import { createFixtureStore, FixtureHttpClient } from './fixtures';
 
 export interface YahooFinanceHttpClient {
   get<T>(url: string, config?: AxiosRequestConfig): Promise<T>;
@@ -13,15 +17,39 @@ export interface YahooFinanceHttpClient {
     ready: boolean;
     lastRequest?: Date;
     requestCount: number;
+    rateLimit?: RateLimit;
+    queuedRequests?: number;
+    circuitBreakers?: Record<string, CircuitBreakerStatus>;
   };
 }
 
+// HTTP status of a failed axios request (undefined for network errors and other failures)
+function getResponseStatus(error: unknown): number | undefined {
+  return axios.isAxiosError(error) ? error.response?.status : undefined;
+}
+
+// Network errors, 5xx and 429 indicate an outage; other 4xx are caller errors
+function isOutageError(error: unknown): boolean {
+  const status = getResponseStatus(error);
+  return status === undefined || status >= 500 || status === 429;
+}
+
 class SimpleHttpClient implements YahooFinanceHttpClient {
   private client: AxiosInstance;
+  private rateLimiter: RateLimiter;
+  private circuitBreakers: CircuitBreakerRegistry;
+  private retryOptions: RetryOptions;
   private requestCount = 0;
   private lastRequest?: Date;
 
-  constructor() {
+  constructor(
+    rateLimiter: RateLimiter = new RateLimiter(),
+    circuitBreakers: CircuitBreakerRegistry = new CircuitBreakerRegistry({ isFailure: isOutageError }),
+    retryOptions: RetryOptions = {}
+  ) {
+    this.rateLimiter = rateLimiter;
+    this.circuitBreakers = circuitBreakers;
+    this.retryOptions = retryOptions;
     this.client = axios.create({
       timeout: 10000,
       headers: {
@@ -32,68 +60,107 @@ class SimpleHttpClient implements YahooFinanceHttpClient {
   }
 
   async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+    const endpoint = `yahoo:${new URL(url).host}`;
+
     try {
-      this.requestCount++;
-      this.lastRequest = new Date();
-      
-      const response: AxiosResponse<T> = await this.client.get(url, config);
-      return response.data;
+      const { result } = await withRetry(() => this.request(endpoint, async () => {
+        const response: AxiosResponse<T> = await this.client.get(url, config);
+        return response.data;
+      }), this.retryOptions);
+      return result;
     } catch (error: any) {
-      console.error('HTTP request failed:', error.message);
       throw new Error(`HTTP request failed: ${error.message}`);
     }
   }
 
   async getChart<T>(symbol: string, interval?: string, range?: string): Promise<ApiResponse<T>> {
+    const baseUrl = 'https://query1.finance.yahoo.com/v8/finance/chart/';
+    const url = `${baseUrl}${symbol}`;
+    
+    // Build query parameters
+    const params: any = {};
+    if (interval) params.interval = interval;
+    if (range) params.range = range;
+
     try {
-      this.requestCount++;
-      this.lastRequest = new Date();
-      
-      const baseUrl = 'https://query1.finance.yahoo.com/v8/finance/chart/';
-      const url = `${baseUrl}${symbol}`;
-      
-      // Build query parameters
-      const params: any = {};
-      if (interval) params.interval = interval;
-      if (range) params.range = range;
-      
-      const response: AxiosResponse<T> = await this.client.get(url, { params });
+      const { result: response, attempts } = await withRetry(
+        () => this.request('yahoo:chart', () => this.client.get<T>(url, { params })),
+        this.retryOptions
+      );
       
       return {
         data: response.data,
         success: true,
         statusCode: response.status,
         timestamp: new Date().toISOString(),
-        fromCache: false
+        fromCache: false,
+        attempts
       };
-    } catch (error: any) {
-      console.error('Yahoo Finance API request failed:', error.message);
-      
+    } catch (error) {
+      const lastError: unknown = error instanceof RetryError ? error.lastError : error;
       return {
         data: null,
         success: false,
-        error: error.message,
-        statusCode: error.response?.status || 500,
+        error: error instanceof Error ? error.message : String(error),
+        statusCode: lastError instanceof CircuitOpenError ? 503 : getResponseStatus(lastError) || 500,
         timestamp: new Date().toISOString(),
-        fromCache: false
+        fromCache: false,
+        attempts: error instanceof RetryError ? error.attempts : 1,
+        retryable: error instanceof RetryError && error.retryable
       };
     }
   }
 
   getStatus() {
+    const rateLimit = this.rateLimiter.getStatus();
+    const circuitBreakers = this.circuitBreakers.getStatus();
+    const circuitOpen = Object.values(circuitBreakers).some(status => status.state === CircuitState.OPEN);
+
     return {
-      ready: true,
+      ready: !rateLimit.isLimited && !circuitOpen,
       lastRequest: this.lastRequest,
-      requestCount: this.requestCount
+      requestCount: this.requestCount,
+      rateLimit,
+      queuedRequests: this.rateLimiter.getQueueLength(),
+      circuitBreakers
     };
   }
+
+  // Single attempt: circuit breaker check, rate limit quota, then the request.
+  // Backs off for the cooldown period when Yahoo Finance rejects a request with 429
+  private request<R>(endpoint: string, send: () => Promise<R>): Promise<R> {
+    return this.circuitBreakers.get(endpoint).execute(async () => {
+      await this.rateLimiter.acquire();
+
+      this.requestCount++;
+      this.lastRequest = new Date();
+
+      try {
+        return await send();
+      } catch (error) {
+        if (getResponseStatus(error) === 429) {
+          this.rateLimiter.penalize();
+        }
+        throw error;
+      }
+    });
+  }
 }
 
 let httpClientInstance: YahooFinanceHttpClient | null = null;
 
+// Records or replays fixtures when FIXTURE_MODE is set (see ./fixtures)
 export function getHttpClient(): YahooFinanceHttpClient {
   if (!httpClientInstance) {
-    httpClientInstance = new SimpleHttpClient();
+    const fixtures = createFixtureStore();
+    if (!fixtures) {
+      httpClientInstance = new SimpleHttpClient();
+    } else {
+      httpClientInstance = new FixtureHttpClient(
+        fixtures,
+        fixtures.mode === 'record' ? new SimpleHttpClient() : undefined
+      );
+    }
   }
   return httpClientInstance;
 }
@@ -0,0 +1,45 @@
+/**
+ * Logger Utility
+ *
+ * Minimal logging interface injected into services so the library can be
+ * embedded without writing to stdout. Services default to the silent logger;
+ * the application and CLI pass the console logger (or their own).
+ *
+ * @author Logger Module
+ * @version 1.0.0
+ */
+
+/**
+ * Logger interface (compatible with the global console)
+ */
+export interface Logger {
+  log(...args: unknown[]): void;
+  info(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+/**
+ * Logger writing to the global console
+ */
+export const consoleLogger: Logger = console;
+
+/**
+ * Logger discarding all output
+ */
+export const silentLogger: Logger = {
+  log: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
+
+/**
+ * Logger writing all output to stderr (keeps stdout free for piped results)
+ */
+export const stderrLogger: Logger = {
+  log: (...args) => console.error(...args),
+  info: (...args) => console.error(...args),
+  warn: (...args) => console.error(...args),
+  error: (...args) => console.error(...args)
+};
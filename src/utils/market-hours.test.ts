@@ -0,0 +1,78 @@
+import { getMarketStatusAt, getTradingSessions } from './market-hours';
+
+// US daylight saving time in 2026: starts Sunday March 8, ends Sunday November 1
+describe('market hours', () => {
+  it('opens NYMEX at 09:00 New York time on both sides of the spring DST switch', () => {
+    const friday = getMarketStatusAt('NYMEX', new Date('2026-03-06T14:30:00Z'));
+    expect(friday.status).toBe('OPEN');
+    expect(friday.nextClose).toBe('2026-03-06T22:00:00.000Z');
+
+    // 09:30 EDT on Monday is 13:30Z; the same UTC time on Friday was 08:30 EST
+    const monday = getMarketStatusAt('NYMEX', new Date('2026-03-09T13:30:00Z'));
+    expect(monday.status).toBe('OPEN');
+    expect(monday.nextClose).toBe('2026-03-09T21:00:00.000Z');
+    expect(getMarketStatusAt('NYMEX', new Date('2026-03-06T13:30:00Z')).status).toBe('PRE_MARKET');
+  });
+
+  it('stays closed over the weekend until the Sunday evening session', () => {
+    const saturday = getMarketStatusAt('NYMEX', new Date('2026-03-07T15:00:00Z'));
+    expect(saturday.status).toBe('CLOSED');
+    expect(saturday.nextOpen).toBe('2026-03-09T13:00:00.000Z');
+    expect(saturday.extendedSession).toEqual({ open: '2026-03-08T22:00:00.000Z', close: '2026-03-09T21:00:00.000Z' });
+    expect(saturday.holiday).toBeUndefined();
+
+    expect(getMarketStatusAt('NYMEX', new Date('2026-03-08T21:30:00Z')).status).toBe('CLOSED');
+    expect(getMarketStatusAt('NYMEX', new Date('2026-03-08T22:30:00Z')).status).toBe('PRE_MARKET');
+  });
+
+  it('closes NYMEX for the daily maintenance break', () => {
+    // 17:30 EDT: between the 17:00 close and the 18:00 electronic reopen
+    const inBreak = getMarketStatusAt('NYMEX', new Date('2026-03-10T21:30:00Z'));
+    expect(inBreak.status).toBe('CLOSED');
+    expect(inBreak.extendedSession!.open).toBe('2026-03-10T22:00:00.000Z');
+    expect(inBreak.nextOpen).toBe('2026-03-11T13:00:00.000Z');
+
+    expect(getMarketStatusAt('NYMEX', new Date('2026-03-10T22:00:00Z')).status).toBe('PRE_MARKET');
+  });
+
+  it('shifts session times back an hour in UTC after the autumn DST switch', () => {
+    const saturday = getMarketStatusAt('NYMEX', new Date('2026-10-31T12:00:00Z'));
+    expect(saturday.nextOpen).toBe('2026-11-02T14:00:00.000Z');
+    expect(saturday.extendedSession!.open).toBe('2026-11-01T23:00:00.000Z');
+
+    expect(getTradingSessions('NYMEX', 2026, 9, 30)!.regular.open.toISOString()).toBe('2026-10-30T13:00:00.000Z');
+  });
+
+  it('closes for exchange holidays and names them', () => {
+    const thanksgiving = getMarketStatusAt('NYMEX', new Date('2026-11-26T15:00:00Z'));
+    expect(thanksgiving.status).toBe('CLOSED');
+    expect(thanksgiving.holiday).toBe('Thanksgiving Day');
+    expect(thanksgiving.nextOpen).toBe('2026-11-27T14:00:00.000Z');
+  });
+
+  it('reports post-market trading after the ICE regular session', () => {
+    // 15:00 EDT: regular session closed at 14:00, electronic runs to 18:00
+    expect(getMarketStatusAt('ICE', new Date('2026-03-10T19:00:00Z')).status).toBe('POST_MARKET');
+  });
+
+  it('follows the UK DST switch for ICE Futures Europe', () => {
+    // British Summer Time starts Sunday March 29, 2026
+    expect(getTradingSessions('ICE_EUROPE', 2026, 2, 27)!.regular.open.toISOString()).toBe('2026-03-27T01:00:00.000Z');
+    expect(getTradingSessions('ICE_EUROPE', 2026, 2, 30)!.regular.open.toISOString()).toBe('2026-03-30T00:00:00.000Z');
+  });
+
+  it('builds trading sessions, opening Monday on Sunday evening', () => {
+    expect(getTradingSessions('NYMEX', 2026, 2, 7)).toBeNull();
+    expect(getTradingSessions('NYMEX', 2026, 10, 26)).toBeNull();
+
+    const monday = getTradingSessions('NYMEX', 2026, 2, 9)!;
+    expect(monday.tradingDay).toBe('2026-03-09');
+    expect(monday.electronic.open.toISOString()).toBe('2026-03-08T22:00:00.000Z');
+    expect(monday.electronic.close.toISOString()).toBe('2026-03-09T21:00:00.000Z');
+
+    // Day-only CME sessions have no overnight electronic session
+    const livestock = getTradingSessions('CME', 2026, 2, 10)!;
+    expect(livestock.electronic).toEqual(livestock.regular);
+    expect(livestock.regular.open.toISOString()).toBe('2026-03-10T13:30:00.000Z');
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Market Hours Utility
+ *
+ * Exchange session status from MARKET_HOURS and the exchange trading
+ * calendars. Session times are converted from the exchange timezone with
+ * Intl, so daylight saving changes are handled per exchange. For each
+ * trading day (a business day on the exchange calendar):
+ * - OPEN: inside the regular session
+ * - PRE_MARKET / POST_MARKET: inside the electronic session, before or after
+ *   the regular session
+ * - CLOSED: the maintenance break, weekends and exchange holidays
+ *
+ * Holidays close the exchange for the whole trading day; abbreviated holiday
+ * sessions are not modeled.
+ *
+ * @author Market Hours Module
+ * @version 1.0.0
+ */
+
+import { MARKET_HOURS } from '../config/yahoo-finance';
+import { MarketStatus } from '../types/yahoo-finance';
+import { TradingCalendarId, getExchangeHoliday, isBusinessDay } from './trading-calendar';
+
+/**
+ * Markets with configured hours (one per trading calendar)
+ */
+export type MarketHoursKey = keyof typeof MARKET_HOURS & TradingCalendarId;
+
+/**
+ * Sessions of one trading day
+ */
+export interface TradingSessions {
+  /** Exchange date the sessions close on (YYYY-MM-DD) */
+  tradingDay: string;
+  regular: { open: Date; close: Date };
+  electronic: { open: Date; close: Date };
+}
+
+/**
+ * Yahoo Finance exchange codes by market
+ */
+export const YAHOO_EXCHANGE_CODES: Record<string, MarketHoursKey> = {
+  NYM: 'NYMEX',
+  CMX: 'COMEX',
+  CBT: 'CBOT',
+  CME: 'CME',
+  NYB: 'ICE',
+  IPE: 'ICE_EUROPE'
+};
+
+/** Trading days searched for the next session (covers long holiday weekends) */
+const SEARCH_DAYS = 10;
+
+/**
+ * Market status at an instant
+ *
+ * @param market - Market with configured hours
+ * @param now - Instant to evaluate (default: now)
+ * @returns Market status with the next open and close
+ */
+export function getMarketStatusAt(market: MarketHoursKey, now: Date = new Date()): MarketStatus {
+  const hours = MARKET_HOURS[market];
+  const today = getZonedParts(now, hours.timezone);
+
+  // Overnight sessions that open this evening belong to tomorrow's trading day
+  const sessions: TradingSessions[] = [];
+  for (let offset = -1; offset <= SEARCH_DAYS; offset++) {
+    const day = getTradingSessions(market, today.year, today.month, today.day + offset);
+    if (day) {
+      sessions.push(day);
+    }
+  }
+
+  const time = now.getTime();
+  const within = (window: { open: Date; close: Date }): boolean => window.open.getTime() <= time && time < window.close.getTime();
+  const current = sessions.find(day => within(day.regular) || within(day.electronic));
+
+  let status: MarketStatus['status'] = 'CLOSED';
+  if (current && within(current.regular)) {
+    status = 'OPEN';
+  } else if (current) {
+    status = time < current.regular.open.getTime() ? 'PRE_MARKET' : 'POST_MARKET';
+  }
+
+  const nextOpen = sessions.find(day => day.regular.open.getTime() > time);
+  const nextClose = sessions.find(day => day.regular.close.getTime() > time);
+  const extendedSession = sessions.find(day => day.electronic.close.getTime() > time);
+  const holiday = getExchangeHoliday(market, new Date(today.year, today.month, today.day));
+
+  return {
+    market,
+    status,
+    ...(nextOpen && { nextOpen: nextOpen.regular.open.toISOString() }),
+    ...(nextClose && { nextClose: nextClose.regular.close.toISOString() }),
+    timezone: hours.timezone,
+    extendedHours: hours.electronic.open !== hours.regular.open || hours.electronic.close !== hours.regular.close,
+    ...(extendedSession && {
+      extendedSession: {
+        open: extendedSession.electronic.open.toISOString(),
+        close: extendedSession.electronic.close.toISOString()
+      }
+    }),
+    ...(holiday && { holiday: holiday.name })
+  };
+}
+
+/**
+ * Sessions closing on an exchange date
+ *
+ * @param market - Market with configured hours
+ * @param year - Exchange-local year
+ * @param month - Exchange-local month (0-11)
+ * @param day - Exchange-local day of month (may overflow, like Date)
+ * @returns Sessions, or null when the date is not a business day
+ */
+export function getTradingSessions(market: MarketHoursKey, year: number, month: number, day: number): TradingSessions | null {
+  const hours = MARKET_HOURS[market];
+  const date = new Date(year, month, day);
+  if (!isBusinessDay(market, date)) {
+    return null;
+  }
+
+  const [y, m, d] = [date.getFullYear(), date.getMonth(), date.getDate()];
+  const at = (dayOffset: number, clock: string): Date => {
+    const { minutes, nextDay } = parseSessionTime(clock);
+    return zonedTimeToInstant(y, m, d + dayOffset + (nextDay ? 1 : 0), minutes, hours.timezone);
+  };
+
+  // '+1' closes mean the session opened the evening before; Monday's opens on Sunday
+  const overnight = parseSessionTime(hours.electronic.close).nextDay;
+  const afterSunday = new Date(y, m, d - 1).getDay() === 0;
+  const electronicOpen = afterSunday && hours.sunday
+    ? at(-1, hours.sunday.open)
+    : at(overnight ? -1 : 0, hours.electronic.open);
+
+  return {
+    tradingDay: `${y}-${String(m + 1).padStart(2, '0')}-${String(d).padStart(2, '0')}`,
+    regular: { open: at(0, hours.regular.open), close: at(0, hours.regular.close) },
+    electronic: { open: electronicOpen, close: at(overnight ? -1 : 0, hours.electronic.close) }
+  };
+}
+
+/**
+ * Parse 'HH:MM' or 'HH:MM+1' into minutes after midnight
+ */
+function parseSessionTime(clock: string): { minutes: number; nextDay: boolean } {
+  const match = clock.match(/^(\d{2}):(\d{2})(\+1)?$/);
+  if (!match) {
+    throw new Error(`Invalid session time: ${clock}`);
+  }
+  return { minutes: parseInt(match[1]!, 10) * 60 + parseInt(match[2]!, 10), nextDay: match[3] !== undefined };
+}
+
+/**
+ * Calendar date and time of an instant in a timezone
+ */
+function getZonedParts(instant: Date, timeZone: string): { year: number; month: number; day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric'
+  }).formatToParts(instant);
+  const part = (type: Intl.DateTimeFormatPartTypes): number => parseInt(parts.find(p => p.type === type)!.value, 10);
+
+  return { year: part('year'), month: part('month') - 1, day: part('day'), minutes: part('hour') * 60 + part('minute') };
+}
+
+/**
+ * Instant of a wall-clock time in a timezone
+ */
+function zonedTimeToInstant(year: number, month: number, day: number, minutes: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month, day, 0, minutes);
+  const offsetAt = (instant: number): number => {
+    const parts = getZonedParts(new Date(instant), timeZone);
+    return Date.UTC(parts.year, parts.month, parts.day, 0, parts.minutes) - Math.floor(instant / 60000) * 60000;
+  };
+
+  // Re-check the offset at the first guess so times just after a DST change resolve correctly
+  const guess = wallClock - offsetAt(wallClock);
+  return new Date(wallClock - offsetAt(guess));
+}
@@ -0,0 +1,91 @@
+import { createSeededRandom, estimateAnnualVolatility, getPercentile, simulatePricePaths } from './monte-carlo';
+import { HistoricalData } from '../types/yahoo-finance';
+
+describe('Monte Carlo simulation', () => {
+  const horizons = [
+    { key: '3-month', months: 3, forwardPrice: 102 },
+    { key: '12-month', months: 12, forwardPrice: 105 }
+  ];
+
+  it('reproduces the same distribution for a seed', () => {
+    const result = simulatePricePaths({ spotPrice: 100, annualVolatility: 0.3, paths: 2000, seed: 7, horizons, thresholds: [120] });
+
+    expect(result.horizons.map(horizon => horizon.key)).toEqual(['3-month', '12-month']);
+    expect(result.horizons[0]!.mean).toBe(102.25);
+    expect(result.horizons[0]!.percentiles).toEqual([
+      { percentile: 5, price: 78.77 },
+      { percentile: 25, price: 91.52 },
+      { percentile: 50, price: 101.28 },
+      { percentile: 75, price: 111.93 },
+      { percentile: 95, price: 128.97 }
+    ]);
+    expect(result.horizons[1]!.mean).toBe(104.66);
+    expect(result.horizons[1]!.thresholds).toEqual([{ threshold: 120, probabilityAbove: 0.276, probabilityTouch: 0.5355 }]);
+
+    const rerun = simulatePricePaths({ spotPrice: 100, annualVolatility: 0.3, paths: 2000, seed: 7, horizons, thresholds: [120] });
+    expect(rerun).toEqual(result);
+  });
+
+  it('centres paths on the forward with lognormal percentiles', () => {
+    const [horizon] = simulatePricePaths({
+      spotPrice: 100,
+      annualVolatility: 0.3,
+      paths: 20000,
+      horizons: [{ key: '12-month', months: 12, forwardPrice: 105 }]
+    }).horizons;
+
+    // Percentiles of F·exp(-σ²T/2 + zσ√T) for z at 5/25/50/75/95%
+    const expected = [-1.6449, -0.6745, 0, 0.6745, 1.6449].map(z => 105 * Math.exp(-0.045 + z * 0.3));
+    expect(Math.abs(horizon!.mean / 105 - 1)).toBeLessThan(0.015);
+    horizon!.percentiles.forEach((band, i) => {
+      expect(Math.abs(band.price / expected[i]! - 1)).toBeLessThan(0.015);
+    });
+  });
+
+  it('lands every path on the forward without volatility', () => {
+    const result = simulatePricePaths({ spotPrice: 100, annualVolatility: 0, paths: 10, horizons, thresholds: [101, 110] });
+
+    expect(result.horizons[1]!.mean).toBe(105);
+    expect(result.horizons[1]!.percentiles.every(band => band.price === 105)).toBe(true);
+    expect(result.horizons[1]!.thresholds).toEqual([
+      { threshold: 101, probabilityAbove: 1, probabilityTouch: 1 },
+      { threshold: 110, probabilityAbove: 0, probabilityTouch: 0 }
+    ]);
+  });
+
+  it('rejects invalid options', () => {
+    expect(() => simulatePricePaths({ spotPrice: 0, annualVolatility: 0.3, horizons })).toThrow(/must be positive/);
+    expect(() => simulatePricePaths({ spotPrice: 100, annualVolatility: 0.3, paths: 0, horizons })).toThrow(/Paths must be/);
+    expect(() => simulatePricePaths({ spotPrice: 100, annualVolatility: 0.3, horizons, shocks: 'student-t', degreesOfFreedom: 2 })).toThrow(/degrees of freedom/);
+  });
+
+  it('interpolates percentiles linearly', () => {
+    expect(getPercentile([1, 2, 3, 4], 50)).toBe(2.5);
+    expect(getPercentile([1, 2, 3, 4], 0)).toBe(1);
+    expect(getPercentile([1, 2, 3, 4], 100)).toBe(4);
+  });
+
+  it('generates uniform numbers in [0, 1) from a seed', () => {
+    const first = createSeededRandom(1);
+    const second = createSeededRandom(1);
+    const draws = Array.from({ length: 1000 }, () => first());
+
+    expect(draws.every(value => value >= 0 && value < 1)).toBe(true);
+    expect(draws.slice(0, 5)).toEqual(Array.from({ length: 5 }, () => second()));
+    expect(draws.reduce((sum, value) => sum + value, 0) / draws.length).toBeCloseTo(0.5, 1);
+  });
+
+  it('annualizes the volatility of daily log returns', () => {
+    // Alternating ±1% daily returns: sample σ ≈ 0.01 per day
+    const closes = Array.from({ length: 101 }, (_, i) => 100 * Math.exp(i % 2 === 0 ? 0 : 0.01));
+    const history = {
+      symbol: 'TEST',
+      interval: '1d',
+      prices: closes.map(close => ({ close }))
+    } as HistoricalData;
+
+    const sigma = Math.sqrt((100 * 0.0001) / 99);
+    expect(estimateAnnualVolatility(history)).toBeCloseTo(sigma * Math.sqrt(252), 6);
+    expect(estimateAnnualVolatility({ ...history, interval: '1h' })).toBeNull();
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Price History Store Utility
+ *
+ * Local time-series storage for OHLCV HistoricalPricePoint rows. Each
+ * symbol and interval is kept in its own JSONL file (one bar per line,
+ * ordered by timestamp) under PRICE_HISTORY_CONFIG.DIRECTORY, e.g.
+ * data/history/GC=F/1d.jsonl. Writing a bar that already exists replaces
+ * it: bars are keyed by timestamp, or by date for daily and longer
+ * intervals (Yahoo Finance stamps the current day's bar with the latest
+ * trade time). Files are rewritten through a temporary file and rename so
+ * readers never see partial series.
+ *
+ * @author Price History Store Module
+ * @version 1.0.0
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { PRICE_HISTORY_CONFIG, TIME_CONFIG, TimeInterval } from '../config/yahoo-finance';
+import { HistoricalPricePoint } from '../types/yahoo-finance';
+
+/**
+ * Stored series identifier
+ */
+export interface PriceSeriesId {
+  /** Yahoo Finance symbol */
+  symbol: string;
+  /** Bar interval (e.g., '1d') */
+  interval: string;
+}
+
+/**
+ * Date range for history queries (inclusive)
+ */
+export interface PriceHistoryRange {
+  /** Earliest bar (Date, ISO string or Unix timestamp in seconds) */
+  from?: Date | string | number;
+  /** Latest bar (Date, ISO string or Unix timestamp in seconds) */
+  to?: Date | string | number;
+}
+
+/**
+ * Outcome of writing bars to a series
+ */
+export interface PriceHistoryWriteResult {
+  /** Bars not stored before */
+  added: number;
+  /** Existing bars replaced */
+  updated: number;
+  /** Bars in the series after the write */
+  total: number;
+}
+
+/**
+ * Convert a range bound to a Unix timestamp in seconds
+ *
+ * @param value - Date, ISO date string or Unix timestamp (seconds)
+ * @returns Unix timestamp in seconds
+ * @throws Error when the value is not a valid date
+ */
+export function toUnixTimestamp(value: Date | string | number): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const time = value instanceof Date ? value.getTime() : Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return Math.floor(time / 1000);
+}
+
+/**
+ * JSONL price history store
+ */
+export class PriceHistoryStore {
+  private directory: string;
+  // Writes to the same series are serialized to avoid lost updates
+  private writeQueues = new Map<string, Promise<unknown>>();
+
+  constructor(directory: string = PRICE_HISTORY_CONFIG.DIRECTORY) {
+    this.directory = path.resolve(directory);
+  }
+
+  /**
+   * Read every stored bar of a series
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param interval - Bar interval
+   * @returns Promise resolving to bars ordered by timestamp (empty if none stored)
+   */
+  async read(symbol: string, interval: string): Promise<HistoricalPricePoint[]> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.getFilePath(symbol, interval), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    return contents
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => JSON.parse(line) as HistoricalPricePoint);
+  }
+
+  /**
+   * Query stored bars within a date range
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param interval - Bar interval
+   * @param range - Inclusive date range (default: everything)
+   * @returns Promise resolving to matching bars ordered by timestamp
+   */
+  async query(symbol: string, interval: string, range: PriceHistoryRange = {}): Promise<HistoricalPricePoint[]> {
+    const from = range.from !== undefined ? toUnixTimestamp(range.from) : -Infinity;
+    const to = range.to !== undefined ? toUnixTimestamp(range.to) : Infinity;
+
+    const prices = await this.read(symbol, interval);
+    return prices.filter(point => point.timestamp >= from && point.timestamp <= to);
+  }
+
+  /**
+   * Get the newest stored bar
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param interval - Bar interval
+   * @returns Promise resolving to the last bar, or null if the series is empty
+   */
+  async getLatest(symbol: string, interval: string): Promise<HistoricalPricePoint | null> {
+    const prices = await this.read(symbol, interval);
+    return prices[prices.length - 1] ?? null;
+  }
+
+  /**
+   * Insert or replace bars, keeping the series ordered by timestamp
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param interval - Bar interval
+   * @param points - Bars to write
+   * @returns Promise resolving to the number of bars added and replaced
+   */
+  write(symbol: string, interval: string, points: HistoricalPricePoint[]): Promise<PriceHistoryWriteResult> {
+    const file = this.getFilePath(symbol, interval);
+    const previous = this.writeQueues.get(file) || Promise.resolve();
+    const next = previous.catch((): void => undefined).then(() => this.merge(file, symbol, interval, points));
+
+    this.writeQueues.set(file, next);
+    return next.finally(() => {
+      if (this.writeQueues.get(file) === next) {
+        this.writeQueues.delete(file);
+      }
+    });
+  }
+
+  /**
+   * Delete a stored series
+   *
+   * @param symbol - Yahoo Finance symbol
+   * @param interval - Bar interval
+   */
+  async delete(symbol: string, interval: string): Promise<void> {
+    try {
+      await fs.unlink(this.getFilePath(symbol, interval));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * List stored series
+   *
+   * @returns Promise resolving to every stored symbol and interval
+   */
+  async list(): Promise<PriceSeriesId[]> {
+    const series: PriceSeriesId[] = [];
+
+    let symbols: string[];
+    try {
+      symbols = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return series;
+      }
+      throw error;
+    }
+
+    for (const symbol of symbols) {
+      const files = await fs.readdir(path.join(this.directory, symbol)).catch((): string[] => []);
+      files
+        .filter(file => file.endsWith('.jsonl'))
+        .forEach(file => series.push({ symbol, interval: file.slice(0, -'.jsonl'.length) }));
+    }
+
+    return series;
+  }
+
+  /**
+   * Merge bars into a series file
+   */
+  private async merge(
+    file: string,
+    symbol: string,
+    interval: string,
+    points: HistoricalPricePoint[]
+  ): Promise<PriceHistoryWriteResult> {
+    const keyByDate = (TIME_CONFIG.INTERVALS[interval as TimeInterval]?.seconds ?? 0) >= 24 * 60 * 60;
+    const getKey = (point: HistoricalPricePoint): string | number => (keyByDate ? point.date : point.timestamp);
+
+    const existing = await this.read(symbol, interval);
+    const bars = new Map(existing.map(point => [getKey(point), point]));
+    let added = 0;
+    let updated = 0;
+
+    points.forEach(point => {
+      if (bars.has(getKey(point))) {
+        updated++;
+      } else {
+        added++;
+      }
+      bars.set(getKey(point), point);
+    });
+
+    const merged = Array.from(bars.values()).sort((a, b) => a.timestamp - b.timestamp);
+    const tempFile = `${file}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(tempFile, merged.map(point => JSON.stringify(point)).join('\n') + '\n', 'utf8');
+    await fs.rename(tempFile, file);
+
+    return { added, updated, total: merged.length };
+  }
+
+  /**
+   * Map a series to its file path (symbols are made filesystem-safe)
+   */
+  private getFilePath(symbol: string, interval: string): string {
+    const safe = (value: string) => value.replace(/[^A-Za-z0-9._=-]/g, '_');
+    return path.join(this.directory, safe(symbol.toUpperCase()), `${safe(interval)}.jsonl`);
+  }
+}
+
+/**
+ * Create a new PriceHistoryStore instance
+ *
+ * @param directory - Storage directory (default: PRICE_HISTORY_CONFIG.DIRECTORY)
+ * @returns PriceHistoryStore instance
+ */
+export function createPriceHistoryStore(directory?: string): PriceHistoryStore {
+  return new PriceHistoryStore(directory);
+}
@@ -0,0 +1,211 @@
+/**
+ * Rate Limiter Utility
+ *
+ * Token-bucket rate limiter enforcing RATE_LIMIT_CONFIG: a burst bucket
+ * refilled at the per-minute rate, fixed per-minute, per-hour and per-day
+ * windows, and a cooldown after the upstream API answers 429. Requests
+ * wait in a FIFO queue until every limit allows them.
+ *
+ * @author Rate Limiter Module
+ * @version 1.0.0
+ */
+
+import { RATE_LIMIT_CONFIG } from '../config/yahoo-finance';
+import { RateLimit } from '../types/yahoo-finance';
+
+/**
+ * Rate limiter options (defaults from RATE_LIMIT_CONFIG)
+ */
+export interface RateLimiterOptions {
+  /** Maximum requests per minute */
+  requestsPerMinute?: number;
+  /** Maximum requests per hour */
+  requestsPerHour?: number;
+  /** Maximum requests per day */
+  requestsPerDay?: number;
+  /** Maximum requests in a rapid burst */
+  burstLimit?: number;
+  /** Back-off period after a 429 response (milliseconds) */
+  cooldownPeriod?: number;
+  /** Enable rate limiting */
+  enabled?: boolean;
+}
+
+/**
+ * Fixed rate limit window
+ */
+interface RateLimitWindow {
+  limit: number;
+  duration: number;
+  count: number;
+  resetTime: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Token-bucket rate limiter with per-minute, per-hour and per-day windows
+ */
+export class RateLimiter {
+  private enabled: boolean;
+  private burstLimit: number;
+  private refillRate: number;
+  private cooldownPeriod: number;
+  private tokens: number;
+  private lastRefill: number;
+  private cooldownUntil = 0;
+  private windows: { minute: RateLimitWindow; hour: RateLimitWindow; day: RateLimitWindow };
+  private queue: Array<() => void> = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: RateLimiterOptions = {}) {
+    const requestsPerMinute = options.requestsPerMinute ?? RATE_LIMIT_CONFIG.REQUESTS_PER_MINUTE;
+
+    this.enabled = options.enabled ?? RATE_LIMIT_CONFIG.ENABLED;
+    this.burstLimit = options.burstLimit ?? RATE_LIMIT_CONFIG.BURST_LIMIT;
+    this.refillRate = requestsPerMinute / MINUTE_MS;
+    this.cooldownPeriod = options.cooldownPeriod ?? RATE_LIMIT_CONFIG.COOLDOWN_PERIOD;
+    this.tokens = this.burstLimit;
+    this.lastRefill = Date.now();
+    this.windows = {
+      minute: this.createWindow(requestsPerMinute, MINUTE_MS),
+      hour: this.createWindow(options.requestsPerHour ?? RATE_LIMIT_CONFIG.REQUESTS_PER_HOUR, HOUR_MS),
+      day: this.createWindow(options.requestsPerDay ?? RATE_LIMIT_CONFIG.REQUESTS_PER_DAY, DAY_MS)
+    };
+  }
+
+  /**
+   * Wait until a request is allowed, then consume one token
+   *
+   * @returns Promise resolving when the request may proceed
+   */
+  acquire(): Promise<void> {
+    if (!this.enabled) {
+      return Promise.resolve();
+    }
+
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.processQueue();
+    });
+  }
+
+  /**
+   * Back off after the upstream API rejected a request with 429
+   *
+   * @param duration - Cooldown in milliseconds (default: COOLDOWN_PERIOD)
+   */
+  penalize(duration: number = this.cooldownPeriod): void {
+    this.cooldownUntil = Math.max(this.cooldownUntil, Date.now() + duration);
+  }
+
+  /**
+   * Get live quota for the hourly window
+   *
+   * @returns Current rate limit status
+   */
+  getStatus(): RateLimit {
+    const now = Date.now();
+    this.resetExpiredWindows(now);
+    const { hour } = this.windows;
+
+    return {
+      requestsPerHour: hour.limit,
+      remaining: Math.max(0, hour.limit - hour.count),
+      resetTime: Math.floor(hour.resetTime / 1000),
+      isLimited: this.enabled && this.getWaitTime(now) > 0
+    };
+  }
+
+  /**
+   * Get the number of requests waiting for quota
+   *
+   * @returns Queue length
+   */
+  getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Create a fixed window starting now
+   */
+  private createWindow(limit: number, duration: number): RateLimitWindow {
+    return { limit, duration, count: 0, resetTime: Date.now() + duration };
+  }
+
+  /**
+   * Start new windows for any that have expired
+   */
+  private resetExpiredWindows(now: number): void {
+    Object.values(this.windows).forEach(window => {
+      if (now >= window.resetTime) {
+        window.count = 0;
+        window.resetTime = now + window.duration;
+      }
+    });
+  }
+
+  /**
+   * Refill the burst bucket for the elapsed time
+   */
+  private refillTokens(now: number): void {
+    this.tokens = Math.min(this.burstLimit, this.tokens + (now - this.lastRefill) * this.refillRate);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Milliseconds until the next request is allowed (0 if allowed now)
+   */
+  private getWaitTime(now: number): number {
+    this.refillTokens(now);
+    this.resetExpiredWindows(now);
+
+    const waits = [
+      this.cooldownUntil - now,
+      this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillRate),
+      ...Object.values(this.windows).map(window => (window.count >= window.limit ? window.resetTime - now : 0))
+    ];
+
+    return Math.max(0, ...waits);
+  }
+
+  /**
+   * Release queued requests as quota allows, scheduling the next check
+   */
+  private processQueue(): void {
+    if (this.timer) {
+      return;
+    }
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      const wait = this.getWaitTime(now);
+
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.processQueue();
+        }, wait);
+        return;
+      }
+
+      this.tokens -= 1;
+      Object.values(this.windows).forEach(window => {
+        window.count += 1;
+      });
+      this.queue.shift()!();
+    }
+  }
+}
+
+/**
+ * Create a new RateLimiter instance
+ *
+ * @param options - Rate limits (defaults from RATE_LIMIT_CONFIG)
+ * @returns RateLimiter instance
+ */
+export function createRateLimiter(options: RateLimiterOptions = {}): RateLimiter {
+  return new RateLimiter(options);
+}
@@ -0,0 +1,255 @@
+/**
+ * Retry Utility
+ *
+ * Shared retry policy driven by RETRY_CONFIG, used by the HTTP client and
+ * WebSearchService. Failures are classified as retryable by HTTP status
+ * (RETRYABLE_STATUS_CODES), network error type (RETRYABLE_ERRORS) or an
+ * explicit `retryable` flag (e.g., YahooFinanceServiceException); only
+ * retryable failures are retried, with jittered exponential backoff that
+ * honours Retry-After headers. Attempt counts are reported on the result.
+ *
+ * @author Retry Module
+ * @version 1.0.0
+ */
+
+import { RETRY_CONFIG } from '../config/yahoo-finance';
+import { CircuitOpenError } from './circuit-breaker';
+
+/**
+ * Retryable error types from RETRY_CONFIG.RETRYABLE_ERRORS
+ */
+export type RetryableErrorType = typeof RETRY_CONFIG.RETRYABLE_ERRORS[number];
+
+/**
+ * Retry policy options (defaults from RETRY_CONFIG)
+ */
+export interface RetryOptions {
+  /** Total attempts including the first (default: MAX_RETRIES + 1) */
+  maxAttempts?: number;
+  /** Base delay between retries (milliseconds) */
+  baseDelay?: number;
+  /** Maximum backoff delay (milliseconds; Retry-After may exceed it) */
+  maxDelay?: number;
+  /** Exponential backoff multiplier */
+  backoffMultiplier?: number;
+  /** Randomize delays to prevent thundering herd */
+  enableJitter?: boolean;
+  /** Called before waiting for the next attempt */
+  onRetry?: (error: unknown, attempt: number, delay: number) => void;
+}
+
+/**
+ * Failure classification
+ */
+export interface ErrorClassification {
+  /** Whether the failure may succeed on retry */
+  retryable: boolean;
+  /** HTTP status code, if any */
+  statusCode?: number;
+  /** Network error type, if any */
+  errorType?: RetryableErrorType;
+  /** Delay requested by a Retry-After header (milliseconds) */
+  retryAfter?: number;
+}
+
+/**
+ * Successful retry outcome
+ */
+export interface RetryResult<T> {
+  /** Operation result */
+  result: T;
+  /** Number of attempts made */
+  attempts: number;
+}
+
+/**
+ * Error for a transient failure that should be retried (e.g., timeouts, empty replies)
+ */
+export class TransientError extends Error {
+  public readonly retryable = true;
+  public readonly errorType: RetryableErrorType | undefined;
+
+  constructor(message: string, errorType?: RetryableErrorType) {
+    super(message);
+    this.name = 'TransientError';
+    this.errorType = errorType;
+  }
+}
+
+/**
+ * Error thrown when an operation fails after its final attempt
+ */
+export class RetryError extends Error {
+  public readonly attempts: number;
+  public readonly retryable: boolean;
+  public readonly lastError: unknown;
+
+  constructor(lastError: unknown, attempts: number, retryable: boolean) {
+    super(lastError instanceof Error ? lastError.message : String(lastError));
+    this.name = 'RetryError';
+    this.attempts = attempts;
+    this.retryable = retryable;
+    this.lastError = lastError;
+  }
+}
+
+/**
+ * Node.js and axios error codes mapped to retryable error types
+ */
+const ERROR_CODE_TYPES: Record<string, RetryableErrorType> = {
+  ECONNABORTED: 'TIMEOUT',
+  ETIMEDOUT: 'TIMEOUT',
+  ESOCKETTIMEDOUT: 'TIMEOUT',
+  ENOTFOUND: 'DNS_ERROR',
+  EAI_AGAIN: 'DNS_ERROR',
+  ECONNRESET: 'CONNECTION_RESET',
+  EPIPE: 'CONNECTION_RESET',
+  ECONNREFUSED: 'NETWORK_ERROR',
+  ENETUNREACH: 'NETWORK_ERROR',
+  EHOSTUNREACH: 'NETWORK_ERROR',
+  ERR_NETWORK: 'NETWORK_ERROR'
+};
+
+/**
+ * Read a property of an unknown value (undefined for non-objects and missing keys)
+ */
+function getProperty(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null && key in value
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * Read a header from axios (plain object) or fetch-style (Headers) headers
+ */
+function getHeader(headers: unknown, name: string): string | undefined {
+  const value = headers instanceof Headers
+    ? headers.get(name)
+    : getProperty(headers, name) ?? getProperty(headers, name.toLowerCase());
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+/**
+ * Map an error code to its retryable error type
+ */
+function getCodeErrorType(code: unknown): RetryableErrorType | undefined {
+  return typeof code === 'string' ? ERROR_CODE_TYPES[code] : undefined;
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ *
+ * @param value - Header value
+ * @returns Delay in milliseconds, or undefined if invalid
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify a failure as retryable or not
+ *
+ * Handles axios errors (error.response), OpenAI SDK errors (error.status,
+ * error.headers), Node.js network errors (error.code) and errors carrying an
+ * explicit `retryable` flag. An open circuit is never retried.
+ *
+ * @param error - Caught error
+ * @returns Failure classification
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  if (error instanceof CircuitOpenError) {
+    return { retryable: false };
+  }
+
+  const response = getProperty(error, 'response');
+  const responseStatus = getProperty(response, 'status');
+  const status = getProperty(error, 'status');
+  const statusCode = typeof responseStatus === 'number' ? responseStatus : typeof status === 'number' ? status : undefined;
+  const retryAfter = parseRetryAfter(
+    getHeader(getProperty(response, 'headers'), 'retry-after') ?? getHeader(getProperty(error, 'headers'), 'retry-after')
+  );
+  const explicitType = getProperty(error, 'errorType');
+  const errorType = RETRY_CONFIG.RETRYABLE_ERRORS.find(type => type === explicitType)
+    ?? getCodeErrorType(getProperty(error, 'code'))
+    ?? getCodeErrorType(getProperty(getProperty(error, 'cause'), 'code'));
+  const retryableFlag = getProperty(error, 'retryable');
+
+  let retryable: boolean;
+  if (typeof retryableFlag === 'boolean') {
+    retryable = retryableFlag;
+  } else if (statusCode !== undefined) {
+    retryable = (RETRY_CONFIG.RETRYABLE_STATUS_CODES as readonly number[]).includes(statusCode);
+  } else {
+    retryable = errorType !== undefined;
+  }
+
+  return {
+    retryable,
+    ...(statusCode !== undefined && { statusCode }),
+    ...(errorType && { errorType }),
+    ...(retryAfter !== undefined && { retryAfter })
+  };
+}
+
+/**
+ * Calculate the delay before the next attempt
+ *
+ * @param attempt - Attempt that just failed (1-based)
+ * @param options - Retry options
+ * @param retryAfter - Delay requested by the server (milliseconds)
+ * @returns Delay in milliseconds
+ */
+export function calculateRetryDelay(attempt: number, options: RetryOptions = {}, retryAfter?: number): number {
+  const {
+    baseDelay = RETRY_CONFIG.BASE_DELAY,
+    maxDelay = RETRY_CONFIG.MAX_DELAY,
+    backoffMultiplier = RETRY_CONFIG.BACKOFF_MULTIPLIER,
+    enableJitter = RETRY_CONFIG.ENABLE_JITTER
+  } = options;
+
+  const exponential = Math.min(baseDelay * Math.pow(backoffMultiplier, attempt - 1), maxDelay);
+  const backoff = enableJitter ? exponential / 2 + Math.random() * (exponential / 2) : exponential;
+
+  return Math.round(Math.max(backoff, retryAfter ?? 0));
+}
+
+/**
+ * Run an operation, retrying retryable failures with jittered exponential backoff
+ *
+ * @param operation - Operation to run, given the 1-based attempt number
+ * @param options - Retry options
+ * @returns Promise resolving to the result and the number of attempts
+ * @throws RetryError with the attempt count and last error when all attempts fail
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<RetryResult<T>> {
+  const maxAttempts = Math.max(1, options.maxAttempts ?? RETRY_CONFIG.MAX_RETRIES + 1);
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { result: await operation(attempt), attempts: attempt };
+    } catch (error) {
+      const classification = classifyError(error);
+
+      if (!classification.retryable || attempt >= maxAttempts) {
+        throw new RetryError(error, attempt, classification.retryable);
+      }
+
+      const delay = calculateRetryDelay(attempt, options, classification.retryAfter);
+      options.onRetry?.(error, attempt, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
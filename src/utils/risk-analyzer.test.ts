@@ -0,0 +1,77 @@
+import { RiskAdjustment } from '../types/commodity';
+import { RiskAnalyzer, RiskType, applyRiskAdjustments } from './risk-analyzer';
+
+/**
+ * Risk adjustment with only the fields the engine reads filled in
+ */
+function risk(riskType: RiskType, adjustmentFactor: number, confidenceImpact = 0): RiskAdjustment {
+  return {
+    riskType,
+    adjustmentFactor,
+    confidenceImpact,
+    description: `${riskType} risk`,
+    methodology: 'test',
+    validityPeriod: { start: '2026-01-01', end: '2026-12-31' },
+    sources: []
+  };
+}
+
+describe('risk analyzer', () => {
+  it('applies a single weighted risk at the base horizon', () => {
+    const result = applyRiskAdjustments(100, [risk('geopolitical', 0.1)], 6);
+
+    expect(result.timeScale).toBe(1);
+    expect(result.totalAdjustment).toBeCloseTo(0.1, 12);
+    expect(result.riskAdjustedPrice).toBe(110);
+    expect(result.steps.map(step => step.step)).toEqual(['category-weight', 'time-scaling', 'combine']);
+  });
+
+  it('caps, weights, scales, penalizes correlation and diversifies', () => {
+    const result = applyRiskAdjustments(80, [risk('geopolitical', 0.2), risk('supply_demand', 0.1)], 12);
+
+    // Geopolitical: 0.15 cap x1.0 x1.3 x0.9 penalty; supply/demand: 0.10 x1.2 x1.3
+    const expected = (0.15 * 1.3 * 0.9 + 0.1 * 1.2 * 1.3) * 0.8;
+    expect(result.totalAdjustment).toBeCloseTo(expected, 12);
+    expect(result.riskAdjustedPrice).toBe(Math.round(80 * (1 + expected) * 100) / 100);
+    expect(result.steps.map(step => step.step)).toEqual([
+      'category-weight',
+      'time-scaling',
+      'category-weight',
+      'time-scaling',
+      'correlation-penalty',
+      'combine',
+      'diversification'
+    ]);
+    expect(result.steps[0]!.explanation).toBe('20.00% capped at 15.00% (max impact), weighted x1');
+  });
+
+  it('caps the combined impact', () => {
+    // Weather 0.30 x0.8 x1.6 = 0.384, above the 35% combined cap
+    const result = applyRiskAdjustments(100, [risk('weather', 0.3)], 24);
+
+    expect(result.totalAdjustment).toBe(0.35);
+    expect(result.riskAdjustedPrice).toBe(135);
+    expect(result.steps[result.steps.length - 1]!.step).toBe('combined-cap');
+    expect(RiskAnalyzer.explain(result).pop()).toBe('result: $100.00 x (1 + 35.00%) = $135.00');
+  });
+
+  it('interpolates time scaling between configured horizons and clamps outside them', () => {
+    expect(RiskAnalyzer.getTimeScale(1)).toBe(0.7);
+    expect(RiskAnalyzer.getTimeScale(9)).toBeCloseTo(1.15, 12);
+    expect(RiskAnalyzer.getTimeScale(18)).toBeCloseTo(1.45, 12);
+    expect(RiskAnalyzer.getTimeScale(36)).toBe(1.6);
+  });
+
+  it('moves confidence toward 100% or the minimum threshold', () => {
+    expect(RiskAnalyzer.combineConfidenceImpacts([risk('economic', 0, 0.4), risk('weather', 0, -0.2)])).toBeCloseTo(0.1, 12);
+    expect(RiskAnalyzer.adjustConfidence(60, 0.5)).toBe(80);
+    expect(RiskAnalyzer.adjustConfidence(60, -0.5)).toBe(40);
+    expect(RiskAnalyzer.getConfidenceTier(85)).toBe('HIGH');
+    expect(RiskAnalyzer.getConfidenceTier(60)).toBe('MEDIUM');
+    expect(RiskAnalyzer.getConfidenceTier(39)).toBe('MINIMUM');
+  });
+
+  it('rejects non-positive base prices', () => {
+    expect(() => applyRiskAdjustments(0, [], 6)).toThrow(/greater than zero/);
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Risk Analyzer Utility
+ *
+ * Deterministic risk adjustment engine driven by RISK_FACTOR_CONFIG. Applies
+ * category weights and impact caps, time horizon scaling, correlation penalties,
+ * the diversification factor and the combined impact cap to a list of
+ * RiskAdjustment objects, and records every step for auditing.
+ *
+ * @author Risk Analyzer Module
+ * @version 1.0.0
+ */
+
+import { RISK_FACTOR_CONFIG } from '../config/yahoo-finance';
+import { RiskAdjustment } from '../types/commodity';
+
+/**
+ * Risk type union taken from the RiskAdjustment interface
+ */
+export type RiskType = RiskAdjustment['riskType'];
+
+/**
+ * Confidence tier derived from CONFIDENCE_THRESHOLDS
+ */
+export type ConfidenceTier = keyof typeof RISK_FACTOR_CONFIG.CONFIDENCE_THRESHOLDS;
+
+/**
+ * Single auditable step of the risk adjustment calculation
+ */
+export interface RiskAdjustmentStep {
+  /** Step identifier (e.g., 'category-weight', 'time-scaling') */
+  step: string;
+  /** Risk type the step applies to, if any */
+  riskType?: RiskType;
+  /** Value before the step (fractional adjustment) */
+  before: number;
+  /** Value after the step (fractional adjustment) */
+  after: number;
+  /** Human-readable explanation */
+  explanation: string;
+}
+
+/**
+ * Result of applying risk adjustments to a base price
+ */
+export interface RiskAdjustmentResult {
+  /** Baseline price before adjustments */
+  basePrice: number;
+  /** Price after all adjustments */
+  riskAdjustedPrice: number;
+  /** Combined fractional adjustment applied to the base price */
+  totalAdjustment: number;
+  /** Horizon in months used for time scaling */
+  horizonMonths: number;
+  /** Time scaling factor applied */
+  timeScale: number;
+  /** Combined confidence impact (-1 to 1) */
+  confidenceImpact: number;
+  /** Ordered calculation steps */
+  steps: RiskAdjustmentStep[];
+}
+
+/**
+ * Correlated risk pairs mapped to their CORRELATION_PENALTIES keys.
+ * The penalty is applied to the first member of each pair.
+ */
+const CORRELATED_RISK_PAIRS: Array<{
+  penaltyKey: keyof typeof RISK_FACTOR_CONFIG.COMBINATION_RULES.CORRELATION_PENALTIES;
+  penalized: RiskType;
+  correlatedWith: RiskType;
+}> = [
+  { penaltyKey: 'GEOPOLITICAL_SUPPLY', penalized: 'geopolitical', correlatedWith: 'supply_demand' },
+  { penaltyKey: 'ECONOMIC_DEMAND', penalized: 'economic', correlatedWith: 'supply_demand' },
+  { penaltyKey: 'WEATHER_SUPPLY', penalized: 'weather', correlatedWith: 'supply_demand' }
+];
+
+/**
+ * Risk Analyzer Class
+ */
+export class RiskAnalyzer {
+  /**
+   * Get category configuration for a risk type
+   *
+   * @param riskType - Risk type
+   * @returns Category configuration
+   */
+  static getCategoryConfig(riskType: RiskType) {
+    const config = Object.values(RISK_FACTOR_CONFIG.CATEGORIES).find(c => c.category === riskType);
+
+    if (!config) {
+      throw new Error(`Unknown risk type: ${riskType}`);
+    }
+
+    return config;
+  }
+
+  /**
+   * Get time scaling factor for a horizon
+   *
+   * Interpolates linearly between the configured TIME_SCALING points and
+   * clamps to the first/last point outside the configured range.
+   *
+   * @param horizonMonths - Forecast horizon in months
+   * @returns Time scaling factor
+   */
+  static getTimeScale(horizonMonths: number): number {
+    const points = Object.values(RISK_FACTOR_CONFIG.TIME_SCALING)
+      .map(p => ({ months: p.months as number, scale: p.scale as number }))
+      .sort((a, b) => a.months - b.months);
+
+    const first = points[0]!;
+    const last = points[points.length - 1]!;
+
+    if (horizonMonths <= first.months) return first.scale;
+    if (horizonMonths >= last.months) return last.scale;
+
+    for (let i = 1; i < points.length; i++) {
+      const lower = points[i - 1]!;
+      const upper = points[i]!;
+
+      if (horizonMonths <= upper.months) {
+        const ratio = (horizonMonths - lower.months) / (upper.months - lower.months);
+        return lower.scale + ratio * (upper.scale - lower.scale);
+      }
+    }
+
+    return last.scale;
+  }
+
+  /**
+   * Apply risk adjustments to a base price
+   *
+   * Steps, in order:
+   * 1. Clamp each adjustment to its category maxImpact and apply the category weight
+   * 2. Scale by the horizon's time scaling factor
+   * 3. Apply correlation penalties when correlated risk types are both present
+   * 4. Apply the diversification factor when more than one risk type is present
+   * 5. Cap the combined adjustment at MAX_COMBINED_IMPACT
+   *
+   * @param basePrice - Baseline price (e.g., futures consensus)
+   * @param adjustments - Risk adjustments to apply
+   * @param horizonMonths - Forecast horizon in months
+   * @returns Risk adjustment result with step-by-step explanation
+   */
+  static applyRiskAdjustments(
+    basePrice: number,
+    adjustments: RiskAdjustment[],
+    horizonMonths: number
+  ): RiskAdjustmentResult {
+    if (basePrice <= 0) {
+      throw new Error('Base price must be greater than zero');
+    }
+
+    const rules = RISK_FACTOR_CONFIG.COMBINATION_RULES;
+    const steps: RiskAdjustmentStep[] = [];
+    const timeScale = this.getTimeScale(horizonMonths);
+
+    // Steps 1 and 2: per-risk weighting, capping and time scaling
+    const contributions = new Map<RiskType, number>();
+
+    for (const adjustment of adjustments) {
+      const category = this.getCategoryConfig(adjustment.riskType);
+      const raw = adjustment.adjustmentFactor;
+      const capped = Math.max(-category.maxImpact, Math.min(category.maxImpact, raw));
+      const weighted = capped * category.weight;
+
+      steps.push({
+        step: 'category-weight',
+        riskType: adjustment.riskType,
+        before: raw,
+        after: weighted,
+        explanation: capped !== raw
+          ? `${this.formatPercent(raw)} capped at ${this.formatPercent(capped)} (max impact), weighted x${category.weight}`
+          : `${this.formatPercent(raw)} weighted x${category.weight}`
+      });
+
+      const scaled = weighted * timeScale;
+
+      steps.push({
+        step: 'time-scaling',
+        riskType: adjustment.riskType,
+        before: weighted,
+        after: scaled,
+        explanation: `Scaled x${timeScale.toFixed(2)} for ${horizonMonths}-month horizon`
+      });
+
+      contributions.set(adjustment.riskType, (contributions.get(adjustment.riskType) || 0) + scaled);
+    }
+
+    // Step 3: correlation penalties
+    for (const pair of CORRELATED_RISK_PAIRS) {
+      const penalized = contributions.get(pair.penalized);
+
+      if (penalized !== undefined && contributions.has(pair.correlatedWith)) {
+        const penalty = rules.CORRELATION_PENALTIES[pair.penaltyKey];
+        const after = penalized * penalty;
+        contributions.set(pair.penalized, after);
+
+        steps.push({
+          step: 'correlation-penalty',
+          riskType: pair.penalized,
+          before: penalized,
+          after,
+          explanation: `Correlated with ${pair.correlatedWith}, penalty x${penalty} (${pair.penaltyKey})`
+        });
+      }
+    }
+
+    const summed = Array.from(contributions.values()).reduce((sum, value) => sum + value, 0);
+
+    steps.push({
+      step: 'combine',
+      before: 0,
+      after: summed,
+      explanation: `Sum of ${contributions.size} risk type contribution(s): ${this.formatPercent(summed)}`
+    });
+
+    // Step 4: diversification
+    let combined = summed;
+    if (contributions.size > 1) {
+      combined = summed * rules.DIVERSIFICATION_FACTOR;
+
+      steps.push({
+        step: 'diversification',
+        before: summed,
+        after: combined,
+        explanation: `Multiple risk types present, diversification factor x${rules.DIVERSIFICATION_FACTOR}`
+      });
+    }
+
+    // Step 5: combined cap
+    const capped = Math.max(-rules.MAX_COMBINED_IMPACT, Math.min(rules.MAX_COMBINED_IMPACT, combined));
+    if (capped !== combined) {
+      steps.push({
+        step: 'combined-cap',
+        before: combined,
+        after: capped,
+        explanation: `Capped at maximum combined impact of ${this.formatPercent(rules.MAX_COMBINED_IMPACT)}`
+      });
+    }
+
+    const riskAdjustedPrice = Math.round(basePrice * (1 + capped) * 100) / 100;
+
+    return {
+      basePrice,
+      riskAdjustedPrice,
+      totalAdjustment: capped,
+      horizonMonths,
+      timeScale,
+      confidenceImpact: this.combineConfidenceImpacts(adjustments),
+      steps
+    };
+  }
+
+  /**
+   * Combine confidence impacts as their mean, clamped to -1..1
+   *
+   * @param adjustments - Risk adjustments
+   * @returns Combined confidence impact
+   */
+  static combineConfidenceImpacts(adjustments: RiskAdjustment[]): number {
+    if (adjustments.length === 0) return 0;
+
+    const mean = adjustments.reduce((sum, adj) => sum + adj.confidenceImpact, 0) / adjustments.length;
+    return Math.max(-1, Math.min(1, mean));
+  }
+
+  /**
+   * Apply a confidence impact to a confidence level
+   *
+   * Positive impacts move confidence toward 100% and negative impacts toward
+   * the MINIMUM threshold, each by the given fraction of the remaining distance.
+   *
+   * @param confidenceLevel - Confidence level (0-100)
+   * @param confidenceImpact - Confidence impact (-1 to 1)
+   * @returns Adjusted confidence level (0-100)
+   */
+  static adjustConfidence(confidenceLevel: number, confidenceImpact: number): number {
+    const minimum = RISK_FACTOR_CONFIG.CONFIDENCE_THRESHOLDS.MINIMUM;
+    const current = Math.max(minimum, Math.min(1, confidenceLevel / 100));
+
+    const adjusted = confidenceImpact >= 0
+      ? current + confidenceImpact * (1 - current)
+      : current + confidenceImpact * (current - minimum);
+
+    return Math.round(adjusted * 100);
+  }
+
+  /**
+   * Map a confidence level to its configured tier
+   *
+   * @param confidenceLevel - Confidence level (0-100)
+   * @returns Confidence tier
+   */
+  static getConfidenceTier(confidenceLevel: number): ConfidenceTier {
+    const thresholds = RISK_FACTOR_CONFIG.CONFIDENCE_THRESHOLDS;
+    const value = confidenceLevel / 100;
+
+    if (value >= thresholds.HIGH) return 'HIGH';
+    if (value >= thresholds.MEDIUM) return 'MEDIUM';
+    if (value >= thresholds.LOW) return 'LOW';
+    return 'MINIMUM';
+  }
+
+  /**
+   * Render calculation steps as explanation lines
+   *
+   * @param result - Risk adjustment result
+   * @returns Explanation lines
+   */
+  static explain(result: RiskAdjustmentResult): string[] {
+    const lines = result.steps.map(step =>
+      `${step.step}${step.riskType ? ` [${step.riskType}]` : ''}: ${step.explanation}`
+    );
+
+    lines.push(
+      `result: $${result.basePrice.toFixed(2)} x (1 ${result.totalAdjustment >= 0 ? '+' : '-'} ${this.formatPercent(Math.abs(result.totalAdjustment))}) = $${result.riskAdjustedPrice.toFixed(2)}`
+    );
+
+    return lines;
+  }
+
+  /**
+   * Format a fractional value as a percentage
+   */
+  private static formatPercent(value: number): string {
+    return `${(value * 100).toFixed(2)}%`;
+  }
+}
+
+/**
+ * Convenience function to apply risk adjustments
+ *
+ * @param basePrice - Baseline price
+ * @param adjustments - Risk adjustments
+ * @param horizonMonths - Forecast horizon in months
+ * @returns Risk adjustment result
+ */
+export function applyRiskAdjustments(
+  basePrice: number,
+  adjustments: RiskAdjustment[],
+  horizonMonths: number
+): RiskAdjustmentResult {
+  return RiskAnalyzer.applyRiskAdjustments(basePrice, adjustments, horizonMonths);
+}
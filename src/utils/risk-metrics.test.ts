@@ -0,0 +1,98 @@
+import { HistoricalPricePoint } from '../types/yahoo-finance';
+import {
+  calculateLogReturns,
+  calculateMaxDrawdown,
+  calculateRealizedVolatility,
+  calculateRollingVolatility,
+  calculateValueAtRisk,
+  getBarsPerYear
+} from './risk-metrics';
+
+/**
+ * Daily bars from closes, with an optional high/low ratio around the close
+ */
+function bars(closes: Array<number | null>, rangeRatio = 1): HistoricalPricePoint[] {
+  return closes.map((close, i) => ({
+    date: `2024-01-${String(i + 1).padStart(2, '0')}`,
+    timestamp: Date.UTC(2024, 0, i + 1) / 1000,
+    open: close,
+    high: close === null ? null : close * Math.sqrt(rangeRatio),
+    low: close === null ? null : close / Math.sqrt(rangeRatio),
+    close,
+    adjClose: close,
+    volume: 0
+  }));
+}
+
+describe('risk metrics', () => {
+  it('takes log returns between consecutive closes, skipping missing ones', () => {
+    const returns = calculateLogReturns(bars([100, null, 110, 99]));
+
+    expect(returns.map(r => r.date)).toEqual(['2024-01-03', '2024-01-04']);
+    expect(returns[0]!.value).toBeCloseTo(Math.log(1.1), 12);
+    expect(returns[1]!.value).toBeCloseTo(Math.log(0.9), 12);
+  });
+
+  it('computes historical and normal VaR and expected shortfall', () => {
+    // Returns -10%, -9%, ..., +9% (log)
+    const returns = Array.from({ length: 20 }, (_, i) => (i - 10) / 100);
+    const result = calculateValueAtRisk(returns, 95);
+
+    // Empirical 5% quantile interpolates 95% of the way from -0.10 to -0.09
+    expect(result.historical).toBeCloseTo(1 - Math.exp(-0.0905), 10);
+    expect(result.expectedShortfall).toBeCloseTo(1 - Math.exp(-0.10), 10);
+
+    const mu = -0.005;
+    const sigma = Math.sqrt(returns.reduce((sum, r) => sum + (r - mu) ** 2, 0) / 19);
+    expect(result.parametric).toBeCloseTo(1 - Math.exp(mu - 1.644854 * sigma), 5);
+    const density = Math.exp(-0.5 * 1.644854 ** 2) / Math.sqrt(2 * Math.PI);
+    expect(result.parametricExpectedShortfall).toBeCloseTo(1 - Math.exp(mu - (sigma * density) / 0.05), 5);
+  });
+
+  it('rejects invalid VaR inputs', () => {
+    expect(() => calculateValueAtRisk([0.01], 40)).toThrow(/Invalid VaR confidence/);
+    expect(() => calculateValueAtRisk([], 95)).toThrow(/at least one return/);
+  });
+
+  it('finds the largest drawdown and its recovery', () => {
+    const drawdown = calculateMaxDrawdown(bars([100, 120, 90, 110, 125, 100]));
+
+    expect(drawdown).toEqual({
+      drawdown: 0.25,
+      peakDate: '2024-01-02',
+      troughDate: '2024-01-03',
+      recoveryDate: '2024-01-05'
+    });
+  });
+
+  it('reports no recovery while below the peak and no drawdown on a rising series', () => {
+    expect(calculateMaxDrawdown(bars([100, 80, 90])).recoveryDate).toBeNull();
+    expect(calculateMaxDrawdown(bars([100, 101, 102])).drawdown).toBe(0);
+  });
+
+  it('annualizes close-to-close, Parkinson and Garman-Klass volatility', () => {
+    // ±1% alternating closes with a constant 2% high/low range and open = close
+    const closes = Array.from({ length: 21 }, (_, i) => 100 * Math.exp(i % 2 === 0 ? 0 : 0.01));
+    const volatility = calculateRealizedVolatility(bars(closes, Math.exp(0.02)), 252);
+
+    expect(volatility.closeToClose).toBeCloseTo(Math.sqrt(((20 * 0.0001) / 19) * 252), 10);
+    expect(volatility.parkinson).toBeCloseTo(Math.sqrt((0.0004 / (4 * Math.LN2)) * 252), 10);
+    expect(volatility.garmanKlass).toBeCloseTo(Math.sqrt(0.5 * 0.0004 * 252), 10);
+  });
+
+  it('rolls close-to-close volatility over full windows', () => {
+    const returns = [0.01, -0.01, 0.01, 0.03].map((value, i) => ({ date: `d${i}`, value }));
+    const rolling = calculateRollingVolatility(returns, 2, 252);
+
+    expect(rolling.map(point => point.date)).toEqual(['d1', 'd2', 'd3']);
+    expect(rolling[0]!.volatility).toBeCloseTo(Math.sqrt(0.0002 * 252), 10);
+    expect(rolling[2]!.volatility).toBeCloseTo(Math.sqrt(0.0002 * 252), 10);
+    expect(() => calculateRollingVolatility(returns, 1, 252)).toThrow(/at least 2/);
+  });
+
+  it('maps intervals to bars per year', () => {
+    expect(getBarsPerYear('1d')).toBe(252);
+    expect(getBarsPerYear('1mo')).toBe(12);
+    expect(() => getBarsPerYear('1h')).toThrow(/Unsupported interval/);
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Risk Metrics Utility
+ *
+ * Historical volatility and risk analytics computed from HistoricalData:
+ * - Log returns of consecutive closes
+ * - Realized volatility: close-to-close, Parkinson (high/low) and
+ *   Garman-Klass (open/high/low/close), annualized by bars per year
+ * - Rolling close-to-close volatility over RISK_METRICS_CONFIG.ROLLING_WINDOW
+ * - Maximum drawdown of the closing price
+ * - Value-at-Risk (historical quantile and normal) and expected shortfall
+ *   over one bar, as losses in fractions of price
+ *
+ * @author Risk Metrics Module
+ * @version 1.0.0
+ */
+
+import { FORECASTING_CONFIG, RISK_METRICS_CONFIG } from '../config/yahoo-finance';
+import { MaxDrawdown, RealizedVolatility, RiskMetrics, RollingVolatilityPoint, ValueAtRisk } from '../types/commodity';
+import { HistoricalData, HistoricalPricePoint } from '../types/yahoo-finance';
+
+/**
+ * Risk metrics options
+ */
+export interface RiskMetricsOptions {
+  /** Returns per rolling volatility window (default: RISK_METRICS_CONFIG.ROLLING_WINDOW) */
+  rollingWindow?: number;
+  /** One-sided VaR confidence levels in percent (default: RISK_METRICS_CONFIG.VAR_CONFIDENCE_LEVELS) */
+  confidenceLevels?: number[];
+}
+
+/**
+ * Log return between consecutive closes
+ */
+export interface LogReturn {
+  /** Date of the later close */
+  date: string;
+  value: number;
+}
+
+/**
+ * Compute risk metrics from price history
+ *
+ * @param history - Historical data (daily, weekly or monthly bars)
+ * @param options - Risk metrics options
+ * @returns Risk metrics
+ * @throws Error for unsupported intervals or too little history
+ */
+export function calculateRiskMetrics(history: HistoricalData, options: RiskMetricsOptions = {}): RiskMetrics {
+  const {
+    rollingWindow = RISK_METRICS_CONFIG.ROLLING_WINDOW,
+    confidenceLevels = [...RISK_METRICS_CONFIG.VAR_CONFIDENCE_LEVELS]
+  } = options;
+
+  const barsPerYear = getBarsPerYear(history.interval);
+  const bars = history.prices.filter(point => point.close !== null && point.close > 0);
+  const returns = calculateLogReturns(bars);
+
+  if (returns.length < RISK_METRICS_CONFIG.MIN_OBSERVATIONS) {
+    throw new Error(`Risk metrics need at least ${RISK_METRICS_CONFIG.MIN_OBSERVATIONS} returns, got ${returns.length}`);
+  }
+
+  const values = returns.map(r => r.value);
+  const meanReturn = mean(values);
+  const rolling = calculateRollingVolatility(returns, rollingWindow, barsPerYear);
+  const rollingValues = rolling.map(point => point.volatility);
+
+  return {
+    symbol: history.symbol,
+    interval: history.interval,
+    startDate: bars[0]!.date,
+    endDate: bars[bars.length - 1]!.date,
+    observations: returns.length,
+    meanReturn,
+    volatility: calculateRealizedVolatility(bars, barsPerYear),
+    rollingVolatility: {
+      window: rollingWindow,
+      current: rollingValues[rollingValues.length - 1] ?? 0,
+      min: rollingValues.length > 0 ? Math.min(...rollingValues) : 0,
+      max: rollingValues.length > 0 ? Math.max(...rollingValues) : 0,
+      series: rolling
+    },
+    maxDrawdown: calculateMaxDrawdown(bars),
+    valueAtRisk: confidenceLevels.map(confidence => calculateValueAtRisk(values, confidence))
+  };
+}
+
+/**
+ * Log returns of consecutive closes (bars without a positive close are skipped)
+ *
+ * @param prices - Price points in date order
+ * @returns Log returns dated by the later close
+ */
+export function calculateLogReturns(prices: HistoricalPricePoint[]): LogReturn[] {
+  const bars = prices.filter(point => point.close !== null && point.close > 0);
+  return bars.slice(1).map((bar, i) => ({
+    date: bar.date,
+    value: Math.log(bar.close! / bars[i]!.close!)
+  }));
+}
+
+/**
+ * Annualized realized volatility estimates
+ *
+ * @param prices - Price points in date order
+ * @param barsPerYear - Bars per year used to annualize
+ * @returns Close-to-close, Parkinson and Garman-Klass volatility
+ */
+export function calculateRealizedVolatility(prices: HistoricalPricePoint[], barsPerYear: number): RealizedVolatility {
+  const returns = calculateLogReturns(prices).map(r => r.value);
+  const ranged = prices.filter(point =>
+    point.open !== null && point.high !== null && point.low !== null && point.close !== null &&
+    point.open > 0 && point.low > 0 && point.high >= point.low && point.close > 0
+  );
+
+  // Parkinson: σ² = Σ ln(H/L)² / (4 ln 2 · n)
+  const parkinson = ranged.length > 0
+    ? Math.sqrt((ranged.reduce((sum, point) => sum + Math.log(point.high! / point.low!) ** 2, 0) / (4 * Math.LN2 * ranged.length)) * barsPerYear)
+    : null;
+
+  // Garman-Klass: σ² = mean of ½ ln(H/L)² − (2 ln 2 − 1) ln(C/O)²
+  const garmanKlassVariance = ranged.length > 0
+    ? ranged.reduce((sum, point) =>
+      sum + 0.5 * Math.log(point.high! / point.low!) ** 2 - (2 * Math.LN2 - 1) * Math.log(point.close! / point.open!) ** 2, 0) / ranged.length
+    : null;
+
+  return {
+    closeToClose: Math.sqrt(sampleVariance(returns) * barsPerYear),
+    parkinson,
+    garmanKlass: garmanKlassVariance !== null ? Math.sqrt(Math.max(garmanKlassVariance, 0) * barsPerYear) : null
+  };
+}
+
+/**
+ * Annualized close-to-close volatility over trailing windows
+ *
+ * @param returns - Log returns in date order
+ * @param window - Returns per window
+ * @param barsPerYear - Bars per year used to annualize
+ * @returns One point per full window, dated by its last return
+ */
+export function calculateRollingVolatility(returns: LogReturn[], window: number, barsPerYear: number): RollingVolatilityPoint[] {
+  if (window < 2) {
+    throw new Error('Rolling volatility window must be at least 2 returns');
+  }
+
+  const points: RollingVolatilityPoint[] = [];
+  let sum = 0;
+  let sumSquares = 0;
+
+  returns.forEach((r, i) => {
+    sum += r.value;
+    sumSquares += r.value ** 2;
+    if (i >= window) {
+      sum -= returns[i - window]!.value;
+      sumSquares -= returns[i - window]!.value ** 2;
+    }
+    if (i >= window - 1) {
+      const variance = Math.max(0, (sumSquares - (sum * sum) / window) / (window - 1));
+      points.push({ date: r.date, volatility: Math.sqrt(variance * barsPerYear) });
+    }
+  });
+
+  return points;
+}
+
+/**
+ * Largest peak-to-trough decline of the closing price
+ *
+ * @param prices - Price points in date order
+ * @returns Maximum drawdown (0 with no decline)
+ */
+export function calculateMaxDrawdown(prices: HistoricalPricePoint[]): MaxDrawdown {
+  const bars = prices.filter(point => point.close !== null && point.close > 0);
+  if (bars.length === 0) {
+    throw new Error('Max drawdown needs at least one close');
+  }
+
+  let peak = bars[0]!;
+  let result: MaxDrawdown = { drawdown: 0, peakDate: peak.date, troughDate: peak.date, recoveryDate: null };
+  let resultPeak = peak.close!;
+
+  bars.forEach(bar => {
+    if (bar.close! > peak.close!) {
+      peak = bar;
+    }
+    const drawdown = 1 - bar.close! / peak.close!;
+    if (drawdown > result.drawdown) {
+      result = { drawdown, peakDate: peak.date, troughDate: bar.date, recoveryDate: null };
+      resultPeak = peak.close!;
+    }
+  });
+
+  if (result.drawdown > 0) {
+    const recovery = bars.find(bar => bar.date > result.troughDate && bar.close! >= resultPeak);
+    result.recoveryDate = recovery ? recovery.date : null;
+  }
+
+  return result;
+}
+
+/**
+ * Value-at-Risk and expected shortfall over one bar
+ *
+ * @param returns - Log returns
+ * @param confidence - One-sided confidence level in percent (e.g., 95)
+ * @returns Losses as fractions of price
+ */
+export function calculateValueAtRisk(returns: number[], confidence: number): ValueAtRisk {
+  if (!(confidence > 50 && confidence < 100)) {
+    throw new Error(`Invalid VaR confidence level: ${confidence}`);
+  }
+  if (returns.length === 0) {
+    throw new Error('Value-at-Risk needs at least one return');
+  }
+
+  const tail = 1 - confidence / 100;
+  const sorted = [...returns].sort((a, b) => a - b);
+  const toLoss = (logReturn: number): number => 1 - Math.exp(logReturn);
+
+  // Historical: empirical quantile, shortfall is the mean of returns at or below it
+  const position = tail * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const quantile = sorted[lower]! + (sorted[Math.min(lower + 1, sorted.length - 1)]! - sorted[lower]!) * (position - lower);
+  const tailReturns = sorted.filter(value => value <= quantile);
+  const tailMean = tailReturns.length > 0 ? mean(tailReturns) : quantile;
+
+  // Parametric: normal returns with the sample mean and volatility
+  const mu = mean(returns);
+  const sigma = Math.sqrt(sampleVariance(returns));
+  const z = normalQuantile(confidence / 100);
+  const density = Math.exp(-0.5 * z * z) / Math.sqrt(2 * Math.PI);
+
+  return {
+    confidence,
+    historical: toLoss(quantile),
+    parametric: toLoss(mu - z * sigma),
+    expectedShortfall: toLoss(tailMean),
+    parametricExpectedShortfall: toLoss(mu - (sigma * density) / tail)
+  };
+}
+
+/**
+ * Bars per year for an interval
+ *
+ * @param interval - Chart interval (1d, 5d, 1wk, 1mo, 3mo)
+ * @returns Bars per year
+ * @throws Error for unsupported intervals
+ */
+export function getBarsPerYear(interval: string): number {
+  const stepsPerMonth = FORECASTING_CONFIG.STATISTICAL.STEPS_PER_MONTH[interval];
+  if (!stepsPerMonth) {
+    throw new Error(`Unsupported interval for risk metrics: ${interval}. Use one of ${Object.keys(FORECASTING_CONFIG.STATISTICAL.STEPS_PER_MONTH).join(', ')}`);
+  }
+  return stepsPerMonth * 12;
+}
+
+/**
+ * Standard normal quantile (Acklam's rational approximation, ~1e-9 relative error)
+ */
+function normalQuantile(p: number): number {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.383577518672690e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  const poly = (coefficients: number[], x: number): number => coefficients.reduce((sum, k) => sum * x + k, 0);
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return poly(c, q) / (poly(d, q) * q + 1);
+  }
+  if (p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(1 - p));
+    return -poly(c, q) / (poly(d, q) * q + 1);
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (poly(a, r) * q) / (poly(b, r) * r + 1);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function sampleVariance(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
@@ -0,0 +1,145 @@
+/**
+ * JSON Schema Validator Utility
+ *
+ * Minimal validator for the JSON Schema subset used with OpenAI structured
+ * outputs (type, properties, required, additionalProperties, enum, items,
+ * numeric bounds and array length). Used to verify model replies before they
+ * are mapped onto typed data structures.
+ *
+ * @author Schema Validator Module
+ * @version 1.0.0
+ */
+
+/**
+ * JSON Schema primitive type names
+ */
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Supported JSON Schema subset
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: Array<string | number | boolean | null>;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * Get the JSON Schema type name of a value
+ */
+function getJsonType(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+/**
+ * Check whether a value matches one of the allowed schema types
+ */
+function matchesType(value: unknown, allowed: JsonSchemaType[]): boolean {
+  const actual = getJsonType(value);
+  return allowed.includes(actual) || (actual === 'integer' && allowed.includes('number'));
+}
+
+/**
+ * Validate a value against a JSON schema
+ *
+ * @param value - Value to validate
+ * @param schema - JSON schema
+ * @param path - JSON path used in error messages
+ * @returns Array of validation errors (empty when valid)
+ */
+export function validateAgainstSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!matchesType(value, allowed)) {
+      errors.push(`${path}: expected ${allowed.join(' | ')}, got ${getJsonType(value)}`);
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    errors.push(`${path}: value ${JSON.stringify(value)} is not one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: ${value} is less than minimum ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: ${value} is greater than maximum ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: expected at least ${schema.minItems} items, got ${value.length}`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: expected at most ${schema.maxItems} items, got ${value.length}`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => {
+        errors.push(...validateAgainstSchema(item, schema.items!, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+
+    for (const key of schema.required || []) {
+      if (!(key in record)) {
+        errors.push(`${path}.${key}: required property is missing`);
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateAgainstSchema(propertyValue, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: unexpected property`);
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a JSON string and validate it against a schema
+ *
+ * @param text - JSON text
+ * @param schema - JSON schema
+ * @returns Parsed value and validation errors
+ */
+export function parseAndValidate<T>(text: string, schema: JsonSchema): { value: T | null; errors: string[] } {
+  let parsed: unknown;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return {
+      value: null,
+      errors: [`Invalid JSON: ${error instanceof Error ? error.message : error}`]
+    };
+  }
+
+  const errors = validateAgainstSchema(parsed, schema);
+  return {
+    value: errors.length === 0 ? parsed as T : null,
+    errors
+  };
+}
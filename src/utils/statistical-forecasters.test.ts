@@ -0,0 +1,103 @@
+import { HistoricalData } from '../types/yahoo-finance';
+import { createForecaster } from './statistical-forecasters';
+
+/**
+ * Monthly history from log-price changes, starting at 100
+ */
+function monthlyHistory(changes: number[]): HistoricalData {
+  let logPrice = Math.log(100);
+  const closes = [100, ...changes.map(change => Math.exp(logPrice += change))];
+
+  return {
+    symbol: 'TEST',
+    interval: '1mo',
+    range: 'max',
+    meta: { currency: 'USD' } as HistoricalData['meta'],
+    prices: closes.map((close, i) => {
+      const date = new Date(Date.UTC(2020, i, 1));
+      return {
+        date: date.toISOString().split('T')[0]!,
+        timestamp: date.getTime() / 1000,
+        open: close,
+        high: close,
+        low: close,
+        close,
+        adjClose: close,
+        volume: 0
+      };
+    })
+  };
+}
+
+/**
+ * Deterministic standard normal draws (LCG with Box-Muller)
+ */
+function normalDraws(count: number, seed: number): number[] {
+  let state = seed;
+  const uniform = (): number => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return (state + 1) / 4294967297;
+  };
+  return Array.from({ length: count }, () => Math.sqrt(-2 * Math.log(uniform())) * Math.cos(2 * Math.PI * uniform()));
+}
+
+describe('statistical forecasters', () => {
+  // 20 changes of +1% and 19 of -1%: last close 100·e^0.01, σ² = 1e-4 per month
+  const alternating = Array.from({ length: 39 }, (_, i) => (i % 2 === 0 ? 0.01 : -0.01));
+
+  it('random walk forecasts the last close with variance growing linearly', () => {
+    const [forecast] = createForecaster('random-walk').forecast(monthlyHistory(alternating), { horizons: ['3-month'] });
+
+    expect(forecast!.horizon).toBe('3-month');
+    expect(forecast!.forecastPrice).toBe(101.01);
+    // 95% interval: exp(last ± 1.96·√(3·1e-4))
+    expect(forecast!.priceRange).toEqual({ low: 97.63, high: 104.49 });
+    expect(forecast!.dateRange.end).toBe('2023-07-01T00:00:00.000Z');
+  });
+
+  it('drift extends the mean change and widens the interval for drift uncertainty', () => {
+    const changes = Array.from({ length: 39 }, (_, i) => (i % 2 === 0 ? 0.02 : 0));
+    const [forecast] = createForecaster('drift').forecast(monthlyHistory(changes), { horizons: ['3-month'], currentPrice: 150 });
+
+    // Drift 0.4/39 per month; variance σ²·h·(1 + h/n)
+    expect(forecast!.forecastPrice).toBe(153.84);
+    expect(forecast!.priceRange).toEqual({ low: 148.45, high: 159.43 });
+    expect(forecast!.percentageChange).toBe(2.56);
+  });
+
+  it('drift has a degenerate interval on a constant trend', () => {
+    const [forecast] = createForecaster('drift').forecast(monthlyHistory(new Array(39).fill(0.01)), { horizons: ['12-month'] });
+
+    expect(forecast!.forecastPrice).toBe(Math.round(100 * Math.exp(0.51) * 100) / 100);
+    expect(forecast!.priceRange!.low).toBe(forecast!.forecastPrice);
+    expect(forecast!.priceRange!.high).toBe(forecast!.forecastPrice);
+  });
+
+  it('holt-winters forecasts a flat series at its level', () => {
+    const [forecast] = createForecaster('holt-winters').forecast(monthlyHistory(new Array(39).fill(0)), { horizons: ['6-month'] });
+
+    expect(forecast!.forecastPrice).toBe(100);
+    expect(forecast!.priceRange).toEqual({ low: 100, high: 100 });
+  });
+
+  it('ARIMA recovers the coefficient of a synthetic AR(1) series', () => {
+    // Δlog p_t = 0.5·Δlog p_(t-1) + ε_t, ε ~ N(0, 0.01²)
+    const noise = normalDraws(600, 42);
+    const changes: number[] = [];
+    noise.forEach((shock, t) => changes.push(0.5 * (changes[t - 1] ?? 0) + 0.01 * shock));
+
+    const [forecast] = createForecaster('arima').forecast(monthlyHistory(changes), { horizons: ['3-month'] });
+    const match = forecast!.methodology!.match(/ARIMA\((\d),1,0\).*AR=\[([-\d.]+)/);
+
+    expect(match).not.toBeNull();
+    expect(Number(match![1])).toBeGreaterThanOrEqual(1);
+    expect(Number(match![2])).toBeCloseTo(0.5, 1);
+    expect(forecast!.priceRange!.low).toBeLessThan(forecast!.forecastPrice);
+    expect(forecast!.priceRange!.high).toBeGreaterThan(forecast!.forecastPrice);
+  });
+
+  it('rejects short histories and unsupported intervals', () => {
+    expect(() => createForecaster('drift').forecast(monthlyHistory(new Array(10).fill(0)))).toThrow(/at least 30 closes/);
+    expect(() => createForecaster('drift').forecast({ ...monthlyHistory(alternating), interval: '1h' })).toThrow(/Unsupported interval/);
+  });
+});
@@ -0,0 +1,494 @@
+/**
+ * Statistical Forecasters Utility
+ *
+ * Pure TypeScript time-series baselines fitted on HistoricalData closes,
+ * usable fully offline as a sanity check on futures and AI forecasts:
+ * - random-walk: last close, variance growing linearly with the horizon
+ * - drift: last close plus the mean historical change
+ * - holt-winters: additive exponential smoothing with damped trend (and
+ *   seasonality for weekly or monthly data), parameters by grid search
+ * - arima: ARIMA(p,1,0) with constant, order selected by AIC
+ *
+ * Models are fitted on log prices, so forecasts are medians of a lognormal
+ * distribution and price ranges are asymmetric model-based intervals.
+ * Each forecaster returns ForecastData for every requested FORECAST_HORIZONS
+ * entry; new models plug in by implementing the Forecaster interface.
+ *
+ * @author Statistical Forecasters Module
+ * @version 1.0.0
+ */
+
+import { FORECASTING_CONFIG } from '../config/yahoo-finance';
+import { FORECAST_HORIZONS, ForecastData } from '../types/commodity';
+import { HistoricalData } from '../types/yahoo-finance';
+
+/**
+ * Built-in statistical models
+ */
+export type StatisticalModel = 'random-walk' | 'drift' | 'holt-winters' | 'arima';
+
+export const STATISTICAL_MODELS: StatisticalModel[] = ['random-walk', 'drift', 'holt-winters', 'arima'];
+
+/**
+ * Statistical forecast options
+ */
+export interface StatisticalForecastOptions {
+  /** Horizons to forecast (default: all FORECAST_HORIZONS) */
+  horizons?: ForecastData['horizon'][];
+  /** Confidence interval in percent for priceRange (80, 90, 95 or 99) */
+  confidenceInterval?: number;
+  /** Price percentage changes are measured from (default: last close) */
+  currentPrice?: number;
+}
+
+/**
+ * Forecast of the log price a number of steps ahead
+ */
+export interface LogPriceForecast {
+  /** Expected log price */
+  mean: number;
+  /** Forecast error variance of the log price */
+  variance: number;
+}
+
+/**
+ * Model fitted to a log price series
+ */
+export interface FittedModel {
+  /** Forecast the log price a number of steps after the last observation */
+  predict(steps: number): LogPriceForecast;
+  /** Fitted parameters for the methodology note */
+  description: string;
+}
+
+/**
+ * Pluggable forecaster
+ */
+export interface Forecaster {
+  readonly model: string;
+  readonly name: string;
+  /**
+   * Fit the model on historical closes and forecast each horizon
+   *
+   * @param history - Historical data (daily, weekly or monthly bars)
+   * @param options - Forecast options
+   * @returns Forecasts ordered by horizon
+   * @throws Error when the interval is unsupported or there are too few closes
+   */
+  forecast(history: HistoricalData, options?: StatisticalForecastOptions): ForecastData[];
+}
+
+const STATISTICAL_CONFIG = FORECASTING_CONFIG.STATISTICAL;
+
+/**
+ * Base forecaster: prepares the log price series and turns model output
+ * into ForecastData
+ */
+export abstract class BaseForecaster implements Forecaster {
+  abstract readonly model: string;
+  abstract readonly name: string;
+
+  /**
+   * Fit the model to a log price series
+   *
+   * @param series - Log closes, oldest first
+   * @param seasonalPeriod - Steps per seasonal cycle (0 when not seasonal)
+   */
+  protected abstract fit(series: number[], seasonalPeriod: number): FittedModel;
+
+  forecast(history: HistoricalData, options: StatisticalForecastOptions = {}): ForecastData[] {
+    const consensusConfig = FORECASTING_CONFIG.MARKET_CONSENSUS;
+    const { confidenceInterval = consensusConfig.CONFIDENCE_INTERVAL } = options;
+
+    const stepsPerMonth = STATISTICAL_CONFIG.STEPS_PER_MONTH[history.interval];
+    if (!stepsPerMonth) {
+      throw new Error(`Unsupported interval for statistical forecasts: ${history.interval}. Use one of ${Object.keys(STATISTICAL_CONFIG.STEPS_PER_MONTH).join(', ')}`);
+    }
+
+    const bars = history.prices.filter(point => point.close !== null && point.close > 0);
+    if (bars.length < STATISTICAL_CONFIG.MIN_OBSERVATIONS) {
+      throw new Error(`${this.name} needs at least ${STATISTICAL_CONFIG.MIN_OBSERVATIONS} closes, got ${bars.length}`);
+    }
+
+    const lastBar = bars[bars.length - 1]!;
+    const currentPrice = options.currentPrice ?? lastBar.close!;
+    const fitted = this.fit(bars.map(point => Math.log(point.close!)), STATISTICAL_CONFIG.SEASONAL_PERIODS[history.interval] ?? 0);
+    const zScore = consensusConfig.Z_SCORES[confidenceInterval] ?? consensusConfig.Z_SCORES[95] ?? 1.96;
+
+    const horizonConfigs = options.horizons && options.horizons.length > 0
+      ? FORECAST_HORIZONS.filter(h => options.horizons!.includes(h.key))
+      : [...FORECAST_HORIZONS];
+
+    return horizonConfigs.map(horizonConfig => {
+      const steps = Math.max(1, Math.round(horizonConfig.months * stepsPerMonth));
+      const { mean, variance } = fitted.predict(steps);
+      const spread = zScore * Math.sqrt(Math.max(variance, 0));
+
+      const forecastPrice = round(Math.exp(mean));
+      const low = round(Math.exp(mean - spread));
+      const high = round(Math.exp(mean + spread));
+
+      // Narrower relative ranges translate into higher confidence
+      const relativeHalfWidth = (high - low) / (2 * forecastPrice);
+      const confidenceLevel = Math.max(consensusConfig.MIN_CONFIDENCE_LEVEL, Math.round((1 - relativeHalfWidth) * 100));
+
+      const end = new Date(lastBar.date);
+      end.setUTCMonth(end.getUTCMonth() + horizonConfig.months);
+
+      return {
+        horizon: horizonConfig.key,
+        forecastPrice,
+        currency: history.meta?.currency || 'USD',
+        confidenceLevel,
+        dateRange: {
+          start: new Date(lastBar.date).toISOString(),
+          end: end.toISOString()
+        },
+        priceRange: { low, high },
+        percentageChange: round(((forecastPrice - currentPrice) / currentPrice) * 100),
+        sources: [{
+          name: `Yahoo Finance price history (${bars.length} ${history.interval} closes)`,
+          url: `https://finance.yahoo.com/quote/${history.symbol}/history`,
+          date: new Date(lastBar.date).toISOString(),
+          reliability: 'medium'
+        }],
+        methodology: `${this.name} (${fitted.description}; ${confidenceInterval}% interval over ${steps} steps)`
+      };
+    });
+  }
+}
+
+/**
+ * Random walk: the last close is the forecast
+ */
+export class RandomWalkForecaster extends BaseForecaster {
+  readonly model = 'random-walk';
+  readonly name = 'Random walk';
+
+  protected fit(series: number[]): FittedModel {
+    const changes = differences(series);
+    const variance = changes.reduce((sum, change) => sum + change * change, 0) / changes.length;
+    const last = series[series.length - 1]!;
+
+    return {
+      predict: steps => ({ mean: last, variance: variance * steps }),
+      description: `σ=${Math.sqrt(variance).toFixed(4)} per step`
+    };
+  }
+}
+
+/**
+ * Random walk with drift: the last close plus the mean historical change
+ */
+export class DriftForecaster extends BaseForecaster {
+  readonly model = 'drift';
+  readonly name = 'Random walk with drift';
+
+  protected fit(series: number[]): FittedModel {
+    const changes = differences(series);
+    const drift = changes.reduce((sum, change) => sum + change, 0) / changes.length;
+    const variance = changes.reduce((sum, change) => sum + (change - drift) ** 2, 0) / Math.max(1, changes.length - 1);
+    const last = series[series.length - 1]!;
+
+    return {
+      // Variance includes the uncertainty of the estimated drift
+      predict: steps => ({ mean: last + drift * steps, variance: variance * steps * (1 + steps / changes.length) }),
+      description: `drift=${drift.toFixed(5)}, σ=${Math.sqrt(variance).toFixed(4)} per step`
+    };
+  }
+}
+
+/**
+ * Holt-Winters additive exponential smoothing with damped trend
+ *
+ * Seasonality is used when the interval has a seasonal period and the
+ * series covers at least two cycles. Smoothing parameters are chosen from
+ * STATISTICAL.SMOOTHING_GRID by one-step-ahead squared error.
+ */
+export class HoltWintersForecaster extends BaseForecaster {
+  readonly model = 'holt-winters';
+  readonly name = 'Holt-Winters exponential smoothing';
+
+  protected fit(series: number[], seasonalPeriod: number): FittedModel {
+    const period = seasonalPeriod > 1 && series.length >= 2 * seasonalPeriod ? seasonalPeriod : 0;
+    const grid = STATISTICAL_CONFIG.SMOOTHING_GRID;
+    let best: (HoltWintersState & { alpha: number; beta: number; phi: number; gamma: number }) | null = null;
+
+    for (const alpha of grid.ALPHA) {
+      for (const beta of grid.BETA) {
+        for (const phi of grid.PHI) {
+          for (const gamma of period > 0 ? grid.GAMMA : [0]) {
+            // Keep the error-correction parameters inside the usual admissible region
+            if (beta > alpha || gamma > 1 - alpha) {
+              continue;
+            }
+
+            const state = runHoltWinters(series, period, alpha, beta, phi, gamma);
+            if (!best || state.sse < best.sse) {
+              best = { ...state, alpha, beta, phi, gamma };
+            }
+          }
+        }
+      }
+    }
+
+    const { alpha, beta, phi, gamma, level, trend, seasonals, sse, count } = best!;
+    const variance = sse / count;
+    const last = series.length - 1;
+
+    return {
+      predict: steps => {
+        let dampedSum = 0;
+        let damping = 1;
+        let varianceFactor = 1;
+
+        for (let j = 1; j <= steps; j++) {
+          damping *= phi;
+          dampedSum += damping;
+          if (j < steps) {
+            // Forecast error weights for class 1 ETS models: α + βφ_j + γ (on seasonal lags)
+            const weight = alpha + beta * dampedSum + (period > 0 && j % period === 0 ? gamma : 0);
+            varianceFactor += weight * weight;
+          }
+        }
+
+        const seasonal = period > 0 ? seasonals[(last + steps) % period]! : 0;
+        return { mean: level + dampedSum * trend + seasonal, variance: variance * varianceFactor };
+      },
+      description: `α=${alpha}, β=${beta}, φ=${phi}` + (period > 0 ? `, γ=${gamma}, period ${period}` : '')
+    };
+  }
+}
+
+/**
+ * ARIMA(p,1,0) with constant: an autoregression on period-over-period
+ * changes, fitted by least squares with p up to STATISTICAL.MAX_AR_ORDER
+ * chosen by AIC
+ */
+export class ArimaForecaster extends BaseForecaster {
+  readonly model = 'arima';
+  readonly name = 'ARIMA';
+
+  protected fit(series: number[]): FittedModel {
+    const changes = differences(series);
+    const maxOrder = Math.min(STATISTICAL_CONFIG.MAX_AR_ORDER, Math.floor(changes.length / 10));
+    let best: { order: number; constant: number; coefficients: number[]; variance: number; aic: number } | null = null;
+
+    for (let order = 0; order <= maxOrder; order++) {
+      // Same sample for every order so AIC values are comparable
+      const rows: number[][] = [];
+      const targets: number[] = [];
+      for (let t = maxOrder; t < changes.length; t++) {
+        rows.push([1, ...Array.from({ length: order }, (_, i) => changes[t - i - 1]!)]);
+        targets.push(changes[t]!);
+      }
+
+      const solution = solveLeastSquares(rows, targets);
+      if (!solution) {
+        continue;
+      }
+
+      const [constant, ...coefficients] = solution;
+      // Skip clearly non-stationary fits, whose forecasts would explode
+      if (coefficients.reduce((sum, coefficient) => sum + Math.abs(coefficient), 0) >= 1) {
+        continue;
+      }
+
+      const sse = targets.reduce((sum, target, i) => {
+        const fittedValue = rows[i]!.reduce((acc, value, k) => acc + value * solution[k]!, 0);
+        return sum + (target - fittedValue) ** 2;
+      }, 0);
+      const variance = sse / targets.length;
+      const aic = targets.length * Math.log(Math.max(variance, Number.MIN_VALUE)) + 2 * (order + 1);
+
+      if (!best || aic < best.aic) {
+        best = { order, constant: constant!, coefficients, variance, aic };
+      }
+    }
+
+    if (!best) {
+      throw new Error('ARIMA could not be fitted to the price history');
+    }
+
+    const { order, constant, coefficients, variance } = best;
+    const last = series[series.length - 1]!;
+    const recentChanges = changes.slice(changes.length - order).reverse();
+
+    return {
+      predict: steps => {
+        const lagged = [...recentChanges];
+        const psi = [1];
+        let mean = last;
+        let cumulativePsi = 0;
+        let varianceFactor = 0;
+
+        for (let j = 0; j < steps; j++) {
+          const change = constant + coefficients.reduce((sum, coefficient, i) => sum + coefficient * lagged[i]!, 0);
+          mean += change;
+          lagged.unshift(change);
+          lagged.length = order;
+
+          // Level forecast error weights are cumulative sums of the AR ψ weights
+          if (j > 0) {
+            psi.push(coefficients.reduce((sum, coefficient, i) => sum + (j - i - 1 >= 0 ? coefficient * psi[j - i - 1]! : 0), 0));
+          }
+          cumulativePsi += psi[j]!;
+          varianceFactor += cumulativePsi * cumulativePsi;
+        }
+
+        return { mean, variance: variance * varianceFactor };
+      },
+      description: `ARIMA(${order},1,0), constant=${constant.toFixed(5)}` +
+        (order > 0 ? `, AR=[${coefficients.map(coefficient => coefficient.toFixed(3)).join(', ')}]` : '')
+    };
+  }
+}
+
+/**
+ * Create a forecaster for a built-in model
+ *
+ * @param model - Model name (default: FORECASTING_CONFIG.STATISTICAL.DEFAULT_MODEL)
+ * @returns Forecaster instance
+ * @throws Error when the model is unknown
+ */
+export function createForecaster(model: StatisticalModel = STATISTICAL_CONFIG.DEFAULT_MODEL): Forecaster {
+  switch (model) {
+    case 'random-walk':
+      return new RandomWalkForecaster();
+    case 'drift':
+      return new DriftForecaster();
+    case 'holt-winters':
+      return new HoltWintersForecaster();
+    case 'arima':
+      return new ArimaForecaster();
+    default:
+      throw new Error(`Unknown statistical model: ${model}. Available: ${STATISTICAL_MODELS.join(', ')}`);
+  }
+}
+
+/**
+ * Holt-Winters state after a pass over the series
+ */
+interface HoltWintersState {
+  level: number;
+  trend: number;
+  /** Seasonal components indexed by time modulo the period */
+  seasonals: number[];
+  /** Sum of squared one-step-ahead errors */
+  sse: number;
+  /** Number of one-step-ahead errors */
+  count: number;
+}
+
+/**
+ * Run additive damped Holt-Winters (error-correction form) over a series
+ */
+function runHoltWinters(
+  series: number[],
+  period: number,
+  alpha: number,
+  beta: number,
+  phi: number,
+  gamma: number
+): HoltWintersState {
+  let level: number;
+  let trend: number;
+  let start: number;
+  const seasonals: number[] = [];
+
+  if (period > 0) {
+    // Initialize from the first two seasonal cycles
+    const firstCycle = mean(series.slice(0, period));
+    const secondCycle = mean(series.slice(period, 2 * period));
+    level = firstCycle;
+    trend = (secondCycle - firstCycle) / period;
+    for (let i = 0; i < period; i++) {
+      seasonals.push(series[i]! - firstCycle);
+    }
+    start = period;
+  } else {
+    level = series[0]!;
+    trend = mean(differences(series.slice(0, Math.min(series.length, 11))));
+    start = 1;
+  }
+
+  let sse = 0;
+  for (let t = start; t < series.length; t++) {
+    const seasonal = period > 0 ? seasonals[t % period]! : 0;
+    const error = series[t]! - (level + phi * trend + seasonal);
+
+    sse += error * error;
+    level = level + phi * trend + alpha * error;
+    trend = phi * trend + beta * error;
+    if (period > 0) {
+      seasonals[t % period] = seasonal + gamma * error;
+    }
+  }
+
+  return { level, trend, seasonals, sse, count: series.length - start };
+}
+
+/**
+ * Solve a least squares problem through the normal equations
+ * (null when the system is singular)
+ */
+function solveLeastSquares(rows: number[][], targets: number[]): number[] | null {
+  const size = rows[0]?.length ?? 0;
+  if (size === 0 || rows.length < size) {
+    return null;
+  }
+
+  // Augmented matrix [X'X | X'y]
+  const matrix = Array.from({ length: size }, (_, i) =>
+    [
+      ...Array.from({ length: size }, (_, j) => rows.reduce((sum, row) => sum + row[i]! * row[j]!, 0)),
+      rows.reduce((sum, row, k) => sum + row[i]! * targets[k]!, 0)
+    ]
+  );
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(matrix[row]![col]!) > Math.abs(matrix[pivot]![col]!)) {
+        pivot = row;
+      }
+    }
+    if (Math.abs(matrix[pivot]![col]!) < 1e-12) {
+      return null;
+    }
+    [matrix[col], matrix[pivot]] = [matrix[pivot]!, matrix[col]!];
+
+    for (let row = col + 1; row < size; row++) {
+      const factor = matrix[row]![col]! / matrix[col]![col]!;
+      for (let k = col; k <= size; k++) {
+        matrix[row]![k]! -= factor * matrix[col]![k]!;
+      }
+    }
+  }
+
+  const solution = new Array<number>(size).fill(0);
+  for (let row = size - 1; row >= 0; row--) {
+    let value = matrix[row]![size]!;
+    for (let k = row + 1; k < size; k++) {
+      value -= matrix[row]![k]! * solution[k]!;
+    }
+    solution[row] = value / matrix[row]![row]!;
+  }
+  return solution;
+}
+
+/**
+ * Period-over-period changes of a series
+ */
+function differences(series: number[]): number[] {
+  return series.slice(1).map((value, i) => value - series[i]!);
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,386 @@
+/**
+ * Technical Indicators Utility
+ *
+ * Indicators over HistoricalData.prices: SMA, EMA, RSI, MACD, Bollinger
+ * Bands, ATR and the 52-week range position, plus a snapshot of their latest
+ * values for CommodityAnalysis.
+ *
+ * Every series function returns one value per input bar, in the same order.
+ * parseHistoricalData keeps bars whose fields Yahoo Finance left empty and
+ * sets those fields to null, so a bar without the fields an indicator needs
+ * gets null and is skipped: windows and smoothing carry over to the next
+ * bar that has data. Values are also null until enough bars have been seen.
+ *
+ * @author Technical Indicators Module
+ * @version 1.0.0
+ */
+
+import { TECHNICAL_INDICATORS_CONFIG } from '../config/yahoo-finance';
+import { MovingAverageValue, TechnicalSnapshot } from '../types/commodity';
+import { HistoricalData, HistoricalPricePoint, YahooFinancePriceData } from '../types/yahoo-finance';
+
+/**
+ * MACD values for one bar
+ */
+export interface MacdPoint {
+  /** Fast EMA minus slow EMA */
+  macd: number | null;
+  /** EMA of the MACD line */
+  signal: number | null;
+  /** MACD minus signal */
+  histogram: number | null;
+}
+
+/**
+ * Bollinger Bands for one bar
+ */
+export interface BollingerPoint {
+  upper: number | null;
+  middle: number | null;
+  lower: number | null;
+}
+
+/**
+ * Technical snapshot options
+ */
+export interface TechnicalSnapshotOptions {
+  /** Quote with yearHigh/yearLow for the 52-week range (default: highs and lows of the last 52 weeks of history) */
+  quote?: Pick<YahooFinancePriceData, 'yearHigh' | 'yearLow'>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Simple moving average of closes
+ *
+ * @param prices - Price points in date order
+ * @param period - Closes per average
+ * @returns One value per bar
+ */
+export function calculateSMA(prices: HistoricalPricePoint[], period: number): Array<number | null> {
+  return smaOf(closesOf(prices), period);
+}
+
+/**
+ * Exponential moving average of closes, seeded with the SMA of the first period
+ *
+ * @param prices - Price points in date order
+ * @param period - EMA period (smoothing 2 / (period + 1))
+ * @returns One value per bar
+ */
+export function calculateEMA(prices: HistoricalPricePoint[], period: number): Array<number | null> {
+  return emaOf(closesOf(prices), period);
+}
+
+/**
+ * Relative Strength Index with Wilder smoothing
+ *
+ * @param prices - Price points in date order
+ * @param period - RSI period (default: TECHNICAL_INDICATORS_CONFIG.RSI_PERIOD)
+ * @returns One value per bar (0-100)
+ */
+export function calculateRSI(
+  prices: HistoricalPricePoint[],
+  period: number = TECHNICAL_INDICATORS_CONFIG.RSI_PERIOD
+): Array<number | null> {
+  requirePeriod(period);
+
+  let previousClose: number | null = null;
+  let averageGain = 0;
+  let averageLoss = 0;
+  let changes = 0;
+
+  return closesOf(prices).map(close => {
+    if (close === null) {
+      return null;
+    }
+    if (previousClose === null) {
+      previousClose = close;
+      return null;
+    }
+
+    const change: number = close - previousClose;
+    previousClose = close;
+    changes++;
+
+    const gain = Math.max(change, 0);
+    const loss = Math.max(-change, 0);
+    if (changes <= period) {
+      // Plain average over the first period, Wilder smoothing afterwards
+      averageGain += gain / period;
+      averageLoss += loss / period;
+      if (changes < period) {
+        return null;
+      }
+    } else {
+      averageGain = (averageGain * (period - 1) + gain) / period;
+      averageLoss = (averageLoss * (period - 1) + loss) / period;
+    }
+
+    if (averageLoss === 0) {
+      return averageGain === 0 ? 50 : 100;
+    }
+    return 100 - 100 / (1 + averageGain / averageLoss);
+  });
+}
+
+/**
+ * Moving Average Convergence Divergence
+ *
+ * @param prices - Price points in date order
+ * @param fast - Fast EMA period (default: MACD.FAST)
+ * @param slow - Slow EMA period (default: MACD.SLOW)
+ * @param signal - Signal EMA period (default: MACD.SIGNAL)
+ * @returns One value per bar
+ */
+export function calculateMACD(
+  prices: HistoricalPricePoint[],
+  fast: number = TECHNICAL_INDICATORS_CONFIG.MACD.FAST,
+  slow: number = TECHNICAL_INDICATORS_CONFIG.MACD.SLOW,
+  signal: number = TECHNICAL_INDICATORS_CONFIG.MACD.SIGNAL
+): MacdPoint[] {
+  if (fast >= slow) {
+    throw new Error(`MACD fast period (${fast}) must be shorter than the slow period (${slow})`);
+  }
+
+  const closes = closesOf(prices);
+  const fastEma = emaOf(closes, fast);
+  const slowEma = emaOf(closes, slow);
+  const macdLine = closes.map((_, i) => (fastEma[i] != null && slowEma[i] != null ? fastEma[i]! - slowEma[i]! : null));
+  const signalLine = emaOf(macdLine, signal);
+
+  return macdLine.map((macd, i) => ({
+    macd,
+    signal: signalLine[i] ?? null,
+    histogram: macd !== null && signalLine[i] != null ? macd - signalLine[i]! : null
+  }));
+}
+
+/**
+ * Bollinger Bands: SMA plus and minus a multiple of the closes' standard deviation
+ *
+ * @param prices - Price points in date order
+ * @param period - Closes per band (default: BOLLINGER.PERIOD)
+ * @param stdDev - Band width in standard deviations (default: BOLLINGER.STD_DEV)
+ * @returns One value per bar
+ */
+export function calculateBollingerBands(
+  prices: HistoricalPricePoint[],
+  period: number = TECHNICAL_INDICATORS_CONFIG.BOLLINGER.PERIOD,
+  stdDev: number = TECHNICAL_INDICATORS_CONFIG.BOLLINGER.STD_DEV
+): BollingerPoint[] {
+  requirePeriod(period);
+
+  const window: number[] = [];
+  return closesOf(prices).map(close => {
+    if (close === null) {
+      return { upper: null, middle: null, lower: null };
+    }
+    window.push(close);
+    if (window.length > period) {
+      window.shift();
+    }
+    if (window.length < period) {
+      return { upper: null, middle: null, lower: null };
+    }
+
+    const middle = window.reduce((sum, value) => sum + value, 0) / period;
+    const deviation = Math.sqrt(window.reduce((sum, value) => sum + (value - middle) ** 2, 0) / period);
+    return { upper: middle + stdDev * deviation, middle, lower: middle - stdDev * deviation };
+  });
+}
+
+/**
+ * Average True Range with Wilder smoothing
+ *
+ * @param prices - Price points in date order
+ * @param period - ATR period (default: TECHNICAL_INDICATORS_CONFIG.ATR_PERIOD)
+ * @returns One value per bar (price units)
+ */
+export function calculateATR(
+  prices: HistoricalPricePoint[],
+  period: number = TECHNICAL_INDICATORS_CONFIG.ATR_PERIOD
+): Array<number | null> {
+  requirePeriod(period);
+
+  let previousClose: number | null = null;
+  let atr = 0;
+  let ranges = 0;
+
+  return prices.map(point => {
+    if (point.high === null || point.low === null || point.close === null) {
+      return null;
+    }
+
+    // The first bar has no previous close, so its true range is its high-low range
+    const trueRange = previousClose === null
+      ? point.high - point.low
+      : Math.max(point.high - point.low, Math.abs(point.high - previousClose), Math.abs(point.low - previousClose));
+    previousClose = point.close;
+    ranges++;
+
+    if (ranges <= period) {
+      atr += trueRange / period;
+      return ranges === period ? atr : null;
+    }
+    atr = (atr * (period - 1) + trueRange) / period;
+    return atr;
+  });
+}
+
+/**
+ * Position of a price within a range
+ *
+ * @param price - Price
+ * @param high - Range high (e.g., yearHigh)
+ * @param low - Range low (e.g., yearLow)
+ * @returns 0 at the low, 1 at the high (null for an empty range)
+ */
+export function calculateRangePosition(price: number, high: number, low: number): number | null {
+  if (!(high > low)) {
+    return null;
+  }
+  return (price - low) / (high - low);
+}
+
+/**
+ * Latest indicator values
+ *
+ * @param history - Daily price history
+ * @param options - Snapshot options
+ * @returns Technical snapshot
+ * @throws Error when the history has no close
+ */
+export function createTechnicalSnapshot(history: HistoricalData, options: TechnicalSnapshotOptions = {}): TechnicalSnapshot {
+  const config = TECHNICAL_INDICATORS_CONFIG;
+  const prices = history.prices;
+  const lastIndex = findLastIndex(prices, point => point.close !== null);
+  if (lastIndex < 0) {
+    throw new Error(`No closes in ${history.symbol} history`);
+  }
+
+  const last = prices[lastIndex]!;
+  const price = last.close!;
+  const at = <T>(series: T[]): T => series[lastIndex]!;
+  const distance = (value: number | null) => (value === null ? null : (price - value) / value);
+
+  const movingAverages: MovingAverageValue[] = [
+    ...config.SMA_PERIODS.map(period => ({ type: 'SMA' as const, period, value: at(calculateSMA(prices, period)) })),
+    ...config.EMA_PERIODS.map(period => ({ type: 'EMA' as const, period, value: at(calculateEMA(prices, period)) }))
+  ].map(average => ({ ...average, priceDistance: distance(average.value) }));
+
+  const bands = at(calculateBollingerBands(prices));
+  // Bars without a high/low have no true range; carry the last ATR forward
+  const atrSeries = calculateATR(prices).slice(0, lastIndex + 1);
+  const atr = atrSeries[findLastIndex(atrSeries, value => value !== null)] ?? null;
+
+  return {
+    date: last.date,
+    price,
+    movingAverages,
+    rsi: { period: config.RSI_PERIOD, value: at(calculateRSI(prices)) },
+    macd: at(calculateMACD(prices)),
+    bollinger: {
+      period: config.BOLLINGER.PERIOD,
+      stdDev: config.BOLLINGER.STD_DEV,
+      ...bands,
+      percentB: bands.upper !== null && bands.lower !== null ? calculateRangePosition(price, bands.upper, bands.lower) : null
+    },
+    atr: { period: config.ATR_PERIOD, value: atr, percentOfPrice: atr === null ? null : atr / price },
+    yearRange: getYearRange(prices, price, last.date, options.quote)
+  };
+}
+
+/**
+ * 52-week range from the quote, or from the last 52 weeks of history
+ */
+function getYearRange(
+  prices: HistoricalPricePoint[],
+  price: number,
+  lastDate: string,
+  quote?: Pick<YahooFinancePriceData, 'yearHigh' | 'yearLow'>
+): TechnicalSnapshot['yearRange'] {
+  if (quote && quote.yearHigh > 0 && quote.yearLow > 0) {
+    return {
+      high: quote.yearHigh,
+      low: quote.yearLow,
+      position: calculateRangePosition(price, quote.yearHigh, quote.yearLow),
+      source: 'quote'
+    };
+  }
+
+  const since = new Date(new Date(lastDate).getTime() - 52 * 7 * DAY_MS).toISOString().split('T')[0]!;
+  const recent = prices.filter(point => point.date >= since);
+  const highs = recent.map(point => point.high ?? point.close).filter((value): value is number => value !== null);
+  const lows = recent.map(point => point.low ?? point.close).filter((value): value is number => value !== null);
+  if (highs.length === 0 || lows.length === 0) {
+    return null;
+  }
+
+  const high = Math.max(...highs);
+  const low = Math.min(...lows);
+  return { high, low, position: calculateRangePosition(price, high, low), source: 'history' };
+}
+
+function closesOf(prices: HistoricalPricePoint[]): Array<number | null> {
+  return prices.map(point => point.close);
+}
+
+function smaOf(values: Array<number | null>, period: number): Array<number | null> {
+  requirePeriod(period);
+
+  const window: number[] = [];
+  let sum = 0;
+  return values.map(value => {
+    if (value === null) {
+      return null;
+    }
+    window.push(value);
+    sum += value;
+    if (window.length > period) {
+      sum -= window.shift()!;
+    }
+    return window.length === period ? sum / period : null;
+  });
+}
+
+function emaOf(values: Array<number | null>, period: number): Array<number | null> {
+  requirePeriod(period);
+
+  const smoothing = 2 / (period + 1);
+  let ema: number | null = null;
+  let seedSum = 0;
+  let seen = 0;
+
+  return values.map(value => {
+    if (value === null) {
+      return null;
+    }
+    if (ema === null) {
+      seedSum += value;
+      seen++;
+      if (seen < period) {
+        return null;
+      }
+      ema = seedSum / period;
+      return ema;
+    }
+    ema = value * smoothing + ema * (1 - smoothing);
+    return ema;
+  });
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i]!)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function requirePeriod(period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`Indicator period must be a positive integer, got ${period}`);
+  }
+}
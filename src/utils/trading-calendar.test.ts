@@ -0,0 +1,82 @@
+import { FuturesMapper } from './futures-mapper';
+import {
+  addBusinessDays,
+  countBusinessDays,
+  getExchangeHolidays,
+  getLastBusinessDay,
+  getNthBusinessDay,
+  isBusinessDay,
+  rollToBusinessDay
+} from './trading-calendar';
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+function ymd(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+describe('trading calendar', () => {
+  it('generates the 2026 CME holidays with weekend observance', () => {
+    expect(getExchangeHolidays('NYMEX', 2026)).toEqual([
+      { date: '2026-01-01', name: "New Year's Day" },
+      { date: '2026-01-19', name: 'Martin Luther King Jr. Day' },
+      { date: '2026-02-16', name: "Presidents' Day" },
+      { date: '2026-04-03', name: 'Good Friday' },
+      { date: '2026-05-25', name: 'Memorial Day' },
+      { date: '2026-06-19', name: 'Juneteenth' },
+      { date: '2026-07-03', name: 'Independence Day' },
+      { date: '2026-09-07', name: 'Labor Day' },
+      { date: '2026-11-26', name: 'Thanksgiving Day' },
+      { date: '2026-12-25', name: 'Christmas Day' }
+    ]);
+  });
+
+  it('skips a Saturday New Year and Juneteenth before 2022', () => {
+    const holidays2022 = getExchangeHolidays('CME', 2022).map(holiday => holiday.date);
+    expect(holidays2022).not.toContain('2021-12-31');
+    expect(holidays2022[0]).toBe('2022-01-17');
+    expect(getExchangeHolidays('CME', 2021).some(holiday => holiday.name === 'Juneteenth')).toBe(false);
+  });
+
+  it('substitutes the next free weekday for ICE Futures Europe', () => {
+    const dates = getExchangeHolidays('ICE_EUROPE', 2022).map(holiday => holiday.date);
+    // Christmas falls on a Sunday: Monday and Tuesday are both closed
+    expect(dates).toEqual(['2022-01-03', '2022-04-15', '2022-04-18', '2022-12-26', '2022-12-27']);
+  });
+
+  it('does business-day arithmetic around holidays and weekends', () => {
+    expect(isBusinessDay('NYMEX', new Date(2026, 10, 26))).toBe(false);
+    expect(isBusinessDay('NYMEX', new Date(2026, 10, 27))).toBe(true);
+    expect(isBusinessDay('NYMEX', new Date(2026, 10, 28))).toBe(false);
+
+    expect(ymd(addBusinessDays('NYMEX', new Date(2026, 10, 25), 1))).toBe('2026-11-27');
+    expect(ymd(addBusinessDays('NYMEX', new Date(2026, 3, 6), -1))).toBe('2026-04-02');
+    expect(ymd(rollToBusinessDay('NYMEX', new Date(2026, 6, 4), 'following'))).toBe('2026-07-06');
+    expect(ymd(getLastBusinessDay('NYMEX', 2026, 11))).toBe('2026-12-31');
+    expect(ymd(getNthBusinessDay('CME', 2026, 0, 1))).toBe('2026-01-02');
+    expect(countBusinessDays('NYMEX', new Date(2026, 11, 24), new Date(2026, 11, 31))).toBe(4);
+    expect(countBusinessDays('NYMEX', new Date(2026, 11, 31), new Date(2026, 11, 24))).toBe(-4);
+  });
+});
+
+describe('contract expirations', () => {
+  it.each([
+    // 25th of the prior month is a business day: 3 business days before it
+    ['CL', 'JAN', 2026, '2025-12-19'],
+    // 25th is a Sunday: roll back to Friday the 23rd, then 3 business days
+    ['CL', 'FEB', 2026, '2026-01-20'],
+    ['CL', 'MAY', 2026, '2026-04-21'],
+    // 3 business days before the first of the month, skipping New Year's Day
+    ['NG', 'JAN', 2026, '2025-12-29'],
+    ['NG', 'FEB', 2026, '2026-01-28'],
+    ['GC', 'DEC', 2026, '2026-12-29'],
+    ['BZ', 'MAR', 2026, '2026-01-30']
+  ])('%s %s %i expires on %s', (symbol, month, year, expected) => {
+    expect(ymd(FuturesMapper.calculateExpirationDate(symbol, month, year))).toBe(expected);
+  });
+
+  it('rejects unknown contract months', () => {
+    expect(() => FuturesMapper.calculateExpirationDate('CL', 'XYZ', 2026)).toThrow(/Invalid contract month/);
+  });
+});
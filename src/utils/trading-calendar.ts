@@ -0,0 +1,329 @@
+/**
+ * Trading Calendar Utility
+ *
+ * Exchange holiday tables and business-day arithmetic for futures expiration
+ * rules. Holidays are generated per year from rules (fixed dates with their
+ * weekend observance, nth weekdays and Easter offsets), so any year can be
+ * evaluated:
+ * - CME Group (NYMEX, COMEX, CBOT, CME) and ICE Futures U.S. (ICE) close on
+ *   the US exchange holidays, including Good Friday and, from 2022, Juneteenth
+ * - ICE Futures Europe (ICE_EUROPE, Brent) closes on the English holidays it
+ *   observes: New Year's Day, Good Friday, Easter Monday, Christmas and Boxing Day
+ *
+ * A business day is a weekday that is not an exchange holiday. Dates are
+ * calendar dates in local time (midnight), like FuturesMapper's expiration
+ * dates; the time of day of an input date is ignored.
+ *
+ * @author Trading Calendar Module
+ * @version 1.0.0
+ */
+
+/**
+ * Exchange calendars
+ */
+export type TradingCalendarId = 'NYMEX' | 'COMEX' | 'CBOT' | 'CME' | 'ICE' | 'ICE_EUROPE';
+
+export const TRADING_CALENDARS: TradingCalendarId[] = ['NYMEX', 'COMEX', 'CBOT', 'CME', 'ICE', 'ICE_EUROPE'];
+
+/**
+ * How a fixed-date holiday that falls on a weekend is observed
+ * - nearest-weekday: Saturday moves to Friday, Sunday to Monday (US)
+ * - sunday-to-monday: Sunday moves to Monday, Saturday is not observed (US New Year's Day)
+ * - next-weekday: the next weekday not already a holiday (UK substitute days)
+ */
+export type HolidayObservance = 'nearest-weekday' | 'sunday-to-monday' | 'next-weekday';
+
+/**
+ * Rule generating one holiday per year
+ */
+export type HolidayRule =
+  | { name: string; type: 'fixed'; month: number; day: number; observance: HolidayObservance; since?: number }
+  | { name: string; type: 'nth-weekday'; month: number; weekday: number; n: number }
+  | { name: string; type: 'easter'; offset: number };
+
+/**
+ * Exchange holiday on a specific date
+ */
+export interface ExchangeHoliday {
+  /** Observed date (YYYY-MM-DD) */
+  date: string;
+  name: string;
+}
+
+/**
+ * Business day convention for dates that are not business days
+ */
+export type BusinessDayConvention = 'preceding' | 'following';
+
+/**
+ * US exchange holidays (months are 0-based, weekday 0 is Sunday, n = -1 is the last)
+ */
+const US_EXCHANGE_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", type: 'fixed', month: 0, day: 1, observance: 'sunday-to-monday' },
+  { name: 'Martin Luther King Jr. Day', type: 'nth-weekday', month: 0, weekday: 1, n: 3 },
+  { name: "Presidents' Day", type: 'nth-weekday', month: 1, weekday: 1, n: 3 },
+  { name: 'Good Friday', type: 'easter', offset: -2 },
+  { name: 'Memorial Day', type: 'nth-weekday', month: 4, weekday: 1, n: -1 },
+  { name: 'Juneteenth', type: 'fixed', month: 5, day: 19, observance: 'nearest-weekday', since: 2022 },
+  { name: 'Independence Day', type: 'fixed', month: 6, day: 4, observance: 'nearest-weekday' },
+  { name: 'Labor Day', type: 'nth-weekday', month: 8, weekday: 1, n: 1 },
+  { name: 'Thanksgiving Day', type: 'nth-weekday', month: 10, weekday: 4, n: 4 },
+  { name: 'Christmas Day', type: 'fixed', month: 11, day: 25, observance: 'nearest-weekday' }
+];
+
+/**
+ * ICE Futures Europe holidays
+ */
+const UK_EXCHANGE_HOLIDAYS: HolidayRule[] = [
+  { name: "New Year's Day", type: 'fixed', month: 0, day: 1, observance: 'next-weekday' },
+  { name: 'Good Friday', type: 'easter', offset: -2 },
+  { name: 'Easter Monday', type: 'easter', offset: 1 },
+  { name: 'Christmas Day', type: 'fixed', month: 11, day: 25, observance: 'next-weekday' },
+  { name: 'Boxing Day', type: 'fixed', month: 11, day: 26, observance: 'next-weekday' }
+];
+
+/**
+ * Holiday tables by exchange calendar
+ */
+export const EXCHANGE_HOLIDAY_RULES: Record<TradingCalendarId, HolidayRule[]> = {
+  NYMEX: US_EXCHANGE_HOLIDAYS,
+  COMEX: US_EXCHANGE_HOLIDAYS,
+  CBOT: US_EXCHANGE_HOLIDAYS,
+  CME: US_EXCHANGE_HOLIDAYS,
+  ICE: US_EXCHANGE_HOLIDAYS,
+  ICE_EUROPE: UK_EXCHANGE_HOLIDAYS
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const holidayCache = new Map<string, ExchangeHoliday[]>();
+
+/**
+ * Holidays an exchange observes in a year
+ *
+ * @param calendar - Exchange calendar
+ * @param year - Calendar year
+ * @returns Holidays in date order
+ */
+export function getExchangeHolidays(calendar: TradingCalendarId, year: number): ExchangeHoliday[] {
+  const cacheKey = `${calendar}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) {
+    return cached;
+  }
+
+  const holidays: ExchangeHoliday[] = [];
+  const taken = (date: Date): boolean => holidays.some(holiday => holiday.date === toDateKey(date));
+
+  for (const rule of EXCHANGE_HOLIDAY_RULES[calendar]) {
+    let date: Date | null;
+    switch (rule.type) {
+      case 'fixed':
+        date = rule.since !== undefined && year < rule.since ? null : observe(new Date(year, rule.month, rule.day), rule.observance, taken);
+        break;
+      case 'nth-weekday':
+        date = getNthWeekday(year, rule.month, rule.weekday, rule.n);
+        break;
+      case 'easter': {
+        date = getEasterSunday(year);
+        date.setDate(date.getDate() + rule.offset);
+        break;
+      }
+    }
+    if (date) {
+      holidays.push({ date: toDateKey(date), name: rule.name });
+    }
+  }
+
+  holidays.sort((a, b) => a.date.localeCompare(b.date));
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+/**
+ * Check whether a date is an exchange holiday
+ *
+ * @param calendar - Exchange calendar
+ * @param date - Date to check
+ * @returns The holiday, or null
+ */
+export function getExchangeHoliday(calendar: TradingCalendarId, date: Date): ExchangeHoliday | null {
+  const key = toDateKey(date);
+  return getExchangeHolidays(calendar, date.getFullYear()).find(holiday => holiday.date === key) ?? null;
+}
+
+/**
+ * Check whether an exchange is open for business on a date
+ *
+ * @param calendar - Exchange calendar
+ * @param date - Date to check
+ * @returns True for weekdays that are not exchange holidays
+ */
+export function isBusinessDay(calendar: TradingCalendarId, date: Date): boolean {
+  const weekday = date.getDay();
+  return weekday !== 0 && weekday !== 6 && getExchangeHoliday(calendar, date) === null;
+}
+
+/**
+ * Move a date by a number of business days
+ *
+ * @param calendar - Exchange calendar
+ * @param date - Start date (need not be a business day)
+ * @param days - Business days to move; negative moves back, 0 returns the start date
+ * @returns Resulting date (midnight)
+ */
+export function addBusinessDays(calendar: TradingCalendarId, date: Date, days: number): Date {
+  const result = startOfDay(date);
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  while (remaining > 0) {
+    result.setDate(result.getDate() + step);
+    if (isBusinessDay(calendar, result)) {
+      remaining--;
+    }
+  }
+  return result;
+}
+
+/**
+ * Roll a date onto a business day
+ *
+ * @param calendar - Exchange calendar
+ * @param date - Date to roll
+ * @param convention - Roll back ('preceding') or forward ('following')
+ * @returns The date itself when it is a business day, otherwise the nearest business day in that direction
+ */
+export function rollToBusinessDay(calendar: TradingCalendarId, date: Date, convention: BusinessDayConvention): Date {
+  const result = startOfDay(date);
+  return isBusinessDay(calendar, result) ? result : addBusinessDays(calendar, result, convention === 'preceding' ? -1 : 1);
+}
+
+/**
+ * Last business day of a month
+ *
+ * @param calendar - Exchange calendar
+ * @param year - Calendar year
+ * @param month - Month (0-11)
+ * @returns Last business day
+ */
+export function getLastBusinessDay(calendar: TradingCalendarId, year: number, month: number): Date {
+  return rollToBusinessDay(calendar, new Date(year, month + 1, 0), 'preceding');
+}
+
+/**
+ * Nth business day of a month
+ *
+ * @param calendar - Exchange calendar
+ * @param year - Calendar year
+ * @param month - Month (0-11)
+ * @param n - Business day number (1 is the first)
+ * @returns Business day (may fall in the next month for large n)
+ */
+export function getNthBusinessDay(calendar: TradingCalendarId, year: number, month: number, n: number): Date {
+  if (!Number.isInteger(n) || n < 1) {
+    throw new Error(`Business day number must be a positive integer, got ${n}`);
+  }
+  return addBusinessDays(calendar, new Date(year, month, 0), n);
+}
+
+/**
+ * Count business days between two dates
+ *
+ * @param calendar - Exchange calendar
+ * @param from - Start date (excluded)
+ * @param to - End date (included)
+ * @returns Business days after `from` up to and including `to` (negative when `to` is earlier)
+ */
+export function countBusinessDays(calendar: TradingCalendarId, from: Date, to: Date): number {
+  const cursor = startOfDay(from);
+  const end = startOfDay(to);
+  if (end < cursor) {
+    return -countBusinessDays(calendar, end, cursor);
+  }
+
+  let count = 0;
+  while (cursor < end) {
+    cursor.setDate(cursor.getDate() + 1);
+    if (isBusinessDay(calendar, cursor)) {
+      count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Calendar days from one date to another, ignoring the time of day
+ *
+ * @param from - Start date
+ * @param to - End date
+ * @returns Whole days (0 on the same date, negative when `to` is earlier)
+ */
+export function getCalendarDaysBetween(from: Date, to: Date): number {
+  // Rounding absorbs the hour gained or lost across a DST change
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Apply a weekend observance to a fixed-date holiday
+ */
+function observe(date: Date, observance: HolidayObservance, taken: (date: Date) => boolean): Date | null {
+  const weekday = date.getDay();
+  const result = new Date(date);
+  switch (observance) {
+    case 'nearest-weekday':
+      if (weekday === 6) result.setDate(result.getDate() - 1);
+      if (weekday === 0) result.setDate(result.getDate() + 1);
+      return result;
+    case 'sunday-to-monday':
+      if (weekday === 6) return null;
+      if (weekday === 0) result.setDate(result.getDate() + 1);
+      return result;
+    case 'next-weekday':
+      while (result.getDay() === 0 || result.getDay() === 6 || taken(result)) {
+        result.setDate(result.getDate() + 1);
+      }
+      return result;
+  }
+}
+
+/**
+ * Nth weekday of a month (n = -1 for the last)
+ */
+function getNthWeekday(year: number, month: number, weekday: number, n: number): Date {
+  if (n < 0) {
+    const last = new Date(year, month + 1, 0);
+    last.setDate(last.getDate() - ((last.getDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(year, month, 1);
+  first.setDate(1 + ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7);
+  return first;
+}
+
+/**
+ * Western Easter Sunday (anonymous Gregorian algorithm)
+ */
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}